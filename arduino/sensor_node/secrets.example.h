@@ -8,9 +8,9 @@
 #define WIFI_SSID     "your-wifi-ssid"
 #define WIFI_PASSWORD "your-wifi-password"
 
-// Supabase configuration
-// Find these in your Supabase project: Settings -> API
-#define SUPABASE_URL      "https://your-project-id.supabase.co"
-#define SUPABASE_ANON_KEY "your-anon-key-here"
+// Ingest endpoint: your deployed web app, no trailing slash
+#define INGEST_URL     "https://your-app.vercel.app"
+// Per-device key from Dashboard > Manage Devices > Edit > Issue key
+#define DEVICE_API_KEY "dk_your-device-key-here"
 
 #endif
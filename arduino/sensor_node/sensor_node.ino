@@ -3,7 +3,10 @@
  *
  * Hardware: Arduino Uno R4 WiFi, DHT20 (I2C), 16x2 LCD (parallel)
  *
- * Reads sensor every 15s, averages over 3 minutes, POSTs average to Supabase.
+ * Reads sensor every 15s, averages over 3 minutes, and queues each average
+ * with its measurement time. Queued averages are POSTed as one batch to the
+ * web app's /api/ingest endpoint using this node's API key, so readings taken
+ * during a WiFi outage keep their original timestamps.
  * LCD shows current Fahrenheit reading; database stores Celsius.
  *
  * Setup: copy secrets.example.h → secrets.h, fill in credentials,
@@ -18,6 +21,12 @@
 #define DEVICE_ID "node1"
 #define READ_INTERVAL_MS 15000
 #define SEND_INTERVAL_MS 180000
+#define MAX_PENDING 40  // ~2h of 3-minute averages held during an outage
+#define CLOCK_RESYNC_MS 3600000  // re-read NTP hourly so millis() drift stays small
+
+#define SEND_OK 0
+#define SEND_REJECTED 1
+#define SEND_FAILED 2
 
 #define LCD_RS 12
 #define LCD_EN 11
@@ -32,8 +41,26 @@ WiFiSSLClient wifiClient;
 
 const int httpsPort = 443;
 
+struct PendingReading {
+  float tempC;
+  float humidity;
+  int sampleCount;
+  // Unix seconds once the clock is synced; millis() for averages queued
+  // before the first sync, converted by syncClock().
+  unsigned long measuredAt;
+  bool measuredAtIsEpoch;
+};
+
+PendingReading pending[MAX_PENDING];
+int pendingCount = 0;
+
+// Unix time (from NTP via WiFi.getTime()) at syncMillis; 0 until first sync.
+unsigned long syncEpoch = 0;
+unsigned long syncMillis = 0;
+
 unsigned long lastReadTime = 0;
-unsigned long lastSendTime = 0;
+unsigned long lastWindowTime = 0;
+unsigned long nextUploadTime = 0;
 int wifiStatus = WL_IDLE_STATUS;
 bool sensorOk = false;
 
@@ -82,6 +109,11 @@ void loop() {
     connectWiFi();
   }
 
+  if (WiFi.status() == WL_CONNECTED &&
+      (syncEpoch == 0 || millis() - syncMillis >= CLOCK_RESYNC_MS)) {
+    syncClock();
+  }
+
   unsigned long now = millis();
 
   if (now - lastReadTime >= READ_INTERVAL_MS) {
@@ -114,36 +146,90 @@ void loop() {
     Serial.println("%");
   }
 
-  if (now - lastSendTime >= SEND_INTERVAL_MS && readingCount > 0) {
-    float avgTempC = tempSum / readingCount;
-    float avgHumidity = humiditySum / readingCount;
+  if (now - lastWindowTime >= SEND_INTERVAL_MS && readingCount > 0) {
+    lastWindowTime = now;
+    queueWindow(now);
+  }
 
-    Serial.print(">> Sending average of ");
-    Serial.print(readingCount);
-    Serial.print(" readings | Avg Temp: ");
-    Serial.print(avgTempC, 2);
-    Serial.print("C, Avg Humidity: ");
-    Serial.print(avgHumidity, 2);
-    Serial.println("%");
+  if (pendingCount > 0 && (long)(now - nextUploadTime) >= 0) {
+    Serial.print(">> Sending ");
+    Serial.print(pendingCount);
+    Serial.println(" queued reading(s)");
 
-    bool sent = sendToSupabase(avgTempC, avgHumidity);
-    Serial.println(sent ? ">> Sent OK" : ">> Send failed - retaining buffer");
+    int result = syncEpoch != 0 ? sendBatch() : SEND_FAILED;
+    Serial.println(result == SEND_OK ? ">> Sent OK" :
+                   result == SEND_REJECTED ? ">> Batch rejected - dropping queue" :
+                   ">> Send failed - retaining queue");
 
-    if (sent) {
-      tempSum = 0;
-      humiditySum = 0;
-      readingCount = 0;
-      lastSendTime = now;
+    // A rejected batch would be rejected again; drop it so later readings
+    // are not pushed out of the queue behind it.
+    if (result != SEND_FAILED) {
+      pendingCount = 0;
       consecutiveFailures = 0;
+      nextUploadTime = now;
     } else {
       consecutiveFailures++;
       // Back off: retry after 30s, 60s, 120s... capped at SEND_INTERVAL
       unsigned long backoff = min((unsigned long)30000 * consecutiveFailures, SEND_INTERVAL_MS);
-      lastSendTime = now - SEND_INTERVAL_MS + backoff;
+      nextUploadTime = now + backoff;
     }
   }
 }
 
+// Closes the current averaging window and queues it for upload. When the
+// queue is full the oldest average is dropped.
+void queueWindow(unsigned long now) {
+  if (pendingCount == MAX_PENDING) {
+    for (int i = 1; i < MAX_PENDING; i++) {
+      pending[i - 1] = pending[i];
+    }
+    pendingCount--;
+  }
+
+  PendingReading &entry = pending[pendingCount++];
+  entry.tempC = tempSum / readingCount;
+  entry.humidity = humiditySum / readingCount;
+  entry.sampleCount = readingCount;
+  entry.measuredAtIsEpoch = syncEpoch != 0;
+  entry.measuredAt = entry.measuredAtIsEpoch ? epochAt(now) : now;
+
+  Serial.print(">> Queued average of ");
+  Serial.print(readingCount);
+  Serial.print(" readings | Avg Temp: ");
+  Serial.print(entry.tempC, 2);
+  Serial.print("C, Avg Humidity: ");
+  Serial.print(entry.humidity, 2);
+  Serial.println("%");
+
+  tempSum = 0;
+  humiditySum = 0;
+  readingCount = 0;
+}
+
+void syncClock() {
+  unsigned long epoch = WiFi.getTime();
+  // getTime() returns 0 until NTP has answered.
+  if (epoch <= 1600000000UL) {
+    return;
+  }
+  syncEpoch = epoch;
+  syncMillis = millis();
+
+  // Averages queued before the first sync were taken before syncMillis.
+  for (int i = 0; i < pendingCount; i++) {
+    if (!pending[i].measuredAtIsEpoch) {
+      pending[i].measuredAt = syncEpoch - (syncMillis - pending[i].measuredAt) / 1000;
+      pending[i].measuredAtIsEpoch = true;
+    }
+  }
+}
+
+// atMillis must not precede syncMillis; loop() resyncs before reading millis(),
+// so the unsigned delta never wraps.
+unsigned long epochAt(unsigned long atMillis) {
+  return syncEpoch + (atMillis - syncMillis) / 1000;
+}
+
 void connectWiFi() {
   if (WiFi.status() == WL_NO_MODULE) {
     Serial.println("WiFi module not found!");
@@ -184,6 +270,7 @@ void connectWiFi() {
     lcd.print("WiFi Connected!");
     lcd.setCursor(0, 1);
     lcd.print(WiFi.localIP());
+    syncClock();
     delay(2000);
   } else {
     Serial.println();
@@ -195,8 +282,10 @@ void connectWiFi() {
   }
 }
 
-bool sendToSupabase(float tempC, float humidity) {
-  String host = String(SUPABASE_URL);
+// Returns SEND_OK when stored, SEND_REJECTED when the server refused the
+// payload itself (400/413/422: resending cannot help), SEND_FAILED otherwise.
+int sendBatch() {
+  String host = String(INGEST_URL);
   if (host.startsWith("https://")) {
     host = host.substring(8);
   }
@@ -207,23 +296,30 @@ bool sendToSupabase(float tempC, float humidity) {
 
   if (!wifiClient.connect(host.c_str(), httpsPort)) {
     Serial.println("Connection failed!");
-    return false;
+    return SEND_FAILED;
   }
 
   String payload = "{\"device_id\":\"";
   payload += DEVICE_ID;
-  payload += "\",\"temperature\":";
-  payload += String(tempC, 2);
-  payload += ",\"humidity\":";
-  payload += String(humidity, 2);
-  payload += "}";
+  payload += "\",\"readings\":[";
+  for (int i = 0; i < pendingCount; i++) {
+    if (i > 0) payload += ",";
+    payload += "{\"measured_at\":";
+    payload += String(pending[i].measuredAt);
+    payload += ",\"temperature\":";
+    payload += String(pending[i].tempC, 2);
+    payload += ",\"humidity\":";
+    payload += String(pending[i].humidity, 2);
+    payload += ",\"sample_count\":";
+    payload += String(pending[i].sampleCount);
+    payload += "}";
+  }
+  payload += "]}";
 
-  String request = "POST /rest/v1/readings HTTP/1.1\r\n";
+  String request = "POST /api/ingest HTTP/1.1\r\n";
   request += "Host: " + host + "\r\n";
   request += "Content-Type: application/json\r\n";
-  request += "apikey: " + String(SUPABASE_ANON_KEY) + "\r\n";
-  request += "Authorization: Bearer " + String(SUPABASE_ANON_KEY) + "\r\n";
-  request += "Prefer: return=minimal\r\n";
+  request += "Authorization: Bearer " + String(DEVICE_API_KEY) + "\r\n";
   request += "Content-Length: " + String(payload.length()) + "\r\n";
   request += "Connection: close\r\n";
   request += "\r\n";
@@ -236,7 +332,7 @@ bool sendToSupabase(float tempC, float humidity) {
     if (millis() - timeout > 10000) {
       Serial.println("Request timeout!");
       wifiClient.stop();
-      return false;
+      return SEND_FAILED;
     }
   }
 
@@ -244,16 +340,23 @@ bool sendToSupabase(float tempC, float humidity) {
   Serial.print("Response: ");
   Serial.println(statusLine);
 
-  bool success = statusLine.indexOf("200") > 0 ||
-                 statusLine.indexOf("201") > 0 ||
-                 statusLine.indexOf("204") > 0;
+  int result = SEND_FAILED;
+  if (statusLine.indexOf("200") > 0 ||
+      statusLine.indexOf("201") > 0 ||
+      statusLine.indexOf("204") > 0) {
+    result = SEND_OK;
+  } else if (statusLine.indexOf("400") > 0 ||
+             statusLine.indexOf("413") > 0 ||
+             statusLine.indexOf("422") > 0) {
+    result = SEND_REJECTED;
+  }
 
   while (wifiClient.available()) {
     wifiClient.read();
   }
 
   wifiClient.stop();
-  return success;
+  return result;
 }
 
 void displayReadings(float tempF, float humidity) {
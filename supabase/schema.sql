@@ -13,14 +13,16 @@ CREATE TABLE IF NOT EXISTS readings (
 CREATE INDEX IF NOT EXISTS idx_readings_device_time
   ON readings (device_id, created_at DESC);
 
+-- When the value was measured (device clock for batched uploads); created_at
+-- is when the row arrived. All time-range queries use measured_at.
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS measured_at TIMESTAMPTZ;
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS sample_count INT;
+
 ALTER TABLE readings ENABLE ROW LEVEL SECURITY;
 
--- Keep anon INSERT so device firmware can post directly.
+-- No anon INSERT: device firmware posts to /api/ingest with a per-device
+-- API key, and the route writes with the service role.
 DROP POLICY IF EXISTS "Allow anonymous insert" ON readings;
-CREATE POLICY "Allow anonymous insert" ON readings
-  FOR INSERT
-  TO anon
-  WITH CHECK (true);
 
 DROP POLICY IF EXISTS "Allow authenticated select" ON readings;
 CREATE POLICY "Allow authenticated select" ON readings
@@ -29,7 +31,7 @@ CREATE POLICY "Allow authenticated select" ON readings
   USING (auth.uid() IS NOT NULL);
 
 -- Only service_role (server-side) may delete readings; the
--- delete_deployment_cascade RPC uses SECURITY DEFINER for this.
+-- purge_deployment RPC uses SECURITY DEFINER for this.
 DROP POLICY IF EXISTS "Allow authenticated delete" ON readings;
 DROP POLICY IF EXISTS "Allow service_role delete" ON readings;
 CREATE POLICY "Allow service_role delete" ON readings
@@ -37,6 +39,94 @@ CREATE POLICY "Allow service_role delete" ON readings
   TO service_role
   USING (true);
 
+-- =========================================================================
+-- Roles: viewer (read dashboards, use chat), operator (also manage
+-- deployments, locations, templates, maintenance windows and incidents) and
+-- admin (also devices, settings, alert rules, notification channels, users,
+-- purges and the audit log). Users without a row are viewers; the first run
+-- of this section makes every existing user an admin so nobody is locked
+-- out of an install that predates roles.
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'operator', 'admin')),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO user_roles (user_id, role)
+SELECT u.id, 'admin'
+FROM auth.users u
+WHERE NOT EXISTS (SELECT 1 FROM user_roles)
+ON CONFLICT (user_id) DO NOTHING;
+
+-- The caller's role. Service-role requests (server routes, cron) act as admin.
+CREATE OR REPLACE FUNCTION app_role()
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.jwt() ->> 'role' = 'service_role' THEN 'admin'
+    ELSE COALESCE((SELECT role FROM public.user_roles WHERE user_id = auth.uid()), 'viewer')
+  END;
+$$;
+
+-- True when the caller's role is p_min or above.
+CREATE OR REPLACE FUNCTION has_role(p_min TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT array_position(ARRAY['viewer', 'operator', 'admin'], public.app_role())
+      >= array_position(ARRAY['viewer', 'operator', 'admin'], p_min);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.app_role() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.app_role() TO authenticated, service_role;
+
+REVOKE EXECUTE ON FUNCTION public.has_role(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_role(TEXT) TO authenticated, service_role;
+
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Users read their own role; admins read and change everyone's.
+DROP POLICY IF EXISTS "Allow users select own role" ON user_roles;
+CREATE POLICY "Allow users select own role" ON user_roles
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR has_role('admin'));
+
+DROP POLICY IF EXISTS "Allow admins write roles" ON user_roles;
+CREATE POLICY "Allow admins write roles" ON user_roles
+  FOR ALL
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+-- Invitations created by admins on /admin/users. Only the SHA-256 hash of
+-- the token is stored; the link is shown once. An invitation is single-use
+-- (accepted_at) and expires. Read and written only by service-role routes.
+CREATE TABLE IF NOT EXISTS user_invitations (
+  id BIGSERIAL PRIMARY KEY,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'operator', 'admin')),
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  accepted_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_invitations_email ON user_invitations (lower(email));
+
+-- RLS with no policies: only service_role can touch invitations.
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
+
 -- Deployment metadata used to group readings by place/time window.
 CREATE TABLE IF NOT EXISTS deployments (
   id BIGSERIAL PRIMARY KEY,
@@ -56,11 +146,18 @@ CREATE INDEX IF NOT EXISTS idx_deployments_time ON deployments (started_at, ende
 ALTER TABLE deployments ENABLE ROW LEVEL SECURITY;
 
 DROP POLICY IF EXISTS "Allow authenticated all" ON deployments;
-CREATE POLICY "Allow authenticated all" ON deployments
+DROP POLICY IF EXISTS "Allow authenticated select" ON deployments;
+CREATE POLICY "Allow authenticated select" ON deployments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow operators write" ON deployments;
+CREATE POLICY "Allow operators write" ON deployments
   FOR ALL
   TO authenticated
-  USING (auth.uid() IS NOT NULL)
-  WITH CHECK (auth.uid() IS NOT NULL);
+  USING (has_role('operator'))
+  WITH CHECK (has_role('operator'));
 
 -- Alert state for keepalive monitoring and email notifications.
 CREATE TABLE IF NOT EXISTS device_alert_state (
@@ -118,7 +215,7 @@ AS $$
     STDDEV_POP(humidity) AS humidity_stddev,
     COUNT(*) AS reading_count
   FROM public.readings r
-  WHERE r.created_at BETWEEN p_start AND p_end
+  WHERE r.measured_at BETWEEN p_start AND p_end
     AND (p_device_id IS NULL OR r.device_id = p_device_id)
   GROUP BY r.device_id;
 $$;
@@ -141,14 +238,14 @@ SET search_path = public
 AS $$
   SELECT
     TO_TIMESTAMP(
-      FLOOR(EXTRACT(EPOCH FROM created_at) / (p_bucket_minutes * 60)) * (p_bucket_minutes * 60)
+      FLOOR(EXTRACT(EPOCH FROM r.measured_at) / (p_bucket_minutes * 60)) * (p_bucket_minutes * 60)
     ) AS bucket_ts,
     r.device_id,
     AVG(temperature) AS temperature_avg,
     AVG(humidity) AS humidity_avg,
     COUNT(*) AS reading_count
   FROM public.readings r
-  WHERE r.created_at BETWEEN p_start AND p_end
+  WHERE r.measured_at BETWEEN p_start AND p_end
     AND (p_device_id IS NULL OR r.device_id = p_device_id)
   GROUP BY r.device_id, bucket_ts
   ORDER BY bucket_ts ASC;
@@ -190,12 +287,13 @@ AS $$
     COUNT(r.id)
   FROM public.deployments d
   LEFT JOIN public.readings r ON r.device_id = d.device_id
-    AND r.created_at >= d.started_at
-    AND (d.ended_at IS NULL OR r.created_at <= d.ended_at)
+    AND r.measured_at >= d.started_at
+    AND (d.ended_at IS NULL OR r.measured_at <= d.ended_at)
   WHERE d.id = ANY(deployment_ids)
   GROUP BY d.id, d.name, d.device_id, d.location;
 $$;
 
+DROP FUNCTION IF EXISTS get_deployment_readings(BIGINT, INT);
 CREATE OR REPLACE FUNCTION get_deployment_readings(
   p_deployment_id BIGINT,
   p_limit INT DEFAULT 100
@@ -204,18 +302,19 @@ RETURNS TABLE (
   id BIGINT,
   temperature REAL,
   humidity REAL,
-  created_at TIMESTAMPTZ
+  created_at TIMESTAMPTZ,
+  measured_at TIMESTAMPTZ
 )
 LANGUAGE SQL STABLE
 SET search_path = public
 AS $$
-  SELECT r.id, r.temperature, r.humidity, r.created_at
+  SELECT r.id, r.temperature, r.humidity, r.created_at, r.measured_at
   FROM public.readings r
   JOIN public.deployments d ON r.device_id = d.device_id
   WHERE d.id = p_deployment_id
-    AND r.created_at >= d.started_at
-    AND (d.ended_at IS NULL OR r.created_at <= d.ended_at)
-  ORDER BY r.created_at DESC
+    AND r.measured_at >= d.started_at
+    AND (d.ended_at IS NULL OR r.measured_at <= d.ended_at)
+  ORDER BY r.measured_at DESC
   LIMIT p_limit;
 $$;
 
@@ -235,12 +334,181 @@ GRANT EXECUTE ON FUNCTION public.get_deployment_readings(BIGINT, INT) TO authent
 -- Weather API integration: add zip_code to deployments for geocoding
 ALTER TABLE deployments ADD COLUMN IF NOT EXISTS zip_code TEXT;
 
+-- Weather location outside the US: zip_code holds any postal code, with
+-- country_code (ISO alpha-2, NULL = US); or latitude/longitude for sites with
+-- no useful postal code. Parsed by web/src/lib/weatherLocation.ts.
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS country_code TEXT;
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+
+ALTER TABLE deployments DROP CONSTRAINT IF EXISTS deployments_coordinates_check;
+ALTER TABLE deployments
+  ADD CONSTRAINT deployments_coordinates_check
+  CHECK (
+    (latitude IS NULL AND longitude IS NULL)
+    OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+  );
+
+-- =========================================================================
+-- Locations: the places deployments are made in. deployments.location stays
+-- as a copy of the location name for the RPCs and tools that read it; a
+-- trigger keeps it and location_id in step, so writers may set either one.
+-- Free text that matches no location (ignoring case and extra spaces)
+-- creates one. Existing free-text locations are migrated the same way,
+-- under their most common spelling.
+-- =========================================================================
+CREATE OR REPLACE FUNCTION normalize_location_name(p_name TEXT)
+RETURNS TEXT LANGUAGE SQL IMMUTABLE AS $$
+  SELECT regexp_replace(btrim(COALESCE(p_name, '')), '\s+', ' ', 'g');
+$$;
+
+-- Schema-qualified: index builds run with a restricted search_path.
+CREATE OR REPLACE FUNCTION location_key(p_name TEXT)
+RETURNS TEXT LANGUAGE SQL IMMUTABLE AS $$
+  SELECT lower(public.normalize_location_name(p_name));
+$$;
+
+CREATE TABLE IF NOT EXISTS locations (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL CHECK (normalize_location_name(name) <> ''),
+  description TEXT,
+  location_type TEXT NOT NULL DEFAULT 'indoor'
+    CHECK (location_type IN ('indoor', 'outdoor', 'room')),
+  -- Default weather location for deployments started here.
+  zip_code TEXT,
+  country_code TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT locations_coordinates_check
+    CHECK (
+      (latitude IS NULL AND longitude IS NULL)
+      OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+    )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_locations_key ON locations (location_key(name));
+
+CREATE OR REPLACE FUNCTION update_locations_updated_at()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN NEW.updated_at = NOW(); RETURN NEW; END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_locations_updated_at ON locations;
+CREATE TRIGGER trg_locations_updated_at
+  BEFORE UPDATE ON locations
+  FOR EACH ROW EXECUTE FUNCTION update_locations_updated_at();
+
+ALTER TABLE locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated all on locations" ON locations;
+DROP POLICY IF EXISTS "Allow authenticated select on locations" ON locations;
+CREATE POLICY "Allow authenticated select on locations" ON locations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow operators write on locations" ON locations;
+CREATE POLICY "Allow operators write on locations" ON locations
+  FOR ALL
+  TO authenticated
+  USING (has_role('operator'))
+  WITH CHECK (has_role('operator'));
+
+-- RESTRICT: a location with deployment history cannot be deleted.
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS location_id BIGINT
+  REFERENCES locations(id) ON DELETE RESTRICT;
+CREATE INDEX IF NOT EXISTS idx_deployments_location_id ON deployments (location_id);
+
+CREATE OR REPLACE FUNCTION sync_deployment_location()
+RETURNS TRIGGER LANGUAGE plpgsql SET search_path = public AS $$
+DECLARE
+  v_location public.locations%ROWTYPE;
+  v_name TEXT;
+BEGIN
+  IF NEW.location_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.location_id IS DISTINCT FROM OLD.location_id) THEN
+    SELECT * INTO v_location FROM public.locations WHERE id = NEW.location_id;
+  ELSIF TG_OP = 'INSERT' OR NEW.location IS DISTINCT FROM OLD.location THEN
+    v_name := normalize_location_name(NEW.location);
+    IF v_name = '' THEN
+      NEW.location_id := NULL;
+      RETURN NEW;
+    END IF;
+    INSERT INTO public.locations (name) VALUES (v_name)
+      ON CONFLICT (location_key(name)) DO NOTHING;
+    SELECT * INTO v_location FROM public.locations WHERE location_key(name) = location_key(v_name);
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  NEW.location_id := v_location.id;
+  NEW.location := v_location.name;
+  -- A new deployment without its own weather location inherits the place's.
+  IF TG_OP = 'INSERT' AND NEW.zip_code IS NULL AND NEW.latitude IS NULL THEN
+    NEW.zip_code := v_location.zip_code;
+    NEW.country_code := v_location.country_code;
+    NEW.latitude := v_location.latitude;
+    NEW.longitude := v_location.longitude;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_deployment_location ON deployments;
+CREATE TRIGGER trg_sync_deployment_location
+  BEFORE INSERT OR UPDATE OF location, location_id ON deployments
+  FOR EACH ROW EXECUTE FUNCTION sync_deployment_location();
+
+CREATE OR REPLACE FUNCTION propagate_location_name()
+RETURNS TRIGGER LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  UPDATE public.deployments SET location = NEW.name
+    WHERE location_id = NEW.id AND location IS DISTINCT FROM NEW.name;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_propagate_location_name ON locations;
+CREATE TRIGGER trg_propagate_location_name
+  AFTER UPDATE OF name ON locations
+  FOR EACH ROW EXECUTE FUNCTION propagate_location_name();
+
+-- Migration: one location per distinct key, named by its most common spelling.
+INSERT INTO locations (name)
+SELECT DISTINCT ON (location_key(d.location)) normalize_location_name(d.location)
+FROM deployments d
+WHERE d.location_id IS NULL AND normalize_location_name(d.location) <> ''
+GROUP BY location_key(d.location), normalize_location_name(d.location)
+ORDER BY location_key(d.location), COUNT(*) DESC, normalize_location_name(d.location)
+ON CONFLICT (location_key(name)) DO NOTHING;
+
+UPDATE deployments d
+SET location_id = l.id
+FROM locations l
+WHERE d.location_id IS NULL
+  AND location_key(l.name) = location_key(d.location);
+
 -- Weather/source metadata for future sensor-vs-weather analysis and traceability.
 ALTER TABLE readings ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'sensor';
 ALTER TABLE readings ADD COLUMN IF NOT EXISTS deployment_id BIGINT;
 ALTER TABLE readings ADD COLUMN IF NOT EXISTS zip_code TEXT;
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS country_code TEXT;
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
 ALTER TABLE readings ADD COLUMN IF NOT EXISTS observed_at TIMESTAMPTZ;
 
+-- Observation context on weather rows; NULL on sensor rows and on weather
+-- rows from before these columns existed.
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS dew_point REAL; -- Celsius
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS pressure_hpa REAL;
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS wind_speed_kph REAL;
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS wind_direction_deg REAL;
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS cloud_cover REAL; -- percent
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS precipitation_mm REAL;
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS weather_condition TEXT;
+
 -- Backfill any null source values and enforce allowed source labels.
 UPDATE readings SET source = 'sensor' WHERE source IS NULL;
 
@@ -314,85 +582,208 @@ BEGIN
   END IF;
 END $$;
 
+-- Deleting a deployment archives it: the row and its readings stay, and it
+-- drops out of lists, stats scopes and the overlap guardrail until restored.
+-- Only purge_deployment removes readings.
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_deployments_archived
+  ON deployments (archived_at)
+  WHERE archived_at IS NOT NULL;
+
+DROP FUNCTION IF EXISTS get_deployments_with_counts(TEXT, BOOLEAN);
+DROP FUNCTION IF EXISTS get_deployments_with_counts(TEXT, BOOLEAN, BOOLEAN);
+-- p_archived picks archived deployments instead of live ones.
 CREATE OR REPLACE FUNCTION get_deployments_with_counts(
   p_device_id TEXT DEFAULT NULL,
-  p_active_only BOOLEAN DEFAULT FALSE
+  p_active_only BOOLEAN DEFAULT FALSE,
+  p_archived BOOLEAN DEFAULT FALSE
 )
 RETURNS TABLE (
   id BIGINT,
   device_id TEXT,
   name TEXT,
   location TEXT,
+  location_id BIGINT,
   notes TEXT,
   zip_code TEXT,
+  country_code TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
   started_at TIMESTAMPTZ,
   ended_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ,
   reading_count BIGINT
 )
 LANGUAGE SQL STABLE
 SET search_path = public
 AS $$
   SELECT
-    d.id, d.device_id, d.name, d.location, d.notes, d.zip_code,
-    d.started_at, d.ended_at, d.created_at,
+    d.id, d.device_id, d.name, d.location, d.location_id, d.notes, d.zip_code,
+    d.country_code, d.latitude, d.longitude,
+    d.started_at, d.ended_at, d.created_at, d.archived_at,
     COUNT(r.id) AS reading_count
   FROM public.deployments d
   LEFT JOIN public.readings r
     ON r.device_id = d.device_id
-    AND r.created_at >= d.started_at
-    AND r.created_at <= COALESCE(d.ended_at, NOW())
+    AND r.measured_at >= d.started_at
+    AND r.measured_at <= COALESCE(d.ended_at, NOW())
   WHERE
     (p_device_id IS NULL OR d.device_id = p_device_id)
     AND (NOT p_active_only OR d.ended_at IS NULL)
+    AND (d.archived_at IS NOT NULL) = p_archived
   GROUP BY d.id
   ORDER BY d.started_at DESC;
 $$;
 
-REVOKE EXECUTE ON FUNCTION public.get_deployments_with_counts(TEXT, BOOLEAN) FROM PUBLIC, anon;
-GRANT EXECUTE ON FUNCTION public.get_deployments_with_counts(TEXT, BOOLEAN) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.get_deployments_with_counts(TEXT, BOOLEAN, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_deployments_with_counts(TEXT, BOOLEAN, BOOLEAN) TO authenticated, service_role;
+
+-- Replaced by archive_deployment / purge_deployment: one misclick used to
+-- delete every reading in the window.
+DROP FUNCTION IF EXISTS delete_deployment_cascade(BIGINT);
+
+-- Archiving an active deployment ends it, so restoring never brings back a
+-- second active deployment for the device.
+CREATE OR REPLACE FUNCTION archive_deployment(p_deployment_id BIGINT)
+RETURNS SETOF deployments
+LANGUAGE SQL
+SET search_path = public
+AS $$
+  UPDATE public.deployments
+    SET archived_at = NOW(),
+        ended_at = COALESCE(ended_at, NOW())
+    WHERE id = p_deployment_id AND archived_at IS NULL
+    RETURNING *;
+$$;
+
+-- Fails with exclusion_violation if a live deployment has since taken the window.
+CREATE OR REPLACE FUNCTION restore_deployment(p_deployment_id BIGINT)
+RETURNS SETOF deployments
+LANGUAGE SQL
+SET search_path = public
+AS $$
+  UPDATE public.deployments
+    SET archived_at = NULL
+    WHERE id = p_deployment_id AND archived_at IS NOT NULL
+    RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.archive_deployment(BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.archive_deployment(BIGINT) TO authenticated, service_role;
+
+REVOKE EXECUTE ON FUNCTION public.restore_deployment(BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_deployment(BIGINT) TO authenticated, service_role;
+
+-- =========================================================================
+-- Audit log: append-only record of destructive and configuration changes.
+-- Rows are written by SECURITY DEFINER functions; nobody may change them.
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  actor_id UUID,
+  actor_email TEXT,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT,
+  before JSONB,
+  after JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_time ON audit_log (occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log (entity_type, entity_id, occurred_at DESC);
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_audit_log_append_only ON audit_log;
+CREATE TRIGGER trg_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
 
--- Cascade-delete a deployment and its associated readings in one call.
--- SECURITY DEFINER lets authenticated callers delete readings even though
--- the readings RLS policy restricts DELETE to service_role.
-CREATE OR REPLACE FUNCTION delete_deployment_cascade(p_deployment_id BIGINT)
-RETURNS VOID
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated select audit log" ON audit_log;
+DROP POLICY IF EXISTS "Allow admins select audit log" ON audit_log;
+CREATE POLICY "Allow admins select audit log" ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (has_role('admin'));
+
+-- Permanently deletes an archived deployment and the readings in its window
+-- that no other deployment covers; the caller must retype the name. Returns
+-- the number of readings deleted. SECURITY DEFINER because the readings RLS
+-- policy restricts DELETE to service_role.
+CREATE OR REPLACE FUNCTION purge_deployment(p_deployment_id BIGINT, p_confirm_name TEXT)
+RETURNS BIGINT
 LANGUAGE plpgsql
 SECURITY DEFINER
 SET search_path = public
 AS $$
 DECLARE
-  v_device_id TEXT;
-  v_started_at TIMESTAMPTZ;
-  v_ended_at TIMESTAMPTZ;
+  v_deployment public.deployments%ROWTYPE;
+  v_deleted BIGINT;
 BEGIN
-  SELECT device_id, started_at, ended_at
-    INTO v_device_id, v_started_at, v_ended_at
-    FROM public.deployments WHERE id = p_deployment_id;
+  IF NOT public.has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can purge deployments' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_deployment
+    FROM public.deployments WHERE id = p_deployment_id
+    FOR UPDATE;
 
   IF NOT FOUND THEN
     RAISE EXCEPTION 'Deployment % not found', p_deployment_id;
   END IF;
+  IF v_deployment.archived_at IS NULL THEN
+    RAISE EXCEPTION 'Archive the deployment before purging it';
+  END IF;
+  IF p_confirm_name IS DISTINCT FROM v_deployment.name THEN
+    RAISE EXCEPTION 'Confirmation does not match the deployment name';
+  END IF;
 
   DELETE FROM public.readings r
-    WHERE r.device_id = v_device_id
-      AND r.created_at >= v_started_at
-      AND (v_ended_at IS NULL OR r.created_at <= v_ended_at)
+    WHERE r.device_id = v_deployment.device_id
+      AND r.measured_at >= v_deployment.started_at
+      AND (v_deployment.ended_at IS NULL OR r.measured_at <= v_deployment.ended_at)
       AND NOT EXISTS (
         SELECT 1
         FROM public.deployments d2
         WHERE d2.id <> p_deployment_id
-          AND d2.device_id = v_device_id
-          AND r.created_at >= d2.started_at
-          AND (d2.ended_at IS NULL OR r.created_at <= d2.ended_at)
+          AND d2.device_id = v_deployment.device_id
+          AND r.measured_at >= d2.started_at
+          AND (d2.ended_at IS NULL OR r.measured_at <= d2.ended_at)
       );
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
 
+  -- The purge entry below replaces the generic deployment.delete one.
+  PERFORM set_config('audit.skip', 'on', true);
   DELETE FROM public.deployments WHERE id = p_deployment_id;
+  PERFORM set_config('audit.skip', 'off', true);
+
+  INSERT INTO public.audit_log (actor_id, actor_email, action, entity_type, entity_id, before, after)
+  VALUES (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    'deployment.purge',
+    'deployment',
+    p_deployment_id::text,
+    to_jsonb(v_deployment) || jsonb_build_object('readings_deleted', v_deleted),
+    NULL
+  );
+
+  RETURN v_deleted;
 END;
 $$;
 
-REVOKE EXECUTE ON FUNCTION public.delete_deployment_cascade(BIGINT) FROM PUBLIC, anon;
-GRANT EXECUTE ON FUNCTION public.delete_deployment_cascade(BIGINT) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.purge_deployment(BIGINT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.purge_deployment(BIGINT, TEXT) TO authenticated, service_role;
 
 -- Guardrail: one active deployment per device when data allows it.
 DO $$
@@ -422,14 +813,23 @@ END $$;
 -- Guardrail: no overlapping deployment windows per device when data allows it.
 CREATE EXTENSION IF NOT EXISTS btree_gist;
 
+-- Archived deployments are left out, so their window can be reused.
 DO $$
+DECLARE
+  v_def TEXT;
 BEGIN
-  IF NOT EXISTS (
-    SELECT 1
+  SELECT pg_get_constraintdef(oid) INTO v_def
     FROM pg_constraint
     WHERE conname = 'deployments_no_overlap_per_device'
-      AND conrelid = 'public.deployments'::regclass
-  ) THEN
+      AND conrelid = 'public.deployments'::regclass;
+
+  -- Rebuild the constraint from before archiving existed.
+  IF v_def IS NOT NULL AND v_def NOT LIKE '%archived_at%' THEN
+    ALTER TABLE deployments DROP CONSTRAINT deployments_no_overlap_per_device;
+    v_def := NULL;
+  END IF;
+
+  IF v_def IS NULL THEN
     IF EXISTS (
       SELECT 1
       FROM deployments d1
@@ -438,6 +838,7 @@ BEGIN
        AND d1.device_id = d2.device_id
        AND tstzrange(d1.started_at, COALESCE(d1.ended_at, 'infinity'::timestamptz), '[)')
            && tstzrange(d2.started_at, COALESCE(d2.ended_at, 'infinity'::timestamptz), '[)')
+      WHERE d1.archived_at IS NULL AND d2.archived_at IS NULL
     ) THEN
       RAISE NOTICE 'Skipping deployments_no_overlap_per_device: overlapping deployment windows exist';
     ELSE
@@ -446,7 +847,7 @@ BEGIN
         EXCLUDE USING gist (
           device_id WITH =,
           tstzrange(started_at, COALESCE(ended_at, 'infinity'::timestamptz), '[)') WITH &&
-        );
+        ) WHERE (archived_at IS NULL);
     END IF;
   END IF;
 END $$;
@@ -483,11 +884,18 @@ CREATE INDEX IF NOT EXISTS idx_devices_monitor ON devices (monitor_enabled, is_a
 ALTER TABLE devices ENABLE ROW LEVEL SECURITY;
 
 DROP POLICY IF EXISTS "Allow authenticated all on devices" ON devices;
-CREATE POLICY "Allow authenticated all on devices" ON devices
+DROP POLICY IF EXISTS "Allow authenticated select on devices" ON devices;
+CREATE POLICY "Allow authenticated select on devices" ON devices
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow admins write on devices" ON devices;
+CREATE POLICY "Allow admins write on devices" ON devices
   FOR ALL
   TO authenticated
-  USING (auth.uid() IS NOT NULL)
-  WITH CHECK (auth.uid() IS NOT NULL);
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
 
 -- Seed known defaults
 INSERT INTO devices (id, display_name, color, sort_order) VALUES
@@ -528,11 +936,12 @@ CREATE POLICY "Allow authenticated select app_settings" ON app_settings
   USING (auth.uid() IS NOT NULL);
 
 DROP POLICY IF EXISTS "Allow authenticated update app_settings" ON app_settings;
-CREATE POLICY "Allow authenticated update app_settings" ON app_settings
+DROP POLICY IF EXISTS "Allow admins update app_settings" ON app_settings;
+CREATE POLICY "Allow admins update app_settings" ON app_settings
   FOR UPDATE
   TO authenticated
-  USING (auth.uid() IS NOT NULL)
-  WITH CHECK (auth.uid() IS NOT NULL);
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
 
 INSERT INTO app_settings (key, value) VALUES
   ('device_auto_register', 'false')
@@ -573,6 +982,7 @@ CREATE TRIGGER trg_auto_register_device
 -- =========================================================================
 -- Batched dashboard live RPC: returns latest readings + sparkline for N devices in one call.
 -- =========================================================================
+DROP FUNCTION IF EXISTS get_dashboard_live(TEXT[], TIMESTAMPTZ, INT);
 CREATE OR REPLACE FUNCTION get_dashboard_live(
   p_device_ids TEXT[],
   p_sparkline_start TIMESTAMPTZ,
@@ -585,7 +995,15 @@ RETURNS TABLE (
   temperature REAL,
   humidity REAL,
   created_at TIMESTAMPTZ,
+  measured_at TIMESTAMPTZ,
   source TEXT,
+  dew_point REAL,
+  pressure_hpa REAL,
+  wind_speed_kph REAL,
+  wind_direction_deg REAL,
+  cloud_cover REAL,
+  precipitation_mm REAL,
+  weather_condition TEXT,
   bucket_ts TIMESTAMPTZ,
   temperature_avg DOUBLE PRECISION,
   humidity_avg DOUBLE PRECISION,
@@ -598,12 +1016,13 @@ AS $$
   SELECT * FROM (
     SELECT DISTINCT ON (r.device_id)
       'sensor'::TEXT AS row_type,
-      r.device_id, r.id, r.temperature, r.humidity, r.created_at, r.source,
+      r.device_id, r.id, r.temperature, r.humidity, r.created_at, r.measured_at, r.source,
+      NULL::REAL, NULL::REAL, NULL::REAL, NULL::REAL, NULL::REAL, NULL::REAL, NULL::TEXT,
       NULL::TIMESTAMPTZ, NULL::DOUBLE PRECISION, NULL::DOUBLE PRECISION, NULL::BIGINT
     FROM readings r
     WHERE r.device_id = ANY(p_device_ids)
       AND r.source = 'sensor'
-    ORDER BY r.device_id, r.created_at DESC
+    ORDER BY r.device_id, r.measured_at DESC
   ) sensor_latest
 
   UNION ALL
@@ -612,14 +1031,16 @@ AS $$
   SELECT * FROM (
     SELECT DISTINCT ON (r.device_id)
       'weather'::TEXT AS row_type,
-      r.device_id, r.id, r.temperature, r.humidity, r.created_at, r.source,
+      r.device_id, r.id, r.temperature, r.humidity, r.created_at, r.measured_at, r.source,
+      r.dew_point, r.pressure_hpa, r.wind_speed_kph, r.wind_direction_deg,
+      r.cloud_cover, r.precipitation_mm, r.weather_condition,
       NULL::TIMESTAMPTZ, NULL::DOUBLE PRECISION, NULL::DOUBLE PRECISION, NULL::BIGINT
     FROM readings r
     WHERE r.device_id = ANY(
       SELECT 'weather_' || unnest(p_device_ids)
     )
       AND r.source = 'weather'
-    ORDER BY r.device_id, r.created_at DESC
+    ORDER BY r.device_id, r.measured_at DESC
   ) weather_latest
 
   UNION ALL
@@ -628,9 +1049,10 @@ AS $$
   SELECT * FROM (
     SELECT
       'sparkline'::TEXT AS row_type,
-      r.device_id, NULL::BIGINT, NULL::REAL, NULL::REAL, NULL::TIMESTAMPTZ, NULL::TEXT,
+      r.device_id, NULL::BIGINT, NULL::REAL, NULL::REAL, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TEXT,
+      NULL::REAL, NULL::REAL, NULL::REAL, NULL::REAL, NULL::REAL, NULL::REAL, NULL::TEXT,
       TO_TIMESTAMP(
-        FLOOR(EXTRACT(EPOCH FROM r.created_at) / (p_sparkline_bucket_minutes * 60))
+        FLOOR(EXTRACT(EPOCH FROM r.measured_at) / (p_sparkline_bucket_minutes * 60))
         * (p_sparkline_bucket_minutes * 60)
       ) AS bucket_ts,
       AVG(r.temperature)::DOUBLE PRECISION,
@@ -639,7 +1061,7 @@ AS $$
     FROM readings r
     WHERE r.device_id = ANY(p_device_ids)
       AND r.source = 'sensor'
-      AND r.created_at >= p_sparkline_start
+      AND r.measured_at >= p_sparkline_start
     GROUP BY r.device_id, bucket_ts
     ORDER BY bucket_ts ASC
   ) sparkline_data;
@@ -647,3 +1069,990 @@ $$;
 
 REVOKE EXECUTE ON FUNCTION public.get_dashboard_live(TEXT[], TIMESTAMPTZ, INT) FROM PUBLIC, anon;
 GRANT EXECUTE ON FUNCTION public.get_dashboard_live(TEXT[], TIMESTAMPTZ, INT) TO authenticated, service_role;
+
+-- =========================================================================
+-- Per-device calibration: corrected = raw * gain + offset.
+-- Applied at read time in the app; raw rows in readings are never rewritten.
+-- =========================================================================
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS temp_offset_c REAL NOT NULL DEFAULT 0;
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS temp_gain REAL NOT NULL DEFAULT 1;
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS humidity_offset REAL NOT NULL DEFAULT 0;
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS humidity_gain REAL NOT NULL DEFAULT 1;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'devices_calibration_gain_check'
+      AND conrelid = 'public.devices'::regclass
+  ) THEN
+    ALTER TABLE devices
+      ADD CONSTRAINT devices_calibration_gain_check
+      CHECK (temp_gain > 0 AND humidity_gain > 0);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS device_calibration_history (
+  id BIGSERIAL PRIMARY KEY,
+  device_id TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  temp_offset_c REAL NOT NULL,
+  temp_gain REAL NOT NULL,
+  humidity_offset REAL NOT NULL,
+  humidity_gain REAL NOT NULL,
+  changed_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_calibration_history_device
+  ON device_calibration_history (device_id, created_at DESC);
+
+ALTER TABLE device_calibration_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated select calibration history" ON device_calibration_history;
+CREATE POLICY "Allow authenticated select calibration history" ON device_calibration_history
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+-- History rows are written only by this trigger, so every change is captured
+-- regardless of which client updated the device.
+CREATE OR REPLACE FUNCTION log_device_calibration()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.temp_offset_c = OLD.temp_offset_c
+     AND NEW.temp_gain = OLD.temp_gain
+     AND NEW.humidity_offset = OLD.humidity_offset
+     AND NEW.humidity_gain = OLD.humidity_gain
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     AND NEW.temp_offset_c = 0
+     AND NEW.temp_gain = 1
+     AND NEW.humidity_offset = 0
+     AND NEW.humidity_gain = 1
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO device_calibration_history
+    (device_id, temp_offset_c, temp_gain, humidity_offset, humidity_gain, changed_by)
+  VALUES
+    (NEW.id, NEW.temp_offset_c, NEW.temp_gain, NEW.humidity_offset, NEW.humidity_gain, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_log_device_calibration ON devices;
+CREATE TRIGGER trg_log_device_calibration
+  AFTER INSERT OR UPDATE ON devices
+  FOR EACH ROW EXECUTE FUNCTION log_device_calibration();
+
+-- =========================================================================
+-- Realtime: the dashboard subscribes to readings inserts.
+-- Realtime respects RLS, so only authenticated sessions receive rows.
+-- =========================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'readings'
+     )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.readings;
+  END IF;
+END $$;
+
+-- =========================================================================
+-- Multi-metric readings.
+-- `metrics` is the registry of measurable quantities; `readings.metrics`
+-- holds every value for a row keyed by metric key. The temperature and
+-- humidity columns are kept in sync so firmware and older RPCs keep working.
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS metrics (
+  key TEXT PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]{0,31}$'),
+  display_name TEXT NOT NULL,
+  unit TEXT NOT NULL DEFAULT '',
+  min_value DOUBLE PRECISION,
+  max_value DOUBLE PRECISION,
+  display_precision INT NOT NULL DEFAULT 1 CHECK (display_precision BETWEEN 0 AND 6),
+  sort_order INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO metrics (key, display_name, unit, min_value, max_value, display_precision, sort_order) VALUES
+  ('temperature', 'Temperature', '°C', -40, 85, 1, 1),
+  ('humidity', 'Humidity', '%', 0, 100, 1, 2),
+  ('pressure', 'Pressure', 'hPa', 300, 1100, 1, 3),
+  ('co2', 'CO2', 'ppm', 0, 10000, 0, 4),
+  ('light', 'Light', 'lux', 0, 200000, 0, 5)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE metrics ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read metrics" ON metrics;
+CREATE POLICY "Allow authenticated read metrics"
+  ON metrics
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS metrics JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Copy legacy columns into the metric map. Idempotent: rows already carrying
+-- both keys are skipped, and existing metric values are never overwritten.
+UPDATE readings
+SET metrics = jsonb_build_object('temperature', temperature, 'humidity', humidity) || metrics
+WHERE NOT (metrics ? 'temperature' AND metrics ? 'humidity');
+
+CREATE INDEX IF NOT EXISTS idx_readings_metrics
+  ON readings USING GIN (metrics);
+
+-- Nodes may post either the legacy columns or a `metrics` object; fill in
+-- whichever side is missing so both stay consistent. temperature and
+-- humidity stay NOT NULL, so every reading must include both; extra metrics
+-- are reported alongside them, never instead of them.
+CREATE OR REPLACE FUNCTION sync_reading_metrics()
+RETURNS TRIGGER LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  NEW.metrics := COALESCE(NEW.metrics, '{}'::jsonb);
+
+  IF NEW.temperature IS NULL AND jsonb_typeof(NEW.metrics->'temperature') = 'number' THEN
+    NEW.temperature := (NEW.metrics->>'temperature')::REAL;
+  END IF;
+  IF NEW.humidity IS NULL AND jsonb_typeof(NEW.metrics->'humidity') = 'number' THEN
+    NEW.humidity := (NEW.metrics->>'humidity')::REAL;
+  END IF;
+
+  NEW.metrics := NEW.metrics || jsonb_strip_nulls(
+    jsonb_build_object('temperature', NEW.temperature, 'humidity', NEW.humidity)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_reading_metrics ON readings;
+CREATE TRIGGER trg_sync_reading_metrics
+  BEFORE INSERT OR UPDATE ON readings
+  FOR EACH ROW EXECUTE FUNCTION sync_reading_metrics();
+
+CREATE OR REPLACE FUNCTION get_metric_chart_samples(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_bucket_minutes INT,
+  p_metric TEXT,
+  p_device_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket_ts TIMESTAMPTZ,
+  device_id TEXT,
+  metric TEXT,
+  value_avg DOUBLE PRECISION,
+  reading_count BIGINT
+)
+LANGUAGE SQL STABLE
+SET search_path = public
+AS $$
+  SELECT
+    TO_TIMESTAMP(
+      FLOOR(EXTRACT(EPOCH FROM r.measured_at) / (p_bucket_minutes * 60)) * (p_bucket_minutes * 60)
+    ) AS bucket_ts,
+    r.device_id,
+    p_metric AS metric,
+    AVG((r.metrics->>p_metric)::DOUBLE PRECISION) AS value_avg,
+    COUNT(*) AS reading_count
+  FROM public.readings r
+  WHERE r.measured_at BETWEEN p_start AND p_end
+    AND jsonb_typeof(r.metrics->p_metric) = 'number'
+    AND (p_device_id IS NULL OR r.device_id = p_device_id)
+  GROUP BY r.device_id, bucket_ts
+  ORDER BY bucket_ts ASC;
+$$;
+
+CREATE OR REPLACE FUNCTION get_metric_stats(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_device_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  device_id TEXT,
+  metric TEXT,
+  value_avg DOUBLE PRECISION,
+  value_min DOUBLE PRECISION,
+  value_max DOUBLE PRECISION,
+  value_stddev DOUBLE PRECISION,
+  reading_count BIGINT
+)
+LANGUAGE SQL STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.device_id,
+    m.key AS metric,
+    AVG(m.value::DOUBLE PRECISION),
+    MIN(m.value::DOUBLE PRECISION),
+    MAX(m.value::DOUBLE PRECISION),
+    STDDEV_POP(m.value::DOUBLE PRECISION),
+    COUNT(*)
+  FROM public.readings r
+  CROSS JOIN LATERAL jsonb_each(r.metrics) AS m(key, value)
+  WHERE r.measured_at BETWEEN p_start AND p_end
+    AND jsonb_typeof(m.value) = 'number'
+    AND (p_device_id IS NULL OR r.device_id = p_device_id)
+  GROUP BY r.device_id, m.key
+  ORDER BY r.device_id, m.key;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_metric_chart_samples(TIMESTAMPTZ, TIMESTAMPTZ, INT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_metric_chart_samples(TIMESTAMPTZ, TIMESTAMPTZ, INT, TEXT, TEXT) TO authenticated, service_role;
+
+REVOKE EXECUTE ON FUNCTION public.get_metric_stats(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_metric_stats(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated, service_role;
+
+-- =========================================================================
+-- Per-device ingest API keys.
+-- Only the SHA-256 hash of each key is stored; /api/ingest looks devices up
+-- by hash and rejects payloads whose device_id does not match.
+-- =========================================================================
+
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS api_key_hash TEXT;
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS api_key_prefix TEXT;
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS api_key_created_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_devices_api_key_hash
+  ON devices (api_key_hash)
+  WHERE api_key_hash IS NOT NULL;
+
+-- =========================================================================
+-- Device-side measurement time for batched uploads.
+-- /api/ingest accepts buffered readings with their own measured_at; rows
+-- without one fall back to observed_at (weather) or created_at.
+-- =========================================================================
+
+CREATE OR REPLACE FUNCTION set_reading_measured_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.measured_at := COALESCE(NEW.measured_at, NEW.observed_at, NEW.created_at, NOW());
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_reading_measured_at ON readings;
+CREATE TRIGGER trg_set_reading_measured_at
+  BEFORE INSERT ON readings
+  FOR EACH ROW EXECUTE FUNCTION set_reading_measured_at();
+
+UPDATE readings
+SET measured_at = COALESCE(observed_at, created_at)
+WHERE measured_at IS NULL;
+
+ALTER TABLE readings ALTER COLUMN measured_at SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'readings_sample_count_check'
+      AND conrelid = 'public.readings'::regclass
+  ) THEN
+    ALTER TABLE readings
+      ADD CONSTRAINT readings_sample_count_check
+      CHECK (sample_count IS NULL OR sample_count > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_readings_device_measured
+  ON readings (device_id, measured_at DESC);
+
+-- Retried uploads resend the same (device_id, measured_at); ingest upserts
+-- with ON CONFLICT DO NOTHING against this index, so it must exist. Earlier
+-- duplicates are removed first, keeping the earliest row of each.
+DO $$
+DECLARE
+  v_removed INT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_indexes
+    WHERE schemaname = 'public'
+      AND indexname = 'idx_readings_device_measured_unique'
+  ) THEN
+    DELETE FROM readings r
+    USING readings keep
+    WHERE keep.device_id = r.device_id
+      AND keep.measured_at = r.measured_at
+      AND keep.id < r.id;
+    GET DIAGNOSTICS v_removed = ROW_COUNT;
+    IF v_removed > 0 THEN
+      RAISE NOTICE 'Removed % duplicate (device_id, measured_at) readings', v_removed;
+    END IF;
+
+    CREATE UNIQUE INDEX idx_readings_device_measured_unique
+      ON readings (device_id, measured_at);
+  END IF;
+END $$;
+
+-- =========================================================================
+-- Alert rules: user-defined conditions evaluated by /api/keepalive.
+-- Thresholds use the metric's storage unit (temperature in °C). A
+-- weather_deviation rule compares a sensor with its weather_<id> row.
+-- A rule scoped to neither a device nor a deployment applies to every
+-- monitored device; a deployment-scoped rule only while it is active.
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL DEFAULT 'threshold'
+    CHECK (rule_type IN ('threshold', 'weather_deviation')),
+  metric TEXT NOT NULL REFERENCES metrics(key),
+  operator TEXT NOT NULL DEFAULT 'above'
+    CHECK (operator IN ('above', 'below')),
+  threshold DOUBLE PRECISION NOT NULL,
+  duration_minutes INT NOT NULL DEFAULT 0
+    CHECK (duration_minutes BETWEEN 0 AND 1440),
+  device_id TEXT REFERENCES devices(id) ON DELETE CASCADE,
+  deployment_id BIGINT REFERENCES deployments(id) ON DELETE CASCADE,
+  severity TEXT NOT NULL DEFAULT 'warning'
+    CHECK (severity IN ('info', 'warning', 'critical')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT alert_rules_scope_check
+    CHECK (device_id IS NULL OR deployment_id IS NULL),
+  CONSTRAINT alert_rules_weather_metric_check
+    CHECK (rule_type <> 'weather_deviation' OR metric IN ('temperature', 'humidity'))
+);
+
+CREATE OR REPLACE FUNCTION update_alert_rules_updated_at()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN NEW.updated_at = NOW(); RETURN NEW; END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_alert_rules_updated_at ON alert_rules;
+CREATE TRIGGER trg_alert_rules_updated_at
+  BEFORE UPDATE ON alert_rules
+  FOR EACH ROW EXECUTE FUNCTION update_alert_rules_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_enabled ON alert_rules (enabled);
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated all on alert rules" ON alert_rules;
+DROP POLICY IF EXISTS "Allow authenticated select on alert rules" ON alert_rules;
+CREATE POLICY "Allow authenticated select on alert rules" ON alert_rules
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow admins write on alert rules" ON alert_rules;
+CREATE POLICY "Allow admins write on alert rules" ON alert_rules
+  FOR ALL
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+-- Per (rule, device) dedup state, written by the keepalive cron with the
+-- service role. Mirrors device_alert_state.
+CREATE TABLE IF NOT EXISTS alert_rule_state (
+  rule_id BIGINT NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'ok'
+    CHECK (status IN ('ok', 'firing')),
+  breach_started_at TIMESTAMPTZ,
+  last_value DOUBLE PRECISION,
+  last_alert_type TEXT,
+  last_alert_sent_at TIMESTAMPTZ,
+  last_recovery_sent_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (rule_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rule_state_status
+  ON alert_rule_state (status, updated_at DESC);
+
+ALTER TABLE alert_rule_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated select alert rule state" ON alert_rule_state;
+CREATE POLICY "Allow authenticated select alert rule state" ON alert_rule_state
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+-- =========================================================================
+-- Notification channels for keepalive alerts, alongside the Resend email
+-- configured by env vars. A channel scoped to neither a device nor a rule
+-- receives every alert. Every delivery attempt is logged.
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  channel_type TEXT NOT NULL
+    CHECK (channel_type IN ('webhook', 'slack', 'discord', 'ntfy')),
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  -- HMAC signing secret for webhooks; bearer token for ntfy.
+  secret TEXT,
+  device_id TEXT REFERENCES devices(id) ON DELETE CASCADE,
+  rule_id BIGINT REFERENCES alert_rules(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT notification_channels_scope_check
+    CHECK (device_id IS NULL OR rule_id IS NULL)
+);
+
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated all on notification channels" ON notification_channels;
+-- Webhook URLs and secrets are credentials, so only admins can read channels.
+DROP POLICY IF EXISTS "Allow authenticated select on notification channels" ON notification_channels;
+DROP POLICY IF EXISTS "Allow admins select on notification channels" ON notification_channels;
+CREATE POLICY "Allow admins select on notification channels" ON notification_channels
+  FOR SELECT
+  TO authenticated
+  USING (has_role('admin'));
+
+DROP POLICY IF EXISTS "Allow admins write on notification channels" ON notification_channels;
+CREATE POLICY "Allow admins write on notification channels" ON notification_channels
+  FOR ALL
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE TABLE IF NOT EXISTS notification_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  -- NULL for the env-configured email channel.
+  channel_id BIGINT REFERENCES notification_channels(id) ON DELETE SET NULL,
+  channel_type TEXT NOT NULL,
+  device_id TEXT NOT NULL,
+  rule_id BIGINT REFERENCES alert_rules(id) ON DELETE SET NULL,
+  alert_kind TEXT NOT NULL CHECK (alert_kind IN ('problem', 'recovery')),
+  subject TEXT NOT NULL,
+  ok BOOLEAN NOT NULL,
+  status_code INT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_attempts_channel
+  ON notification_attempts (channel_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_attempts_created
+  ON notification_attempts (created_at DESC);
+
+ALTER TABLE notification_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated select notification attempts" ON notification_attempts;
+CREATE POLICY "Allow authenticated select notification attempts" ON notification_attempts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+-- =========================================================================
+-- Incident history written by /api/keepalive. One row per problem episode:
+-- device status incidents (rule_id NULL; missing/stale/anomaly) and alert
+-- rule incidents (status 'firing'). closed_at is NULL while still open.
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS incidents (
+  id BIGSERIAL PRIMARY KEY,
+  device_id TEXT NOT NULL,
+  rule_id BIGINT REFERENCES alert_rules(id) ON DELETE SET NULL,
+  status TEXT NOT NULL
+    CHECK (status IN ('missing', 'stale', 'anomaly', 'firing')),
+  severity TEXT,
+  reason TEXT NOT NULL,
+  -- Best estimate of when the problem began (last reading for stale
+  -- devices, breach start for rules); detected_at is when the cron saw it.
+  opened_at TIMESTAMPTZ NOT NULL,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT incidents_closed_after_open CHECK (closed_at IS NULL OR closed_at >= opened_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_incidents_device_opened
+  ON incidents (device_id, opened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_incidents_opened
+  ON incidents (opened_at DESC);
+
+-- At most one open incident per device status / per (rule, device).
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incidents_open_device
+  ON incidents (device_id)
+  WHERE closed_at IS NULL AND rule_id IS NULL AND status <> 'firing';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incidents_open_rule
+  ON incidents (rule_id, device_id)
+  WHERE closed_at IS NULL AND rule_id IS NOT NULL;
+
+ALTER TABLE incidents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated select incidents" ON incidents;
+CREATE POLICY "Allow authenticated select incidents" ON incidents
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+ALTER TABLE notification_attempts
+  ADD COLUMN IF NOT EXISTS incident_id BIGINT REFERENCES incidents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notification_attempts_incident
+  ON notification_attempts (incident_id);
+
+-- =========================================================================
+-- Alert suppression: acknowledged incidents, per-device snooze and
+-- maintenance windows. /api/keepalive still records status and incidents
+-- while any of these applies but sends no notifications.
+-- =========================================================================
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMPTZ;
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS acknowledged_by UUID;
+
+-- Operators may only acknowledge; the rest of an incident row is
+-- owned by the cron, so this goes through SECURITY DEFINER instead of an
+-- UPDATE policy.
+CREATE OR REPLACE FUNCTION acknowledge_incident(p_incident_id BIGINT)
+RETURNS SETOF incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role('operator') THEN
+    RAISE EXCEPTION 'Only operators and admins can acknowledge incidents' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.incidents
+    SET acknowledged_at = NOW(),
+        acknowledged_by = auth.uid()
+    WHERE id = p_incident_id
+      AND closed_at IS NULL
+      AND acknowledged_at IS NULL
+    RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acknowledge_incident(BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.acknowledge_incident(BIGINT) TO authenticated, service_role;
+
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS alerts_snoozed_until TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS maintenance_windows (
+  id BIGSERIAL PRIMARY KEY,
+  -- NULL device_id covers every monitored device.
+  device_id TEXT REFERENCES devices(id) ON DELETE CASCADE,
+  deployment_id BIGINT REFERENCES deployments(id) ON DELETE SET NULL,
+  reason TEXT,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT maintenance_windows_valid_range CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_windows_range
+  ON maintenance_windows (starts_at, ends_at);
+
+ALTER TABLE maintenance_windows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated all on maintenance windows" ON maintenance_windows;
+DROP POLICY IF EXISTS "Allow authenticated select on maintenance windows" ON maintenance_windows;
+CREATE POLICY "Allow authenticated select on maintenance windows" ON maintenance_windows
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow operators write on maintenance windows" ON maintenance_windows;
+CREATE POLICY "Allow operators write on maintenance windows" ON maintenance_windows
+  FOR ALL
+  TO authenticated
+  USING (has_role('operator'))
+  WITH CHECK (has_role('operator'));
+
+-- =========================================================================
+-- Stuck-sensor detection. Keepalive adds two device statuses: 'flatline'
+-- (the last N readings are identical) and 'spike' (a jump between
+-- consecutive readings larger than the metric's max_delta).
+-- =========================================================================
+ALTER TABLE metrics ADD COLUMN IF NOT EXISTS max_delta DOUBLE PRECISION
+  CHECK (max_delta IS NULL OR max_delta > 0);
+
+-- Largest plausible change between consecutive readings, in storage units.
+-- NULL skips the spike check for that metric; the core metrics are seeded
+-- when unset.
+UPDATE metrics SET max_delta = 10 WHERE key = 'temperature' AND max_delta IS NULL;
+UPDATE metrics SET max_delta = 30 WHERE key = 'humidity' AND max_delta IS NULL;
+
+-- Recreated rather than guarded so re-running picks up the new statuses.
+ALTER TABLE device_alert_state DROP CONSTRAINT IF EXISTS device_alert_state_status_check;
+ALTER TABLE device_alert_state
+  ADD CONSTRAINT device_alert_state_status_check
+  CHECK (status IN ('ok', 'missing', 'stale', 'anomaly', 'flatline', 'spike'));
+
+-- incidents_status_check is recreated once, with drift, in the next section.
+
+-- =========================================================================
+-- Sensor-vs-weather drift. Keepalive compares each monitored device's
+-- rolling average with its weather_<id> counterpart and opens a 'drift'
+-- incident (rule_id NULL) when the percent error stays over the threshold.
+-- Drift is tracked beside the device status, not instead of it.
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS device_drift_state (
+  device_id TEXT PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'ok'
+    CHECK (status IN ('ok', 'drift')),
+  metric TEXT,
+  percent_error DOUBLE PRECISION,
+  breach_started_at TIMESTAMPTZ,
+  last_alert_type TEXT,
+  last_alert_sent_at TIMESTAMPTZ,
+  last_recovery_sent_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE device_drift_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated select drift state" ON device_drift_state;
+CREATE POLICY "Allow authenticated select drift state" ON device_drift_state
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+-- Every incident status, defined only here: re-adding a narrower list first
+-- would fail on re-runs once drift incidents exist.
+ALTER TABLE incidents DROP CONSTRAINT IF EXISTS incidents_status_check;
+ALTER TABLE incidents
+  ADD CONSTRAINT incidents_status_check
+  CHECK (status IN ('missing', 'stale', 'anomaly', 'flatline', 'spike', 'drift', 'firing'));
+
+-- A drift incident can be open alongside a device status incident.
+DROP INDEX IF EXISTS idx_incidents_open_device;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incidents_open_device
+  ON incidents (device_id)
+  WHERE closed_at IS NULL AND rule_id IS NULL AND status NOT IN ('firing', 'drift');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incidents_open_drift
+  ON incidents (device_id)
+  WHERE closed_at IS NULL AND rule_id IS NULL AND status = 'drift';
+
+-- =========================================================================
+-- Weather providers. /api/weather tries WeatherAPI.com and Open-Meteo in
+-- the configured order and records which one produced each weather row.
+-- =========================================================================
+ALTER TABLE readings ADD COLUMN IF NOT EXISTS weather_provider TEXT;
+
+-- Every weather row before this column existed came from WeatherAPI.com.
+UPDATE readings SET weather_provider = 'weatherapi'
+WHERE source = 'weather' AND weather_provider IS NULL;
+
+-- =========================================================================
+-- Deployment templates and bulk starts. A template holds the metadata that
+-- gets retyped on every room rotation. start_deployments starts one
+-- deployment per device with shared metadata, ending that device's active
+-- deployment in the same step. Each device runs in its own subtransaction:
+-- a conflict is reported in its row and leaves the other devices alone.
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS deployment_templates (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  deployment_name TEXT NOT NULL,
+  location TEXT NOT NULL,
+  notes TEXT,
+  zip_code TEXT,
+  country_code TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT deployment_templates_coordinates_check
+    CHECK (
+      (latitude IS NULL AND longitude IS NULL)
+      OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+    )
+);
+
+CREATE OR REPLACE FUNCTION update_deployment_templates_updated_at()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN NEW.updated_at = NOW(); RETURN NEW; END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_deployment_templates_updated_at ON deployment_templates;
+CREATE TRIGGER trg_deployment_templates_updated_at
+  BEFORE UPDATE ON deployment_templates
+  FOR EACH ROW EXECUTE FUNCTION update_deployment_templates_updated_at();
+
+ALTER TABLE deployment_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated all on deployment templates" ON deployment_templates;
+DROP POLICY IF EXISTS "Allow authenticated select on deployment templates" ON deployment_templates;
+CREATE POLICY "Allow authenticated select on deployment templates" ON deployment_templates
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow operators write on deployment templates" ON deployment_templates;
+CREATE POLICY "Allow operators write on deployment templates" ON deployment_templates
+  FOR ALL
+  TO authenticated
+  USING (has_role('operator'))
+  WITH CHECK (has_role('operator'));
+
+-- One row per distinct device, in input order. `conflict` explains why a
+-- device was skipped; deployment_id is NULL then and nothing was changed.
+CREATE OR REPLACE FUNCTION start_deployments(
+  p_device_ids TEXT[],
+  p_name TEXT,
+  p_location TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_zip_code TEXT DEFAULT NULL,
+  p_country_code TEXT DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_started_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  device_id TEXT,
+  deployment_id BIGINT,
+  ended_deployment_id BIGINT,
+  conflict TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_started_at TIMESTAMPTZ := COALESCE(p_started_at, NOW());
+  v_device TEXT;
+  v_active public.deployments%ROWTYPE;
+  v_blocker public.deployments%ROWTYPE;
+BEGIN
+  IF btrim(COALESCE(p_name, '')) = '' OR btrim(COALESCE(p_location, '')) = '' THEN
+    RAISE EXCEPTION 'Deployment name and location are required';
+  END IF;
+
+  FOR v_device IN
+    SELECT u.id
+    FROM unnest(p_device_ids) WITH ORDINALITY AS u(id, n)
+    GROUP BY u.id
+    ORDER BY MIN(u.n)
+  LOOP
+    device_id := v_device;
+    deployment_id := NULL;
+    ended_deployment_id := NULL;
+    conflict := NULL;
+
+    SELECT d.* INTO v_active
+      FROM public.deployments d
+      WHERE d.device_id = v_device AND d.ended_at IS NULL
+      FOR UPDATE;
+
+    SELECT d.* INTO v_blocker
+      FROM public.deployments d
+      WHERE d.device_id = v_device
+        AND d.id IS DISTINCT FROM v_active.id
+        AND d.archived_at IS NULL
+        AND tstzrange(d.started_at, COALESCE(d.ended_at, 'infinity'::timestamptz), '[)')
+            && tstzrange(v_started_at, 'infinity'::timestamptz, '[)')
+      ORDER BY d.started_at
+      LIMIT 1;
+
+    IF v_active.id IS NOT NULL AND v_active.started_at >= v_started_at THEN
+      conflict := format('Active deployment "%s" started at or after the requested start time', v_active.name);
+    ELSIF v_blocker.id IS NOT NULL THEN
+      conflict := format('Overlaps deployment "%s" (%s to %s)', v_blocker.name,
+        v_blocker.started_at, COALESCE(v_blocker.ended_at::text, 'now'));
+    ELSE
+      BEGIN
+        IF v_active.id IS NOT NULL THEN
+          UPDATE public.deployments SET ended_at = v_started_at WHERE id = v_active.id;
+          ended_deployment_id := v_active.id;
+        END IF;
+
+        INSERT INTO public.deployments (
+          device_id, name, location, notes, zip_code, country_code, latitude, longitude, started_at
+        ) VALUES (
+          v_device, btrim(p_name), btrim(p_location), NULLIF(btrim(COALESCE(p_notes, '')), ''),
+          p_zip_code, p_country_code, p_latitude, p_longitude, v_started_at
+        )
+        RETURNING id INTO deployment_id;
+      EXCEPTION WHEN exclusion_violation OR unique_violation THEN
+        -- Raced with another writer; the subtransaction undid the end too.
+        deployment_id := NULL;
+        ended_deployment_id := NULL;
+        conflict := 'Overlaps another deployment for this device';
+      END;
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_deployments(TEXT[], TEXT, TEXT, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_deployments(TEXT[], TEXT, TEXT, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) TO authenticated, service_role;
+
+-- =========================================================================
+-- Orphaned readings: sensor readings no deployment window covers, so they
+-- never show up in deployment-scoped stats or analysis. Readings closer
+-- together than p_gap_minutes form one span; each span names the nearest
+-- deployment before and after it on the same device, which the
+-- /deployments page offers to extend over the span. Archived deployments
+-- cover nothing here.
+-- =========================================================================
+CREATE OR REPLACE FUNCTION get_orphaned_reading_spans(
+  p_device_id TEXT DEFAULT NULL,
+  p_gap_minutes INT DEFAULT 60
+)
+RETURNS TABLE (
+  device_id TEXT,
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  reading_count BIGINT,
+  previous_deployment_id BIGINT,
+  previous_deployment_name TEXT,
+  next_deployment_id BIGINT,
+  next_deployment_name TEXT
+)
+LANGUAGE SQL STABLE
+SET search_path = public
+AS $$
+  WITH orphans AS (
+    SELECT
+      r.device_id,
+      r.measured_at,
+      CASE
+        WHEN LAG(r.measured_at) OVER w IS NULL
+          OR r.measured_at - LAG(r.measured_at) OVER w > make_interval(mins => p_gap_minutes)
+        THEN 1 ELSE 0
+      END AS starts_span
+    FROM public.readings r
+    WHERE r.source = 'sensor'
+      AND (p_device_id IS NULL OR r.device_id = p_device_id)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.deployments d
+        WHERE d.device_id = r.device_id
+          AND d.archived_at IS NULL
+          AND r.measured_at >= d.started_at
+          AND (d.ended_at IS NULL OR r.measured_at <= d.ended_at)
+      )
+    WINDOW w AS (PARTITION BY r.device_id ORDER BY r.measured_at)
+  ),
+  numbered AS (
+    SELECT
+      o.device_id,
+      o.measured_at,
+      SUM(o.starts_span) OVER (PARTITION BY o.device_id ORDER BY o.measured_at) AS span_no
+    FROM orphans o
+  ),
+  spans AS (
+    SELECT n.device_id, MIN(n.measured_at) AS started_at, MAX(n.measured_at) AS ended_at, COUNT(*) AS reading_count
+    FROM numbered n
+    GROUP BY n.device_id, n.span_no
+  )
+  SELECT
+    s.device_id,
+    s.started_at,
+    s.ended_at,
+    s.reading_count,
+    prev.id,
+    prev.name,
+    nxt.id,
+    nxt.name
+  FROM spans s
+  LEFT JOIN LATERAL (
+    SELECT d.id, d.name
+    FROM public.deployments d
+    WHERE d.device_id = s.device_id AND d.archived_at IS NULL
+      AND d.ended_at IS NOT NULL AND d.ended_at < s.started_at
+    ORDER BY d.ended_at DESC
+    LIMIT 1
+  ) prev ON true
+  LEFT JOIN LATERAL (
+    SELECT d.id, d.name
+    FROM public.deployments d
+    WHERE d.device_id = s.device_id AND d.archived_at IS NULL
+      AND d.started_at > s.ended_at
+    ORDER BY d.started_at
+    LIMIT 1
+  ) nxt ON true
+  ORDER BY s.device_id, s.started_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_orphaned_reading_spans(TEXT, INT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_orphaned_reading_spans(TEXT, INT) TO authenticated, service_role;
+
+-- =========================================================================
+-- Audit triggers: every insert, update and delete on devices, deployments
+-- and app_settings lands in audit_log with the caller's identity, whichever
+-- client or RPC made it. Rows changed by service-role code (ingest
+-- auto-registration, server routes) have no actor. API key hashes are left
+-- out of the snapshots.
+-- =========================================================================
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_entity TEXT := TG_ARGV[0];
+  v_id_column TEXT := TG_ARGV[1];
+  v_before JSONB;
+  v_after JSONB;
+  v_action TEXT;
+BEGIN
+  IF current_setting('audit.skip', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    v_before := to_jsonb(OLD) - 'api_key_hash';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_after := to_jsonb(NEW) - 'api_key_hash';
+  END IF;
+
+  -- Updates that only touch updated_at (or the key hash) are not changes.
+  IF TG_OP = 'UPDATE' AND (v_before - 'updated_at') = (v_after - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  v_action := CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END;
+  IF TG_OP = 'UPDATE' AND v_entity = 'deployment' THEN
+    IF v_before->>'archived_at' IS NULL AND v_after->>'archived_at' IS NOT NULL THEN
+      v_action := 'archive';
+    ELSIF v_before->>'archived_at' IS NOT NULL AND v_after->>'archived_at' IS NULL THEN
+      v_action := 'restore';
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND v_entity = 'device'
+        AND (v_before->>'is_active')::boolean AND NOT (v_after->>'is_active')::boolean THEN
+    v_action := 'deactivate';
+  END IF;
+
+  INSERT INTO public.audit_log (actor_id, actor_email, action, entity_type, entity_id, before, after)
+  VALUES (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    v_entity || '.' || v_action,
+    v_entity,
+    COALESCE(v_after, v_before) ->> v_id_column,
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_audit_devices ON devices;
+CREATE TRIGGER trg_audit_devices
+  AFTER INSERT OR UPDATE OR DELETE ON devices
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('device', 'id');
+
+DROP TRIGGER IF EXISTS trg_audit_deployments ON deployments;
+CREATE TRIGGER trg_audit_deployments
+  AFTER INSERT OR UPDATE OR DELETE ON deployments
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('deployment', 'id');
+
+DROP TRIGGER IF EXISTS trg_audit_app_settings ON app_settings;
+CREATE TRIGGER trg_audit_app_settings
+  AFTER INSERT OR UPDATE OR DELETE ON app_settings
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('app_setting', 'key');
@@ -0,0 +1,276 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { PageLayout } from '@/components/PageLayout';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { useSession } from '@/components/AuthProvider';
+import { ROLE_LABELS, ROLE_ORDER, hasRole } from '@/lib/roles';
+import {
+  INVITATION_TTL_DAYS,
+  getUserDirectory,
+  invitationStatus,
+  inviteUser,
+  isValidEmail,
+  revokeInvitation,
+  updateManagedUser,
+  type InviteResult,
+  type InvitationStatus,
+} from '@/lib/userAdmin';
+import type { AppRole, ManagedUser, UserInvitation } from '@/lib/supabase';
+
+const selectClass = 'bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white';
+const inputClass = 'bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-[#a0aec0]/50';
+
+const STATUS_COLORS: Record<InvitationStatus, string> = {
+  pending: '#0075ff',
+  accepted: '#01b574',
+  expired: '#a0aec0',
+  revoked: '#e31a1a',
+};
+
+function formatMoment(iso: string | null): string {
+  if (!iso) return 'Never';
+  return new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export default function AdminUsersPage() {
+  const { role, user: currentUser } = useSession();
+  const isAdmin = hasRole(role, 'admin');
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [invitations, setInvitations] = useState<UserInvitation[]>([]);
+  const [nowMs, setNowMs] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AppRole>('viewer');
+  const [lastInvite, setLastInvite] = useState<InviteResult | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const directory = await getUserDirectory();
+      setUsers(directory.users);
+      setInvitations(directory.invitations);
+      setNowMs(Date.now());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load users.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    const timer = setTimeout(() => {
+      void fetchData();
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [fetchData, isAdmin]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+      await fetchData();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleInvite = () =>
+    run(async () => {
+      setLastInvite(null);
+      setLastInvite(await inviteUser(inviteEmail.trim(), inviteRole));
+      setInviteEmail('');
+    });
+
+  if (role && !isAdmin) {
+    return (
+      <PageLayout title="Users" subtitle="Invitations, roles and account access">
+        <EmptyState title="Admins only" subtitle="Ask an admin to invite users or change roles" />
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout title="Users" subtitle="Invitations, roles and account access">
+      {error && (
+        <div className="mb-6 p-4 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+          <p className="text-sm text-[#e31a1a]">{error}</p>
+        </div>
+      )}
+
+      <div className="glass-card p-6 mb-8">
+        <h2 className="text-lg font-semibold text-white mb-4">Invite User</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="email"
+            aria-label="Email"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+            placeholder="classmate@example.com"
+            className={`${inputClass} w-72`}
+          />
+          <select
+            aria-label="Role"
+            value={inviteRole}
+            onChange={(e) => setInviteRole(e.target.value as AppRole)}
+            className={selectClass}
+          >
+            {ROLE_ORDER.map((r) => (
+              <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleInvite}
+            disabled={isSaving || !isValidEmail(inviteEmail)}
+            className="btn-glass px-5 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Inviting...' : 'Send Invitation'}
+          </button>
+        </div>
+        <p className="text-xs text-[#a0aec0] mt-3">
+          Links work once and expire after {INVITATION_TTL_DAYS} days. A new invitation replaces any pending one for the same address.
+        </p>
+
+        {lastInvite && (
+          <div className="mt-4 p-4 rounded-xl bg-[#01b574]/10 border border-[#01b574]/30">
+            <p className="text-sm text-white mb-2">
+              {lastInvite.emailed
+                ? `Invitation emailed to ${lastInvite.invitation.email}.`
+                : `Invitation created for ${lastInvite.invitation.email}, but not emailed (${lastInvite.email_error}).`}{' '}
+              The link is shown only once:
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <code className="flex-1 min-w-0 break-all text-xs text-[#c8d0e0] bg-black/30 rounded-lg px-3 py-2">
+                {lastInvite.invite_url}
+              </code>
+              <button
+                onClick={() => void navigator.clipboard?.writeText(lastInvite.invite_url)}
+                className="px-3 py-2 rounded-lg text-xs font-medium text-white bg-white/5 hover:bg-white/10"
+              >
+                Copy Link
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isLoading && users.length === 0 ? (
+        <div className="glass-card p-12">
+          <LoadingSpinner message="Loading users..." />
+        </div>
+      ) : (
+        <div className="fade-in space-y-8">
+          <div className="glass-card p-6 overflow-x-auto">
+            <h2 className="text-lg font-semibold text-white mb-4">Users</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[#a0aec0]">
+                  <th className="py-2 pr-4 font-medium">Email</th>
+                  <th className="py-2 pr-4 font-medium">Role</th>
+                  <th className="py-2 pr-4 font-medium">Last Sign-In</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((u) => {
+                  const isSelf = u.id === currentUser?.id;
+                  return (
+                    <tr key={u.id} className="border-t border-white/5">
+                      <td className="py-3 pr-4 text-white">
+                        {u.email ?? u.id}
+                        {isSelf && <span className="ml-2 text-xs text-[#a0aec0]">(you)</span>}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <select
+                          aria-label={`Role for ${u.email ?? u.id}`}
+                          value={u.role}
+                          disabled={isSaving || isSelf}
+                          onChange={(e) => run(async () => {
+                            await updateManagedUser(u.id, { role: e.target.value as AppRole });
+                          })}
+                          className={`${selectClass} disabled:opacity-50`}
+                        >
+                          {ROLE_ORDER.map((r) => (
+                            <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-3 pr-4 text-[#a0aec0]">{formatMoment(u.last_sign_in_at)}</td>
+                      <td className="py-3 pr-4">
+                        <span className={u.disabled ? 'text-[#e31a1a]' : 'text-[#01b574]'}>
+                          {u.disabled ? 'Disabled' : 'Active'}
+                        </span>
+                      </td>
+                      <td className="py-3 text-right">
+                        {!isSelf && (
+                          <button
+                            onClick={() => run(async () => {
+                              await updateManagedUser(u.id, { disabled: !u.disabled });
+                            })}
+                            disabled={isSaving}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-medium bg-white/5 hover:bg-white/10 disabled:opacity-50 ${
+                              u.disabled ? 'text-[#01b574]' : 'text-[#e31a1a]'
+                            }`}
+                          >
+                            {u.disabled ? 'Enable' : 'Disable'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="glass-card p-6">
+            <h2 className="text-lg font-semibold text-white mb-4">Invitations</h2>
+            {invitations.length === 0 ? (
+              <p className="text-sm text-[#a0aec0]">No invitations yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {invitations.map((inv) => {
+                  const status = invitationStatus(inv, nowMs);
+                  return (
+                    <div key={inv.id} className="flex flex-wrap items-center gap-3">
+                      <span
+                        className="px-2.5 py-1 rounded-full text-xs font-medium"
+                        style={{ backgroundColor: `${STATUS_COLORS[status]}26`, color: STATUS_COLORS[status] }}
+                      >
+                        {status}
+                      </span>
+                      <span className="text-white">{inv.email}</span>
+                      <span className="text-sm text-[#a0aec0]">{ROLE_LABELS[inv.role]}</span>
+                      <span className="ml-auto text-xs text-[#a0aec0]">
+                        {status === 'accepted'
+                          ? `Accepted ${formatMoment(inv.accepted_at)}`
+                          : `Sent ${formatMoment(inv.created_at)} · expires ${formatMoment(inv.expires_at)}`}
+                      </span>
+                      {status === 'pending' && (
+                        <button
+                          onClick={() => run(() => revokeInvitation(inv.id))}
+                          disabled={isSaving}
+                          className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#e31a1a] bg-white/5 hover:bg-white/10 disabled:opacity-50"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </PageLayout>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { PageLayout } from '@/components/PageLayout';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { AlertRuleForm } from '@/components/AlertRuleForm';
+import { NotificationChannelsPanel } from '@/components/NotificationChannelsPanel';
+import { MaintenancePanel } from '@/components/MaintenancePanel';
+import { useDevices } from '@/contexts/DevicesContext';
+import { useMetrics } from '@/hooks/useMetrics';
+import { describeRule } from '@/lib/alertRules';
+import {
+  createAlertRule,
+  deleteAlertRule,
+  getAlertRules,
+  getAlertRuleStates,
+  getDeployments,
+  updateAlertRule,
+  type AlertRule,
+  type AlertRuleInput,
+  type AlertRuleState,
+  type AlertSeverity,
+  type DeploymentWithCount,
+} from '@/lib/supabase';
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: 'bg-[#0075ff]/15 text-[#0075ff]',
+  warning: 'bg-[#ffb547]/15 text-[#ffb547]',
+  critical: 'bg-[#e31a1a]/15 text-[#e31a1a]',
+};
+
+export default function AlertsPage() {
+  const { devices, refresh: refreshDevices } = useDevices();
+  const { metrics } = useMetrics();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [states, setStates] = useState<AlertRuleState[]>([]);
+  const [deployments, setDeployments] = useState<DeploymentWithCount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<AlertRule | 'new' | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+    const [ruleRows, stateRows, activeDeployments] = await Promise.all([
+      getAlertRules(),
+      getAlertRuleStates(),
+      getDeployments({ status: 'active' }),
+    ]);
+    setRules(ruleRows);
+    setStates(stateRows);
+    setDeployments(activeDeployments);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void fetchData();
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [fetchData]);
+
+  const handleSave = async (input: AlertRuleInput) => {
+    if (editing && editing !== 'new') {
+      await updateAlertRule(editing.id, input);
+    } else {
+      await createAlertRule(input);
+    }
+    setEditing(null);
+    await fetchData();
+  };
+
+  const handleToggleEnabled = async (rule: AlertRule) => {
+    setError(null);
+    try {
+      await updateAlertRule(rule.id, { enabled: !rule.enabled });
+      await fetchData();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed to update rule.';
+      setError(msg);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setError(null);
+    const ok = await deleteAlertRule(id);
+    if (!ok) {
+      setError('Failed to delete rule.');
+      return;
+    }
+    setConfirmDelete(null);
+    await fetchData();
+  };
+
+  const scopeLabel = (rule: AlertRule) => {
+    if (rule.deployment_id !== null) {
+      const deployment = deployments.find((d) => d.id === rule.deployment_id);
+      return deployment ? `Deployment: ${deployment.name}` : 'Deployment (ended)';
+    }
+    if (rule.device_id !== null) {
+      return devices.find((d) => d.id === rule.device_id)?.display_name || rule.device_id;
+    }
+    return 'All monitored devices';
+  };
+
+  return (
+    <PageLayout title="Alert Rules" subtitle="Conditions checked by the monitoring cron">
+      <div className="flex flex-wrap items-center gap-4 mb-8">
+        <p className="text-sm text-[#a0aec0] flex-1 min-w-[200px]">
+          Rules are checked every monitoring run and notify once when they start and stop firing.
+        </p>
+        <button
+          onClick={() => setEditing('new')}
+          disabled={editing !== null}
+          className="btn-glass px-5 py-3 text-sm font-semibold text-white disabled:opacity-50"
+        >
+          + New Rule
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+          <p className="text-sm text-[#e31a1a]">{error}</p>
+        </div>
+      )}
+
+      {editing !== null && (
+        <div className="mb-8">
+          <AlertRuleForm
+            key={editing === 'new' ? 'new' : editing.id}
+            rule={editing === 'new' ? undefined : editing}
+            metrics={metrics}
+            devices={devices}
+            deployments={deployments}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="glass-card p-12">
+          <LoadingSpinner message="Loading alert rules..." />
+        </div>
+      ) : rules.length === 0 ? (
+        <EmptyState
+          title="No alert rules yet"
+          subtitle="Add a rule such as “temperature above 90°F for 15 minutes”"
+        />
+      ) : (
+        <div className="space-y-4">
+          {rules.map((rule) => {
+            const firing = states.filter((s) => s.rule_id === rule.id && s.status === 'firing');
+            return (
+              <div key={rule.id} className={`glass-card p-6 ${rule.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex items-center gap-4">
+                  <div
+                    className={`w-3 h-3 rounded-full flex-shrink-0 ${
+                      firing.length > 0 ? 'bg-[#e31a1a] animate-pulse' : rule.enabled ? 'bg-[#01b574]' : 'bg-[#a0aec0]/40'
+                    }`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold text-white truncate">{rule.name}</h3>
+                      <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${SEVERITY_STYLES[rule.severity]}`}>
+                        {rule.severity}
+                      </span>
+                    </div>
+                    <p className="text-sm text-[#a0aec0]">
+                      {describeRule(rule, metrics)} &bull; {scopeLabel(rule)}
+                    </p>
+                    {firing.length > 0 && (
+                      <p className="text-xs text-[#e31a1a] mt-1">
+                        Firing on {firing.map((s) => s.device_id).join(', ')}
+                      </p>
+                    )}
+                  </div>
+
+                  <button
+                    onClick={() => handleToggleEnabled(rule)}
+                    className="flex-shrink-0"
+                    title={rule.enabled ? 'Disable' : 'Enable'}
+                  >
+                    <div
+                      className={`w-9 h-5 rounded-full relative transition-colors ${
+                        rule.enabled ? 'bg-[#01b574]' : 'bg-white/20'
+                      }`}
+                    >
+                      <div
+                        className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
+                          rule.enabled ? 'translate-x-4' : 'translate-x-0.5'
+                        }`}
+                      />
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => setEditing(rule)}
+                    disabled={editing !== null}
+                    className="text-sm text-[#a0aec0] hover:text-white transition-colors flex-shrink-0 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => setConfirmDelete(rule.id)}
+                    className="text-sm text-[#a0aec0] hover:text-[#e31a1a] transition-colors flex-shrink-0"
+                  >
+                    Delete
+                  </button>
+                </div>
+
+                {confirmDelete === rule.id && (
+                  <div className="mt-3 p-3 rounded-lg bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+                    <p className="text-sm text-white mb-2">
+                      Delete <span className="font-semibold">{rule.name}</span>? Its alert state is removed too.
+                    </p>
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => handleDelete(rule.id)}
+                        className="btn-glass px-4 py-2 text-sm font-semibold text-[#e31a1a]"
+                      >
+                        Yes, Delete
+                      </button>
+                      <button
+                        onClick={() => setConfirmDelete(null)}
+                        className="px-4 py-2 text-sm text-[#a0aec0] hover:text-white transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="mt-10">
+        <NotificationChannelsPanel rules={rules} devices={devices} />
+      </div>
+
+      <div className="mt-10">
+        <MaintenancePanel devices={devices} onDevicesChange={refreshDevices} />
+      </div>
+    </PageLayout>
+  );
+}
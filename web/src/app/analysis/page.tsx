@@ -17,6 +17,8 @@ import { SeasonalResults } from '@/components/analysis/SeasonalResults';
 import { ForecastResults } from '@/components/analysis/ForecastResults';
 import { TIME_RANGES } from '@/lib/constants';
 import { BounceDots } from '@/components/LoadingSpinner';
+import { CalibrationToggle } from '@/components/CalibrationToggle';
+import { useDevices } from '@/contexts/DevicesContext';
 
 const ANALYSIS_TYPES = [
   { id: 'descriptive', label: 'Descriptive Stats' },
@@ -66,6 +68,7 @@ export default function AnalysisPage() {
   const [customEnd, setCustomEnd] = useState('');
 
   const [selectedAnalyses, setSelectedAnalyses] = useState<string[]>([]);
+  const { calibrations } = useDevices();
 
   const setPageContext = useSetChatPageContext();
   useEffect(() => {
@@ -170,6 +173,7 @@ export default function AnalysisPage() {
           start,
           end,
           analyses: selectedAnalyses as AnalysisType[],
+          calibrations,
         },
         (msg) => setRunProgress(msg)
       );
@@ -181,7 +185,7 @@ export default function AnalysisPage() {
     } finally {
       setIsRunning(false);
     }
-  }, [pyodideRef, canRun, selectedDeployments, selectedAnalyses, selectedRange, isCustom, customStart, customEnd]);
+  }, [pyodideRef, canRun, selectedDeployments, selectedAnalyses, selectedRange, isCustom, customStart, customEnd, calibrations]);
 
   const renderPyodideStatus = () => {
     const { stage, message } = pyodideStatus;
@@ -245,9 +249,12 @@ export default function AnalysisPage() {
           <div className="glass-card p-4 sm:p-6 mb-6">{renderPyodideStatus()}</div>
 
           <div className="glass-card p-4 sm:p-6 mb-6">
-            <h2 className="text-lg font-semibold text-white mb-4">
-              Configuration
-            </h2>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h2 className="text-lg font-semibold text-white">
+                Configuration
+              </h2>
+              <CalibrationToggle compact />
+            </div>
 
             <div className="mb-5">
               <label className="text-sm text-[#a0aec0] font-medium mb-2 block">
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getServerUserWithRole } from '@/lib/serverAuth';
+import { getServerClient } from '@/lib/supabase/server';
+import { hasRole } from '@/lib/roles';
+import { recordUserAudit } from '@/lib/userAdmin';
+
+// Revokes a pending invitation so its link stops working.
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await getServerUserWithRole();
+    if (!auth) return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+    if (!hasRole(auth.role, 'admin')) return NextResponse.json({ ok: false, error: 'Forbidden' }, { status: 403 });
+
+    const invitationId = Number((await params).id);
+    if (!Number.isInteger(invitationId) || invitationId <= 0) {
+      return NextResponse.json({ ok: false, error: 'Invalid invitation id' }, { status: 400 });
+    }
+
+    const supabase = getServerClient();
+    const { data: invitation, error } = await supabase
+      .from('user_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('id, email, role')
+      .maybeSingle();
+    if (error) throw new Error(`Failed to revoke invitation: ${error.message}`);
+    if (!invitation) {
+      return NextResponse.json({ ok: false, error: 'Invitation was already used or revoked' }, { status: 409 });
+    }
+
+    await recordUserAudit(supabase, {
+      actor: auth.user,
+      action: 'user.revoke_invite',
+      userId: null,
+      before: { invitation_id: invitation.id, email: invitation.email, role: invitation.role },
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
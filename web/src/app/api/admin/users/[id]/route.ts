@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { getServerUserWithRole } from '@/lib/serverAuth';
+import { getServerClient } from '@/lib/supabase/server';
+import { ROLE_ORDER, hasRole, parseRole } from '@/lib/roles';
+import { DISABLED_BAN_DURATION, recordUserAudit, toManagedUser } from '@/lib/userAdmin';
+import type { AppRole } from '@/lib/supabase';
+
+// Changes one user's role or disables/re-enables the account. Disabling bans
+// the user in Supabase Auth: they cannot sign in or refresh their session.
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await getServerUserWithRole();
+    if (!auth) return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+    if (!hasRole(auth.role, 'admin')) return NextResponse.json({ ok: false, error: 'Forbidden' }, { status: 403 });
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const role: AppRole | undefined = body.role === undefined ? undefined : parseRole(body.role);
+    const disabled: boolean | undefined = typeof body.disabled === 'boolean' ? body.disabled : undefined;
+    if (body.role !== undefined && !ROLE_ORDER.includes(body.role)) {
+      return NextResponse.json({ ok: false, error: `role must be one of ${ROLE_ORDER.join(', ')}` }, { status: 400 });
+    }
+    if (role === undefined && disabled === undefined) {
+      return NextResponse.json({ ok: false, error: 'Nothing to change' }, { status: 400 });
+    }
+    // Keeps at least the acting admin able to undo whatever they do next.
+    if (id === auth.user.id) {
+      return NextResponse.json({ ok: false, error: 'You cannot change your own role or disable yourself' }, { status: 400 });
+    }
+
+    const supabase = getServerClient();
+    const { data: found, error: findError } = await supabase.auth.admin.getUserById(id);
+    if (findError || !found.user) {
+      return NextResponse.json({ ok: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const { data: roleRow, error: roleError } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', id)
+      .maybeSingle();
+    if (roleError) throw new Error(`Failed to load role: ${roleError.message}`);
+    const nowMs = Date.now();
+    const before = toManagedUser(found.user, parseRole(roleRow?.role), nowMs);
+    let user = found.user;
+
+    if (role !== undefined && role !== before.role) {
+      const { error } = await supabase
+        .from('user_roles')
+        .upsert({ user_id: id, role, updated_at: new Date(nowMs).toISOString() }, { onConflict: 'user_id' });
+      if (error) throw new Error(`Failed to update role: ${error.message}`);
+      await recordUserAudit(supabase, {
+        actor: auth.user,
+        action: 'user.role',
+        userId: id,
+        before: { email: before.email, role: before.role },
+        after: { email: before.email, role },
+      });
+    }
+
+    if (disabled !== undefined && disabled !== before.disabled) {
+      const { data, error } = await supabase.auth.admin.updateUserById(id, {
+        ban_duration: disabled ? DISABLED_BAN_DURATION : 'none',
+      });
+      if (error) throw new Error(`Failed to ${disabled ? 'disable' : 'enable'} user: ${error.message}`);
+      user = data.user;
+      await recordUserAudit(supabase, {
+        actor: auth.user,
+        action: disabled ? 'user.disable' : 'user.enable',
+        userId: id,
+        before: { email: before.email, disabled: before.disabled },
+        after: { email: before.email, disabled },
+      });
+    }
+
+    return NextResponse.json({ ok: true, user: toManagedUser(user, role ?? before.role, Date.now()) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
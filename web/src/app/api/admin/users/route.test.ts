@@ -0,0 +1,153 @@
+// @vitest-environment node
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { hashInvitationToken } from '@/lib/userAdmin';
+
+const getServerUserWithRoleMock = vi.fn();
+const getServerClientMock = vi.fn();
+
+vi.mock('@/lib/serverAuth', () => ({
+  getServerUserWithRole: getServerUserWithRoleMock,
+}));
+
+vi.mock('@/lib/supabase/server', () => ({
+  getServerClient: getServerClientMock,
+}));
+
+const AUTH_USERS = [
+  { id: 'u2', email: 'zed@example.com', created_at: '2026-01-02T00:00:00Z', last_sign_in_at: null, banned_until: '2126-01-01T00:00:00Z' },
+  { id: 'u1', email: 'ada@example.com', created_at: '2026-01-01T00:00:00Z', last_sign_in_at: '2026-03-01T00:00:00Z' },
+];
+
+function makeMockSupabase() {
+  const inserted: Record<string, unknown>[] = [];
+  const revokedEmails: unknown[] = [];
+  const audits: unknown[] = [];
+
+  const from = vi.fn((table: string) => {
+    if (table === 'user_roles') {
+      return { select: vi.fn(async () => ({ data: [{ user_id: 'u1', role: 'admin' }], error: null })) };
+    }
+    if (table === 'audit_log') {
+      return { insert: vi.fn(async (value: unknown) => { audits.push(value); return { error: null }; }) };
+    }
+    if (table !== 'user_invitations') throw new Error(`Unexpected table: ${table}`);
+
+    const query: Record<string, unknown> = {};
+    query.select = vi.fn(() => query);
+    query.order = vi.fn(() => query);
+    query.limit = vi.fn(async () => ({ data: [], error: null }));
+    query.update = vi.fn(() => query);
+    query.eq = vi.fn((column: string, value: unknown) => {
+      if (column === 'email') revokedEmails.push(value);
+      return query;
+    });
+    query.is = vi.fn(() => query);
+    query.then = (resolve: (value: unknown) => unknown) => resolve({ error: null });
+    query.insert = vi.fn((row: Record<string, unknown>) => {
+      inserted.push(row);
+      query.single = vi.fn(async () => ({ data: { id: 9, ...row, token_hash: undefined }, error: null }));
+      return query;
+    });
+    return query;
+  });
+
+  const listUsers = vi.fn(async () => ({ data: { users: AUTH_USERS }, error: null }));
+
+  return { client: { from, auth: { admin: { listUsers } } }, inserted, revokedEmails, audits };
+}
+
+function post(body: Record<string, unknown>) {
+  return new Request('http://localhost/api/admin/users', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/admin/users route', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env.RESEND_API_KEY;
+    delete process.env.ALERT_DASHBOARD_URL;
+    getServerUserWithRoleMock.mockResolvedValue({ user: { id: 'u1', email: 'ada@example.com' }, role: 'admin' });
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    getServerUserWithRoleMock.mockResolvedValue(null);
+    const { GET } = await import('./route');
+    expect((await GET()).status).toBe(401);
+    expect(getServerClientMock).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for operators', async () => {
+    getServerUserWithRoleMock.mockResolvedValue({ user: { id: 'u3' }, role: 'operator' });
+    const { GET, POST } = await import('./route');
+    expect((await GET()).status).toBe(403);
+    expect((await POST(post({ email: 'new@example.com', role: 'viewer' }))).status).toBe(403);
+    expect(getServerClientMock).not.toHaveBeenCalled();
+  });
+
+  it('lists users sorted by email with roles and disabled state', async () => {
+    getServerClientMock.mockReturnValue(makeMockSupabase().client);
+    const { GET } = await import('./route');
+
+    const body = await (await GET()).json();
+
+    expect(body.users.map((u: { id: string }) => u.id)).toEqual(['u1', 'u2']);
+    expect(body.users[0]).toMatchObject({ role: 'admin', disabled: false });
+    expect(body.users[1]).toMatchObject({ role: 'viewer', disabled: true });
+  });
+
+  it('refuses to invite an address that already has an account', async () => {
+    const supabase = makeMockSupabase();
+    getServerClientMock.mockReturnValue(supabase.client);
+    const { POST } = await import('./route');
+
+    const response = await POST(post({ email: ' ADA@example.com ', role: 'viewer' }));
+
+    expect(response.status).toBe(409);
+    expect(supabase.inserted).toEqual([]);
+  });
+
+  it('stores only the token hash and returns the link once', async () => {
+    const supabase = makeMockSupabase();
+    getServerClientMock.mockReturnValue(supabase.client);
+    const { POST } = await import('./route');
+
+    const response = await POST(post({ email: 'New@Example.com', role: 'operator' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({ ok: true, emailed: false, email_error: expect.stringMatching(/RESEND_API_KEY/) });
+    const token = body.invite_url.replace('http://localhost/invite/', '');
+    expect(token).toMatch(/^inv_[0-9a-f]{64}$/);
+
+    expect(supabase.revokedEmails).toEqual(['new@example.com']);
+    expect(supabase.inserted).toHaveLength(1);
+    expect(supabase.inserted[0]).toMatchObject({
+      email: 'new@example.com',
+      role: 'operator',
+      invited_by: 'u1',
+      token_hash: await hashInvitationToken(token),
+    });
+    expect(JSON.stringify(supabase.inserted[0])).not.toContain(token);
+    expect(supabase.audits).toEqual([expect.objectContaining({ action: 'user.invite', actor_id: 'u1' })]);
+  });
+
+  it('builds the invite link from ALERT_DASHBOARD_URL rather than the request host', async () => {
+    process.env.ALERT_DASHBOARD_URL = 'https://iot.example.com';
+    getServerClientMock.mockReturnValue(makeMockSupabase().client);
+    const { POST } = await import('./route');
+
+    const body = await (await POST(post({ email: 'new@example.com', role: 'viewer' }))).json();
+
+    expect(body.invite_url).toMatch(/^https:\/\/iot\.example\.com\/invite\/inv_[0-9a-f]{64}$/);
+  });
+});
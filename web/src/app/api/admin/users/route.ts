@@ -0,0 +1,142 @@
+import { NextResponse } from 'next/server';
+import { Resend } from 'resend';
+import { getServerUserWithRole } from '@/lib/serverAuth';
+import { getServerClient } from '@/lib/supabase/server';
+import { hasRole, parseRole } from '@/lib/roles';
+import {
+  INVITATION_TTL_DAYS,
+  generateInvitationToken,
+  hashInvitationToken,
+  invitationExpiry,
+  invitationUrl,
+  isValidEmail,
+  listAuthUsers,
+  normalizeEmail,
+  recordUserAudit,
+  toManagedUser,
+} from '@/lib/userAdmin';
+import type { AppRole } from '@/lib/supabase';
+
+// Admin-only user directory and invitations for /admin/users. Uses the
+// service role for the Auth admin API, user_roles and user_invitations.
+
+const INVITATION_COLUMNS = 'id, email, role, invited_by, created_at, expires_at, accepted_at, accepted_user_id, revoked_at';
+
+async function sendInvitationEmail(to: string, role: AppRole, inviteUrl: string): Promise<string | null> {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) return 'RESEND_API_KEY missing; share the link yourself';
+
+  const from = process.env.ALERT_EMAIL_FROM || 'IoT Monitor <onboarding@resend.dev>';
+  const { error } = await new Resend(apiKey).emails.send({
+    from,
+    to: [to],
+    subject: 'You have been invited to the IoT dashboard',
+    text: [
+      `You have been invited to the IoT dashboard as ${role}.`,
+      '',
+      `Set your password here: ${inviteUrl}`,
+      '',
+      `The link works once and expires in ${INVITATION_TTL_DAYS} days.`,
+    ].join('\n'),
+  });
+  return error ? `Resend error: ${error.message}` : null;
+}
+
+export async function GET() {
+  try {
+    const auth = await getServerUserWithRole();
+    if (!auth) return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+    if (!hasRole(auth.role, 'admin')) return NextResponse.json({ ok: false, error: 'Forbidden' }, { status: 403 });
+
+    const supabase = getServerClient();
+    const [authUsers, rolesResult, invitationsResult] = await Promise.all([
+      listAuthUsers(supabase),
+      supabase.from('user_roles').select('user_id, role'),
+      supabase.from('user_invitations').select(INVITATION_COLUMNS).order('created_at', { ascending: false }).limit(200),
+    ]);
+    if (rolesResult.error) throw new Error(`Failed to load roles: ${rolesResult.error.message}`);
+    if (invitationsResult.error) throw new Error(`Failed to load invitations: ${invitationsResult.error.message}`);
+
+    const roles = new Map((rolesResult.data || []).map((r) => [r.user_id as string, parseRole(r.role)]));
+    const nowMs = Date.now();
+    const users = authUsers
+      .map((u) => toManagedUser(u, roles.get(u.id) ?? 'viewer', nowMs))
+      .sort((a, b) => (a.email ?? '').localeCompare(b.email ?? ''));
+
+    return NextResponse.json({ ok: true, users, invitations: invitationsResult.data || [] });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await getServerUserWithRole();
+    if (!auth) return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+    if (!hasRole(auth.role, 'admin')) return NextResponse.json({ ok: false, error: 'Forbidden' }, { status: 403 });
+
+    const body = await request.json().catch(() => ({}));
+    const email = typeof body.email === 'string' ? normalizeEmail(body.email) : '';
+    if (!isValidEmail(email)) {
+      return NextResponse.json({ ok: false, error: 'A valid email is required' }, { status: 400 });
+    }
+    const role = parseRole(body.role);
+
+    const supabase = getServerClient();
+    const existing = (await listAuthUsers(supabase)).find((u) => u.email && normalizeEmail(u.email) === email);
+    if (existing) {
+      return NextResponse.json({ ok: false, error: `${email} already has an account` }, { status: 409 });
+    }
+
+    // A new invitation replaces any still-pending one for the same address.
+    const nowIso = new Date().toISOString();
+    const { error: revokeError } = await supabase
+      .from('user_invitations')
+      .update({ revoked_at: nowIso })
+      .eq('email', email)
+      .is('accepted_at', null)
+      .is('revoked_at', null);
+    if (revokeError) throw new Error(`Failed to replace earlier invitation: ${revokeError.message}`);
+
+    const token = generateInvitationToken();
+    const { data: invitation, error: insertError } = await supabase
+      .from('user_invitations')
+      .insert({
+        email,
+        role,
+        token_hash: await hashInvitationToken(token),
+        invited_by: auth.user.id,
+        expires_at: invitationExpiry(Date.now()),
+      })
+      .select(INVITATION_COLUMNS)
+      .single();
+    if (insertError || !invitation) {
+      throw new Error(`Failed to create invitation: ${insertError?.message ?? 'no row returned'}`);
+    }
+
+    await recordUserAudit(supabase, {
+      actor: auth.user,
+      action: 'user.invite',
+      userId: null,
+      after: { invitation_id: invitation.id, email, role, expires_at: invitation.expires_at },
+    });
+
+    const inviteUrl = invitationUrl(token, process.env.ALERT_DASHBOARD_URL, request.url);
+    const emailError = await sendInvitationEmail(email, role, inviteUrl);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        invitation,
+        invite_url: inviteUrl,
+        emailed: emailError === null,
+        ...(emailError ? { email_error: emailError } : {}),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -69,6 +69,7 @@ GUIDELINES:
 - Use get_readings with a small limit for latest values, or a higher limit (up to 2000) when the user needs detailed data analysis
 - When comparing, always note the time periods being compared
 - Temperatures are provided in Fahrenheit
+- Sensor values are calibrated with each device's stored offset/gain by default (calibrated: true). Pass raw=true only when the user asks for uncalibrated data
 - Only discuss sensor data, deployments, and environmental analysis
 - If asked about unrelated topics, politely redirect to sensor data
 - Never fabricate data - if a deployment doesn't exist, say so
@@ -85,8 +86,10 @@ WEATHER DATA:
 - Official reference weather data is fetched periodically from WeatherAPI.com and stored in the database with device_id 'weather_<sensor_id>' (e.g. weather_node1 for node1).
 - Weather device_ids contain the official WeatherAPI conditions for the same zip code/location as the corresponding sensor deployment.
 - Use get_weather to retrieve the latest stored weather reading for a specific zip code or weather device ID.
+- Weather rows also carry outdoor context: dew point, pressure, wind, cloud cover, precipitation and a condition description. Use them to explain sensor behaviour (e.g. humidity rising with rain, or a warm reading on a clear, still afternoon).
 - Use get_device_stats to compare a sensor's readings against its weather counterpart over a time range.
   Example: "How accurate is <device>?" → get_device_stats for both the sensor and its weather counterpart (weather_<device_id>), then calculate delta and % error.
+- get_readings, get_chart_data and get_weather include derived metrics computed from temperature and relative humidity: dew point, heat index, absolute humidity, vapor pressure deficit (VPD) and humidex. Use them for comfort, condensation or plant-stress questions instead of estimating by hand.
 - Stored weather data is NOT deployment-scoped, so get_readings won't return weather. Use get_weather, get_device_stats, or get_chart_data instead.
 - When a user asks "what's the weather in [zip code]?", use get_weather — do NOT confuse this with sensor readings.
 
@@ -94,7 +97,7 @@ Keep responses concise and focused on actionable insights.`;
 
 const getDeploymentsDecl: FunctionDeclaration = {
   name: 'get_deployments',
-  description: 'List deployments. Returns id, name, device_id, location, zip_code, started_at, ended_at, and reading_count. Filters use case-insensitive partial matching.',
+  description: 'List deployments. Returns id, name, device_id, location, zip_code, country_code, latitude, longitude, started_at, ended_at, and reading_count. Filters use case-insensitive partial matching.',
   parameters: {
     type: SchemaType.OBJECT,
     properties: {
@@ -118,6 +121,7 @@ const getDeploymentStatsDecl: FunctionDeclaration = {
         items: { type: SchemaType.NUMBER },
         description: 'List of deployment IDs to get stats for',
       },
+      raw: { type: SchemaType.BOOLEAN, description: 'Return uncalibrated sensor values (default false)' },
     },
     required: ['deployment_ids'],
   },
@@ -125,12 +129,13 @@ const getDeploymentStatsDecl: FunctionDeclaration = {
 
 const getReadingsDecl: FunctionDeclaration = {
   name: 'get_readings',
-  description: 'Get sensor readings for a deployment, ordered most recent first. Use with limit=1 to get the latest reading. Use get_deployment_stats instead for aggregate stats (avg, min, max). For full data analysis, use a higher limit (up to 2000).',
+  description: 'Get sensor readings for a deployment, ordered most recent first. Use with limit=1 to get the latest reading. Use get_deployment_stats instead for aggregate stats (avg, min, max). For full data analysis, use a higher limit (up to 2000). Each reading also carries derived metrics: dew_point_f, heat_index_f, absolute_humidity_g_m3, vpd_kpa (vapor pressure deficit) and humidex.',
   parameters: {
     type: SchemaType.OBJECT,
     properties: {
       deployment_id: { type: SchemaType.NUMBER, description: 'The deployment ID' },
       limit: { type: SchemaType.NUMBER, description: 'Max readings to return (default 100, max 2000). Use 1 for latest reading, higher values for full analysis.' },
+      raw: { type: SchemaType.BOOLEAN, description: 'Return uncalibrated sensor values (default false)' },
     },
     required: ['deployment_id'],
   },
@@ -145,6 +150,7 @@ const getDeviceStatsDecl: FunctionDeclaration = {
       start: { type: SchemaType.STRING, description: 'Start of time range (ISO 8601 datetime, e.g. "2025-01-01T00:00:00Z"). Use a very early date for all-time stats.' },
       end: { type: SchemaType.STRING, description: 'End of time range (ISO 8601 datetime). Use current time for up-to-now stats.' },
       device_id: { type: SchemaType.STRING, description: 'Filter by device ID — sensor or weather counterpart (see REGISTERED DEVICES). Omit for all devices.' },
+      raw: { type: SchemaType.BOOLEAN, description: 'Return uncalibrated sensor values (default false)' },
     },
     required: ['start', 'end'],
   },
@@ -152,7 +158,7 @@ const getDeviceStatsDecl: FunctionDeclaration = {
 
 const getChartDataDecl: FunctionDeclaration = {
   name: 'get_chart_data',
-  description: 'Get time-bucketed averages for charting and trend analysis. Groups readings into time buckets and returns the average temperature/humidity per bucket per device. Useful for identifying trends, patterns, and changes over time.',
+  description: 'Get time-bucketed averages for charting and trend analysis. Groups readings into time buckets and returns the average temperature/humidity per bucket per device, plus the derived metrics (dew_point_f, heat_index_f, absolute_humidity_g_m3, vpd_kpa, humidex) computed from those averages. Useful for identifying trends, patterns, and changes over time.',
   parameters: {
     type: SchemaType.OBJECT,
     properties: {
@@ -160,6 +166,7 @@ const getChartDataDecl: FunctionDeclaration = {
       end: { type: SchemaType.STRING, description: 'End of time range (ISO 8601 datetime)' },
       bucket_minutes: { type: SchemaType.NUMBER, description: 'Size of each time bucket in minutes (e.g. 15 for 15-min averages, 60 for hourly, 1440 for daily)' },
       device_id: { type: SchemaType.STRING, description: 'Filter by device ID — sensor or weather counterpart (see REGISTERED DEVICES). Omit for all devices.' },
+      raw: { type: SchemaType.BOOLEAN, description: 'Return uncalibrated sensor values (default false)' },
     },
     required: ['start', 'end', 'bucket_minutes'],
   },
@@ -170,17 +177,19 @@ const getReportDataDecl: FunctionDeclaration = {
   description: 'Get a comprehensive data overview for report generation. Returns ALL deployments with their statistics, overall device stats, and metadata. Use this as the first call when generating a full analysis report.',
   parameters: {
     type: SchemaType.OBJECT,
-    properties: {},
+    properties: {
+      raw: { type: SchemaType.BOOLEAN, description: 'Return uncalibrated sensor values (default false)' },
+    },
   },
 };
 
 const getWeatherDecl: FunctionDeclaration = {
   name: 'get_weather',
-  description: 'Get the latest stored weather readings from the database. Weather data is fetched periodically from WeatherAPI.com and stored with source=\'weather\'. Returns temperature (C and F), humidity, zip code, and observation time. Use this when a user asks about current weather conditions for a zip code or location.',
+  description: 'Get the latest stored weather readings from the database. Weather data is fetched periodically from WeatherAPI.com or Open-Meteo and stored with source=\'weather\'. Returns temperature (C and F), humidity, dew point (C and F), pressure_hpa, wind speed (kph and mph) and wind_direction_deg, cloud_cover (%), precipitation_mm, weather_condition text, zip code, and observation time, plus heat_index_f, absolute_humidity_g_m3, vpd_kpa and humidex computed from temperature and humidity. Rows stored before these details were recorded have them as null, except dew_point_f, which falls back to a computed value. Use this when a user asks about current weather conditions for a zip code or location.',
   parameters: {
     type: SchemaType.OBJECT,
     properties: {
-      zip_code: { type: SchemaType.STRING, description: 'Filter by US zip code (e.g. "85142")' },
+      zip_code: { type: SchemaType.STRING, description: 'Filter by postal code: a US zip code (e.g. "85142") or an international postal code (e.g. "M5V 3L9")' },
       device_id: { type: SchemaType.STRING, description: 'Filter by weather device ID (e.g. "weather_<sensor_id>")' },
       limit: { type: SchemaType.NUMBER, description: 'Number of recent weather readings to return (default 1, max 100)' },
     },
@@ -0,0 +1,272 @@
+// @vitest-environment node
+
+import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { POST, validateIngestPayload } from './route';
+import { hashDeviceApiKey } from '@/lib/deviceKeys';
+import { BUILTIN_METRICS } from '@/lib/metrics';
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(),
+}));
+
+const KEY = 'dk_test-key-node1';
+
+function makeMockSupabase(params: { keyHash: string | null; deviceId?: string; isActive?: boolean; existing?: string[] }) {
+  const insertedRows: Array<Record<string, unknown>> = [];
+  const stored = new Set(params.existing ?? []);
+
+  const from = vi.fn((table: string) => {
+    const query: Record<string, unknown> = {};
+    if (table === 'devices') {
+      let hash: string | null = null;
+      query.select = vi.fn(() => query);
+      query.eq = vi.fn((_col: string, value: string) => {
+        hash = value;
+        return query;
+      });
+      query.maybeSingle = vi.fn(async () => ({
+        data: hash && hash === params.keyHash ? { id: params.deviceId ?? 'node1', is_active: params.isActive ?? true } : null,
+        error: null,
+      }));
+      return query;
+    }
+    if (table === 'metrics') {
+      query.select = vi.fn(async () => ({ data: BUILTIN_METRICS, error: null }));
+      return query;
+    }
+    if (table === 'readings') {
+      let batchIds: Array<{ id: number }> = [];
+      query.upsert = vi.fn((rows: Array<Record<string, unknown>>) => {
+        batchIds = [];
+        for (const row of rows) {
+          const key = `${row.device_id}|${row.measured_at}`;
+          if (stored.has(key)) continue;
+          stored.add(key);
+          insertedRows.push(row);
+          batchIds.push({ id: insertedRows.length });
+        }
+        return query;
+      });
+      query.select = vi.fn(async () => ({ data: batchIds, error: null }));
+      return query;
+    }
+    throw new Error(`Unexpected table: ${table}`);
+  });
+
+  return { client: { from }, insertedRows };
+}
+
+function ingestRequest(body: unknown, key: string | null = KEY) {
+  return new NextRequest('http://localhost/api/ingest', {
+    method: 'POST',
+    headers: key ? { authorization: `Bearer ${key}` } : {},
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/ingest route', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    process.env = { ...originalEnv };
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-key';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('returns 401 without a bearer key', async () => {
+    const response = await POST(ingestRequest({ device_id: 'node1' }, null));
+    expect(response.status).toBe(401);
+    expect(createClient).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 for an unknown or revoked key', async () => {
+    const mock = makeMockSupabase({ keyHash: null });
+    vi.mocked(createClient).mockReturnValue(mock.client as never);
+
+    const response = await POST(ingestRequest({ device_id: 'node1', temperature: 20, humidity: 40 }));
+    expect(response.status).toBe(401);
+    expect(mock.insertedRows).toHaveLength(0);
+  });
+
+  it('rejects a payload for a device the key does not belong to', async () => {
+    const mock = makeMockSupabase({ keyHash: await hashDeviceApiKey(KEY) });
+    vi.mocked(createClient).mockReturnValue(mock.client as never);
+
+    const response = await POST(ingestRequest({ device_id: 'node2', temperature: 20, humidity: 40 }));
+    expect(response.status).toBe(403);
+    expect(mock.insertedRows).toHaveLength(0);
+  });
+
+  it('rejects keys of deactivated devices', async () => {
+    const mock = makeMockSupabase({ keyHash: await hashDeviceApiKey(KEY), isActive: false });
+    vi.mocked(createClient).mockReturnValue(mock.client as never);
+
+    const response = await POST(ingestRequest({ device_id: 'node1', temperature: 20, humidity: 40 }));
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toContain('deactivated');
+    expect(mock.insertedRows).toHaveLength(0);
+  });
+
+  it('rejects out-of-range values', async () => {
+    const mock = makeMockSupabase({ keyHash: await hashDeviceApiKey(KEY) });
+    vi.mocked(createClient).mockReturnValue(mock.client as never);
+
+    const response = await POST(ingestRequest({ device_id: 'node1', temperature: 120, humidity: 40 }));
+    const body = await response.json();
+    expect(response.status).toBe(422);
+    expect(body.errors[0]).toContain('temperature=120');
+    expect(mock.insertedRows).toHaveLength(0);
+  });
+
+  it('inserts a valid reading as the service role', async () => {
+    const mock = makeMockSupabase({ keyHash: await hashDeviceApiKey(KEY) });
+    vi.mocked(createClient).mockReturnValue(mock.client as never);
+
+    const response = await POST(ingestRequest({ device_id: 'node1', temperature: 21.5, humidity: 44 }));
+    expect(response.status).toBe(201);
+    expect(mock.insertedRows[0]).toEqual({
+      device_id: 'node1',
+      measured_at: expect.any(String),
+      temperature: 21.5,
+      humidity: 44,
+      sample_count: null,
+      metrics: {},
+      source: 'sensor',
+    });
+  });
+
+  it('stores a batch with device timestamps and skips readings already uploaded', async () => {
+    const first = new Date(Date.now() - 10 * 60_000);
+    const second = new Date(Date.now() - 7 * 60_000);
+    const mock = makeMockSupabase({
+      keyHash: await hashDeviceApiKey(KEY),
+      existing: [`node1|${first.toISOString()}`],
+    });
+    vi.mocked(createClient).mockReturnValue(mock.client as never);
+
+    const response = await POST(ingestRequest({
+      device_id: 'node1',
+      readings: [
+        { measured_at: first.toISOString(), temperature: 21, humidity: 40, sample_count: 12 },
+        { measured_at: Math.floor(second.getTime() / 1000), temperature: 21.2, humidity: 41, sample_count: 12 },
+      ],
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({ ok: true, inserted_count: 1, duplicate_count: 1, rejected_count: 0 });
+    expect(mock.insertedRows).toHaveLength(1);
+    expect(mock.insertedRows[0]).toMatchObject({
+      measured_at: new Date(Math.floor(second.getTime() / 1000) * 1000).toISOString(),
+      sample_count: 12,
+    });
+  });
+
+  it('stores the valid entries of a partly invalid batch', async () => {
+    const mock = makeMockSupabase({ keyHash: await hashDeviceApiKey(KEY) });
+    vi.mocked(createClient).mockReturnValue(mock.client as never);
+
+    const response = await POST(ingestRequest({
+      device_id: 'node1',
+      readings: [
+        { measured_at: new Date(Date.now() - 40 * 86_400_000).toISOString(), temperature: 21, humidity: 40 },
+        { measured_at: new Date(Date.now() - 60_000).toISOString(), temperature: 21, humidity: 40 },
+      ],
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({
+      ok: true,
+      inserted_count: 1,
+      rejected_count: 1,
+      rejected: [{ index: 0, errors: ['readings[0].measured_at is more than 30 days old'] }],
+    });
+    expect(mock.insertedRows).toHaveLength(1);
+  });
+});
+
+describe('validateIngestPayload', () => {
+  const co2 = { key: 'co2', display_name: 'CO₂', unit: 'ppm', min_value: 0, max_value: 10000, display_precision: 0, sort_order: 4 };
+
+  it('requires device_id, temperature and humidity', () => {
+    const result = validateIngestPayload({ temperature: 'warm' }, BUILTIN_METRICS);
+    expect(result).toEqual({
+      ok: false,
+      errors: ['device_id is required', 'temperature must be a number', 'humidity is required'],
+    });
+  });
+
+  it('requires measured_at on every batch entry and rejects implausible times', () => {
+    const now = Date.parse('2026-03-01T12:00:00Z');
+    const result = validateIngestPayload({
+      device_id: 'node1',
+      readings: [
+        { temperature: 20, humidity: 40 },
+        { measured_at: '2026-03-01T13:00:00Z', temperature: 20, humidity: 40 },
+        { measured_at: 0, temperature: 20, humidity: 40 },
+        { measured_at: '2026-03-01T11:57:00Z', temperature: 20, humidity: 40, sample_count: 0 },
+      ],
+    }, BUILTIN_METRICS, now);
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'readings[0].measured_at is required in a batch',
+        'readings[1].measured_at is in the future',
+        'readings[2].measured_at is more than 30 days old',
+        'readings[3].sample_count must be a positive integer',
+      ],
+    });
+  });
+
+  it('keeps the valid entries of a batch and reports the rejected ones by index', () => {
+    const now = Date.parse('2026-03-01T12:00:00Z');
+    const result = validateIngestPayload({
+      device_id: 'node1',
+      readings: [
+        { measured_at: '2026-01-01T00:00:00Z', temperature: 20, humidity: 40 },
+        { measured_at: '2026-03-01T11:57:00Z', temperature: 20, humidity: 40 },
+        { measured_at: '2026-03-01T11:58:00Z', temperature: 120, humidity: 40 },
+      ],
+    }, BUILTIN_METRICS, now);
+    expect(result).toMatchObject({
+      ok: true,
+      readings: [{ measured_at: '2026-03-01T11:57:00.000Z' }],
+      rejected: [
+        { index: 0, errors: ['readings[0].measured_at is more than 30 days old'] },
+        { index: 2, errors: [expect.stringContaining('readings[2].temperature=120')] },
+      ],
+    });
+  });
+
+  it('takes the core metrics from metrics when the top-level fields are absent', () => {
+    const result = validateIngestPayload(
+      { device_id: 'node1', metrics: { temperature: 20, humidity: 40, co2: 600 } },
+      [...BUILTIN_METRICS, co2]
+    );
+    expect(result).toMatchObject({ ok: true, readings: [{ temperature: 20, humidity: 40 }] });
+    expect(validateIngestPayload({ device_id: 'node1', metrics: { co2: 600 } }, [...BUILTIN_METRICS, co2])).toEqual({
+      ok: false,
+      errors: ['temperature is required', 'humidity is required'],
+    });
+  });
+
+  it('accepts registered extra metrics and rejects unknown ones', () => {
+    const base = { device_id: 'node1', temperature: 20, humidity: 40 };
+    expect(validateIngestPayload({ ...base, metrics: { co2: 600 } }, [...BUILTIN_METRICS, co2])).toMatchObject({
+      ok: true,
+      readings: [{ metrics: { co2: 600 } }],
+    });
+    expect(validateIngestPayload({ ...base, metrics: { radon: 1 } }, BUILTIN_METRICS)).toEqual({
+      ok: false,
+      errors: ['Unknown metric: radon'],
+    });
+  });
+});
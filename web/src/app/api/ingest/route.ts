@@ -0,0 +1,284 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_FUTURE_SKEW_MS } from '@/lib/constants';
+import { hashDeviceApiKey, parseBearerToken } from '@/lib/deviceKeys';
+import { CORE_METRIC_KEYS, findOutOfRangeMetrics, loadMetricRegistry } from '@/lib/metrics';
+import type { MetricDefinition } from '@/lib/supabase/types';
+
+type IngestReading = {
+  device_id: string;
+  measured_at: string;
+  temperature: number;
+  humidity: number;
+  sample_count: number | null;
+  metrics: Record<string, number>;
+};
+
+type RejectedReading = { index: number; errors: string[] };
+
+type ValidationResult =
+  | { ok: true; device_id: string; readings: IngestReading[]; rejected: RejectedReading[] }
+  | { ok: false; errors: string[] };
+
+export const MAX_BATCH_SIZE = 500;
+// Reject anything old enough to indicate an unsynced clock.
+const MAX_BACKFILL_MS = 30 * 24 * 60 * 60 * 1000;
+
+function getServiceRoleClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceKey) {
+    return {
+      client: null,
+      error:
+        'NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required',
+    } as const;
+  }
+
+  return { client: createClient(url, serviceKey), error: null } as const;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/** Accepts an ISO string or Unix seconds (what the firmware sends). */
+function parseMeasuredAt(value: unknown): number | null {
+  if (isFiniteNumber(value)) return value * 1000;
+  if (typeof value === 'string' && value) {
+    const ms = new Date(value).getTime();
+    return Number.isFinite(ms) ? ms : null;
+  }
+  return null;
+}
+
+function validateReading(
+  entry: Record<string, unknown>,
+  deviceId: string,
+  registry: MetricDefinition[],
+  nowMs: number,
+  label: string
+): { reading: IngestReading | null; errors: string[] } {
+  const errors: string[] = [];
+  const metrics: Record<string, number> = {};
+  const metricErrors: string[] = [];
+  if (entry.metrics !== undefined) {
+    if (!entry.metrics || typeof entry.metrics !== 'object' || Array.isArray(entry.metrics)) {
+      metricErrors.push(`${label}metrics must be an object`);
+    } else {
+      const known = new Set(registry.map((m) => m.key));
+      for (const [key, value] of Object.entries(entry.metrics)) {
+        if (!known.has(key)) {
+          metricErrors.push(`${label}Unknown metric: ${key}`);
+        } else if (!isFiniteNumber(value)) {
+          metricErrors.push(`${label}metrics.${key} must be a number`);
+        } else {
+          metrics[key] = value;
+        }
+      }
+    }
+  }
+
+  // readings.temperature and readings.humidity are NOT NULL: every reading
+  // carries both, either as top-level fields or inside `metrics`.
+  const core: Partial<Record<(typeof CORE_METRIC_KEYS)[number], number>> = {};
+  for (const key of CORE_METRIC_KEYS) {
+    const value = entry[key] !== undefined ? entry[key] : metrics[key];
+    if (value === undefined) errors.push(`${label}${key} is required`);
+    else if (!isFiniteNumber(value)) errors.push(`${label}${key} must be a number`);
+    else core[key] = value;
+  }
+
+  let measuredAtMs = nowMs;
+  if (entry.measured_at !== undefined) {
+    const parsed = parseMeasuredAt(entry.measured_at);
+    if (parsed === null) {
+      errors.push(`${label}measured_at must be an ISO timestamp or Unix seconds`);
+    } else if (parsed > nowMs + MAX_FUTURE_SKEW_MS) {
+      errors.push(`${label}measured_at is in the future`);
+    } else if (parsed < nowMs - MAX_BACKFILL_MS) {
+      errors.push(`${label}measured_at is more than 30 days old`);
+    } else {
+      measuredAtMs = parsed;
+    }
+  }
+
+  let sampleCount: number | null = null;
+  if (entry.sample_count !== undefined) {
+    if (!Number.isInteger(entry.sample_count) || (entry.sample_count as number) < 1) {
+      errors.push(`${label}sample_count must be a positive integer`);
+    } else {
+      sampleCount = entry.sample_count as number;
+    }
+  }
+
+  errors.push(...metricErrors);
+  if (errors.length > 0) return { reading: null, errors };
+
+  const reading: IngestReading = {
+    device_id: deviceId,
+    measured_at: new Date(measuredAtMs).toISOString(),
+    temperature: core.temperature as number,
+    humidity: core.humidity as number,
+    sample_count: sampleCount,
+    metrics,
+  };
+
+  const outOfRange = findOutOfRangeMetrics(reading, registry).map(
+    ({ metric, value }) =>
+      `${label}${metric.key}=${value} outside valid range ${metric.min_value ?? '-∞'} to ${metric.max_value ?? '∞'}`
+  );
+  return outOfRange.length > 0 ? { reading: null, errors: outOfRange } : { reading, errors: [] };
+}
+
+/**
+ * Checks shape, timestamps and ranges of a node payload. Either a single
+ * reading (`{ device_id, temperature, humidity, ... }`) or a batch
+ * (`{ device_id, readings: [{ measured_at, temperature, humidity, sample_count }] }`).
+ * `metrics` is optional; any key in it must be registered in the metric registry.
+ * Temperature and humidity are always required, top level or in `metrics`.
+ * Invalid batch entries are returned in `rejected` by index so the valid ones
+ * can still be stored; the payload fails only when no entry is usable.
+ */
+export function validateIngestPayload(
+  body: unknown,
+  registry: MetricDefinition[],
+  nowMs = Date.now()
+): ValidationResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errors: ['Body must be a JSON object'] };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const deviceId = typeof raw.device_id === 'string' ? raw.device_id : '';
+  const errors: string[] = deviceId ? [] : ['device_id is required'];
+  const readings: IngestReading[] = [];
+  const rejected: RejectedReading[] = [];
+
+  if (raw.readings === undefined) {
+    const result = validateReading(raw, deviceId, registry, nowMs, '');
+    if (result.reading) readings.push(result.reading);
+    errors.push(...result.errors);
+  } else if (!Array.isArray(raw.readings) || raw.readings.length === 0) {
+    errors.push('readings must be a non-empty array');
+  } else if (raw.readings.length > MAX_BATCH_SIZE) {
+    errors.push(`readings may contain at most ${MAX_BATCH_SIZE} entries`);
+  } else {
+    raw.readings.forEach((entry, i) => {
+      const label = `readings[${i}].`;
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        rejected.push({ index: i, errors: [`readings[${i}] must be an object`] });
+        return;
+      }
+      if (entry.measured_at === undefined) {
+        rejected.push({ index: i, errors: [`${label}measured_at is required in a batch`] });
+        return;
+      }
+      const result = validateReading(entry, deviceId, registry, nowMs, label);
+      if (result.reading) readings.push(result.reading);
+      else rejected.push({ index: i, errors: result.errors });
+    });
+  }
+
+  if (errors.length > 0 || readings.length === 0) {
+    return { ok: false, errors: [...errors, ...rejected.flatMap((r) => r.errors)] };
+  }
+  return { ok: true, device_id: deviceId, readings, rejected };
+}
+
+// Called by sensor nodes with `Authorization: Bearer <device key>`. The key
+// identifies the device; a payload for any other device_id is rejected.
+// Sensor rows are timestamped by measured_at, not arrival time.
+export async function POST(request: NextRequest) {
+  const apiKey = parseBearerToken(request.headers.get('authorization'));
+  if (!apiKey) {
+    return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { client: supabase, error: supabaseConfigError } = getServiceRoleClient();
+  if (!supabase) {
+    return NextResponse.json(
+      { ok: false, error: `Server Supabase configuration missing: ${supabaseConfigError}` },
+      { status: 500 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const { data: device, error: deviceError } = await supabase
+      .from('devices')
+      .select('id, is_active')
+      .eq('api_key_hash', await hashDeviceApiKey(apiKey))
+      .maybeSingle();
+
+    if (deviceError) {
+      return NextResponse.json(
+        { ok: false, error: `Failed to verify API key: ${deviceError.message}` },
+        { status: 500 }
+      );
+    }
+    if (!device) {
+      return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!device.is_active) {
+      return NextResponse.json(
+        { ok: false, error: `Device ${device.id} is deactivated` },
+        { status: 403 }
+      );
+    }
+
+    const claimedId = (body as { device_id?: unknown } | null)?.device_id;
+    if (claimedId !== device.id) {
+      return NextResponse.json(
+        { ok: false, error: `API key is not valid for device ${String(claimedId)}` },
+        { status: 403 }
+      );
+    }
+
+    const registry = await loadMetricRegistry(supabase);
+    const result = validateIngestPayload(body, registry);
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, errors: result.errors }, { status: 422 });
+    }
+
+    // Retried batches resend readings already stored; the unique
+    // (device_id, measured_at) index turns those into no-ops.
+    const { data: inserted, error: insertError } = await supabase
+      .from('readings')
+      .upsert(
+        result.readings.map((r) => ({ ...r, source: 'sensor' })),
+        { onConflict: 'device_id,measured_at', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (insertError) {
+      return NextResponse.json(
+        { ok: false, error: `Insert failed: ${insertError.message}` },
+        { status: 500 }
+      );
+    }
+
+    const insertedCount = inserted?.length ?? 0;
+    return NextResponse.json(
+      {
+        ok: true,
+        inserted_count: insertedCount,
+        duplicate_count: result.readings.length - insertedCount,
+        rejected_count: result.rejected.length,
+        rejected: result.rejected,
+      },
+      { status: 201 }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ ok: false, error: `Unexpected error: ${message}` }, { status: 500 });
+  }
+}
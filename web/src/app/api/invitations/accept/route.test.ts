@@ -0,0 +1,196 @@
+// @vitest-environment node
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { hashInvitationToken } from '@/lib/userAdmin';
+
+const getServerClientMock = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  getServerClient: getServerClientMock,
+}));
+
+const TOKEN = 'inv_test-token';
+
+interface InvitationRow {
+  id: number;
+  email: string;
+  role: string;
+  token_hash: string;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_user_id: string | null;
+  revoked_at: string | null;
+}
+
+// Keeps one invitation row in memory and applies the route's eq/is/gt
+// filters to it, so the conditional claim behaves like the real update.
+function makeMockSupabase(
+  invitation: InvitationRow,
+  createError: { message: string } | null = null,
+  roleError: { message: string } | null = null
+) {
+  const row = { ...invitation };
+  const roles: unknown[] = [];
+  const audits: unknown[] = [];
+
+  const from = vi.fn((table: string) => {
+    if (table === 'user_roles') {
+      return {
+        upsert: vi.fn(async (value: unknown) => {
+          if (!roleError) roles.push(value);
+          return { error: roleError };
+        }),
+      };
+    }
+    if (table === 'audit_log') {
+      return { insert: vi.fn(async (value: unknown) => { audits.push(value); return { error: null }; }) };
+    }
+    if (table !== 'user_invitations') throw new Error(`Unexpected table: ${table}`);
+
+    const filters: Array<(r: InvitationRow) => boolean> = [];
+    let patch: Partial<InvitationRow> | null = null;
+    const run = () => {
+      const matches = filters.every((f) => f(row));
+      if (matches && patch) Object.assign(row, patch);
+      return { data: matches ? { ...row } : null, error: null };
+    };
+    const query = {
+      select: vi.fn(() => query),
+      update: vi.fn((value: Partial<InvitationRow>) => { patch = value; return query; }),
+      eq: vi.fn((column: keyof InvitationRow, value: unknown) => { filters.push((r) => r[column] === value); return query; }),
+      is: vi.fn((column: keyof InvitationRow, value: unknown) => { filters.push((r) => r[column] === value); return query; }),
+      gt: vi.fn((column: keyof InvitationRow, value: string) => {
+        filters.push((r) => String(r[column]) > value);
+        return query;
+      }),
+      maybeSingle: vi.fn(async () => run()),
+      then: (resolve: (value: ReturnType<typeof run>) => unknown) => resolve(run()),
+    };
+    return query;
+  });
+
+  const createUser = vi.fn(async () =>
+    createError ? { data: { user: null }, error: createError } : { data: { user: { id: 'new-user' } }, error: null }
+  );
+
+  const deleteUser = vi.fn(async () => ({ data: {}, error: null }));
+
+  return { client: { from, auth: { admin: { createUser, deleteUser } } }, row, roles, audits, createUser, deleteUser };
+}
+
+async function pendingInvitation(overrides: Partial<InvitationRow> = {}): Promise<InvitationRow> {
+  return {
+    id: 3,
+    email: 'ada@example.com',
+    role: 'operator',
+    token_hash: await hashInvitationToken(TOKEN),
+    expires_at: new Date(Date.now() + 86_400_000).toISOString(),
+    accepted_at: null,
+    accepted_user_id: null,
+    revoked_at: null,
+    ...overrides,
+  };
+}
+
+function post(body: Record<string, unknown>) {
+  return new Request('http://localhost/api/invitations/accept', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/invitations/accept route', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('rejects short passwords before touching the database', async () => {
+    const { POST } = await import('./route');
+    const response = await POST(post({ token: TOKEN, password: 'short' }));
+    expect(response.status).toBe(400);
+    expect(getServerClientMock).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown token', async () => {
+    const supabase = makeMockSupabase(await pendingInvitation());
+    getServerClientMock.mockReturnValue(supabase.client);
+    const { POST } = await import('./route');
+    const response = await POST(post({ token: 'inv_other', password: 'long-enough' }));
+    expect(response.status).toBe(404);
+    expect(supabase.createUser).not.toHaveBeenCalled();
+  });
+
+  it('creates the account with the invited role and marks the invitation used', async () => {
+    const supabase = makeMockSupabase(await pendingInvitation());
+    getServerClientMock.mockReturnValue(supabase.client);
+    const { POST } = await import('./route');
+
+    const response = await POST(post({ token: TOKEN, password: 'long-enough' }));
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ ok: true, email: 'ada@example.com' });
+    expect(supabase.createUser).toHaveBeenCalledWith({
+      email: 'ada@example.com',
+      password: 'long-enough',
+      email_confirm: true,
+    });
+    expect(supabase.roles).toEqual([{ user_id: 'new-user', role: 'operator' }]);
+    expect(supabase.row.accepted_at).not.toBeNull();
+    expect(supabase.row.accepted_user_id).toBe('new-user');
+    expect(supabase.audits).toEqual([expect.objectContaining({ action: 'user.accept_invite', entity_type: 'user' })]);
+  });
+
+  it('works only once', async () => {
+    const supabase = makeMockSupabase(await pendingInvitation());
+    getServerClientMock.mockReturnValue(supabase.client);
+    const { POST } = await import('./route');
+
+    expect((await POST(post({ token: TOKEN, password: 'long-enough' }))).status).toBe(201);
+    const second = await POST(post({ token: TOKEN, password: 'long-enough' }));
+
+    expect(second.status).toBe(410);
+    expect((await second.json()).error).toMatch(/already been used/);
+    expect(supabase.createUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses expired and revoked invitations', async () => {
+    const { POST } = await import('./route');
+    for (const overrides of [
+      { expires_at: new Date(Date.now() - 1000).toISOString() },
+      { revoked_at: new Date().toISOString() },
+    ]) {
+      const supabase = makeMockSupabase(await pendingInvitation(overrides));
+      getServerClientMock.mockReturnValue(supabase.client);
+      const response = await POST(post({ token: TOKEN, password: 'long-enough' }));
+      expect(response.status).toBe(410);
+      expect(supabase.createUser).not.toHaveBeenCalled();
+    }
+  });
+
+  it('releases the claim when the account cannot be created', async () => {
+    const supabase = makeMockSupabase(await pendingInvitation(), { message: 'User already registered' });
+    getServerClientMock.mockReturnValue(supabase.client);
+    const { POST } = await import('./route');
+
+    const response = await POST(post({ token: TOKEN, password: 'long-enough' }));
+
+    expect(response.status).toBe(400);
+    expect(supabase.row.accepted_at).toBeNull();
+    expect(supabase.roles).toEqual([]);
+  });
+
+  it('removes the account and releases the claim when the role cannot be set', async () => {
+    const supabase = makeMockSupabase(await pendingInvitation(), null, { message: 'permission denied' });
+    getServerClientMock.mockReturnValue(supabase.client);
+    const { POST } = await import('./route');
+
+    const response = await POST(post({ token: TOKEN, password: 'long-enough' }));
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toMatch(/invited role/);
+    expect(supabase.deleteUser).toHaveBeenCalledWith('new-user');
+    expect(supabase.row.accepted_at).toBeNull();
+    expect(supabase.row.accepted_user_id).toBeNull();
+    expect(supabase.audits).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { getServerClient } from '@/lib/supabase/server';
+import {
+  MIN_PASSWORD_LENGTH,
+  hashInvitationToken,
+  invitationError,
+  invitationStatus,
+  recordUserAudit,
+} from '@/lib/userAdmin';
+
+// Public: turns an invitation into an account. The invitation is claimed with
+// a conditional update before the user is created, so two requests with the
+// same link cannot both succeed; the claim is released if creation fails or
+// the invited role cannot be applied, so the link can be used again.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const token = typeof body.token === 'string' ? body.token.trim() : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+    if (!token) return NextResponse.json({ ok: false, error: 'token is required' }, { status: 400 });
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { ok: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServerClient();
+    const tokenHash = await hashInvitationToken(token);
+    const { data: invitation, error: findError } = await supabase
+      .from('user_invitations')
+      .select('id, email, role, expires_at, accepted_at, revoked_at')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+    if (findError) throw new Error(`Failed to load invitation: ${findError.message}`);
+    if (!invitation) return NextResponse.json({ ok: false, error: 'Invitation not found' }, { status: 404 });
+
+    const now = new Date();
+    const problem = invitationError(invitationStatus(invitation, now.getTime()));
+    if (problem) return NextResponse.json({ ok: false, error: problem }, { status: 410 });
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('user_invitations')
+      .update({ accepted_at: now.toISOString() })
+      .eq('id', invitation.id)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', now.toISOString())
+      .select('id')
+      .maybeSingle();
+    if (claimError) throw new Error(`Failed to claim invitation: ${claimError.message}`);
+    if (!claimed) {
+      return NextResponse.json({ ok: false, error: 'This invitation has already been used' }, { status: 410 });
+    }
+
+    const { data: created, error: createError } = await supabase.auth.admin.createUser({
+      email: invitation.email,
+      password,
+      email_confirm: true,
+    });
+    if (createError || !created.user) {
+      await supabase.from('user_invitations').update({ accepted_at: null }).eq('id', invitation.id);
+      return NextResponse.json(
+        { ok: false, error: `Could not create the account: ${createError?.message ?? 'no user returned'}` },
+        { status: 400 }
+      );
+    }
+
+    const userId = created.user.id;
+    const { error: roleError } = await supabase
+      .from('user_roles')
+      .upsert({ user_id: userId, role: invitation.role }, { onConflict: 'user_id' });
+    if (roleError) {
+      // Without its role the account would silently be a viewer.
+      const { error: deleteError } = await supabase.auth.admin.deleteUser(userId);
+      if (deleteError) console.error('Failed to remove account after role error:', deleteError.message);
+      await supabase.from('user_invitations').update({ accepted_at: null }).eq('id', invitation.id);
+      return NextResponse.json(
+        { ok: false, error: `Could not apply the invited role: ${roleError.message}. Try the link again.` },
+        { status: 500 }
+      );
+    }
+
+    const { error: linkError } = await supabase
+      .from('user_invitations')
+      .update({ accepted_user_id: userId })
+      .eq('id', invitation.id);
+    if (linkError) console.error('Failed to link invitation to user:', linkError.message);
+
+    await recordUserAudit(supabase, {
+      actor: { id: userId, email: invitation.email },
+      action: 'user.accept_invite',
+      userId,
+      after: { invitation_id: invitation.id, email: invitation.email, role: invitation.role },
+    });
+
+    return NextResponse.json({ ok: true, email: invitation.email }, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
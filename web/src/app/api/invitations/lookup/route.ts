@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getServerClient } from '@/lib/supabase/server';
+import { hashInvitationToken, invitationError, invitationStatus } from '@/lib/userAdmin';
+
+// Public: tells the /invite page which address a link is for, without using it.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const token = typeof body.token === 'string' ? body.token.trim() : '';
+    if (!token) return NextResponse.json({ ok: false, error: 'token is required' }, { status: 400 });
+
+    const supabase = getServerClient();
+    const { data: invitation, error } = await supabase
+      .from('user_invitations')
+      .select('email, role, expires_at, accepted_at, revoked_at')
+      .eq('token_hash', await hashInvitationToken(token))
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load invitation: ${error.message}`);
+    if (!invitation) return NextResponse.json({ ok: false, error: 'Invitation not found' }, { status: 404 });
+
+    const problem = invitationError(invitationStatus(invitation, Date.now()));
+    if (problem) return NextResponse.json({ ok: false, error: problem }, { status: 410 });
+
+    return NextResponse.json({ ok: true, email: invitation.email, role: invitation.role, expires_at: invitation.expires_at });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -71,67 +71,131 @@ describe('classifyDevice', () => {
   });
 
   it('returns ok for fresh, normal reading', () => {
-    const reading = { created_at: new Date(NOW - 60_000).toISOString(), temperature: 25, humidity: 50 };
+    const reading = { measured_at: new Date(NOW - 60_000).toISOString(), temperature: 25, humidity: 50 };
     const result = classifyDevice(reading, STALE_MINUTES, NOW);
     expect(result.status).toBe('ok');
     expect(result.ageMinutes).toBeCloseTo(1, 1);
   });
 
   it('returns stale when reading age exceeds threshold', () => {
-    const reading = { created_at: new Date(NOW - 15 * 60_000).toISOString(), temperature: 25, humidity: 50 };
+    const reading = { measured_at: new Date(NOW - 15 * 60_000).toISOString(), temperature: 25, humidity: 50 };
     const result = classifyDevice(reading, STALE_MINUTES, NOW);
     expect(result.status).toBe('stale');
     expect(result.reason).toContain('15.0');
     expect(result.reason).toContain('threshold: 10');
   });
 
+  it('accepts a clock running slightly fast', () => {
+    const reading = { measured_at: new Date(NOW + 2 * 60_000).toISOString(), temperature: 25, humidity: 50 };
+    const result = classifyDevice(reading, STALE_MINUTES, NOW);
+    expect(result.status).toBe('ok');
+    expect(result.ageMinutes).toBe(0);
+  });
+
+  it('returns stale for timestamps beyond the ingest skew limit', () => {
+    const reading = { measured_at: new Date(NOW + 10 * 60_000).toISOString(), temperature: 25, humidity: 50 };
+    const result = classifyDevice(reading, STALE_MINUTES, NOW);
+    expect(result.status).toBe('stale');
+    expect(result.reason).toContain('future timestamp');
+  });
+
   it('returns stale at exact threshold + 1ms', () => {
     const justOver = new Date(NOW - (STALE_MINUTES * 60_000 + 1)).toISOString();
-    const result = classifyDevice({ created_at: justOver, temperature: 25, humidity: 50 }, STALE_MINUTES, NOW);
+    const result = classifyDevice({ measured_at: justOver, temperature: 25, humidity: 50 }, STALE_MINUTES, NOW);
     expect(result.status).toBe('stale');
   });
 
   it('returns ok at exact threshold', () => {
     const atThreshold = new Date(NOW - STALE_MINUTES * 60_000).toISOString();
-    const result = classifyDevice({ created_at: atThreshold, temperature: 25, humidity: 50 }, STALE_MINUTES, NOW);
+    const result = classifyDevice({ measured_at: atThreshold, temperature: 25, humidity: 50 }, STALE_MINUTES, NOW);
     expect(result.status).toBe('ok');
   });
 
   it('returns anomaly for temperature below -40C', () => {
-    const reading = { created_at: new Date(NOW - 60_000).toISOString(), temperature: -41, humidity: 50 };
+    const reading = { measured_at: new Date(NOW - 60_000).toISOString(), temperature: -41, humidity: 50 };
     const result = classifyDevice(reading, STALE_MINUTES, NOW);
     expect(result.status).toBe('anomaly');
     expect(result.reason).toContain('-41.00');
   });
 
   it('returns anomaly for temperature above 85C', () => {
-    const reading = { created_at: new Date(NOW - 60_000).toISOString(), temperature: 86, humidity: 50 };
+    const reading = { measured_at: new Date(NOW - 60_000).toISOString(), temperature: 86, humidity: 50 };
     const result = classifyDevice(reading, STALE_MINUTES, NOW);
     expect(result.status).toBe('anomaly');
   });
 
   it('returns anomaly for humidity below 0', () => {
-    const reading = { created_at: new Date(NOW - 60_000).toISOString(), temperature: 25, humidity: -1 };
+    const reading = { measured_at: new Date(NOW - 60_000).toISOString(), temperature: 25, humidity: -1 };
     const result = classifyDevice(reading, STALE_MINUTES, NOW);
     expect(result.status).toBe('anomaly');
   });
 
   it('returns anomaly for humidity above 100', () => {
-    const reading = { created_at: new Date(NOW - 60_000).toISOString(), temperature: 25, humidity: 101 };
+    const reading = { measured_at: new Date(NOW - 60_000).toISOString(), temperature: 25, humidity: 101 };
     const result = classifyDevice(reading, STALE_MINUTES, NOW);
     expect(result.status).toBe('anomaly');
   });
 
   it('accepts boundary values as ok (-40C, 85C, 0%, 100%)', () => {
-    expect(classifyDevice({ created_at: new Date(NOW).toISOString(), temperature: -40, humidity: 0 }, STALE_MINUTES, NOW).status).toBe('ok');
-    expect(classifyDevice({ created_at: new Date(NOW).toISOString(), temperature: 85, humidity: 100 }, STALE_MINUTES, NOW).status).toBe('ok');
+    expect(classifyDevice({ measured_at: new Date(NOW).toISOString(), temperature: -40, humidity: 0 }, STALE_MINUTES, NOW).status).toBe('ok');
+    expect(classifyDevice({ measured_at: new Date(NOW).toISOString(), temperature: 85, humidity: 100 }, STALE_MINUTES, NOW).status).toBe('ok');
+  });
+
+  it('checks registered extra metrics against their ranges', () => {
+    const co2 = { key: 'co2', display_name: 'CO₂', unit: 'ppm', min_value: 0, max_value: 10000, display_precision: 0, sort_order: 4 };
+    const reading = { measured_at: new Date(NOW - 60_000).toISOString(), temperature: 25, humidity: 50, metrics: { co2: 20000 } };
+    const result = classifyDevice(reading, STALE_MINUTES, NOW, [co2]);
+    expect(result.status).toBe('anomaly');
+    expect(result.reason).toContain('co2=20000.00ppm');
+
+    expect(classifyDevice({ ...reading, metrics: { co2: 800 } }, STALE_MINUTES, NOW, [co2]).status).toBe('ok');
   });
 
   it('checks staleness before anomaly', () => {
-    const reading = { created_at: new Date(NOW - 20 * 60_000).toISOString(), temperature: 200, humidity: 200 };
+    const reading = { measured_at: new Date(NOW - 20 * 60_000).toISOString(), temperature: 200, humidity: 200 };
     const result = classifyDevice(reading, STALE_MINUTES, NOW);
     expect(result.status).toBe('stale');
   });
+
+  const recent = (values: Array<[number, number]>) =>
+    values.map(([temperature, humidity], i) => ({
+      measured_at: new Date(NOW - (i + 1) * 60_000).toISOString(),
+      temperature,
+      humidity,
+    }));
+
+  it('returns flatline when recent readings are identical', () => {
+    const history = { recent: recent([[21.5, 40], [21.5, 40], [21.5, 40]]), flatlineReadings: 3, spikeWindowMinutes: 10 };
+    const result = classifyDevice(history.recent[0], STALE_MINUTES, NOW, undefined, history);
+    expect(result.status).toBe('flatline');
+    expect(result.since).toBe(history.recent[2].measured_at);
+    expect(result.reason).toContain('Last 3 readings are identical');
+
+    const varying = { ...history, recent: recent([[21.5, 40], [21.6, 40], [21.5, 40]]) };
+    expect(classifyDevice(varying.recent[0], STALE_MINUTES, NOW, undefined, varying).status).toBe('ok');
+  });
+
+  it('returns spike when the latest reading jumps implausibly', () => {
+    const history = { recent: recent([[35, 40], [24, 40], [24, 40]]), flatlineReadings: 10, spikeWindowMinutes: 10 };
+    const result = classifyDevice(history.recent[0], STALE_MINUTES, NOW, undefined, history);
+    expect(result.status).toBe('spike');
+    expect(result.since).toBe(history.recent[0].measured_at);
+    expect(result.reason).toContain('temperature jumped from 24.00°C to 35.00°C');
+  });
+
+  it('returns to ok once the jump is no longer the latest pair', () => {
+    const history = { recent: recent([[35.1, 40], [35, 40], [24, 40]]), flatlineReadings: 10, spikeWindowMinutes: 10 };
+    expect(classifyDevice(history.recent[0], STALE_MINUTES, NOW, undefined, history).status).toBe('ok');
+
+    // An older jump no longer hides a flatline either.
+    const flat = { ...history, recent: recent([[35, 40], [35, 40], [24, 40]]), flatlineReadings: 2 };
+    expect(classifyDevice(flat.recent[0], STALE_MINUTES, NOW, undefined, flat).status).toBe('flatline');
+  });
+
+  it('checks anomaly before spike', () => {
+    const history = { recent: recent([[90, 40], [24, 40]]), flatlineReadings: 10, spikeWindowMinutes: 10 };
+    expect(classifyDevice(history.recent[0], STALE_MINUTES, NOW, undefined, history).status).toBe('anomaly');
+  });
 });
 
 describe('shouldSendProblemAlert', () => {
@@ -167,6 +231,13 @@ describe('shouldSendProblemAlert', () => {
   it('sends alert on transition from missing to stale', () => {
     expect(shouldSendProblemAlert(makeState({ status: 'missing' }), 'stale')).toBe(true);
   });
+
+  it('dedups alert rule state the same way', () => {
+    const ruleState = { status: 'firing', last_alert_sent_at: '2026-01-01T00:00:00Z' };
+    expect(shouldSendProblemAlert(ruleState, 'firing')).toBe(false);
+    expect(shouldSendProblemAlert({ status: 'ok', last_alert_sent_at: null }, 'firing')).toBe(true);
+    expect(shouldSendRecoveryAlert(ruleState, true)).toBe(true);
+  });
 });
 
 describe('shouldSendRecoveryAlert', () => {
@@ -1,6 +1,53 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { Resend } from 'resend';
 import { NextRequest, NextResponse } from 'next/server';
+import { BUILTIN_METRICS, findOutOfRangeMetrics, loadMetricRegistry } from '@/lib/metrics';
+import { MAX_FUTURE_SKEW_MS } from '@/lib/constants';
+import {
+  WEATHER_MATCH_MINUTES,
+  evaluateRule,
+  resolveRuleTargets,
+  ruleLookbackMinutes,
+  type RuleReading,
+  type RuleTarget,
+} from '@/lib/alertRules';
+import { applyCalibrationToReading, buildCalibrationMap } from '@/lib/calibration';
+import {
+  channelFromConfig,
+  selectChannels,
+  type AlertNotification,
+  type ChannelResult,
+  type NotificationChannel,
+} from '@/lib/notificationChannels';
+import { incidentTransition } from '@/lib/incidents';
+import { suppressionReason } from '@/lib/alertSuppression';
+import {
+  DEFAULT_FLATLINE_READINGS,
+  DEFAULT_SPIKE_WINDOW_MINUTES,
+  detectFlatline,
+  detectSpike,
+} from '@/lib/sensorFaults';
+import {
+  DEFAULT_DRIFT_DURATION_MINUTES,
+  DEFAULT_DRIFT_PERCENT,
+  DEFAULT_DRIFT_WINDOW_MINUTES,
+  describeTrend,
+  driftLookbackMinutes,
+  evaluateDrift,
+  type DriftEvaluation,
+  type DriftOptions,
+} from '@/lib/drift';
+import { toWeatherDeviceId } from '@/lib/weatherLocation';
+import type {
+  AlertRule,
+  AlertRuleState,
+  Deployment,
+  DeviceDriftState,
+  Incident,
+  MaintenanceWindow,
+  MetricDefinition,
+  NotificationChannelConfig,
+} from '@/lib/supabase/types';
 
 type ServiceRoleClient = SupabaseClient;
 
@@ -19,12 +66,13 @@ function getServiceRoleClient() {
   return { client: createClient(url, serviceRoleKey), error: null } as const;
 }
 
-type DeviceStatus = 'ok' | 'missing' | 'stale' | 'anomaly';
+type DeviceStatus = 'ok' | 'missing' | 'stale' | 'anomaly' | 'spike' | 'flatline';
 
 type LatestReading = {
-  created_at: string;
+  measured_at: string;
   temperature: number;
   humidity: number;
+  metrics?: Record<string, number> | null;
 };
 
 type DeviceAlertState = {
@@ -37,10 +85,10 @@ type DeviceAlertState = {
   updated_at: string;
 };
 
-type ChannelResult = {
-  channel: string;
-  ok: boolean;
-  error?: string;
+// Fields the dedup helpers need; shared by device_alert_state and alert_rule_state.
+type AlertStateLike = {
+  status: string;
+  last_alert_sent_at: string | null;
 };
 
 type NotificationResult = {
@@ -51,10 +99,6 @@ type NotificationResult = {
 
 const DEFAULT_DEVICES = ['node1', 'node2'];
 const DEFAULT_STALE_MINUTES = 10;
-const MIN_TEMP_C = -40;
-const MAX_TEMP_C = 85;
-const MIN_HUMIDITY = 0;
-const MAX_HUMIDITY = 100;
 
 export function parseDeviceList(): string[] {
   const raw = process.env.MONITORED_DEVICE_IDS;
@@ -103,33 +147,46 @@ export function minutesSince(isoDate: string | null, nowMs: number): number | nu
   if (!isoDate) return null;
   const parsed = new Date(isoDate).getTime();
   if (!Number.isFinite(parsed)) return null;
-  return (nowMs - parsed) / 60000;
+  return Math.max(0, (nowMs - parsed) / 60000);
 }
 
-async function getLatestReading(
+/** The most recent readings for a device, newest first. */
+async function getLatestReadings(
   supabase: ServiceRoleClient,
-  deviceId: string
-): Promise<LatestReading | null> {
+  deviceId: string,
+  limit: number
+): Promise<LatestReading[]> {
   const { data, error } = await supabase
     .from('readings')
-    .select('created_at, temperature, humidity')
+    .select('measured_at, temperature, humidity, metrics')
     .eq('device_id', deviceId)
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .maybeSingle();
+    .order('measured_at', { ascending: false })
+    .limit(limit);
 
   if (error) {
     throw new Error(`Failed latest reading query for ${deviceId}: ${error.message}`);
   }
 
-  if (!data) return null;
-  return data as LatestReading;
+  return (data || []) as LatestReading[];
 }
 
-export function classifyDevice(latest: LatestReading | null, staleMinutes: number, nowMs: number): {
+export function classifyDevice(
+  latest: LatestReading | null,
+  staleMinutes: number,
+  nowMs: number,
+  metrics: MetricDefinition[] = BUILTIN_METRICS,
+  history: {
+    /** Recent readings, newest first, starting with `latest`. */
+    recent: LatestReading[];
+    flatlineReadings: number;
+    spikeWindowMinutes: number;
+  } = { recent: [], flatlineReadings: DEFAULT_FLATLINE_READINGS, spikeWindowMinutes: DEFAULT_SPIKE_WINDOW_MINUTES }
+): {
   status: DeviceStatus;
   ageMinutes: number | null;
   reason: string;
+  /** When a spike or flatline began, if earlier than the latest reading. */
+  since?: string;
 } {
   if (!latest) {
     return {
@@ -139,12 +196,14 @@ export function classifyDevice(latest: LatestReading | null, staleMinutes: numbe
     };
   }
 
-  const ageMinutes = minutesSince(latest.created_at, nowMs);
-  if (ageMinutes !== null && ageMinutes < 0) {
+  const ageMinutes = minutesSince(latest.measured_at, nowMs);
+  // A node clock running slightly fast is fine; beyond ingest's skew limit
+  // the clock is wrong and the reading cannot be trusted as fresh.
+  if (Date.parse(latest.measured_at) > nowMs + MAX_FUTURE_SKEW_MS) {
     return {
       status: 'stale' as const,
       ageMinutes,
-      reason: `Latest reading has a future timestamp (${latest.created_at}). Treating as stale.`,
+      reason: `Latest reading has a future timestamp (${latest.measured_at}). Treating as stale.`,
     };
   }
   if (ageMinutes !== null && ageMinutes > staleMinutes) {
@@ -155,15 +214,44 @@ export function classifyDevice(latest: LatestReading | null, staleMinutes: numbe
     };
   }
 
-  const outOfRangeTemp = latest.temperature < MIN_TEMP_C || latest.temperature > MAX_TEMP_C;
-  const outOfRangeHumidity = latest.humidity < MIN_HUMIDITY || latest.humidity > MAX_HUMIDITY;
-  if (outOfRangeTemp || outOfRangeHumidity) {
+  const outOfRange = findOutOfRangeMetrics(latest, metrics);
+  if (outOfRange.length > 0) {
     return {
       status: 'anomaly',
       ageMinutes,
       reason:
         `Latest reading is outside expected sensor bounds: ` +
-        `temp=${latest.temperature.toFixed(2)}C, humidity=${latest.humidity.toFixed(2)}%.`,
+        outOfRange
+          .map(({ metric, value }) =>
+            `${metric.key}=${value.toFixed(2)}${metric.unit} (valid ${metric.min_value ?? '-∞'} to ${metric.max_value ?? '∞'})`
+          )
+          .join(', ') +
+        '.',
+    };
+  }
+
+  const spike = detectSpike(history.recent, metrics, history.spikeWindowMinutes);
+  if (spike) {
+    return {
+      status: 'spike',
+      ageMinutes,
+      since: spike.at,
+      reason:
+        `${spike.metric.key} jumped from ${spike.from.toFixed(2)}${spike.metric.unit} to ` +
+        `${spike.to.toFixed(2)}${spike.metric.unit} in ${spike.minutes.toFixed(1)} minutes at ${spike.at} ` +
+        `(limit ${spike.metric.max_delta}${spike.metric.unit} between readings).`,
+    };
+  }
+
+  const flatline = detectFlatline(history.recent, history.flatlineReadings);
+  if (flatline) {
+    return {
+      status: 'flatline',
+      ageMinutes,
+      since: flatline.since,
+      reason:
+        `Last ${flatline.count} readings are identical (temperature=${flatline.temperature.toFixed(2)}°C, ` +
+        `humidity=${flatline.humidity.toFixed(2)}%) since ${flatline.since}. The sensor may be stuck.`,
     };
   }
 
@@ -175,8 +263,8 @@ export function classifyDevice(latest: LatestReading | null, staleMinutes: numbe
 }
 
 export function shouldSendProblemAlert(
-  previous: DeviceAlertState | undefined,
-  nextStatus: Exclude<DeviceStatus, 'ok'>
+  previous: AlertStateLike | undefined,
+  nextStatus: string
 ): boolean {
   if (!previous) return true;
   if (previous.status === 'ok') return true;
@@ -186,7 +274,7 @@ export function shouldSendProblemAlert(
 }
 
 export function shouldSendRecoveryAlert(
-  previous: DeviceAlertState | undefined,
+  previous: Pick<AlertStateLike, 'status'> | undefined,
   recoveryEnabled: boolean
 ): boolean {
   if (!recoveryEnabled || !previous) return false;
@@ -198,7 +286,7 @@ async function sendEmail(subject: string, body: string): Promise<ChannelResult>
   const apiKey = process.env.RESEND_API_KEY;
   const toRaw = process.env.ALERT_EMAIL_TO;
   if (!apiKey || !toRaw) {
-    return { channel: 'email', ok: false, error: 'RESEND_API_KEY or ALERT_EMAIL_TO missing' };
+    return { channel: 'email', ok: false, skipped: true, error: 'RESEND_API_KEY or ALERT_EMAIL_TO missing' };
   }
 
   const to = toRaw
@@ -225,18 +313,103 @@ async function sendEmail(subject: string, body: string): Promise<ChannelResult>
   return { channel: 'email', ok: true };
 }
 
+const emailChannel: NotificationChannel = {
+  type: 'email',
+  id: null,
+  send: (notification) => sendEmail(notification.subject, notification.body),
+};
+
+// Channels are optional: without the notification_channels table only the
+// env-configured email is used.
+async function loadNotificationChannels(supabase: ServiceRoleClient): Promise<NotificationChannelConfig[]> {
+  try {
+    const { data, error } = await supabase
+      .from('notification_channels')
+      .select('*')
+      .eq('enabled', true);
+
+    if (!error && data) {
+      return data as NotificationChannelConfig[];
+    }
+    if (error) console.error('Failed to fetch notification channels:', error.message);
+  } catch (e) {
+    console.error('Failed to fetch notification channels:', e);
+  }
+
+  return [];
+}
+
+async function loadMaintenanceWindows(supabase: ServiceRoleClient, nowIso: string): Promise<MaintenanceWindow[]> {
+  try {
+    const { data, error } = await supabase
+      .from('maintenance_windows')
+      .select('*')
+      .lte('starts_at', nowIso)
+      .gt('ends_at', nowIso);
+
+    if (!error && data) {
+      return data as MaintenanceWindow[];
+    }
+    if (error) console.error('Failed to fetch maintenance windows:', error.message);
+  } catch (e) {
+    console.error('Failed to fetch maintenance windows:', e);
+  }
+
+  return [];
+}
+
+async function loadSnoozedDevices(supabase: ServiceRoleClient, nowIso: string): Promise<Map<string, string>> {
+  try {
+    const { data, error } = await supabase
+      .from('devices')
+      .select('id, alerts_snoozed_until')
+      .gt('alerts_snoozed_until', nowIso);
+
+    if (!error && data) {
+      return new Map(data.map((d) => [d.id as string, d.alerts_snoozed_until as string]));
+    }
+    if (error) console.error('Failed to fetch device snoozes:', error.message);
+  } catch (e) {
+    console.error('Failed to fetch device snoozes:', e);
+  }
+
+  return new Map();
+}
+
 async function dispatchNotifications(
-  subject: string,
-  message: string
+  supabase: ServiceRoleClient,
+  notification: AlertNotification,
+  channelConfigs: NotificationChannelConfig[]
 ): Promise<NotificationResult> {
-  const attempts = await Promise.all([sendEmail(subject, message)]);
+  const channels = [
+    emailChannel,
+    ...selectChannels(channelConfigs, notification).map(channelFromConfig),
+  ];
+  const attempts = await Promise.all(channels.map((channel) => channel.send(notification)));
 
-  const active = attempts.filter(
-    (a) => !a.error || !a.error.toLowerCase().includes('missing')
-  );
+  const active = attempts.filter((a) => !a.skipped);
   const attempted = active.length;
   const sent = active.filter((a) => a.ok).length;
 
+  if (active.length > 0) {
+    // The attempt log is for operators; failing to write it must not block alerting.
+    const { error: logError } = await supabase.from('notification_attempts').insert(
+      active.map((a) => ({
+        channel_id: a.channel_id ?? null,
+        incident_id: notification.incident_id,
+        channel_type: a.channel,
+        device_id: notification.device_id,
+        rule_id: notification.rule_id,
+        alert_kind: notification.kind,
+        subject: notification.subject,
+        ok: a.ok,
+        status_code: a.status_code ?? null,
+        error: a.error ?? null,
+      }))
+    );
+    if (logError) console.error('Failed to record notification attempts:', logError.message);
+  }
+
   return {
     attempted,
     sent,
@@ -258,10 +431,14 @@ function buildProblemAlertMessage(params: {
       ? 'NO DATA'
       : params.status === 'stale'
       ? 'OFFLINE / STALE'
+      : params.status === 'spike'
+      ? 'IMPLAUSIBLE JUMP'
+      : params.status === 'flatline'
+      ? 'SENSOR STUCK'
       : 'SENSOR ANOMALY';
 
-  const lastSeen = params.latest?.created_at
-    ? new Date(params.latest.created_at).toISOString()
+  const lastSeen = params.latest?.measured_at
+    ? new Date(params.latest.measured_at).toISOString()
     : 'never';
 
   const tempLine =
@@ -297,8 +474,8 @@ function buildRecoveryAlertMessage(params: {
   latest: LatestReading | null;
 }): { subject: string; body: string } {
   const dashboardUrl = process.env.ALERT_DASHBOARD_URL || '';
-  const lastSeen = params.latest?.created_at
-    ? new Date(params.latest.created_at).toISOString()
+  const lastSeen = params.latest?.measured_at
+    ? new Date(params.latest.measured_at).toISOString()
     : 'unknown';
 
   const body = [
@@ -318,24 +495,686 @@ function buildRecoveryAlertMessage(params: {
   return { subject, body };
 }
 
+function buildRuleAlertMessage(params: {
+  rule: AlertRule;
+  deviceId: string;
+  reason: string;
+  breachStartedAt: string | null;
+}): { subject: string; body: string } {
+  const dashboardUrl = process.env.ALERT_DASHBOARD_URL || '';
+  const severity = params.rule.severity.toUpperCase();
+
+  const body = [
+    `IoT monitor alert for ${params.deviceId}`,
+    ``,
+    `Rule: ${params.rule.name}`,
+    `Severity: ${severity}`,
+    `Reason: ${params.reason}`,
+    params.breachStartedAt ? `Breaching since: ${params.breachStartedAt}` : '',
+    dashboardUrl ? `Dashboard: ${dashboardUrl}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const subject = `[IoT Alert] ${params.deviceId} ${severity}: ${params.rule.name}`;
+  return { subject, body };
+}
+
+function buildRuleRecoveryMessage(params: {
+  rule: AlertRule;
+  deviceId: string;
+  reason: string;
+}): { subject: string; body: string } {
+  const dashboardUrl = process.env.ALERT_DASHBOARD_URL || '';
+
+  const body = [
+    `IoT monitor recovery for ${params.deviceId}`,
+    ``,
+    `Rule: ${params.rule.name}`,
+    `Status: OK`,
+    `Detail: ${params.reason}`,
+    dashboardUrl ? `Dashboard: ${dashboardUrl}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const subject = `[IoT Recovery] ${params.deviceId} ${params.rule.name} cleared`;
+  return { subject, body };
+}
+
+function buildDriftAlertMessage(params: {
+  deviceId: string;
+  evaluation: DriftEvaluation;
+}): { subject: string; body: string } {
+  const dashboardUrl = process.env.ALERT_DASHBOARD_URL || '';
+  const { evaluation } = params;
+
+  const body = [
+    `IoT monitor alert for ${params.deviceId}`,
+    ``,
+    `Status: SENSOR DRIFT`,
+    `Reason: ${evaluation.reason}`,
+    evaluation.trend ? `Trend: ${describeTrend(evaluation.trend)}` : '',
+    evaluation.breachStartedAt ? `Drifting since: ${evaluation.breachStartedAt}` : '',
+    dashboardUrl ? `Dashboard: ${dashboardUrl}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const subject = `[IoT Alert] ${params.deviceId} SENSOR DRIFT (${evaluation.metric})`;
+  return { subject, body };
+}
+
+function buildDriftRecoveryMessage(params: {
+  deviceId: string;
+  evaluation: DriftEvaluation;
+}): { subject: string; body: string } {
+  const dashboardUrl = process.env.ALERT_DASHBOARD_URL || '';
+
+  const body = [
+    `IoT monitor recovery for ${params.deviceId}`,
+    ``,
+    `Status: OK`,
+    `Detail: ${params.evaluation.reason}`,
+    dashboardUrl ? `Dashboard: ${dashboardUrl}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const subject = `[IoT Recovery] ${params.deviceId} is back in line with weather`;
+  return { subject, body };
+}
+
+async function getRecentReadings(
+  supabase: ServiceRoleClient,
+  deviceId: string,
+  sinceIso: string
+): Promise<Array<RuleReading & { device_id: string }>> {
+  const { data, error } = await supabase
+    .from('readings')
+    .select('device_id, measured_at, temperature, humidity, metrics')
+    .eq('device_id', deviceId)
+    .gte('measured_at', sinceIso)
+    .order('measured_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed recent readings query for ${deviceId}: ${error.message}`);
+  }
+
+  return (data || []) as Array<RuleReading & { device_id: string }>;
+}
+
+// Rules are optional: a database without the alert_rules table keeps the
+// built-in status checks only.
+async function loadAlertRules(supabase: ServiceRoleClient): Promise<AlertRule[]> {
+  try {
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .select('*')
+      .eq('enabled', true);
+
+    if (!error && data) {
+      return data as AlertRule[];
+    }
+    if (error) console.error('Failed to fetch alert rules:', error.message);
+  } catch (e) {
+    console.error('Failed to fetch alert rules:', e);
+  }
+
+  return [];
+}
+
+async function closeIncidents(supabase: ServiceRoleClient, ids: number[], nowIso: string) {
+  if (ids.length === 0) return;
+  const { error } = await supabase
+    .from('incidents')
+    .update({ closed_at: nowIso })
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`Failed to close incidents ${ids.join(', ')}: ${error.message}`);
+  }
+}
+
+/**
+ * Opens or closes the incident for a device or (rule, device) to match the
+ * status just computed. Returns the incident a notification belongs to: the
+ * one just opened, the one just closed on recovery, or the one still open.
+ */
+async function recordIncident(
+  supabase: ServiceRoleClient,
+  open: Incident | undefined,
+  next: {
+    deviceId: string;
+    ruleId: number | null;
+    status: string;
+    severity: string | null;
+    reason: string;
+    openedAt: string;
+    nowIso: string;
+  }
+): Promise<number | null> {
+  const transition = incidentTransition(open, next.status);
+
+  if (transition.close && open) {
+    await closeIncidents(supabase, [open.id], next.nowIso);
+  }
+
+  if (!transition.open) {
+    return open?.id ?? null;
+  }
+
+  // A change of problem type starts the new incident now; otherwise use the
+  // estimated start, never later than now.
+  const openedAt = transition.close || next.openedAt > next.nowIso ? next.nowIso : next.openedAt;
+  const { data, error } = await supabase
+    .from('incidents')
+    .insert({
+      device_id: next.deviceId,
+      rule_id: next.ruleId,
+      status: next.status,
+      severity: next.severity,
+      reason: next.reason,
+      opened_at: openedAt,
+      detected_at: next.nowIso,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to open incident for ${next.deviceId}: ${error.message}`);
+  }
+
+  return data.id as number;
+}
+
+/**
+ * Evaluates user-defined rules for devices whose built-in status is ok; an
+ * offline device keeps its rule state until it reports again. Each
+ * (rule, device) pair is deduplicated like device status alerts.
+ */
+async function runAlertRules(
+  supabase: ServiceRoleClient,
+  params: {
+    statusByDevice: Map<string, DeviceStatus>;
+    metrics: MetricDefinition[];
+    staleMinutes: number;
+    recoveryEnabled: boolean;
+    nowMs: number;
+    nowIso: string;
+    channelConfigs: NotificationChannelConfig[];
+    openIncidents: Incident[];
+    maintenanceWindows: MaintenanceWindow[];
+    snoozedUntilByDevice: Map<string, string>;
+  }
+) {
+  const ruleResults: Array<Record<string, unknown>> = [];
+  const alertEvents: Array<Record<string, unknown>> = [];
+  const evaluatedKeys = new Set<string>();
+
+  // Open rule incidents that were not evaluated this run (rule disabled or
+  // deleted, deployment ended, device no longer monitored) are closed; those
+  // on devices with a problem status stay open until the device reports.
+  const closeUnevaluated = async () => {
+    const ids = params.openIncidents
+      .filter((i) => !evaluatedKeys.has(`${i.rule_id}:${i.device_id}`))
+      .filter((i) => (params.statusByDevice.get(i.device_id) ?? 'ok') === 'ok')
+      .map((i) => i.id);
+    await closeIncidents(supabase, ids, params.nowIso);
+  };
+
+  const rules = await loadAlertRules(supabase);
+  if (rules.length === 0) {
+    await closeUnevaluated();
+    return { ruleResults, alertEvents };
+  }
+
+  const deploymentIds = rules
+    .map((r) => r.deployment_id)
+    .filter((id): id is number => id !== null);
+  let deployments: Array<Pick<Deployment, 'id' | 'device_id' | 'started_at' | 'ended_at'>> = [];
+  if (deploymentIds.length > 0) {
+    const { data, error } = await supabase
+      .from('deployments')
+      .select('id, device_id, started_at, ended_at')
+      .in('id', deploymentIds);
+    if (error) {
+      throw new Error(`Failed deployments query for alert rules: ${error.message}`);
+    }
+    deployments = data || [];
+  }
+
+  const healthyDevices = [...params.statusByDevice.entries()]
+    .filter(([, status]) => status === 'ok')
+    .map(([deviceId]) => deviceId);
+
+  const targets: Array<{ rule: AlertRule; target: RuleTarget }> = rules.flatMap((rule) =>
+    resolveRuleTargets(rule, healthyDevices, deployments).map((target) => ({ rule, target }))
+  );
+  if (targets.length === 0) {
+    await closeUnevaluated();
+    return { ruleResults, alertEvents };
+  }
+
+  // One readings fetch per device, covering the longest rule window.
+  const lookbackByDevice = new Map<string, number>();
+  const weatherDevices = new Set<string>();
+  for (const { rule, target } of targets) {
+    const lookback = ruleLookbackMinutes(rule, params.staleMinutes);
+    lookbackByDevice.set(target.deviceId, Math.max(lookbackByDevice.get(target.deviceId) ?? 0, lookback));
+    if (rule.rule_type === 'weather_deviation') weatherDevices.add(target.deviceId);
+  }
+
+  const { data: calibrationRows, error: calibrationError } = await supabase
+    .from('devices')
+    .select('id, temp_offset_c, temp_gain, humidity_offset, humidity_gain')
+    .in('id', [...lookbackByDevice.keys()]);
+  if (calibrationError) {
+    throw new Error(`Failed calibration query for alert rules: ${calibrationError.message}`);
+  }
+  const calibrations = buildCalibrationMap(calibrationRows || []);
+
+  const readingsByDevice = new Map<string, RuleReading[]>();
+  const weatherByDevice = new Map<string, RuleReading[]>();
+  for (const [deviceId, lookback] of lookbackByDevice) {
+    const sinceMs = params.nowMs - lookback * 60_000;
+    const readings = await getRecentReadings(supabase, deviceId, new Date(sinceMs).toISOString());
+    readingsByDevice.set(deviceId, readings.map((r) => applyCalibrationToReading(r, calibrations)));
+    if (weatherDevices.has(deviceId)) {
+      const weatherSince = new Date(sinceMs - WEATHER_MATCH_MINUTES * 60_000).toISOString();
+      weatherByDevice.set(deviceId, await getRecentReadings(supabase, toWeatherDeviceId(deviceId), weatherSince));
+    }
+  }
+
+  const { data: stateRows, error: stateError } = await supabase
+    .from('alert_rule_state')
+    .select('*')
+    .in('rule_id', rules.map((r) => r.id));
+
+  if (stateError) {
+    throw new Error(`Failed alert rule state query: ${stateError.message}`);
+  }
+
+  const stateByKey = new Map<string, AlertRuleState>(
+    ((stateRows || []) as AlertRuleState[]).map((row) => [`${row.rule_id}:${row.device_id}`, row])
+  );
+  const openIncidentByKey = new Map<string, Incident>(
+    params.openIncidents.map((i) => [`${i.rule_id}:${i.device_id}`, i])
+  );
+
+  for (const { rule, target } of targets) {
+    const { deviceId } = target;
+    const previous = stateByKey.get(`${rule.id}:${deviceId}`);
+    const evaluation = evaluateRule(
+      rule,
+      readingsByDevice.get(deviceId) ?? [],
+      weatherByDevice.get(deviceId) ?? [],
+      { nowMs: params.nowMs, staleMinutes: params.staleMinutes, since: target.since, metrics: params.metrics }
+    );
+    const status: AlertRuleState['status'] = evaluation.firing ? 'firing' : 'ok';
+    evaluatedKeys.add(`${rule.id}:${deviceId}`);
+
+    const openIncident = openIncidentByKey.get(`${rule.id}:${deviceId}`);
+    const incidentId = await recordIncident(supabase, openIncident, {
+      deviceId,
+      ruleId: rule.id,
+      status,
+      severity: rule.severity,
+      reason: evaluation.reason,
+      openedAt: evaluation.breachStartedAt ?? params.nowIso,
+      nowIso: params.nowIso,
+    });
+    const suppressed = suppressionReason({
+      deviceId,
+      nowMs: params.nowMs,
+      maintenanceWindows: params.maintenanceWindows,
+      snoozedUntil: params.snoozedUntilByDevice.get(deviceId),
+      incident: openIncident?.id === incidentId ? openIncident : undefined,
+    });
+
+    let problemAlertAttempted = false;
+    let problemAlertSuppressed = false;
+    let recoveryAlertAttempted = false;
+    let notificationSummary: NotificationResult | null = null;
+
+    if (status === 'ok') {
+      if (shouldSendRecoveryAlert(previous, params.recoveryEnabled) && previous?.last_alert_sent_at && !suppressed) {
+        const msg = buildRuleRecoveryMessage({ rule, deviceId, reason: evaluation.reason });
+        notificationSummary = await dispatchNotifications(supabase, {
+          kind: 'recovery',
+          subject: msg.subject,
+          body: msg.body,
+          device_id: deviceId,
+          rule_id: rule.id,
+          incident_id: incidentId,
+          status: status,
+          severity: rule.severity,
+          occurred_at: params.nowIso,
+        }, params.channelConfigs);
+        recoveryAlertAttempted = true;
+      }
+    } else if (shouldSendProblemAlert(previous, status)) {
+      if (suppressed) {
+        problemAlertSuppressed = true;
+      } else {
+        const msg = buildRuleAlertMessage({
+          rule,
+          deviceId,
+          reason: evaluation.reason,
+          breachStartedAt: evaluation.breachStartedAt,
+        });
+        notificationSummary = await dispatchNotifications(supabase, {
+          kind: 'problem',
+          subject: msg.subject,
+          body: msg.body,
+          device_id: deviceId,
+          rule_id: rule.id,
+          incident_id: incidentId,
+          status: status,
+          severity: rule.severity,
+          occurred_at: params.nowIso,
+        }, params.channelConfigs);
+        problemAlertAttempted = true;
+      }
+    }
+
+    const stateUpdate: Partial<AlertRuleState> & {
+      rule_id: number;
+      device_id: string;
+      status: AlertRuleState['status'];
+      updated_at: string;
+    } = {
+      rule_id: rule.id,
+      device_id: deviceId,
+      status,
+      breach_started_at: evaluation.breachStartedAt,
+      last_value: evaluation.value,
+      updated_at: params.nowIso,
+    };
+
+    if (problemAlertAttempted) {
+      stateUpdate.last_alert_type = rule.severity;
+      stateUpdate.last_alert_sent_at = params.nowIso;
+    }
+
+    // Leave the alert due so it goes out if the breach outlasts the suppression.
+    if (problemAlertSuppressed) {
+      stateUpdate.last_alert_sent_at = null;
+    }
+
+    if (recoveryAlertAttempted) {
+      stateUpdate.last_recovery_sent_at = params.nowIso;
+    }
+
+    const { error: upsertError } = await supabase
+      .from('alert_rule_state')
+      .upsert(stateUpdate, { onConflict: 'rule_id,device_id' });
+
+    if (upsertError) {
+      throw new Error(`Failed alert rule state upsert for rule ${rule.id} on ${deviceId}: ${upsertError.message}`);
+    }
+
+    if (notificationSummary) {
+      alertEvents.push({
+        device_id: deviceId,
+        rule_id: rule.id,
+        status,
+        severity: rule.severity,
+        notification: notificationSummary,
+      });
+    }
+
+    ruleResults.push({
+      rule_id: rule.id,
+      rule_name: rule.name,
+      device_id: deviceId,
+      severity: rule.severity,
+      status,
+      reason: evaluation.reason,
+      value: evaluation.value,
+      breach_started_at: evaluation.breachStartedAt,
+      incident_id: incidentId,
+      suppressed,
+      problem_alert_attempted: problemAlertAttempted,
+      recovery_alert_attempted: recoveryAlertAttempted,
+    });
+  }
+
+  await closeUnevaluated();
+  return { ruleResults, alertEvents };
+}
+
+/**
+ * Compares each healthy device's rolling average with its weather
+ * counterpart. Drift is tracked in device_drift_state next to the device
+ * status and deduplicated the same way; an offline device keeps its drift
+ * state until it reports again.
+ */
+async function runDriftChecks(
+  supabase: ServiceRoleClient,
+  params: {
+    enabled: boolean;
+    options: Omit<DriftOptions, 'nowMs' | 'metrics'>;
+    statusByDevice: Map<string, DeviceStatus>;
+    metrics: MetricDefinition[];
+    recoveryEnabled: boolean;
+    nowMs: number;
+    nowIso: string;
+    channelConfigs: NotificationChannelConfig[];
+    openIncidents: Incident[];
+    maintenanceWindows: MaintenanceWindow[];
+    snoozedUntilByDevice: Map<string, string>;
+  }
+) {
+  const driftResults: Array<Record<string, unknown>> = [];
+  const alertEvents: Array<Record<string, unknown>> = [];
+
+  const devices = params.enabled
+    ? [...params.statusByDevice.entries()].filter(([, status]) => status === 'ok').map(([deviceId]) => deviceId)
+    : [];
+
+  // Drift incidents for devices not checked this run are closed unless the
+  // device has a problem status; those stay open until it reports.
+  const closeUnevaluated = async () => {
+    const ids = params.openIncidents
+      .filter((i) => !devices.includes(i.device_id))
+      .filter((i) => !params.enabled || (params.statusByDevice.get(i.device_id) ?? 'ok') === 'ok')
+      .map((i) => i.id);
+    await closeIncidents(supabase, ids, params.nowIso);
+  };
+
+  if (devices.length === 0) {
+    await closeUnevaluated();
+    return { driftResults, alertEvents };
+  }
+
+  const { data: calibrationRows, error: calibrationError } = await supabase
+    .from('devices')
+    .select('id, temp_offset_c, temp_gain, humidity_offset, humidity_gain')
+    .in('id', devices);
+  if (calibrationError) {
+    throw new Error(`Failed calibration query for drift checks: ${calibrationError.message}`);
+  }
+  const calibrations = buildCalibrationMap(calibrationRows || []);
+
+  const { data: stateRows, error: stateError } = await supabase
+    .from('device_drift_state')
+    .select('*')
+    .in('device_id', devices);
+
+  if (stateError) {
+    throw new Error(`Failed drift state query: ${stateError.message}`);
+  }
+
+  const stateByDevice = new Map<string, DeviceDriftState>(
+    ((stateRows || []) as DeviceDriftState[]).map((row) => [row.device_id, row])
+  );
+  const openIncidentByDevice = new Map(params.openIncidents.map((i) => [i.device_id, i]));
+  const sinceIso = new Date(params.nowMs - driftLookbackMinutes(params.options) * 60_000).toISOString();
+
+  for (const deviceId of devices) {
+    const readings = await getRecentReadings(supabase, deviceId, sinceIso);
+    const weather = await getRecentReadings(supabase, toWeatherDeviceId(deviceId), sinceIso);
+    const evaluation = evaluateDrift(
+      readings.map((r) => applyCalibrationToReading(r, calibrations)),
+      weather,
+      { ...params.options, nowMs: params.nowMs, metrics: params.metrics }
+    );
+    const status: DeviceDriftState['status'] = evaluation.drifting ? 'drift' : 'ok';
+    const previous = stateByDevice.get(deviceId);
+
+    const openIncident = openIncidentByDevice.get(deviceId);
+    const incidentId = await recordIncident(supabase, openIncident, {
+      deviceId,
+      ruleId: null,
+      status,
+      severity: null,
+      reason: evaluation.reason,
+      openedAt: evaluation.breachStartedAt ?? params.nowIso,
+      nowIso: params.nowIso,
+    });
+    const suppressed = suppressionReason({
+      deviceId,
+      nowMs: params.nowMs,
+      maintenanceWindows: params.maintenanceWindows,
+      snoozedUntil: params.snoozedUntilByDevice.get(deviceId),
+      incident: openIncident?.id === incidentId ? openIncident : undefined,
+    });
+
+    let problemAlertAttempted = false;
+    let problemAlertSuppressed = false;
+    let recoveryAlertAttempted = false;
+    let notificationSummary: NotificationResult | null = null;
+
+    if (status === 'ok') {
+      if (shouldSendRecoveryAlert(previous, params.recoveryEnabled) && previous?.last_alert_sent_at && !suppressed) {
+        const msg = buildDriftRecoveryMessage({ deviceId, evaluation });
+        notificationSummary = await dispatchNotifications(supabase, {
+          kind: 'recovery',
+          subject: msg.subject,
+          body: msg.body,
+          device_id: deviceId,
+          rule_id: null,
+          incident_id: incidentId,
+          status,
+          severity: null,
+          occurred_at: params.nowIso,
+        }, params.channelConfigs);
+        recoveryAlertAttempted = true;
+      }
+    } else if (shouldSendProblemAlert(previous, status)) {
+      if (suppressed) {
+        problemAlertSuppressed = true;
+      } else {
+        const msg = buildDriftAlertMessage({ deviceId, evaluation });
+        notificationSummary = await dispatchNotifications(supabase, {
+          kind: 'problem',
+          subject: msg.subject,
+          body: msg.body,
+          device_id: deviceId,
+          rule_id: null,
+          incident_id: incidentId,
+          status,
+          severity: null,
+          occurred_at: params.nowIso,
+        }, params.channelConfigs);
+        problemAlertAttempted = true;
+      }
+    }
+
+    const stateUpdate: Partial<DeviceDriftState> & {
+      device_id: string;
+      status: DeviceDriftState['status'];
+      updated_at: string;
+    } = {
+      device_id: deviceId,
+      status,
+      metric: evaluation.metric,
+      percent_error: evaluation.percentError,
+      breach_started_at: evaluation.breachStartedAt,
+      updated_at: params.nowIso,
+    };
+
+    if (problemAlertAttempted) {
+      stateUpdate.last_alert_type = status;
+      stateUpdate.last_alert_sent_at = params.nowIso;
+    }
+
+    // Leave the alert due so it goes out if the drift outlasts the suppression.
+    if (problemAlertSuppressed) {
+      stateUpdate.last_alert_sent_at = null;
+    }
+
+    if (recoveryAlertAttempted) {
+      stateUpdate.last_recovery_sent_at = params.nowIso;
+    }
+
+    const { error: upsertError } = await supabase
+      .from('device_drift_state')
+      .upsert(stateUpdate, { onConflict: 'device_id' });
+
+    if (upsertError) {
+      throw new Error(`Failed drift state upsert for ${deviceId}: ${upsertError.message}`);
+    }
+
+    if (notificationSummary) {
+      alertEvents.push({
+        device_id: deviceId,
+        status,
+        notification: notificationSummary,
+      });
+    }
+
+    driftResults.push({
+      device_id: deviceId,
+      status,
+      reason: evaluation.reason,
+      metric: evaluation.metric,
+      percent_error: evaluation.percentError,
+      breach_started_at: evaluation.breachStartedAt,
+      trend: evaluation.trend,
+      incident_id: incidentId,
+      suppressed,
+      problem_alert_attempted: problemAlertAttempted,
+      recovery_alert_attempted: recoveryAlertAttempted,
+    });
+  }
+
+  await closeUnevaluated();
+  return { driftResults, alertEvents };
+}
+
 async function runMonitoring(supabase: ServiceRoleClient) {
   const monitoredDevices = await getMonitoredDevices(supabase);
   if (monitoredDevices.length === 0) {
     return { status: 'ok', monitoredDevices: [], message: 'No devices to monitor', results: [] };
   }
   const staleMinutes = parseNumberEnv('ALERT_STALE_MINUTES', DEFAULT_STALE_MINUTES);
+  const flatlineReadings = Math.round(parseNumberEnv('ALERT_FLATLINE_READINGS', DEFAULT_FLATLINE_READINGS));
+  const spikeWindowMinutes = parseNumberEnv('ALERT_SPIKE_WINDOW_MINUTES', DEFAULT_SPIKE_WINDOW_MINUTES);
   const recoveryEnabled = process.env.ENABLE_RECOVERY_ALERTS !== 'false';
+  const driftEnabled = process.env.ENABLE_DRIFT_ALERTS !== 'false';
+  const driftOptions = {
+    thresholdPercent: parseNumberEnv('ALERT_DRIFT_PERCENT', DEFAULT_DRIFT_PERCENT),
+    windowMinutes: parseNumberEnv('ALERT_DRIFT_WINDOW_MINUTES', DEFAULT_DRIFT_WINDOW_MINUTES),
+    durationMinutes: parseNumberEnv('ALERT_DRIFT_DURATION_MINUTES', DEFAULT_DRIFT_DURATION_MINUTES),
+  };
   const now = new Date();
   const nowIso = now.toISOString();
   const nowMs = now.getTime();
 
-  const latestByDeviceEntries = await Promise.all(
+  // Fetched for the flatline check; spikes only compare the newest two.
+  const recentByDeviceEntries = await Promise.all(
     monitoredDevices.map(async (deviceId) => [
       deviceId,
-      await getLatestReading(supabase, deviceId),
+      await getLatestReadings(supabase, deviceId, Math.max(flatlineReadings, 2)),
     ] as const)
   );
-  const latestByDevice = new Map<string, LatestReading | null>(latestByDeviceEntries);
+  const recentByDevice = new Map<string, LatestReading[]>(recentByDeviceEntries);
+  const metricRanges = await loadMetricRegistry(supabase);
+  const channelConfigs = await loadNotificationChannels(supabase);
+  const maintenanceWindows = await loadMaintenanceWindows(supabase, nowIso);
+  const snoozedUntilByDevice = await loadSnoozedDevices(supabase, nowIso);
 
   const { data: stateRows, error: stateError } = await supabase
     .from('device_alert_state')
@@ -350,26 +1189,89 @@ async function runMonitoring(supabase: ServiceRoleClient) {
     (stateRows || []).map((row) => [row.device_id as string, row as DeviceAlertState])
   );
 
+  const { data: incidentRows, error: incidentError } = await supabase
+    .from('incidents')
+    .select('*')
+    .is('closed_at', null);
+
+  if (incidentError) {
+    throw new Error(`Failed open incidents query: ${incidentError.message}`);
+  }
+
+  const openIncidents = (incidentRows || []) as Incident[];
+  const openDriftIncidents = openIncidents.filter((i) => i.rule_id === null && i.status === 'drift');
+  const openDeviceIncidents = openIncidents.filter(
+    (i) => i.rule_id === null && i.status !== 'firing' && i.status !== 'drift'
+  );
+  const openDeviceIncidentById = new Map(openDeviceIncidents.map((i) => [i.device_id, i]));
+
+  // Devices dropped from monitoring no longer have a status to resolve against.
+  await closeIncidents(
+    supabase,
+    openDeviceIncidents.filter((i) => !monitoredDevices.includes(i.device_id)).map((i) => i.id),
+    nowIso
+  );
+
   const deviceResults: Array<Record<string, unknown>> = [];
   const alertEvents: Array<Record<string, unknown>> = [];
+  const statusByDevice = new Map<string, DeviceStatus>();
 
   for (const deviceId of monitoredDevices) {
-    const latest = latestByDevice.get(deviceId) || null;
+    const recent = recentByDevice.get(deviceId) || [];
+    const latest = recent[0] || null;
     const previous = stateByDevice.get(deviceId);
-    const classification = classifyDevice(latest, staleMinutes, nowMs);
+    const classification = classifyDevice(latest, staleMinutes, nowMs, metricRanges, {
+      recent,
+      flatlineReadings,
+      spikeWindowMinutes,
+    });
+    statusByDevice.set(deviceId, classification.status);
+
+    const openIncident = openDeviceIncidentById.get(deviceId);
+    const incidentId = await recordIncident(supabase, openIncident, {
+      deviceId,
+      ruleId: null,
+      status: classification.status,
+      severity: null,
+      reason: classification.reason,
+      // Other problems date back to the reading that shows them.
+      openedAt: classification.since ?? (classification.status !== 'missing' && latest ? latest.measured_at : nowIso),
+      nowIso,
+    });
+    const suppressed = suppressionReason({
+      deviceId,
+      nowMs,
+      maintenanceWindows,
+      snoozedUntil: snoozedUntilByDevice.get(deviceId),
+      incident: openIncident?.id === incidentId ? openIncident : undefined,
+    });
 
     let problemAlertAttempted = false;
+    let problemAlertSuppressed = false;
     let recoveryAlertAttempted = false;
     let notificationSummary: NotificationResult | null = null;
 
     if (classification.status === 'ok') {
-      if (shouldSendRecoveryAlert(previous, recoveryEnabled)) {
+      // No recovery for a problem nobody was told about.
+      if (shouldSendRecoveryAlert(previous, recoveryEnabled) && previous?.last_alert_sent_at && !suppressed) {
         const msg = buildRecoveryAlertMessage({ deviceId, latest });
-        notificationSummary = await dispatchNotifications(msg.subject, msg.body);
+        notificationSummary = await dispatchNotifications(supabase, {
+          kind: 'recovery',
+          subject: msg.subject,
+          body: msg.body,
+          device_id: deviceId,
+          rule_id: null,
+          incident_id: incidentId,
+          status: 'ok',
+          severity: null,
+          occurred_at: nowIso,
+        }, channelConfigs);
         recoveryAlertAttempted = true;
       }
-    } else {
-      if (shouldSendProblemAlert(previous, classification.status)) {
+    } else if (shouldSendProblemAlert(previous, classification.status)) {
+      if (suppressed) {
+        problemAlertSuppressed = true;
+      } else {
         const msg = buildProblemAlertMessage({
           deviceId,
           status: classification.status,
@@ -378,7 +1280,17 @@ async function runMonitoring(supabase: ServiceRoleClient) {
           ageMinutes: classification.ageMinutes,
           staleMinutes,
         });
-        notificationSummary = await dispatchNotifications(msg.subject, msg.body);
+        notificationSummary = await dispatchNotifications(supabase, {
+          kind: 'problem',
+          subject: msg.subject,
+          body: msg.body,
+          device_id: deviceId,
+          rule_id: null,
+          incident_id: incidentId,
+          status: classification.status,
+          severity: null,
+          occurred_at: nowIso,
+        }, channelConfigs);
         problemAlertAttempted = true;
       }
     }
@@ -391,7 +1303,7 @@ async function runMonitoring(supabase: ServiceRoleClient) {
     } = {
       device_id: deviceId,
       status: classification.status,
-      last_seen_at: latest?.created_at || null,
+      last_seen_at: latest?.measured_at || null,
       updated_at: nowIso,
     };
 
@@ -403,6 +1315,11 @@ async function runMonitoring(supabase: ServiceRoleClient) {
       stateUpdate.last_alert_sent_at = nowIso;
     }
 
+    // Leave the alert due so it goes out if the problem outlasts the suppression.
+    if (problemAlertSuppressed) {
+      stateUpdate.last_alert_sent_at = null;
+    }
+
     if (recoveryAlertAttempted) {
       stateUpdate.last_recovery_sent_at = nowIso;
     }
@@ -428,14 +1345,45 @@ async function runMonitoring(supabase: ServiceRoleClient) {
       status: classification.status,
       reason: classification.reason,
       age_minutes: classification.ageMinutes,
-      last_seen_at: latest?.created_at || null,
+      last_seen_at: latest?.measured_at || null,
       latest_temperature_c: latest?.temperature ?? null,
       latest_humidity: latest?.humidity ?? null,
+      incident_id: incidentId,
+      suppressed,
       problem_alert_attempted: problemAlertAttempted,
       recovery_alert_attempted: recoveryAlertAttempted,
     });
   }
 
+  const { ruleResults, alertEvents: ruleEvents } = await runAlertRules(supabase, {
+    statusByDevice,
+    metrics: metricRanges,
+    staleMinutes,
+    recoveryEnabled,
+    nowMs,
+    nowIso,
+    channelConfigs,
+    openIncidents: openIncidents.filter((i) => !openDeviceIncidents.includes(i) && !openDriftIncidents.includes(i)),
+    maintenanceWindows,
+    snoozedUntilByDevice,
+  });
+  alertEvents.push(...ruleEvents);
+
+  const { driftResults, alertEvents: driftEvents } = await runDriftChecks(supabase, {
+    enabled: driftEnabled,
+    options: driftOptions,
+    statusByDevice,
+    metrics: metricRanges,
+    recoveryEnabled,
+    nowMs,
+    nowIso,
+    channelConfigs,
+    openIncidents: openDriftIncidents,
+    maintenanceWindows,
+    snoozedUntilByDevice,
+  });
+  alertEvents.push(...driftEvents);
+
   const alertsAttempted = alertEvents.reduce(
     (sum, e) => sum + ((e.notification as NotificationResult).attempted || 0),
     0
@@ -449,10 +1397,18 @@ async function runMonitoring(supabase: ServiceRoleClient) {
     checked_at: nowIso,
     monitored_devices: monitoredDevices,
     stale_threshold_minutes: staleMinutes,
+    flatline_readings: flatlineReadings,
+    spike_window_minutes: spikeWindowMinutes,
+    drift_alerts_enabled: driftEnabled,
+    drift_threshold_percent: driftOptions.thresholdPercent,
+    drift_window_minutes: driftOptions.windowMinutes,
+    drift_duration_minutes: driftOptions.durationMinutes,
     recovery_alerts_enabled: recoveryEnabled,
     alerts_attempted: alertsAttempted,
     alerts_sent: alertsSent,
     devices: deviceResults,
+    rules: ruleResults,
+    drift: driftResults,
     events: alertEvents,
   };
 }
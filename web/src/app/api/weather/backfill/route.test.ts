@@ -0,0 +1,194 @@
+// @vitest-environment node
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getServerUserWithRoleMock = vi.fn();
+const getServerClientMock = vi.fn();
+
+vi.mock('@/lib/serverAuth', () => ({
+  getServerUserWithRole: getServerUserWithRoleMock,
+}));
+
+vi.mock('@/lib/supabase/server', () => ({
+  getServerClient: getServerClientMock,
+}));
+
+const DEPLOYMENT = {
+  id: 7,
+  device_id: 'node1',
+  zip_code: '85142',
+  started_at: '2026-02-01T00:00:00Z',
+  ended_at: '2026-02-10T00:00:00Z',
+};
+
+type InsertError = { code?: string; message: string } | null;
+
+function makeMockSupabase(params: {
+  deployment?: typeof DEPLOYMENT | null;
+  existing?: string[];
+  insertErrors?: InsertError[];
+}) {
+  const insertErrors = [...(params.insertErrors || [])];
+  const inserted: unknown[] = [];
+  const readingsFilters: Array<[string, string, unknown]> = [];
+
+  const from = vi.fn((table: string) => {
+    const query: Record<string, unknown> = {};
+    if (table === 'deployments') {
+      query.select = vi.fn(() => query);
+      query.eq = vi.fn(() => query);
+      query.maybeSingle = vi.fn(async () => ({ data: params.deployment ?? null, error: null }));
+      return query;
+    }
+    if (table === 'readings') {
+      query.select = vi.fn(() => query);
+      for (const op of ['eq', 'gte']) {
+        query[op] = vi.fn((column: string, value: unknown) => {
+          readingsFilters.push([op, column, value]);
+          return query;
+        });
+      }
+      query.lt = vi.fn(async (column: string, value: unknown) => {
+        readingsFilters.push(['lt', column, value]);
+        return { data: (params.existing || []).map((created_at) => ({ created_at })), error: null };
+      });
+      query.insert = vi.fn(async (rows: unknown) => {
+        const error = insertErrors.shift() ?? null;
+        if (!error) inserted.push(...(Array.isArray(rows) ? rows : [rows]));
+        return { error };
+      });
+      return query;
+    }
+    throw new Error(`Unexpected table: ${table}`);
+  });
+
+  return { client: { from }, inserted, readingsFilters };
+}
+
+const hour = (h: number) => Date.parse('2026-02-01T00:00:00Z') / 1000 + h * 3600;
+
+function mockOpenMeteo(hourly: { time: number[]; temperature_2m: number[]; relative_humidity_2m: number[] } | null) {
+  global.fetch = vi.fn(async (input: string | URL | Request) => {
+    const host = new URL(String(input)).host;
+    if (host === 'geocoding-api.open-meteo.com') {
+      return new Response(JSON.stringify({ results: [{ latitude: 33.25, longitude: -111.63 }] }), { status: 200 });
+    }
+    if (!hourly) return new Response('rate limited', { status: 429 });
+    return new Response(JSON.stringify({ hourly }), { status: 200 });
+  }) as typeof fetch;
+}
+
+function post(body: Record<string, unknown>) {
+  return new Request('http://localhost/api/weather/backfill', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/weather/backfill route', () => {
+  const originalEnv = { ...process.env };
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env.WEATHER_API_KEY;
+    delete process.env.WEATHER_PROVIDERS;
+    getServerUserWithRoleMock.mockResolvedValue({ user: { id: 'user-1' }, role: 'operator' });
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    global.fetch = originalFetch;
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    getServerUserWithRoleMock.mockResolvedValue(null);
+    const { POST } = await import('./route');
+    const response = await POST(post({ deployment_id: 7 }));
+    expect(response.status).toBe(401);
+    expect(getServerClientMock).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for viewers', async () => {
+    getServerUserWithRoleMock.mockResolvedValue({ user: { id: 'user-2' }, role: 'viewer' });
+    const { POST } = await import('./route');
+    const response = await POST(post({ deployment_id: 7 }));
+    expect(response.status).toBe(403);
+    expect(getServerClientMock).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown deployment', async () => {
+    getServerClientMock.mockReturnValue(makeMockSupabase({ deployment: null }).client);
+    const { POST } = await import('./route');
+    const response = await POST(post({ deployment_id: 99 }));
+    expect(response.status).toBe(404);
+  });
+
+  it('inserts the first chunk on the hour and skips hours already stored', async () => {
+    const supabase = makeMockSupabase({ deployment: DEPLOYMENT, existing: ['2026-02-01T01:12:00.000Z'] });
+    getServerClientMock.mockReturnValue(supabase.client);
+    mockOpenMeteo({ time: [hour(0), hour(1), hour(2)], temperature_2m: [9, 8, 7], relative_humidity_2m: [40, 41, 42] });
+
+    const { POST } = await import('./route');
+    const response = await POST(post({ deployment_id: 7 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      ok: true,
+      provider: 'open-meteo',
+      inserted_count: 2,
+      skipped_existing_count: 1,
+      chunk_start: '2026-02-01T00:00:00.000Z',
+      chunk_end: '2026-02-08T00:00:00.000Z',
+      next_cursor: '2026-02-08T00:00:00.000Z',
+      done: false,
+    });
+    expect(supabase.inserted).toEqual([
+      expect.objectContaining({ device_id: 'weather_node1', deployment_id: 7, observed_at: '2026-02-01T00:00:00.000Z', created_at: '2026-02-01T00:00:00.000Z' }),
+      expect.objectContaining({ temperature: 7, humidity: 42, created_at: '2026-02-01T02:00:00.000Z' }),
+    ]);
+    expect(supabase.readingsFilters).toContainEqual(['eq', 'device_id', 'weather_node1']);
+    expect(supabase.readingsFilters).toContainEqual(['lt', 'created_at', '2026-02-08T00:00:00.000Z']);
+  });
+
+  it('finishes at the cursor chunk and retries row by row on a unique-index clash', async () => {
+    const supabase = makeMockSupabase({
+      deployment: DEPLOYMENT,
+      insertErrors: [{ code: '23505', message: 'duplicate key' }, null, { code: '23505', message: 'duplicate key' }],
+    });
+    getServerClientMock.mockReturnValue(supabase.client);
+    const t = Date.parse('2026-02-09T00:00:00Z') / 1000;
+    mockOpenMeteo({ time: [t, t + 3600], temperature_2m: [5, 6], relative_humidity_2m: [50, 51] });
+
+    const { POST } = await import('./route');
+    const body = await (await POST(post({ deployment_id: 7, cursor: '2026-02-08T00:00:00.000Z' }))).json();
+
+    expect(body).toMatchObject({ ok: true, done: true, next_cursor: null, inserted_count: 1, skipped_existing_count: 1 });
+    expect(supabase.inserted).toHaveLength(1);
+  });
+
+  it('returns 502 when every history provider fails', async () => {
+    getServerClientMock.mockReturnValue(makeMockSupabase({ deployment: DEPLOYMENT }).client);
+    mockOpenMeteo(null);
+
+    const { POST } = await import('./route');
+    const response = await POST(post({ deployment_id: 7 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(502);
+    expect(body.ok).toBe(false);
+    expect(body.error).toContain('Open-Meteo history HTTP 429');
+  });
+
+  it('rejects configurations without a history provider', async () => {
+    process.env.WEATHER_PROVIDERS = 'weatherapi';
+    process.env.WEATHER_API_KEY = 'key';
+
+    const { POST } = await import('./route');
+    const response = await POST(post({ deployment_id: 7 }));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('No weather provider with history configured');
+  });
+});
@@ -0,0 +1,141 @@
+import { getServerUserWithRole } from '@/lib/serverAuth';
+import { hasRole } from '@/lib/roles';
+import { getServerClient } from '@/lib/supabase/server';
+import { backfillChunk, backfillWindow, hourKey, planBackfillRows } from '@/lib/weatherBackfill';
+import { fetchWeatherHistory, providersFromEnv } from '@/lib/weatherProviders';
+import { formatWeatherLocation, locationFromFields, toWeatherDeviceId } from '@/lib/weatherLocation';
+
+export const maxDuration = 60;
+
+function json(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Backfills hourly weather for one deployment, one chunk per call. The client
+// passes `next_cursor` back until `done`, so progress can be shown between chunks.
+export async function POST(req: Request) {
+  try {
+    const auth = await getServerUserWithRole();
+    if (!auth) return json({ ok: false, error: 'Unauthorized' }, 401);
+    // Writes weather readings for a deployment, so it needs deployment rights.
+    if (!hasRole(auth.role, 'operator')) return json({ ok: false, error: 'Forbidden' }, 403);
+
+    const body = await req.json().catch(() => ({}));
+    const deploymentId = Number(body.deployment_id);
+    if (!Number.isInteger(deploymentId) || deploymentId <= 0) {
+      return json({ ok: false, error: 'deployment_id is required' }, 400);
+    }
+    const cursorMs = typeof body.cursor === 'string' ? Date.parse(body.cursor) : NaN;
+
+    const { providers, skipped: skippedProviders } = providersFromEnv();
+    if (!providers.some((p) => p.history)) {
+      return json({
+        ok: false,
+        error: `No weather provider with history configured${skippedProviders.length > 0 ? ` (${skippedProviders.join('; ')})` : ''}`,
+      }, 400);
+    }
+
+    const supabase = getServerClient();
+    const { data: deployment, error: deployError } = await supabase
+      .from('deployments')
+      .select('id, device_id, zip_code, country_code, latitude, longitude, started_at, ended_at')
+      .eq('id', deploymentId)
+      .maybeSingle();
+
+    if (deployError) {
+      return json({ ok: false, error: `Failed to load deployment: ${deployError.message}` }, 500);
+    }
+    if (!deployment) return json({ ok: false, error: 'Deployment not found' }, 404);
+
+    const location = locationFromFields(deployment);
+    if (!location) {
+      return json({ ok: false, error: 'Deployment has no valid weather location' }, 400);
+    }
+
+    const window = backfillWindow(deployment);
+    if (!window) return json({ ok: false, error: 'Deployment window is empty' }, 400);
+
+    const chunk = backfillChunk(window, Number.isFinite(cursorMs) ? cursorMs : null);
+    const weatherDeviceId = toWeatherDeviceId(deployment.device_id);
+    const progress = {
+      window_start: new Date(window.startMs).toISOString(),
+      window_end: new Date(window.endMs).toISOString(),
+      chunk_start: new Date(chunk.startMs).toISOString(),
+      chunk_end: new Date(chunk.endMs).toISOString(),
+      next_cursor: chunk.done ? null : new Date(chunk.endMs).toISOString(),
+      done: chunk.done,
+    };
+
+    const { observations, errors: providerErrors } = await fetchWeatherHistory(
+      providers,
+      location,
+      chunk.startMs,
+      chunk.endMs
+    );
+    if (!observations) {
+      return json({
+        ...progress,
+        ok: false,
+        error: `Weather history failed for ${formatWeatherLocation(location)}: ${providerErrors.join('; ')}`,
+      }, 502);
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('readings')
+      .select('created_at')
+      .eq('device_id', weatherDeviceId)
+      .eq('source', 'weather')
+      .gte('created_at', hourKey(chunk.startMs))
+      .lt('created_at', progress.chunk_end);
+
+    if (existingError) {
+      return json({ ...progress, ok: false, error: `Duplicate-check failed: ${existingError.message}` }, 500);
+    }
+
+    const existingCreatedAt = (existing || []).map((r: { created_at: string }) => r.created_at);
+    const rows = planBackfillRows(observations, existingCreatedAt, {
+      deviceId: weatherDeviceId,
+      deploymentId: deployment.id,
+      location,
+    });
+
+    let insertedCount = 0;
+    let skippedExistingCount = observations.length - rows.length;
+    const errors: string[] = [];
+
+    if (rows.length > 0) {
+      const { error: batchError } = await supabase.from('readings').insert(rows);
+      if (!batchError) {
+        insertedCount = rows.length;
+      } else if (batchError.code === '23505') {
+        // Another writer (usually the cron) got to an hour first; retry row by
+        // row so only the clashing hours are skipped.
+        for (const row of rows) {
+          const { error: insertError } = await supabase.from('readings').insert(row);
+          if (!insertError) insertedCount++;
+          else if (insertError.code === '23505') skippedExistingCount++;
+          else errors.push(`Insert failed for ${row.observed_at}: ${insertError.message}`);
+        }
+      } else {
+        errors.push(`Insert failed for ${progress.chunk_start}–${progress.chunk_end}: ${batchError.message}`);
+      }
+    }
+
+    return json({
+      ...progress,
+      ok: true,
+      deployment_id: deployment.id,
+      provider: observations[0]?.provider ?? null,
+      inserted_count: insertedCount,
+      skipped_existing_count: skippedExistingCount,
+      errors: errors.length > 0 ? errors : undefined,
+      fallback_errors: providerErrors.length > 0 ? providerErrors : undefined,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return json({ ok: false, error: `Unexpected error: ${message}` }, 500);
+  }
+}
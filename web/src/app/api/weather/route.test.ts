@@ -14,6 +14,9 @@ type DeploymentsResponse = {
     id: number;
     device_id: string;
     zip_code: string | null;
+    country_code?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
     started_at: string;
   }> | null;
   error: { message: string } | null;
@@ -23,7 +26,7 @@ function makeDeploymentsQuery(response: DeploymentsResponse) {
   const query: Record<string, unknown> = {};
   query.select = vi.fn(() => query);
   query.is = vi.fn(() => query);
-  query.not = vi.fn(() => query);
+  query.or = vi.fn(() => query);
   query.order = vi.fn(async () => response);
   return query;
 }
@@ -146,6 +149,8 @@ describe('/api/weather route', () => {
             temp_c: 22.5,
             humidity: 40,
             last_updated_epoch: 1765363200,
+            pressure_mb: 1016,
+            condition: { text: 'Partly cloudy' },
           },
         }),
         { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -163,19 +168,68 @@ describe('/api/weather route', () => {
     expect(body.fetched_count).toBe(1);
     expect(body.inserted_count).toBe(1);
     expect(body.skipped_existing_count).toBe(1);
-    expect(body.invalid_zip_count).toBe(1);
+    expect(body.invalid_location_count).toBe(1);
     expect(body.duplicate_active_device_count).toBe(1);
     expect(global.fetch).toHaveBeenCalledTimes(1);
     expect(String(vi.mocked(global.fetch).mock.calls[0][0])).toContain('q=85142');
     expect(supabaseMock.insertedRows[0]).toMatchObject({
       device_id: 'weather_node1',
       source: 'weather',
+      weather_provider: 'weatherapi',
       deployment_id: 11,
       zip_code: '85142',
+      country_code: 'US',
       temperature: 22.5,
       humidity: 40,
+      pressure_hpa: 1016,
+      weather_condition: 'Partly cloudy',
+      dew_point: null,
     });
   });
+
+  it('falls back to Open-Meteo and records the provider when WeatherAPI fails', async () => {
+    const supabaseMock = makeMockSupabase({
+      deployments: {
+        data: [{ id: 11, device_id: 'node1', zip_code: '85142', started_at: '2026-02-06T10:00:00Z' }],
+        error: null,
+      },
+    });
+    vi.mocked(createClient).mockReturnValue(supabaseMock.client as never);
+    global.fetch = vi.fn(async (input: string | URL | Request) => {
+      const host = new URL(String(input)).host;
+      if (host === 'api.weatherapi.com') return new Response('quota exceeded', { status: 403 });
+      const body = host === 'geocoding-api.open-meteo.com'
+        ? { results: [{ latitude: 33.25, longitude: -111.63 }] }
+        : { current: { time: 1765363200, temperature_2m: 21, relative_humidity_2m: 35 } };
+      return new Response(JSON.stringify(body), { status: 200 });
+    }) as typeof fetch;
+
+    const response = await GET(new NextRequest('http://localhost/api/weather', {
+      headers: { authorization: 'Bearer secret' },
+    }));
+    const body = await response.json();
+
+    expect(body.ok).toBe(true);
+    expect(body.inserted_count).toBe(1);
+    expect(body.provider_counts).toEqual({ 'open-meteo': 1 });
+    expect(body.errors).toBeUndefined();
+    expect(body.fallback_errors[0]).toContain('85142 weatherapi: WeatherAPI HTTP 403');
+    expect(supabaseMock.insertedRows[0]).toMatchObject({ weather_provider: 'open-meteo', temperature: 21, humidity: 35 });
+  });
+
+  it('returns ok false when no provider is usable', async () => {
+    delete process.env.WEATHER_API_KEY;
+    process.env.WEATHER_PROVIDERS = 'weatherapi';
+
+    const response = await GET(new NextRequest('http://localhost/api/weather', {
+      headers: { authorization: 'Bearer secret' },
+    }));
+    const body = await response.json();
+
+    expect(body.ok).toBe(false);
+    expect(body.error).toContain('WEATHER_API_KEY not configured');
+    expect(createClient).not.toHaveBeenCalled();
+  });
 });
 
 describe('weather route helpers', () => {
@@ -223,15 +277,30 @@ describe('weather route helpers', () => {
       },
     ]);
 
-    expect(result.invalidZipCount).toBe(1);
+    expect(result.invalidLocationCount).toBe(1);
     expect(result.duplicateActiveDeviceCount).toBe(1);
-    expect(result.targetsByZip.get('85142')?.[0]).toMatchObject({
+    expect(result.targetsByLocation.get('US:85142')?.targets[0]).toMatchObject({
       deploymentId: 1,
       deviceId: 'node1',
     });
-    expect(result.targetsByZip.get('85001')?.[0]).toMatchObject({
+    expect(result.targetsByLocation.get('US:85001')?.targets[0]).toMatchObject({
       deploymentId: 3,
       deviceId: 'node2',
     });
   });
+
+  it('groups postal codes and coordinates by resolved location', () => {
+    const result = buildWeatherTargets([
+      { id: 1, device_id: 'node1', zip_code: '85142', started_at: '2026-02-06T10:00:00Z' },
+      { id: 2, device_id: 'node2', zip_code: '85142-1234', country_code: 'US', started_at: '2026-02-06T10:00:00Z' },
+      { id: 3, device_id: 'node3', zip_code: 'm5v 3l9', country_code: 'ca', started_at: '2026-02-06T10:00:00Z' },
+      { id: 4, device_id: 'node4', zip_code: null, latitude: 43.6512, longitude: -79.3834, started_at: '2026-02-06T10:00:00Z' },
+      { id: 5, device_id: 'node5', zip_code: null, latitude: 43.6538, longitude: -79.3811, started_at: '2026-02-06T10:00:00Z' },
+    ]);
+
+    expect(result.invalidLocationCount).toBe(0);
+    expect([...result.targetsByLocation.keys()]).toEqual(['US:85142', 'CA:M5V 3L9', '43.65,-79.38']);
+    expect(result.targetsByLocation.get('US:85142')?.targets.map((t) => t.deviceId)).toEqual(['node1', 'node2']);
+    expect(result.targetsByLocation.get('43.65,-79.38')?.targets.map((t) => t.deviceId)).toEqual(['node4', 'node5']);
+  });
 });
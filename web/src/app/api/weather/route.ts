@@ -1,26 +1,34 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
-import { normalizeUsZipCode, toWeatherDeviceId } from '@/lib/weatherZip';
+import {
+  formatWeatherLocation,
+  locationFromFields,
+  toLocationFields,
+  toWeatherDeviceId,
+  weatherLocationKey,
+  type WeatherLocation,
+} from '@/lib/weatherLocation';
+import { fetchCurrentWeather, providersFromEnv } from '@/lib/weatherProviders';
 
 type ActiveDeployment = {
   id: number;
   device_id: string;
   zip_code: string | null;
+  country_code?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   started_at: string;
 };
 
-type WeatherResponse = {
-  current: {
-    temp_c: number;
-    humidity: number;
-    last_updated_epoch?: number;
-  };
-};
-
 type WeatherTarget = {
   deploymentId: number;
   deviceId: string;
-  zipCode: string;
+  location: WeatherLocation;
+};
+
+type LocationTargets = {
+  location: WeatherLocation;
+  targets: WeatherTarget[];
 };
 
 function getServiceRoleClient() {
@@ -53,13 +61,13 @@ export function buildWeatherTargets(activeDeployments: ActiveDeployment[]) {
     string,
     WeatherTarget & { startedAtMs: number }
   >();
-  let invalidZipCount = 0;
+  let invalidLocationCount = 0;
   let duplicateActiveDeviceCount = 0;
 
   for (const dep of activeDeployments) {
-    const normalizedZip = normalizeUsZipCode(dep.zip_code);
-    if (!normalizedZip) {
-      invalidZipCount++;
+    const location = locationFromFields(dep);
+    if (!location) {
+      invalidLocationCount++;
       continue;
     }
 
@@ -72,7 +80,7 @@ export function buildWeatherTargets(activeDeployments: ActiveDeployment[]) {
       latestByDevice.set(dep.device_id, {
         deploymentId: dep.id,
         deviceId: dep.device_id,
-        zipCode: normalizedZip,
+        location,
         startedAtMs: normalizedStartedAtMs,
       });
       continue;
@@ -81,20 +89,22 @@ export function buildWeatherTargets(activeDeployments: ActiveDeployment[]) {
     duplicateActiveDeviceCount++;
   }
 
-  const targetsByZip = new Map<string, WeatherTarget[]>();
+  // Grouped by resolved location so each place is fetched once.
+  const targetsByLocation = new Map<string, LocationTargets>();
   for (const target of latestByDevice.values()) {
-    const existing = targetsByZip.get(target.zipCode) || [];
-    existing.push({
+    const key = weatherLocationKey(target.location);
+    const existing = targetsByLocation.get(key) || { location: target.location, targets: [] };
+    existing.targets.push({
       deploymentId: target.deploymentId,
       deviceId: target.deviceId,
-      zipCode: target.zipCode,
+      location: target.location,
     });
-    targetsByZip.set(target.zipCode, existing);
+    targetsByLocation.set(key, existing);
   }
 
   return {
-    targetsByZip,
-    invalidZipCount,
+    targetsByLocation,
+    invalidLocationCount,
     duplicateActiveDeviceCount,
   };
 }
@@ -111,12 +121,12 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  // If missing, return early — don't break the cron
-  const weatherApiKey = process.env.WEATHER_API_KEY;
-  if (!weatherApiKey) {
+  // If none is usable, return early — don't break the cron
+  const { providers, skipped: skippedProviders } = providersFromEnv();
+  if (providers.length === 0) {
     return NextResponse.json({
       ok: false,
-      error: 'WEATHER_API_KEY not configured',
+      error: `No weather provider configured (${skippedProviders.join('; ')})`,
       timestamp: new Date().toISOString(),
     });
   }
@@ -134,12 +144,12 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Query active deployments that have a zip code set
+    // Query active deployments that have a postal code or coordinates set
     const { data: deployments, error: deployError } = await supabase
       .from('deployments')
-      .select('id, device_id, zip_code, started_at')
+      .select('id, device_id, zip_code, country_code, latitude, longitude, started_at')
       .is('ended_at', null)
-      .not('zip_code', 'is', null)
+      .or('zip_code.not.is.null,latitude.not.is.null')
       .order('started_at', { ascending: false });
 
     if (deployError) {
@@ -154,14 +164,14 @@ export async function GET(request: NextRequest) {
     }
 
     const activeDeployments = (deployments || []) as ActiveDeployment[];
-    const { targetsByZip, invalidZipCount, duplicateActiveDeviceCount } =
+    const { targetsByLocation, invalidLocationCount, duplicateActiveDeviceCount } =
       buildWeatherTargets(activeDeployments);
 
-    if (targetsByZip.size === 0) {
+    if (targetsByLocation.size === 0) {
       return NextResponse.json({
         ok: true,
-        message: 'No active deployments with zip codes',
-        invalid_zip_count: invalidZipCount,
+        message: 'No active deployments with weather locations',
+        invalid_location_count: invalidLocationCount,
         duplicate_active_device_count: duplicateActiveDeviceCount,
         timestamp: new Date().toISOString(),
       });
@@ -171,36 +181,26 @@ export async function GET(request: NextRequest) {
     let insertedCount = 0;
     let skippedExistingCount = 0;
     const errors: string[] = [];
+    const fallbackErrors: string[] = [];
+    const providerCounts: Record<string, number> = {};
     const { startIso: hourStartIso, endIso: hourEndIso } =
       getUtcHourBucketRange();
 
-    // Fetch weather for each unique zip code
-    for (const [zipCode, targets] of targetsByZip) {
+    // Fetch weather for each unique location
+    for (const { location, targets } of targetsByLocation.values()) {
+      const label = formatWeatherLocation(location);
       try {
-        const encodedZip = encodeURIComponent(zipCode);
-        const url = `https://api.weatherapi.com/v1/current.json?key=${weatherApiKey}&q=${encodedZip}`;
-        const res = await fetch(url, { signal: AbortSignal.timeout(8000) });
+        const { observation, errors: providerErrors } = await fetchCurrentWeather(providers, location);
 
-        if (!res.ok) {
-          const body = await res.text();
-          errors.push(`WeatherAPI error for ${zipCode}: ${res.status} ${body}`);
+        if (!observation) {
+          errors.push(`All weather providers failed for ${label}: ${providerErrors.join('; ')}`);
           continue;
         }
-
-        const weather: WeatherResponse = await res.json();
-        const tempC = weather.current.temp_c;
-        const humidity = weather.current.humidity;
-
-        if (!Number.isFinite(tempC) || !Number.isFinite(humidity)) {
-          errors.push(`Invalid weather payload for ${zipCode}`);
-          continue;
-        }
-
-        const observedAtIso = Number.isFinite(weather.current.last_updated_epoch)
-          ? new Date((weather.current.last_updated_epoch as number) * 1000).toISOString()
-          : new Date().toISOString();
+        // A later provider answered; keep why the earlier ones did not.
+        fallbackErrors.push(...providerErrors.map((e) => `${label} ${e}`));
 
         fetchedCount++;
+        providerCounts[observation.provider] = (providerCounts[observation.provider] || 0) + 1;
 
         for (const target of targets) {
           const weatherDeviceId = toWeatherDeviceId(target.deviceId);
@@ -228,12 +228,14 @@ export async function GET(request: NextRequest) {
             .from('readings')
             .insert({
               device_id: weatherDeviceId,
-              temperature: tempC,
-              humidity,
+              temperature: observation.temperature,
+              humidity: observation.humidity,
               source: 'weather',
+              weather_provider: observation.provider,
               deployment_id: target.deploymentId,
-              zip_code: target.zipCode,
-              observed_at: observedAtIso,
+              ...toLocationFields(target.location),
+              observed_at: observation.observedAt,
+              ...observation.details,
             });
 
           if (insertError) {
@@ -250,18 +252,22 @@ export async function GET(request: NextRequest) {
         }
       } catch (fetchErr) {
         const message = fetchErr instanceof Error ? fetchErr.message : String(fetchErr);
-        errors.push(`Fetch failed for ${zipCode}: ${message}`);
+        errors.push(`Fetch failed for ${label}: ${message}`);
       }
     }
 
     return NextResponse.json({
       ok: true,
       fetched_count: fetchedCount,
+      providers: providers.map((p) => p.name),
+      provider_counts: providerCounts,
       inserted_count: insertedCount,
       skipped_existing_count: skippedExistingCount,
-      invalid_zip_count: invalidZipCount,
+      invalid_location_count: invalidLocationCount,
       duplicate_active_device_count: duplicateActiveDeviceCount,
       errors: errors.length > 0 ? errors : undefined,
+      fallback_errors: fallbackErrors.length > 0 ? fallbackErrors : undefined,
+      skipped_providers: skippedProviders.length > 0 ? skippedProviders : undefined,
       timestamp: new Date().toISOString(),
     });
   } catch (err) {
@@ -0,0 +1,240 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { PageLayout } from '@/components/PageLayout';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { useSession } from '@/components/AuthProvider';
+import { hasRole } from '@/lib/roles';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_LABELS,
+  auditActorLabel,
+  auditChanges,
+  formatAuditValue,
+} from '@/lib/audit';
+import { getAuditLog, type AuditEntityType, type AuditEntry } from '@/lib/supabase';
+
+const PAGE_SIZE = 100;
+
+const selectClass = 'bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white min-w-[120px]';
+const inputClass = 'bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-[#a0aec0]/50';
+
+function actionColor(action: string): string {
+  if (action.endsWith('.purge') || action.endsWith('.delete')) return '#e31a1a';
+  if (action.endsWith('.deactivate') || action.endsWith('.archive')) return '#ffb547';
+  if (action.endsWith('.create') || action.endsWith('.restore')) return '#01b574';
+  return '#0075ff';
+}
+
+/** Local date input value (YYYY-MM-DD) to an ISO bound covering that whole day. */
+function dayBound(value: string, edge: 'start' | 'end'): string | undefined {
+  if (!value) return undefined;
+  const d = new Date(`${value}T00:00:00`);
+  if (edge === 'end') d.setDate(d.getDate() + 1);
+  return d.toISOString();
+}
+
+export default function AuditPage() {
+  const { role } = useSession();
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [action, setAction] = useState('');
+  const [entityId, setEntityId] = useState('');
+  const [actor, setActor] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const fetchPage = useCallback(
+    async (offset: number) => {
+      setIsLoading(true);
+      const rows = await getAuditLog({
+        entityType: entityType || undefined,
+        action: action || undefined,
+        entityId: entityId.trim() || undefined,
+        actor: actor.trim() || undefined,
+        start: dayBound(fromDay, 'start'),
+        end: dayBound(toDay, 'end'),
+        limit: PAGE_SIZE,
+        offset,
+      });
+      setEntries((prev) => (offset === 0 ? rows : [...prev, ...rows]));
+      setHasMore(rows.length === PAGE_SIZE);
+      setIsLoading(false);
+    },
+    [entityType, action, entityId, actor, fromDay, toDay]
+  );
+
+  // Debounced so typing in the text filters does not query on every key.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void fetchPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [fetchPage]);
+
+  const actionOptions = entityType ? AUDIT_ACTIONS[entityType] : Object.values(AUDIT_ACTIONS).flat();
+
+  const toggle = (id: number) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const clearFilters = () => {
+    setEntityType('');
+    setAction('');
+    setEntityId('');
+    setActor('');
+    setFromDay('');
+    setToDay('');
+  };
+
+  if (role && !hasRole(role, 'admin')) {
+    return (
+      <PageLayout title="Audit Log" subtitle="Who changed devices, deployments and settings">
+        <EmptyState title="Admins only" subtitle="Ask an admin if you need to see the audit log" />
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout title="Audit Log" subtitle="Who changed devices, deployments and settings">
+      <div className="flex flex-wrap items-center gap-3 mb-8">
+        <select
+          aria-label="Entity type"
+          value={entityType}
+          onChange={(e) => {
+            const next = e.target.value as AuditEntityType | '';
+            setEntityType(next);
+            if (next && action && !AUDIT_ACTIONS[next].includes(action)) setAction('');
+          }}
+          className={selectClass}
+        >
+          <option value="">All Entities</option>
+          {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+            <option key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</option>
+          ))}
+        </select>
+
+        <select aria-label="Action" value={action} onChange={(e) => setAction(e.target.value)} className={selectClass}>
+          <option value="">All Actions</option>
+          {actionOptions.map((a) => (
+            <option key={a} value={a}>{a}</option>
+          ))}
+        </select>
+
+        <input
+          type="text"
+          aria-label="Entity id"
+          value={entityId}
+          onChange={(e) => setEntityId(e.target.value)}
+          placeholder="Device id, deployment id or setting key"
+          className={`${inputClass} w-64`}
+        />
+        <input
+          type="text"
+          aria-label="Actor"
+          value={actor}
+          onChange={(e) => setActor(e.target.value)}
+          placeholder="Actor email"
+          className={`${inputClass} w-48`}
+        />
+        <label className="flex items-center gap-2 text-sm text-[#a0aec0]">
+          From
+          <input type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-[#a0aec0]">
+          To
+          <input type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} className={inputClass} />
+        </label>
+        <button
+          onClick={clearFilters}
+          className="px-3 py-2 text-sm font-medium text-[#a0aec0] hover:text-white transition-colors"
+        >
+          Clear
+        </button>
+      </div>
+
+      {isLoading && entries.length === 0 ? (
+        <div className="glass-card p-12">
+          <LoadingSpinner message="Loading audit log..." />
+        </div>
+      ) : entries.length === 0 ? (
+        <EmptyState title="No audit entries" subtitle="Nothing matches these filters" />
+      ) : (
+        <div className="fade-in space-y-3">
+          {entries.map((entry) => {
+            const changes = auditChanges(entry);
+            const isOpen = expanded.has(entry.id);
+            const color = actionColor(entry.action);
+            return (
+              <div key={entry.id} className="glass-card p-5">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span
+                    className="px-2.5 py-1 rounded-full text-xs font-medium"
+                    style={{ backgroundColor: `${color}26`, color }}
+                  >
+                    {entry.action}
+                  </span>
+                  <span className="text-white font-semibold">
+                    {AUDIT_ENTITY_LABELS[entry.entity_type] ?? entry.entity_type} {entry.entity_id}
+                  </span>
+                  <span className="text-sm text-[#a0aec0]">by {auditActorLabel(entry)}</span>
+                  <span className="ml-auto text-xs text-[#a0aec0]">{new Date(entry.occurred_at).toLocaleString()}</span>
+                  {changes.length > 0 && (
+                    <button
+                      onClick={() => toggle(entry.id)}
+                      className="px-3 py-1.5 rounded-lg text-xs font-medium text-white bg-white/5 hover:bg-white/10"
+                    >
+                      {isOpen ? 'Hide' : `${changes.length} field${changes.length === 1 ? '' : 's'}`}
+                    </button>
+                  )}
+                </div>
+
+                {isOpen && (
+                  <table className="w-full mt-4 text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-[#a0aec0]">
+                        <th className="py-1 pr-4 font-medium">Field</th>
+                        <th className="py-1 pr-4 font-medium">Before</th>
+                        <th className="py-1 font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changes.map((c) => (
+                        <tr key={c.field} className="border-t border-white/5 align-top">
+                          <td className="py-1.5 pr-4 text-[#a0aec0] font-mono text-xs">{c.field}</td>
+                          <td className="py-1.5 pr-4 text-[#e31a1a]/80 break-all">{formatAuditValue(c.before)}</td>
+                          <td className="py-1.5 text-[#01b574] break-all">{formatAuditValue(c.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+
+          {hasMore && (
+            <div className="flex justify-center pt-2">
+              <button
+                onClick={() => fetchPage(entries.length)}
+                disabled={isLoading}
+                className="btn-glass px-5 py-3 text-sm font-semibold text-white disabled:opacity-50"
+              >
+                {isLoading ? 'Loading...' : 'Load More'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </PageLayout>
+  );
+}
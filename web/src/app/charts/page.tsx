@@ -5,10 +5,13 @@ import dynamic from 'next/dynamic';
 import { PageLayout } from '@/components/PageLayout';
 import {
   ChartSample,
+  MetricSample,
   getAllReadings,
   getAllReadingsRange,
   getChartSamples,
+  getMetricChartSamples,
   celsiusToFahrenheit,
+  readingTime,
 } from '@/lib/supabase';
 import { useSetChatPageContext } from '@/lib/chatContext';
 import { DEPLOYMENT_ALL_TIME_HOURS, DEPLOYMENT_ALL_TIME_LABEL, TIME_RANGES } from '@/lib/constants';
@@ -17,13 +20,19 @@ import { FilterToolbar } from '@/components/FilterToolbar';
 import { useTimeRange } from '@/hooks/useTimeRange';
 import { useDeployments } from '@/hooks/useDeployments';
 import { useDevices } from '@/contexts/DevicesContext';
+import { CalibrationToggle } from '@/components/CalibrationToggle';
+import { useMetrics } from '@/hooks/useMetrics';
+import { displayUnit, getReadingMetric, isCoreMetric, toDisplayValue } from '@/lib/metrics';
+import { DERIVED_METRICS, derivedFields, getDerivedMetric } from '@/lib/psychrometrics';
 
 const ResponsiveLine = dynamic(
   () => import('@nivo/line').then((m) => m.ResponsiveLine),
   { ssr: false }
 );
 
-type MetricType = 'temperature' | 'humidity' | 'both';
+// A registered metric key, a derived metric key, or 'both' for the
+// temperature + humidity overlay.
+type MetricType = string;
 
 function lightenColor(hex: string): string {
   const r = parseInt(hex.slice(1, 3), 16);
@@ -35,12 +44,16 @@ function lightenColor(hex: string): string {
 
 export default function ChartsPage() {
   const [samples, setSamples] = useState<ChartSample[]>([]);
+  const [metricSamples, setMetricSamples] = useState<MetricSample[]>([]);
   const [metric, setMetric] = useState<MetricType>('temperature');
   const [isLoading, setIsLoading] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
 
-  const { devices } = useDevices();
+  const { devices, calibrations } = useDevices();
+  const { metrics } = useMetrics();
+  const derivedMetric = getDerivedMetric(metric);
+  const selectedMetric = derivedMetric ?? metrics.find((m) => m.key === metric);
   const timeRange = useTimeRange();
   const { deployments } = useDeployments(timeRange.deviceFilter);
   const {
@@ -90,17 +103,30 @@ export default function ChartsPage() {
       const { start, end, scopedDeviceId } = await getRangeBounds();
       const rangeMs = new Date(end).getTime() - new Date(start).getTime();
       const bucketSeconds = pickBucketSeconds(rangeMs);
-      const data = await getChartSamples({
-        start,
-        end,
-        bucketSeconds,
-        device_id: scopedDeviceId,
-      });
-      setSamples(data);
+      // Derived metrics are computed from the temperature/humidity buckets.
+      if (metric === 'both' || isCoreMetric(metric) || derivedMetric) {
+        const data = await getChartSamples({
+          start,
+          end,
+          bucketSeconds,
+          device_id: scopedDeviceId,
+          calibrations,
+        });
+        setSamples(data);
+      } else {
+        const data = await getMetricChartSamples({
+          start,
+          end,
+          bucketSeconds,
+          metric,
+          device_id: scopedDeviceId,
+        });
+        setMetricSamples(data);
+      }
     } finally {
       setIsLoading(false);
     }
-  }, [getRangeBounds, isCustom, isCustomValid]);
+  }, [getRangeBounds, isCustom, isCustomValid, calibrations, metric, derivedMetric]);
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -116,8 +142,8 @@ export default function ChartsPage() {
 
     const { start, end, scopedDeviceId } = await getRangeBounds();
     let rawReadings = isCustom || deploymentFilter
-      ? await getAllReadingsRange({ start, end })
-      : await getAllReadings(selectedRange);
+      ? await getAllReadingsRange({ start, end, calibrations })
+      : await getAllReadings(selectedRange, undefined, calibrations);
 
     if (scopedDeviceId) {
       rawReadings = rawReadings.filter(r => r.device_id === scopedDeviceId);
@@ -137,14 +163,29 @@ export default function ChartsPage() {
       return value;
     };
 
-    const headers = ['timestamp', 'device_id', 'temperature_f', 'temperature_c', 'humidity'];
-    const rows = rawReadings.map((r) => [
-      csvSafe(r.created_at),
-      csvSafe(r.device_id),
-      celsiusToFahrenheit(r.temperature).toFixed(2),
-      r.temperature.toFixed(2),
-      r.humidity.toFixed(2),
-    ]);
+    // Extra registered metrics only get a column when at least one row has a value.
+    const extraMetrics = metrics.filter(
+      (m) => !isCoreMetric(m.key) && rawReadings.some((r) => getReadingMetric(r, m.key) !== null)
+    );
+    const headers = [
+      'timestamp', 'device_id', 'temperature_f', 'temperature_c', 'humidity',
+      ...extraMetrics.map((m) => csvSafe(m.unit ? `${m.key}_${m.unit}` : m.key)),
+      ...DERIVED_METRICS.map((m) => m.field),
+      'calibrated',
+    ];
+    const rows = rawReadings.map((r) => {
+      const derived = derivedFields(r.temperature, r.humidity);
+      return [
+        csvSafe(readingTime(r)),
+        csvSafe(r.device_id),
+        celsiusToFahrenheit(r.temperature).toFixed(2),
+        r.temperature.toFixed(2),
+        r.humidity.toFixed(2),
+        ...extraMetrics.map((m) => getReadingMetric(r, m.key)?.toFixed(m.display_precision) ?? ''),
+        ...DERIVED_METRICS.map((m) => derived[m.field]?.toFixed(m.display_precision) ?? ''),
+        calibrations?.[r.device_id] ? 'true' : 'false',
+      ];
+    });
 
     const csv = [headers.join(','), ...rows.map((row) => row.join(','))].join('\n');
     const blob = new Blob([csv], { type: 'text/csv' });
@@ -235,6 +276,35 @@ export default function ChartsPage() {
       });
     }
 
+    if (derivedMetric) {
+      return activeDevices.map(device => ({
+        id: device.id,
+        label: device.display_name,
+        color: device.color,
+        data: compactPoints(
+          validSamples
+            .filter(r => r.device_id === device.id)
+            .map(r => {
+              const value = derivedMetric.displayValue(r.temperature_avg, r.humidity_avg);
+              return value === null ? null : makePoint(r.bucket_ts, value);
+            })
+        ),
+      }));
+    }
+
+    if (!isCoreMetric(metric)) {
+      return activeDevices.map(device => ({
+        id: device.id,
+        label: device.display_name,
+        color: device.color,
+        data: compactPoints(
+          metricSamples
+            .filter(r => r.device_id === device.id)
+            .map(r => makePoint(r.bucket_ts, r.value_avg))
+        ),
+      }));
+    }
+
     return activeDevices.map(device => ({
       id: device.id,
       label: device.display_name,
@@ -244,7 +314,7 @@ export default function ChartsPage() {
           .filter(r => r.device_id === device.id)
           .map(r => makePoint(
             r.bucket_ts,
-            metric === 'temperature' ? celsiusToFahrenheit(r.temperature_avg) : r.humidity_avg
+            toDisplayValue(metric, metric === 'temperature' ? r.temperature_avg : r.humidity_avg)
           ))
       ),
     }));
@@ -262,20 +332,31 @@ export default function ChartsPage() {
     <PageLayout title="Charts" subtitle="Historical data visualization">
         <FilterToolbar timeRange={timeRange} deployments={deployments}>
           <div className="glass-card p-2 flex gap-1">
-            <button onClick={() => setMetric('temperature')}
-              className={`px-5 py-2.5 text-sm rounded-xl transition-all ${metric === 'temperature' ? 'nav-active text-white font-semibold' : 'text-[#a0aec0] hover:text-white hover:bg-white/5'}`}>
-              Temp
-            </button>
-            <button onClick={() => setMetric('humidity')}
-              className={`px-5 py-2.5 text-sm rounded-xl transition-all ${metric === 'humidity' ? 'nav-active text-white font-semibold' : 'text-[#a0aec0] hover:text-white hover:bg-white/5'}`}>
-              Humidity
-            </button>
+            {metrics.map((m) => (
+              <button key={m.key} onClick={() => setMetric(m.key)}
+                className={`px-5 py-2.5 text-sm rounded-xl transition-all ${metric === m.key ? 'nav-active text-white font-semibold' : 'text-[#a0aec0] hover:text-white hover:bg-white/5'}`}>
+                {m.key === 'temperature' ? 'Temp' : m.display_name}
+              </button>
+            ))}
             <button onClick={() => setMetric('both')}
               className={`px-5 py-2.5 text-sm rounded-xl transition-all ${metric === 'both' ? 'nav-active text-white font-semibold' : 'text-[#a0aec0] hover:text-white hover:bg-white/5'}`}>
               Both
             </button>
+            <select
+              value={derivedMetric ? metric : ''}
+              onChange={(e) => setMetric(e.target.value || 'temperature')}
+              aria-label="Derived metric"
+              className={`bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm ${derivedMetric ? 'text-white font-semibold' : 'text-[#a0aec0]'}`}
+            >
+              <option value="">Derived…</option>
+              {DERIVED_METRICS.map((m) => (
+                <option key={m.key} value={m.key}>{m.display_name}</option>
+              ))}
+            </select>
           </div>
 
+          <CalibrationToggle />
+
           <div className="flex items-center gap-3">
             <button onClick={exportCSV} disabled={isExporting || (isCustom && !isCustomValid)}
               className="btn-glass px-5 py-2.5 text-sm disabled:opacity-50 disabled:cursor-not-allowed">
@@ -315,7 +396,7 @@ export default function ChartsPage() {
                 yScale={{ type: 'linear', min: 'auto', max: 'auto', stacked: false }}
                 axisBottom={{ format: '%H:%M', tickRotation: -45, legend: 'Time', legendOffset: 50, legendPosition: 'middle' }}
                 axisLeft={{
-                  legend: metric === 'both' ? '°F (Temp)' : metric === 'temperature' ? '°F' : '%',
+                  legend: metric === 'both' ? '°F (Temp)' : selectedMetric ? displayUnit(selectedMetric) : '',
                   legendOffset: -55,
                   legendPosition: 'middle'
                 }}
@@ -351,13 +432,13 @@ export default function ChartsPage() {
                     {slice.points.map((point) => {
                       const data = point.data as { rawValue?: number; unit?: string; y: number };
                       const value = data.rawValue ?? data.y;
-                      const unit = data.unit ?? (metric === 'temperature' ? '°F' : '%');
+                      const unit = data.unit ?? (selectedMetric ? displayUnit(selectedMetric) : '');
                       return (
                         <div key={point.id} className="flex items-center gap-2 text-sm">
                           <span className="w-3 h-3 rounded-full" style={{ backgroundColor: point.seriesColor }} />
                           <span className="font-semibold text-white">{chartData.find(s => s.id === point.seriesId)?.label ?? point.seriesId}:</span>
                           <span className="text-[#a0aec0]">
-                            {typeof value === 'number' ? value.toFixed(1) : String(value)}{unit}
+                            {typeof value === 'number' ? value.toFixed(selectedMetric?.display_precision ?? 1) : String(value)}{unit}
                           </span>
                         </div>
                       );
@@ -2,9 +2,9 @@
 
 import { useEffect, useState, useCallback, useMemo } from 'react';
 import { PageLayout } from '@/components/PageLayout';
-import { DeviceStats, getDeviceStats, getDeployment } from '@/lib/supabase';
+import { MetricDefinition, MetricStats, getChartSamples, getDeviceStats, getDeployment, getMetricStats } from '@/lib/supabase';
 import { computePercentError, getScopedCompareDeviceIds } from '@/lib/weatherCompare';
-import { formatValue, formatPercent, safeC2F, safeDeltaC2F } from '@/lib/format';
+import { formatValue, formatPercent } from '@/lib/format';
 import { useDevices } from '@/contexts/DevicesContext';
 import { useSetChatPageContext } from '@/lib/chatContext';
 import { DEPLOYMENT_ALL_TIME_HOURS, DEPLOYMENT_ALL_TIME_LABEL, TIME_RANGES } from '@/lib/constants';
@@ -12,6 +12,17 @@ import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { FilterToolbar } from '@/components/FilterToolbar';
 import { useTimeRange } from '@/hooks/useTimeRange';
 import { useDeployments } from '@/hooks/useDeployments';
+import { CalibrationToggle } from '@/components/CalibrationToggle';
+import { useMetrics } from '@/hooks/useMetrics';
+import { deviceStatsToMetricStats, displayUnit, isCoreMetric, toDisplayDelta, toDisplayValue } from '@/lib/metrics';
+import { DERIVED_METRICS, derivedMetricStats, isDerivedMetric } from '@/lib/psychrometrics';
+import { toWeatherDeviceId } from '@/lib/weatherLocation';
+import type { Device } from '@/lib/supabase';
+
+// Derived metrics are computed per chart bucket; about this many buckets per
+// device keeps them close to per-reading values without a huge fetch.
+const DERIVED_STATS_TARGET_BUCKETS = 1000;
+const DERIVED_STATS_MIN_BUCKET_SECONDS = 180;
 
 function formatDelta(values: (number | null | undefined)[], decimals = 1): string {
   const valid = values.filter((v): v is number => v != null);
@@ -37,11 +48,18 @@ function formatDeltaPercent(values: (number | null | undefined)[]): string {
   return `±${(spread / 2).toFixed(1)}%`;
 }
 
+function metricTitle(metric: MetricDefinition): string {
+  const unit = displayUnit(metric);
+  return unit ? `${metric.display_name} (${unit})` : metric.display_name;
+}
+
 export default function ComparePage() {
-  const [stats, setStats] = useState<DeviceStats[]>([]);
+  const [stats, setStats] = useState<MetricStats[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
-  const { devices } = useDevices();
+  const { devices, calibrations } = useDevices();
+  const { metrics } = useMetrics();
+  const hasExtraMetrics = metrics.some((m) => !isCoreMetric(m.key));
   const timeRange = useTimeRange();
   const { deployments } = useDeployments(timeRange.deviceFilter);
   const {
@@ -72,11 +90,33 @@ export default function ComparePage() {
 
     try {
       const { start, end } = await getRangeBounds();
+      const rangeSeconds = (new Date(end).getTime() - new Date(start).getTime()) / 1000;
+      const derivedBucketSeconds = Math.max(DERIVED_STATS_MIN_BUCKET_SECONDS, rangeSeconds / DERIVED_STATS_TARGET_BUCKETS);
+      // One device per call so the bucket count stays bounded.
+      const fetchDerivedStats = async (deviceIds: string[]): Promise<MetricStats[]> => {
+        const samples = await Promise.all(deviceIds.map((deviceId) =>
+          getChartSamples({ start, end, bucketSeconds: derivedBucketSeconds, device_id: deviceId, calibrations })
+        ));
+        return derivedMetricStats(samples.flat());
+      };
+      // Temperature/humidity come from the calibrated fixed-column RPC; any
+      // other registered metric comes from the generic metric stats RPC.
+      const fetchStats = async (deviceId: string | undefined): Promise<MetricStats[]> => {
+        const derivedIds = deviceId ? [deviceId] : devices.flatMap((d) => [d.id, toWeatherDeviceId(d.id)]);
+        const [core, extra, derived] = await Promise.all([
+          getDeviceStats({ start, end, device_id: deviceId, calibrations }),
+          hasExtraMetrics ? getMetricStats({ start, end, device_id: deviceId }) : Promise.resolve([]),
+          fetchDerivedStats(derivedIds),
+        ]);
+        return [
+          ...core.flatMap(deviceStatsToMetricStats),
+          ...extra.filter((row) => !isCoreMetric(row.metric) && !isDerivedMetric(row.metric)),
+          ...derived,
+        ];
+      };
       const fetchForDeviceIds = async (deviceIds: string[]) => {
         const uniqueIds = Array.from(new Set(deviceIds));
-        const statsByDevice = await Promise.all(
-          uniqueIds.map((deviceId) => getDeviceStats({ start, end, device_id: deviceId }))
-        );
+        const statsByDevice = await Promise.all(uniqueIds.map((deviceId) => fetchStats(deviceId)));
         return statsByDevice.flat();
       };
 
@@ -88,20 +128,20 @@ export default function ComparePage() {
           const scoped = getScopedCompareDeviceIds({ deploymentDeviceId: dep.device_id });
           const data = scoped
             ? await fetchForDeviceIds(scoped)
-            : await getDeviceStats({ start, end, device_id: dep.device_id });
+            : await fetchStats(dep.device_id);
           setStats(data);
         }
       } else {
         const scoped = getScopedCompareDeviceIds({ deviceFilter });
         const data = scoped
           ? await fetchForDeviceIds(scoped)
-          : await getDeviceStats({ start, end, device_id: undefined });
+          : await fetchStats(undefined);
         setStats(data);
       }
     } finally {
       setIsLoading(false);
     }
-  }, [deploymentFilter, deviceFilter, getRangeBounds, isCustom, isCustomValid]);
+  }, [deploymentFilter, deviceFilter, getRangeBounds, isCustom, isCustomValid, calibrations, hasExtraMetrics, devices]);
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -112,40 +152,23 @@ export default function ComparePage() {
 
   const activeDeployment = deploymentFilter ? deployments.find(d => d.id.toString() === deploymentFilter) : null;
 
-  const statsByDevice = useMemo(() => {
-    const map: Record<string, DeviceStats | null> = {};
-    for (const device of devices) {
-      map[device.id] = null;
-      map[`weather_${device.id}`] = null;
-    }
-    for (const row of stats) {
-      if (row.device_id in map) map[row.device_id] = row;
-    }
+  const statsByKey = useMemo(() => {
+    const map = new Map<string, MetricStats>();
+    for (const row of stats) map.set(`${row.device_id}:${row.metric}`, row);
     return map;
-  }, [stats, devices]);
+  }, [stats]);
 
-  const deviceColumns = useMemo(() => devices.map(device => {
-    const sensor = statsByDevice[device.id];
-    const weather = statsByDevice[`weather_${device.id}`];
-    const tempAvgF = safeC2F(sensor?.temp_avg);
-    const weatherTempAvgF = safeC2F(weather?.temp_avg);
-    return {
-      device,
-      sensor,
-      weather,
-      tempAvgF,
-      tempMinF: safeC2F(sensor?.temp_min),
-      tempMaxF: safeC2F(sensor?.temp_max),
-      tempStdF: safeDeltaC2F(sensor?.temp_stddev),
-      weatherTempAvgF,
-      tempErrorPct: computePercentError(tempAvgF, weatherTempAvgF),
-      humidityErrorPct: computePercentError(sensor?.humidity_avg, weather?.humidity_avg),
-    };
-  }), [devices, statsByDevice]);
+  // Core metrics always get a table; others, including the derived ones, only
+  // once some device has values for them.
+  const visibleMetrics = [...metrics, ...DERIVED_METRICS].filter(
+    (m) => isCoreMetric(m.key) || stats.some((row) => row.metric === m.key && (row.reading_count ?? 0) > 0)
+  );
 
   return (
     <PageLayout title="Compare" subtitle="Side-by-side sensor statistics">
-        <FilterToolbar timeRange={timeRange} deployments={deployments} />
+        <FilterToolbar timeRange={timeRange} deployments={deployments}>
+          <CalibrationToggle />
+        </FilterToolbar>
 
         {deploymentFilter && activeDeployment && (
           <div className="mb-6 px-4 py-2 rounded-lg bg-[#0075ff]/20 border border-[#0075ff]/30 inline-flex items-center gap-2">
@@ -158,172 +181,123 @@ export default function ComparePage() {
 
         {isLoading ? (
           <>
-            <div className="glass-card card-stats p-8 mb-8">
-              <h2 className="text-2xl font-bold text-white mb-6">Temperature (°F)</h2>
-              <LoadingSpinner message="Loading stats..." />
-            </div>
-            <div className="glass-card card-stats p-8">
-              <h2 className="text-2xl font-bold text-white mb-6">Humidity (%)</h2>
-              <LoadingSpinner message="Loading stats..." />
-            </div>
+            {visibleMetrics.map((metric, i) => (
+              <div key={metric.key} className={`glass-card card-stats p-8 ${i < visibleMetrics.length - 1 ? 'mb-8' : ''}`}>
+                <h2 className="text-2xl font-bold text-white mb-6">{metricTitle(metric)}</h2>
+                <LoadingSpinner message="Loading stats..." />
+              </div>
+            ))}
           </>
         ) : (
           <div className="fade-in">
-            <div className="glass-card card-stats p-4 sm:p-8 mb-8">
-              <h2 className="text-xl sm:text-2xl font-bold text-white mb-4 sm:mb-6">Temperature (°F)</h2>
-              <div className="overflow-x-auto">
-              <table className="w-full text-base sm:text-lg min-w-[400px]">
-                <thead>
-                  <tr className="border-b border-white/10">
-                    <th className="text-left py-4 text-[#a0aec0] font-semibold">Metric</th>
-                    {deviceColumns.map(col => (
-                      <th key={col.device.id} className="text-right py-4 font-semibold" style={{ color: col.device.color }}>
-                        {col.device.display_name}
-                      </th>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <th className="text-right py-4 text-[#a0aec0] font-semibold">Delta</th>
-                    )}
-                  </tr>
-                </thead>
-                <tbody>
-                  <tr className="border-b border-white/5">
-                    <td className="py-4 text-[#a0aec0]">Average</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.tempAvgF)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">{formatDelta(deviceColumns.map(c => c.tempAvgF))}</td>
-                    )}
-                  </tr>
-                  <tr className="border-b border-white/5">
-                    <td className="py-4 text-[#a0aec0]">Minimum</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.tempMinF)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">{formatDelta(deviceColumns.map(c => c.tempMinF))}</td>
-                    )}
-                  </tr>
-                  <tr className="border-b border-white/5">
-                    <td className="py-4 text-[#a0aec0]">Maximum</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.tempMaxF)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">{formatDelta(deviceColumns.map(c => c.tempMaxF))}</td>
-                    )}
-                  </tr>
-                  <tr>
-                    <td className="py-4 text-[#a0aec0]">Std Dev</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.tempStdF, 2)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">—</td>
-                    )}
-                  </tr>
-                  <tr className="border-t border-white/10 border-b border-white/5">
-                    <td className="py-4 text-[#a0aec0]">Weather</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.weatherTempAvgF)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">{formatDelta(deviceColumns.map(c => c.weatherTempAvgF))}</td>
-                    )}
-                  </tr>
-                  <tr>
-                    <td className="py-4 text-[#a0aec0]">% Error</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatPercent(col.tempErrorPct)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">{formatDeltaPercent(deviceColumns.map(c => c.tempErrorPct))}</td>
-                    )}
-                  </tr>
-                </tbody>
-              </table>
-              </div>
-            </div>
-
-            <div className="glass-card card-stats p-4 sm:p-8">
-              <h2 className="text-xl sm:text-2xl font-bold text-white mb-4 sm:mb-6">Humidity (%)</h2>
-              <div className="overflow-x-auto">
-              <table className="w-full text-base sm:text-lg min-w-[400px]">
-                <thead>
-                  <tr className="border-b border-white/10">
-                    <th className="text-left py-4 text-[#a0aec0] font-semibold">Metric</th>
-                    {deviceColumns.map(col => (
-                      <th key={col.device.id} className="text-right py-4 font-semibold" style={{ color: col.device.color }}>
-                        {col.device.display_name}
-                      </th>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <th className="text-right py-4 text-[#a0aec0] font-semibold">Delta</th>
-                    )}
-                  </tr>
-                </thead>
-                <tbody>
-                  <tr className="border-b border-white/5">
-                    <td className="py-4 text-[#a0aec0]">Average</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.sensor?.humidity_avg)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">{formatDelta(deviceColumns.map(c => c.sensor?.humidity_avg))}</td>
-                    )}
-                  </tr>
-                  <tr className="border-b border-white/5">
-                    <td className="py-4 text-[#a0aec0]">Minimum</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.sensor?.humidity_min)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">{formatDelta(deviceColumns.map(c => c.sensor?.humidity_min))}</td>
-                    )}
-                  </tr>
-                  <tr className="border-b border-white/5">
-                    <td className="py-4 text-[#a0aec0]">Maximum</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.sensor?.humidity_max)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">{formatDelta(deviceColumns.map(c => c.sensor?.humidity_max))}</td>
-                    )}
-                  </tr>
-                  <tr>
-                    <td className="py-4 text-[#a0aec0]">Std Dev</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.sensor?.humidity_stddev, 2)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">—</td>
-                    )}
-                  </tr>
-                  <tr className="border-t border-white/10 border-b border-white/5">
-                    <td className="py-4 text-[#a0aec0]">Weather</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.weather?.humidity_avg)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">{formatDelta(deviceColumns.map(c => c.weather?.humidity_avg))}</td>
-                    )}
-                  </tr>
-                  <tr>
-                    <td className="py-4 text-[#a0aec0]">% Error</td>
-                    {deviceColumns.map(col => (
-                      <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatPercent(col.humidityErrorPct)}</td>
-                    ))}
-                    {deviceColumns.length >= 2 && (
-                      <td className="py-4 text-right text-[#a0aec0]/60">{formatDeltaPercent(deviceColumns.map(c => c.humidityErrorPct))}</td>
-                    )}
-                  </tr>
-                </tbody>
-              </table>
-              </div>
-            </div>
+            {visibleMetrics.map((metric, i) => (
+              <MetricStatsTable
+                key={metric.key}
+                metric={metric}
+                devices={devices}
+                statsByKey={statsByKey}
+                className={i < visibleMetrics.length - 1 ? 'mb-8' : ''}
+              />
+            ))}
           </div>
         )}
     </PageLayout>
   );
 }
+
+function MetricStatsTable({
+  metric,
+  devices,
+  statsByKey,
+  className,
+}: {
+  metric: MetricDefinition;
+  devices: Device[];
+  statsByKey: Map<string, MetricStats>;
+  className: string;
+}) {
+  const toDisplay = (v: number | null | undefined) => (v != null ? toDisplayValue(metric.key, v) : undefined);
+  const columns = devices.map(device => {
+    const sensor = statsByKey.get(`${device.id}:${metric.key}`);
+    const weather = statsByKey.get(`weather_${device.id}:${metric.key}`);
+    const avg = toDisplay(sensor?.value_avg);
+    const weatherAvg = toDisplay(weather?.value_avg);
+    return {
+      device,
+      avg,
+      min: toDisplay(sensor?.value_min),
+      max: toDisplay(sensor?.value_max),
+      std: sensor?.value_stddev != null ? toDisplayDelta(metric.key, sensor.value_stddev) : undefined,
+      weatherAvg,
+      errorPct: computePercentError(avg, weatherAvg),
+    };
+  });
+  const hasWeather = columns.some(c => c.weatherAvg != null) || isCoreMetric(metric.key);
+  const precision = metric.display_precision;
+  const showDelta = columns.length >= 2;
+
+  const rows: Array<{ label: string; values: (number | undefined)[]; decimals: number; delta: boolean }> = [
+    { label: 'Average', values: columns.map(c => c.avg), decimals: precision, delta: true },
+    { label: 'Minimum', values: columns.map(c => c.min), decimals: precision, delta: true },
+    { label: 'Maximum', values: columns.map(c => c.max), decimals: precision, delta: true },
+    { label: 'Std Dev', values: columns.map(c => c.std), decimals: precision + 1, delta: false },
+  ];
+
+  return (
+    <div className={`glass-card card-stats p-4 sm:p-8 ${className}`}>
+      <h2 className="text-xl sm:text-2xl font-bold text-white mb-4 sm:mb-6">{metricTitle(metric)}</h2>
+      <div className="overflow-x-auto">
+      <table className="w-full text-base sm:text-lg min-w-[400px]">
+        <thead>
+          <tr className="border-b border-white/10">
+            <th className="text-left py-4 text-[#a0aec0] font-semibold">Metric</th>
+            {columns.map(col => (
+              <th key={col.device.id} className="text-right py-4 font-semibold" style={{ color: col.device.color }}>
+                {col.device.display_name}
+              </th>
+            ))}
+            {showDelta && (
+              <th className="text-right py-4 text-[#a0aec0] font-semibold">Delta</th>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={row.label} className={i < rows.length - 1 || hasWeather ? 'border-b border-white/5' : ''}>
+              <td className="py-4 text-[#a0aec0]">{row.label}</td>
+              {row.values.map((value, j) => (
+                <td key={columns[j].device.id} className="py-4 text-right font-semibold text-white">{formatValue(value, row.decimals)}</td>
+              ))}
+              {showDelta && (
+                <td className="py-4 text-right text-[#a0aec0]/60">{row.delta ? formatDelta(row.values, precision) : '—'}</td>
+              )}
+            </tr>
+          ))}
+          {hasWeather && (
+            <>
+              <tr className="border-t border-white/10 border-b border-white/5">
+                <td className="py-4 text-[#a0aec0]">Weather</td>
+                {columns.map(col => (
+                  <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatValue(col.weatherAvg, precision)}</td>
+                ))}
+                {showDelta && (
+                  <td className="py-4 text-right text-[#a0aec0]/60">{formatDelta(columns.map(c => c.weatherAvg), precision)}</td>
+                )}
+              </tr>
+              <tr>
+                <td className="py-4 text-[#a0aec0]">% Error</td>
+                {columns.map(col => (
+                  <td key={col.device.id} className="py-4 text-right font-semibold text-white">{formatPercent(col.errorPct)}</td>
+                ))}
+                {showDelta && (
+                  <td className="py-4 text-right text-[#a0aec0]/60">{formatDeltaPercent(columns.map(c => c.errorPct))}</td>
+                )}
+              </tr>
+            </>
+          )}
+        </tbody>
+      </table>
+      </div>
+    </div>
+  );
+}
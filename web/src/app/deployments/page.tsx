@@ -1,43 +1,75 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
 import { DeploymentModal } from '@/components/DeploymentModal';
+import { BulkDeploymentModal } from '@/components/BulkDeploymentModal';
+import { DeploymentTimeline } from '@/components/DeploymentTimeline';
+import { OrphanedReadingsPanel } from '@/components/OrphanedReadingsPanel';
 import { PageLayout } from '@/components/PageLayout';
 import {
+  Deployment,
   DeploymentWithCount,
+  LocationWithCount,
+  getChartSamples,
   getDeployments,
-  getDistinctLocations,
+  getLocations,
+  updateDeployment,
 } from '@/lib/supabase';
+import {
+  coverageBucketSeconds,
+  coverageGaps,
+  type CoverageGap,
+  type TimelineWindow,
+} from '@/lib/deploymentTimeline';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { EmptyState } from '@/components/EmptyState';
 import { useDevices } from '@/contexts/DevicesContext';
 
-type StatusFilter = 'all' | 'active' | 'ended';
+type StatusFilter = 'all' | 'active' | 'ended' | 'archived';
+type ViewMode = 'list' | 'timeline' | 'orphaned';
+
+const VIEW_LABELS: Record<ViewMode, string> = {
+  list: 'List',
+  timeline: 'Timeline',
+  orphaned: 'Orphaned Readings',
+};
+
+const DEFAULT_TIMELINE_DAYS = 30;
 
 export default function DeploymentsPage() {
   const { devices } = useDevices();
   const [deployments, setDeployments] = useState<DeploymentWithCount[]>([]);
-  const [locations, setLocations] = useState<string[]>([]);
+  const [locations, setLocations] = useState<LocationWithCount[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   const [deviceFilter, setDeviceFilter] = useState<string>('');
   const [locationFilter, setLocationFilter] = useState<string>('');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
 
-  const [selectedDeployment, setSelectedDeployment] = useState<DeploymentWithCount | null>(null);
+  const [selectedDeployment, setSelectedDeployment] = useState<Deployment | null>(null);
   const [showNewModal, setShowNewModal] = useState(false);
+  const [showBulkModal, setShowBulkModal] = useState(false);
+
+  const [view, setView] = useState<ViewMode>('list');
+  const [timelineRange, setTimelineRange] = useState<TimelineWindow | null>(null);
+  const [timelineNowMs, setTimelineNowMs] = useState(0);
+  // Gaps and drag validation need every deployment of the shown devices, not
+  // just the ones the location/status filters leave in view.
+  const [deviceDeployments, setDeviceDeployments] = useState<DeploymentWithCount[]>([]);
+  const [gaps, setGaps] = useState<CoverageGap[]>([]);
 
   const fetchData = useCallback(async () => {
     setIsLoading(true);
 
-    const filters: { deviceId?: string; location?: string; status?: 'all' | 'active' | 'ended' } = {};
+    const filters: { deviceId?: string; locationId?: number; status?: StatusFilter } = {};
     if (deviceFilter) filters.deviceId = deviceFilter;
-    if (locationFilter) filters.location = locationFilter;
+    if (locationFilter) filters.locationId = Number(locationFilter);
     if (statusFilter !== 'all') filters.status = statusFilter;
 
     const [deps, locs] = await Promise.all([
       getDeployments(filters),
-      getDistinctLocations(),
+      getLocations(),
     ]);
 
     const filtered = deps;
@@ -54,6 +86,62 @@ export default function DeploymentsPage() {
     return () => clearTimeout(timer);
   }, [fetchData]);
 
+  const fetchTimeline = useCallback(async () => {
+    if (view !== 'timeline' || !timelineRange) return;
+    const nowMs = Date.now();
+    const bucketSeconds = coverageBucketSeconds(timelineRange);
+    const [all, samples] = await Promise.all([
+      getDeployments(deviceFilter ? { deviceId: deviceFilter } : undefined),
+      getChartSamples({
+        start: new Date(timelineRange.startMs).toISOString(),
+        end: new Date(Math.min(timelineRange.endMs, nowMs)).toISOString(),
+        bucketSeconds,
+        device_id: deviceFilter || undefined,
+      }),
+    ]);
+    setTimelineNowMs(nowMs);
+    setDeviceDeployments(all);
+    setGaps(coverageGaps(samples, all, bucketSeconds * 1000, nowMs));
+  }, [view, timelineRange, deviceFilter]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void fetchTimeline();
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [fetchTimeline]);
+
+  const refresh = useCallback(async () => {
+    await Promise.all([fetchData(), fetchTimeline()]);
+  }, [fetchData, fetchTimeline]);
+
+  const showTimeline = () => {
+    if (!timelineRange) {
+      const nowMs = Date.now();
+      setTimelineRange({ startMs: nowMs - DEFAULT_TIMELINE_DAYS * 24 * 3_600_000, endMs: nowMs });
+    }
+    setView('timeline');
+  };
+
+  const handleResize = async (
+    deployment: Deployment,
+    range: { started_at: string; ended_at: string | null }
+  ): Promise<string | null> => {
+    const updated = await updateDeployment(deployment.id, range);
+    if (!updated) return 'Could not save the new dates. They may overlap another deployment.';
+    await refresh();
+    return null;
+  };
+
+  const timelineDeviceIds = deviceFilter
+    ? [deviceFilter]
+    : [
+        ...devices.map((d) => d.id),
+        ...Array.from(new Set(deviceDeployments.map((d) => d.device_id))).filter(
+          (id) => !devices.some((d) => d.id === id)
+        ),
+      ];
+
   const formatDateRange = (dep: DeploymentWithCount) => {
     const start = new Date(dep.started_at);
     const startStr = start.toLocaleDateString([], { month: 'short', day: 'numeric' });
@@ -90,7 +178,7 @@ export default function DeploymentsPage() {
             >
               <option value="">All Locations</option>
               {locations.map((loc) => (
-                <option key={loc} value={loc}>{loc}</option>
+                <option key={loc.id} value={loc.id}>{loc.name}</option>
               ))}
             </select>
 
@@ -102,6 +190,7 @@ export default function DeploymentsPage() {
               <option value="all">All Status</option>
               <option value="active">Active</option>
               <option value="ended">Ended</option>
+              <option value="archived">Archived</option>
             </select>
           </div>
 
@@ -111,12 +200,46 @@ export default function DeploymentsPage() {
           >
             + New Deployment
           </button>
+          <button
+            onClick={() => setShowBulkModal(true)}
+            className="btn-glass px-5 py-3 text-sm font-semibold text-white"
+          >
+            + Multiple Devices
+          </button>
+
+          <div className="glass-card p-1 flex gap-1 ml-auto">
+            {(Object.keys(VIEW_LABELS) as ViewMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => (mode === 'timeline' ? showTimeline() : setView(mode))}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  view === mode ? 'bg-white/15 text-white' : 'text-[#a0aec0] hover:text-white'
+                }`}
+              >
+                {VIEW_LABELS[mode]}
+              </button>
+            ))}
+          </div>
         </div>
 
-        {isLoading ? (
+        {view === 'orphaned' ? (
+          <OrphanedReadingsPanel deviceId={deviceFilter} onDeploymentChange={refresh} />
+        ) : isLoading ? (
           <div className="glass-card p-12">
             <LoadingSpinner message="Loading deployments..." />
           </div>
+        ) : view === 'timeline' && timelineRange ? (
+          <DeploymentTimeline
+            deployments={deployments}
+            allDeployments={deviceDeployments}
+            deviceIds={timelineDeviceIds}
+            gaps={gaps}
+            range={timelineRange}
+            nowMs={timelineNowMs || timelineRange.endMs}
+            onRangeChange={setTimelineRange}
+            onSelect={setSelectedDeployment}
+            onResize={handleResize}
+          />
         ) : deployments.length === 0 ? (
           <EmptyState
             title="No deployments found"
@@ -135,19 +258,28 @@ export default function DeploymentsPage() {
                 className="glass-card p-6 cursor-pointer hover:border-white/30 transition-all"
               >
                 <div className="flex items-center gap-4">
-                  <div className={`w-3 h-3 rounded-full ${dep.ended_at ? 'bg-[#a0aec0]/40' : 'bg-[#01b574] animate-pulse'}`} />
+                  <div className={`w-3 h-3 rounded-full ${dep.archived_at ? 'bg-[#e31a1a]/60' : dep.ended_at ? 'bg-[#a0aec0]/40' : 'bg-[#01b574] animate-pulse'}`} />
 
                   <div className="flex-1 min-w-0">
                     <h3 className="text-lg font-semibold text-white truncate">{dep.name}</h3>
                     <p className="text-sm text-[#a0aec0]">
-                      {dep.device_id} &bull; {dep.location}
+                      {dep.device_id} &bull;{' '}
+                      {dep.location_id ? (
+                        <Link
+                          href={`/locations/${dep.location_id}`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="hover:text-white underline-offset-2 hover:underline"
+                        >
+                          {dep.location}
+                        </Link>
+                      ) : dep.location}
                     </p>
                   </div>
 
                   <div className="text-right hidden sm:block">
                     <p className="text-sm text-white">{formatDateRange(dep)}</p>
                     <p className="text-xs text-[#a0aec0]">
-                      {dep.ended_at ? 'Ended' : 'Active'}
+                      {dep.archived_at ? 'Archived' : dep.ended_at ? 'Ended' : 'Active'}
                     </p>
                   </div>
 
@@ -168,7 +300,7 @@ export default function DeploymentsPage() {
           existingDeployment={selectedDeployment}
           isOpen={!!selectedDeployment}
           onClose={() => setSelectedDeployment(null)}
-          onDeploymentChange={fetchData}
+          onDeploymentChange={refresh}
         />
       )}
 
@@ -178,7 +310,15 @@ export default function DeploymentsPage() {
           deviceName={devices[0]?.display_name || 'Device'}
           isOpen={showNewModal}
           onClose={() => setShowNewModal(false)}
-          onDeploymentChange={fetchData}
+          onDeploymentChange={refresh}
+        />
+      )}
+
+      {showBulkModal && (
+        <BulkDeploymentModal
+          isOpen={showBulkModal}
+          onClose={() => setShowBulkModal(false)}
+          onDeploymentChange={refresh}
         />
       )}
     </PageLayout>
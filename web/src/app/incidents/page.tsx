@@ -0,0 +1,338 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { PageLayout } from '@/components/PageLayout';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { FilterToolbar } from '@/components/FilterToolbar';
+import { useDevices } from '@/contexts/DevicesContext';
+import { useTimeRange } from '@/hooks/useTimeRange';
+import { useDeployments } from '@/hooks/useDeployments';
+import {
+  computeUptime,
+  deploymentUptime,
+  incidentDurationMs,
+  isDowntimeIncident,
+  type UptimeSummary,
+} from '@/lib/incidents';
+import { formatDuration } from '@/lib/format';
+import {
+  acknowledgeIncident,
+  getAlertRules,
+  getIncidentNotifications,
+  getIncidents,
+  type AlertRule,
+  type Incident,
+  type IncidentStatus,
+  type NotificationAttempt,
+} from '@/lib/supabase';
+
+const STATUS_COLORS: Record<IncidentStatus, string> = {
+  missing: '#e31a1a',
+  stale: '#ffb547',
+  anomaly: '#a855f7',
+  spike: '#f472b6',
+  flatline: '#94a3b8',
+  drift: '#22d3ee',
+  firing: '#0075ff',
+};
+
+function uptimeColor(pct: number | null): string {
+  if (pct === null) return 'text-[#a0aec0]';
+  if (pct >= 99) return 'text-[#01b574]';
+  if (pct >= 95) return 'text-[#ffb547]';
+  return 'text-[#e31a1a]';
+}
+
+function formatUptime(summary: UptimeSummary | null): string {
+  if (!summary || summary.uptimePct === null) return '—';
+  return `${summary.uptimePct.toFixed(summary.uptimePct >= 99.9 && summary.uptimePct < 100 ? 2 : 1)}%`;
+}
+
+export default function IncidentsPage() {
+  const { devices } = useDevices();
+  const timeRange = useTimeRange({ defaultRange: 168 });
+  const { deployments } = useDeployments(timeRange.deviceFilter);
+  const { isCustom, isCustomValid, getRangeBounds } = timeRange;
+
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [notifications, setNotifications] = useState<NotificationAttempt[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [range, setRange] = useState<{ startMs: number; endMs: number; deviceId?: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (isCustom && !isCustomValid) return;
+    setIsLoading(true);
+    try {
+      const { start, end, scopedDeviceId } = await getRangeBounds();
+      const [incidentRows, ruleRows] = await Promise.all([
+        getIncidents({ start, end, deviceId: scopedDeviceId }),
+        getAlertRules(),
+      ]);
+      setIncidents(incidentRows);
+      setRules(ruleRows);
+      setNotifications(await getIncidentNotifications(incidentRows.map((i) => i.id)));
+      setRange({
+        startMs: new Date(start).getTime(),
+        endMs: Math.min(new Date(end).getTime(), Date.now()),
+        deviceId: scopedDeviceId,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getRangeBounds, isCustom, isCustomValid]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void fetchData();
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [fetchData]);
+
+  const handleAcknowledge = async (incident: Incident) => {
+    setError(null);
+    try {
+      const updated = await acknowledgeIncident(incident.id);
+      if (!updated) {
+        setError('Incident was already closed or acknowledged.');
+      }
+      await fetchData();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed to acknowledge incident.';
+      setError(msg);
+    }
+  };
+
+  // Open incidents are measured up to when the page last loaded.
+  const nowMs = range?.endMs ?? 0;
+
+  const visibleDevices = useMemo(
+    () => devices.filter((d) => !range?.deviceId || d.id === range.deviceId),
+    [devices, range]
+  );
+
+  const deviceUptime = useMemo(() => {
+    if (!range) return [];
+    return visibleDevices.map((device) => ({
+      device,
+      summary: computeUptime(
+        incidents.filter((i) => i.device_id === device.id),
+        range.startMs,
+        range.endMs,
+        nowMs
+      ),
+    }));
+  }, [incidents, visibleDevices, range, nowMs]);
+
+  const deploymentRows = useMemo(() => {
+    if (!range) return [];
+    return deployments
+      .filter((d) => !range.deviceId || d.device_id === range.deviceId)
+      .map((deployment) => ({ deployment, summary: deploymentUptime(deployment, incidents, range, nowMs) }))
+      .filter((row): row is { deployment: typeof row.deployment; summary: UptimeSummary } => row.summary !== null);
+  }, [deployments, incidents, range, nowMs]);
+
+  const notificationsByIncident = useMemo(() => {
+    const map = new Map<number, NotificationAttempt[]>();
+    for (const n of notifications) {
+      if (n.incident_id === null) continue;
+      map.set(n.incident_id, [...(map.get(n.incident_id) ?? []), n]);
+    }
+    return map;
+  }, [notifications]);
+
+  const deviceName = (id: string) => devices.find((d) => d.id === id)?.display_name ?? id;
+  const ruleName = (id: number | null) =>
+    id === null ? 'Deleted rule' : rules.find((r) => r.id === id)?.name ?? `Rule ${id}`;
+
+  const position = (incident: Incident) => {
+    if (!range) return null;
+    const span = range.endMs - range.startMs;
+    const from = Math.max(new Date(incident.opened_at).getTime(), range.startMs);
+    const to = Math.min(incident.closed_at ? new Date(incident.closed_at).getTime() : nowMs, range.endMs);
+    if (span <= 0 || to <= from) return null;
+    return { left: ((from - range.startMs) / span) * 100, width: Math.max(((to - from) / span) * 100, 0.5) };
+  };
+
+  return (
+    <PageLayout title="Incidents" subtitle="Outages and alert history from the monitoring cron">
+      <FilterToolbar timeRange={timeRange} deployments={deployments} />
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+          <p className="text-sm text-[#e31a1a]">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="glass-card p-12">
+          <LoadingSpinner message="Loading incidents..." />
+        </div>
+      ) : (
+        <div className="fade-in space-y-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="glass-card p-6">
+              <h2 className="text-lg font-semibold text-white mb-4">Device Uptime</h2>
+              <div className="space-y-3">
+                {deviceUptime.map(({ device, summary }) => (
+                  <div key={device.id} className="flex items-center gap-3">
+                    <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: device.color }} />
+                    <span className="flex-1 text-white truncate">{device.display_name}</span>
+                    <span className="text-xs text-[#a0aec0]">
+                      {summary.incidentCount} incident{summary.incidentCount === 1 ? '' : 's'}
+                      {summary.downtimeMs > 0 && ` · ${formatDuration(summary.downtimeMs)} down`}
+                    </span>
+                    <span className={`w-16 text-right font-semibold ${uptimeColor(summary.uptimePct)}`}>
+                      {formatUptime(summary)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="glass-card p-6">
+              <h2 className="text-lg font-semibold text-white mb-4">Deployment Uptime</h2>
+              {deploymentRows.length === 0 ? (
+                <p className="text-sm text-[#a0aec0]">No deployments ran in this range.</p>
+              ) : (
+                <div className="space-y-3">
+                  {deploymentRows.map(({ deployment, summary }) => (
+                    <div key={deployment.id} className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white truncate">{deployment.name}</p>
+                        <p className="text-xs text-[#a0aec0] truncate">
+                          {deviceName(deployment.device_id)} &bull; {deployment.location}
+                        </p>
+                      </div>
+                      <span className={`w-16 text-right font-semibold ${uptimeColor(summary.uptimePct)}`}>
+                        {formatUptime(summary)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {range && (
+            <div className="glass-card p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h2 className="text-lg font-semibold text-white">Timeline</h2>
+                <div className="flex flex-wrap gap-3 text-xs text-[#a0aec0]">
+                  {(Object.keys(STATUS_COLORS) as IncidentStatus[]).map((status) => (
+                    <span key={status} className="flex items-center gap-1.5">
+                      <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: STATUS_COLORS[status] }} />
+                      {status === 'firing' ? 'rule firing' : status}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-3">
+                {visibleDevices.map((device) => (
+                  <div key={device.id} className="flex items-center gap-3">
+                    <span className="w-28 text-sm text-[#a0aec0] truncate flex-shrink-0">{device.display_name}</span>
+                    <div className="relative flex-1 h-6 rounded bg-[#01b574]/15 overflow-hidden">
+                      {incidents
+                        .filter((i) => i.device_id === device.id)
+                        .map((incident) => {
+                          const pos = position(incident);
+                          if (!pos) return null;
+                          // Rule and drift incidents sit in the lower half so they do not hide outages.
+                          const lane = isDowntimeIncident(incident) ? 'top-0 h-1/2' : 'top-1/2 h-1/2';
+                          return (
+                            <div
+                              key={incident.id}
+                              className={`absolute ${lane}`}
+                              style={{
+                                left: `${pos.left}%`,
+                                width: `${pos.width}%`,
+                                backgroundColor: STATUS_COLORS[incident.status],
+                              }}
+                              title={`${incident.status}: ${incident.reason}`}
+                            />
+                          );
+                        })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-[#a0aec0]/60 mt-2 pl-[7.75rem]">
+                <span>{new Date(range.startMs).toLocaleString()}</span>
+                <span>{new Date(range.endMs).toLocaleString()}</span>
+              </div>
+            </div>
+          )}
+
+          {incidents.length === 0 ? (
+            <EmptyState title="No incidents in this range" subtitle="Every monitored device stayed healthy" />
+          ) : (
+            <div className="space-y-3">
+              {incidents.map((incident) => {
+                const sent = notificationsByIncident.get(incident.id) ?? [];
+                return (
+                  <div key={incident.id} className="glass-card p-5">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span
+                        className="px-2.5 py-1 rounded-full text-xs font-medium"
+                        style={{
+                          backgroundColor: `${STATUS_COLORS[incident.status]}26`,
+                          color: STATUS_COLORS[incident.status],
+                        }}
+                      >
+                        {incident.status}
+                      </span>
+                      <span className="text-white font-semibold">{deviceName(incident.device_id)}</span>
+                      {incident.status === 'firing' && (
+                        <span className="text-sm text-[#a0aec0]">{ruleName(incident.rule_id)}</span>
+                      )}
+                      {incident.acknowledged_at && (
+                        <span className="px-2.5 py-1 rounded-full text-xs font-medium bg-white/10 text-[#a0aec0]">
+                          acknowledged
+                        </span>
+                      )}
+                      <span className="ml-auto text-sm text-[#a0aec0]">
+                        {incident.closed_at ? formatDuration(incidentDurationMs(incident, nowMs)) : 'Ongoing'}
+                      </span>
+                      {!incident.closed_at && !incident.acknowledged_at && (
+                        <button
+                          onClick={() => handleAcknowledge(incident)}
+                          className="btn-glass px-3 py-1.5 text-xs font-semibold text-white"
+                          title="Stop notifications for this incident, including its recovery"
+                        >
+                          Acknowledge
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-sm text-[#a0aec0] mt-2">{incident.reason}</p>
+                    <p className="text-xs text-[#a0aec0]/60 mt-1">
+                      {new Date(incident.opened_at).toLocaleString()} →{' '}
+                      {incident.closed_at ? new Date(incident.closed_at).toLocaleString() : 'now'}
+                      {incident.acknowledged_at && ` · acknowledged ${new Date(incident.acknowledged_at).toLocaleString()}`}
+                    </p>
+                    {sent.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {sent.map((n) => (
+                          <span
+                            key={n.id}
+                            className={`px-2 py-0.5 rounded text-xs ${
+                              n.ok ? 'bg-[#01b574]/15 text-[#01b574]' : 'bg-[#e31a1a]/15 text-[#e31a1a]'
+                            }`}
+                            title={n.error ?? n.subject}
+                          >
+                            {n.alert_kind} · {n.channel_type}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </PageLayout>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState, FormEvent } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { signIn } from '@/lib/auth';
+import { ROLE_LABELS } from '@/lib/roles';
+import { MIN_PASSWORD_LENGTH, acceptInvitation, lookupInvitation } from '@/lib/userAdmin';
+import type { AppRole } from '@/lib/supabase';
+
+const inputClass = 'w-full px-4 py-3 rounded-xl bg-white/5 border border-white/15 text-white placeholder-[#a0aec0]/50 focus:outline-none focus:border-white/30 focus:ring-1 focus:ring-white/20 transition-colors';
+
+export default function InvitePage() {
+  const router = useRouter();
+  const { token } = useParams<{ token: string }>();
+  const [invitation, setInvitation] = useState<{ email: string; role: AppRole } | null>(null);
+  const [lookupError, setLookupError] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    lookupInvitation(token)
+      .then((found) => {
+        if (!cancelled) setInvitation(found);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setLookupError(err instanceof Error ? err.message : 'Invitation not found');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (password !== confirm) {
+      setError('Passwords do not match');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const { email } = await acceptInvitation(token, password);
+      const result = await signIn(email, password);
+      router.push(result.success ? '/' : '/login');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not accept the invitation');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="glass-card p-8 w-full max-w-md">
+        <div className="mb-8 text-center">
+          <h1 className="text-2xl font-bold text-white mb-2">Accept Invitation</h1>
+          <p className="text-[#a0aec0]">
+            {invitation
+              ? `Set a password for ${invitation.email} (${ROLE_LABELS[invitation.role]})`
+              : 'Checking your invitation...'}
+          </p>
+        </div>
+
+        {lookupError ? (
+          <div className="p-4 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+            <p className="text-sm text-[#e31a1a]">{lookupError}</p>
+          </div>
+        ) : invitation && (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="p-4 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+                <p className="text-sm text-[#e31a1a]">{error}</p>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-[#a0aec0] mb-2">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                className={inputClass}
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="confirm-password" className="block text-sm font-medium text-[#a0aec0] mb-2">
+                Confirm Password
+              </label>
+              <input
+                id="confirm-password"
+                type="password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                required
+                autoComplete="new-password"
+                className={inputClass}
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full btn-glass px-6 py-3 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Creating account...' : 'Create Account'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { PageLayout } from '@/components/PageLayout';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { LocationForm } from '@/components/LocationForm';
+import { DeploymentModal } from '@/components/DeploymentModal';
+import { useDevices } from '@/contexts/DevicesContext';
+import { applyCalibrationToStats } from '@/lib/calibration';
+import { LOCATION_TYPES, mergeStatsByDevice } from '@/lib/locations';
+import { formatPercent, formatTempF, formatValue, safeC2F, safeDeltaC2F } from '@/lib/format';
+import { formatWeatherLocation, locationFromFields } from '@/lib/weatherLocation';
+import {
+  deleteLocation,
+  getDeploymentStats,
+  getLocation,
+  getLocationDeployments,
+  updateLocation,
+  type Deployment,
+  type DeploymentStats,
+  type Location,
+  type LocationInput,
+} from '@/lib/supabase';
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export default function LocationPage() {
+  const params = useParams<{ id: string }>();
+  const locationId = Number(params.id);
+  const router = useRouter();
+  const { devices, calibrations } = useDevices();
+
+  const [location, setLocation] = useState<Location | null>(null);
+  const [deployments, setDeployments] = useState<Deployment[]>([]);
+  const [stats, setStats] = useState<DeploymentStats[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedDeployment, setSelectedDeployment] = useState<Deployment | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!Number.isFinite(locationId)) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    const [loc, deps] = await Promise.all([getLocation(locationId), getLocationDeployments(locationId)]);
+    setLocation(loc);
+    setDeployments(deps);
+    setStats(await getDeploymentStats(deps.map((d) => d.id)));
+    setIsLoading(false);
+  }, [locationId]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void fetchData();
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [fetchData]);
+
+  const calibratedStats = useMemo(
+    () => stats.map((s) => applyCalibrationToStats(s, calibrations)),
+    [stats, calibrations]
+  );
+  const statsByDeployment = useMemo(
+    () => new Map(calibratedStats.map((s) => [s.deployment_id, s])),
+    [calibratedStats]
+  );
+  const deviceStats = useMemo(() => mergeStatsByDevice(calibratedStats), [calibratedStats]);
+  const deviceName = (id: string) => devices.find((d) => d.id === id)?.display_name || id;
+  const deviceColor = (id: string) => devices.find((d) => d.id === id)?.color || '#a0aec0';
+
+  const handleSave = async (input: LocationInput) => {
+    setError(null);
+    try {
+      const updated = await updateLocation(locationId, input);
+      if (updated) setLocation(updated);
+      setIsEditing(false);
+      // A rename is copied onto the deployments.
+      setDeployments(await getLocationDeployments(locationId));
+    } catch {
+      setError('Could not save location. A location with that name may already exist.');
+    }
+  };
+
+  const handleDelete = async () => {
+    setError(null);
+    if (await deleteLocation(locationId)) {
+      router.push('/locations');
+    } else {
+      setError('Could not delete location. Archived deployments may still refer to it.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <PageLayout title="Location">
+        <div className="glass-card p-12">
+          <LoadingSpinner message="Loading location..." />
+        </div>
+      </PageLayout>
+    );
+  }
+
+  if (!location) {
+    return (
+      <PageLayout title="Location">
+        <EmptyState title="Location not found" subtitle="It may have been deleted" />
+      </PageLayout>
+    );
+  }
+
+  const weather = locationFromFields(location);
+  const typeLabel = LOCATION_TYPES.find((t) => t.value === location.location_type)?.label ?? location.location_type;
+
+  return (
+    <PageLayout title={location.name} subtitle={typeLabel}>
+      <div className="mb-6">
+        <Link href="/locations" className="text-sm text-[#a0aec0] hover:text-white transition-colors">&larr; All locations</Link>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+          <p className="text-sm text-[#e31a1a]">{error}</p>
+        </div>
+      )}
+
+      <div className="glass-card p-6 mb-8">
+        {isEditing ? (
+          <LocationForm initial={location} submitLabel="Save" onSubmit={handleSave} onCancel={() => setIsEditing(false)} />
+        ) : (
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div className="space-y-1">
+              {location.description && <p className="text-white">{location.description}</p>}
+              <p className="text-sm text-[#a0aec0]">
+                Weather location: {weather ? formatWeatherLocation(weather) : 'none'}
+              </p>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setIsEditing(true)}
+                className="px-4 py-2 text-sm font-medium text-[#a0aec0] hover:text-white transition-colors"
+              >
+                Edit
+              </button>
+              {deployments.length === 0 && (
+                <button
+                  onClick={handleDelete}
+                  className="px-4 py-2 text-sm font-medium text-[#e31a1a] hover:text-[#ff4444] transition-colors"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {deployments.length === 0 ? (
+        <EmptyState title="No deployments here yet" subtitle="Start a deployment with this location to see its history" />
+      ) : (
+        <>
+          <div className="glass-card p-6 mb-8 overflow-x-auto">
+            <h2 className="text-xl font-bold text-white mb-4">Devices at this location</h2>
+            <table className="w-full text-sm min-w-[640px]">
+              <thead>
+                <tr className="border-b border-white/10 text-[#a0aec0]">
+                  <th className="text-left py-3 font-semibold">Device</th>
+                  <th className="text-right py-3 font-semibold">Deployments</th>
+                  <th className="text-right py-3 font-semibold">Readings</th>
+                  <th className="text-right py-3 font-semibold">Avg Temp</th>
+                  <th className="text-right py-3 font-semibold">Temp Range</th>
+                  <th className="text-right py-3 font-semibold">Temp Std Dev</th>
+                  <th className="text-right py-3 font-semibold">Avg Humidity</th>
+                  <th className="text-right py-3 font-semibold">Humidity Range</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deviceStats.map((s) => (
+                  <tr key={s.device_id} className="border-b border-white/5">
+                    <td className="py-3 font-semibold" style={{ color: deviceColor(s.device_id) }}>{deviceName(s.device_id)}</td>
+                    <td className="py-3 text-right text-white">{s.deployment_count}</td>
+                    <td className="py-3 text-right text-white">{(s.reading_count ?? 0).toLocaleString()}</td>
+                    <td className="py-3 text-right text-white">{formatTempF(safeC2F(s.temp_avg))}</td>
+                    <td className="py-3 text-right text-white">
+                      {formatValue(safeC2F(s.temp_min))} – {formatTempF(safeC2F(s.temp_max))}
+                    </td>
+                    <td className="py-3 text-right text-white">{formatValue(safeDeltaC2F(s.temp_stddev))}</td>
+                    <td className="py-3 text-right text-white">{formatPercent(s.humidity_avg)}</td>
+                    <td className="py-3 text-right text-white">
+                      {formatValue(s.humidity_min)} – {formatPercent(s.humidity_max)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="glass-card p-6 overflow-x-auto">
+            <h2 className="text-xl font-bold text-white mb-4">Deployment history</h2>
+            <table className="w-full text-sm min-w-[640px]">
+              <thead>
+                <tr className="border-b border-white/10 text-[#a0aec0]">
+                  <th className="text-left py-3 font-semibold">Deployment</th>
+                  <th className="text-left py-3 font-semibold">Device</th>
+                  <th className="text-left py-3 font-semibold">Dates</th>
+                  <th className="text-right py-3 font-semibold">Readings</th>
+                  <th className="text-right py-3 font-semibold">Avg Temp</th>
+                  <th className="text-right py-3 font-semibold">Avg Humidity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deployments.map((dep) => {
+                  const s = statsByDeployment.get(dep.id);
+                  return (
+                    <tr
+                      key={dep.id}
+                      onClick={() => setSelectedDeployment(dep)}
+                      className="border-b border-white/5 cursor-pointer hover:bg-white/5"
+                    >
+                      <td className="py-3 text-white">{dep.name}</td>
+                      <td className="py-3" style={{ color: deviceColor(dep.device_id) }}>{deviceName(dep.device_id)}</td>
+                      <td className="py-3 text-[#a0aec0]">
+                        {formatDay(dep.started_at)} – {dep.ended_at ? formatDay(dep.ended_at) : 'active'}
+                      </td>
+                      <td className="py-3 text-right text-white">{(s?.reading_count ?? 0).toLocaleString()}</td>
+                      <td className="py-3 text-right text-white">{formatTempF(safeC2F(s?.temp_avg))}</td>
+                      <td className="py-3 text-right text-white">{formatPercent(s?.humidity_avg)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {selectedDeployment && (
+        <DeploymentModal
+          deviceId={selectedDeployment.device_id}
+          deviceName={deviceName(selectedDeployment.device_id)}
+          existingDeployment={selectedDeployment}
+          isOpen={!!selectedDeployment}
+          onClose={() => setSelectedDeployment(null)}
+          onDeploymentChange={fetchData}
+        />
+      )}
+    </PageLayout>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { PageLayout } from '@/components/PageLayout';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { LocationForm } from '@/components/LocationForm';
+import { LOCATION_TYPES } from '@/lib/locations';
+import { createLocation, getLocations, type LocationInput, type LocationWithCount } from '@/lib/supabase';
+
+const typeLabel = (value: string) => LOCATION_TYPES.find((t) => t.value === value)?.label ?? value;
+
+export default function LocationsPage() {
+  const [locations, setLocations] = useState<LocationWithCount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+    setLocations(await getLocations());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void fetchData();
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [fetchData]);
+
+  const handleCreate = async (input: LocationInput) => {
+    setError(null);
+    try {
+      await createLocation(input);
+      setShowForm(false);
+      await fetchData();
+    } catch {
+      setError('Could not create location. A location with that name may already exist.');
+    }
+  };
+
+  return (
+    <PageLayout title="Locations" subtitle="Places devices are deployed">
+      <div className="flex flex-wrap items-center gap-4 mb-8">
+        <button
+          onClick={() => setShowForm((v) => !v)}
+          className="btn-glass px-5 py-3 text-sm font-semibold text-white"
+        >
+          {showForm ? 'Close' : '+ New Location'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+          <p className="text-sm text-[#e31a1a]">{error}</p>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="glass-card p-6 mb-8">
+          <LocationForm submitLabel="Create Location" onSubmit={handleCreate} onCancel={() => setShowForm(false)} />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="glass-card p-12">
+          <LoadingSpinner message="Loading locations..." />
+        </div>
+      ) : locations.length === 0 ? (
+        <EmptyState
+          title="No locations yet"
+          subtitle="Locations are created here or when a deployment names a new place"
+        />
+      ) : (
+        <div className="space-y-4">
+          {locations.map((loc) => (
+            <Link
+              key={loc.id}
+              href={`/locations/${loc.id}`}
+              className="glass-card p-6 flex items-center gap-4 hover:border-white/30 transition-all"
+            >
+              <div className="flex-1 min-w-0">
+                <h3 className="text-lg font-semibold text-white truncate">{loc.name}</h3>
+                <p className="text-sm text-[#a0aec0] truncate">
+                  {typeLabel(loc.location_type)}
+                  {loc.description ? <> &bull; {loc.description}</> : null}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm font-medium text-white">{loc.deployment_count.toLocaleString()}</p>
+                <p className="text-xs text-[#a0aec0]">deployment{loc.deployment_count === 1 ? '' : 's'}</p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </PageLayout>
+  );
+}
@@ -1,16 +1,21 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { LiveReadingCard } from '@/components/LiveReadingCard';
 import { DeploymentModal } from '@/components/DeploymentModal';
 import { DeviceManager } from '@/components/DeviceManager';
-import { Reading, Deployment, ChartSample, getActiveDeployment, getDashboardLive } from '@/lib/supabase';
+import { Reading, Deployment, ChartSample, getActiveDeployment, getDashboardLive, readingTime, supabase } from '@/lib/supabase';
 import { DashboardStats } from '@/components/DashboardStats';
 import { DashboardForecast } from '@/components/DashboardForecast';
 import { useSetChatPageContext } from '@/lib/chatContext';
-import { REFRESH_INTERVAL, STALE_THRESHOLD_MS } from '@/lib/constants';
+import { LIVE_REFRESH_INTERVAL, REFRESH_INTERVAL, STALE_THRESHOLD_MS } from '@/lib/constants';
 import { useDevices } from '@/contexts/DevicesContext';
 import { PageLayout } from '@/components/PageLayout';
+import { CalibrationToggle } from '@/components/CalibrationToggle';
+import { RealtimeIndicator } from '@/components/RealtimeIndicator';
+import { useRealtimeReadings } from '@/hooks/useRealtimeReadings';
+import { createSupabaseReadingsFeed, isNewerReading, mergeReadingIntoSparkline } from '@/lib/realtime';
+import { applyCalibrationToReading } from '@/lib/calibration';
 
 function getGridClasses(count: number): string {
   if (count <= 1) return 'grid-cols-1 max-w-2xl mx-auto';
@@ -28,8 +33,11 @@ interface DeviceData {
 
 const emptyDevice: DeviceData = { reading: null, deployment: null, weather: null, sparkline: [] };
 
+const SPARKLINE_HOURS = 6;
+const SPARKLINE_BUCKET_MINUTES = 15;
+
 export default function Dashboard() {
-  const { devices } = useDevices();
+  const { devices, calibrations } = useDevices();
   const [deviceData, setDeviceData] = useState<Record<string, DeviceData>>(() =>
     Object.fromEntries(devices.map(d => [d.id, emptyDevice]))
   );
@@ -45,9 +53,9 @@ export default function Dashboard() {
   }, [setPageContext]);
 
   const fetchLiveData = useCallback(async () => {
-    const sixHoursAgo = new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString();
+    const sparklineStart = new Date(Date.now() - SPARKLINE_HOURS * 60 * 60 * 1000).toISOString();
     const ids = devices.map(d => d.id);
-    const live = await getDashboardLive(ids, sixHoursAgo, 15);
+    const live = await getDashboardLive(ids, sparklineStart, SPARKLINE_BUCKET_MINUTES, calibrations);
 
     setDeviceData(prev => {
       const next = { ...prev };
@@ -63,7 +71,36 @@ export default function Dashboard() {
     });
     setLastRefresh(new Date());
     setIsLoading(false);
-  }, [devices]);
+  }, [devices, calibrations]);
+
+  const handleInsert = useCallback((raw: Reading) => {
+    const isWeather = raw.device_id.startsWith('weather_');
+    const deviceId = isWeather ? raw.device_id.slice('weather_'.length) : raw.device_id;
+    if (!devices.some(d => d.id === deviceId)) return;
+
+    const reading = isWeather ? raw : applyCalibrationToReading(raw, calibrations);
+    setDeviceData(prev => {
+      const current = prev[deviceId] ?? emptyDevice;
+      if (isWeather) {
+        // Weather backfill inserts historical rows; keep the latest observation.
+        if (!isNewerReading(reading, current.weather)) return prev;
+        return { ...prev, [deviceId]: { ...current, weather: reading } };
+      }
+      const windowStartMs = Date.now() - SPARKLINE_HOURS * 60 * 60 * 1000;
+      return {
+        ...prev,
+        [deviceId]: {
+          ...current,
+          reading: isNewerReading(reading, current.reading) ? reading : current.reading,
+          sparkline: mergeReadingIntoSparkline(current.sparkline, reading, SPARKLINE_BUCKET_MINUTES, windowStartMs),
+        },
+      };
+    });
+    setLastRefresh(new Date());
+  }, [devices, calibrations]);
+
+  const readingsFeed = useMemo(() => createSupabaseReadingsFeed(supabase), []);
+  const realtimeMode = useRealtimeReadings(readingsFeed, handleInsert, fetchLiveData);
 
   const fetchDeployments = useCallback(async () => {
     const updates: Record<string, Deployment | null> = {};
@@ -88,14 +125,17 @@ export default function Dashboard() {
       void fetchLiveData();
       void fetchDeployments();
     }, 0);
+    return () => clearTimeout(initialTimer);
+  }, [fetchLiveData, fetchDeployments]);
+
+  // Poll at the normal rate until realtime is live; afterwards only a slow
+  // safety refresh keeps staleness checks honest when no inserts arrive.
+  useEffect(() => {
     const interval = setInterval(() => {
       void fetchLiveData();
-    }, REFRESH_INTERVAL);
-    return () => {
-      clearTimeout(initialTimer);
-      clearInterval(interval);
-    };
-  }, [fetchLiveData, fetchDeployments]);
+    }, realtimeMode === 'live' ? LIVE_REFRESH_INTERVAL : REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchLiveData, realtimeMode]);
 
   const handleDeploymentChange = () => {
     fetchDeployments();
@@ -104,12 +144,14 @@ export default function Dashboard() {
   const selectedReading = selectedDevice ? deviceData[selectedDevice.id]?.reading : null;
   const selectedDeviceConnected =
     selectedReading && lastRefresh
-      ? lastRefresh.getTime() - new Date(selectedReading.created_at).getTime() < STALE_THRESHOLD_MS
+      ? lastRefresh.getTime() - new Date(readingTime(selectedReading)).getTime() < STALE_THRESHOLD_MS
       : false;
 
   return (
     <PageLayout title="Dashboard" subtitle="Real-time temperature & humidity monitoring">
-      <div className="flex justify-end mb-4">
+      <div className="flex justify-end items-center gap-3 mb-4">
+        <RealtimeIndicator mode={realtimeMode} />
+        <CalibrationToggle compact />
         <button
           onClick={() => setShowDeviceManager(true)}
           className="btn-glass px-3 py-1.5 text-xs text-[#a0aec0] hover:text-white transition-colors flex items-center gap-1.5"
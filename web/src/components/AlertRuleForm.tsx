@@ -0,0 +1,308 @@
+'use client';
+
+import { useState } from 'react';
+import type {
+  AlertOperator,
+  AlertRule,
+  AlertRuleInput,
+  AlertRuleType,
+  AlertSeverity,
+  Deployment,
+  Device,
+  MetricDefinition,
+} from '@/lib/supabase';
+import { ALERT_SEVERITIES } from '@/lib/alertRules';
+import { displayUnit, fromDisplayDelta, fromDisplayValue, toDisplayDelta, toDisplayValue } from '@/lib/metrics';
+
+interface AlertRuleFormState {
+  name: string;
+  rule_type: AlertRuleType;
+  metric: string;
+  operator: AlertOperator;
+  threshold: string; // display units
+  duration_minutes: string;
+  scope: string; // 'all' | 'device:<id>' | 'deployment:<id>'
+  severity: AlertSeverity;
+  enabled: boolean;
+}
+
+// Weather rows only carry temperature and humidity.
+const WEATHER_METRICS = ['temperature', 'humidity'];
+
+const inputClass =
+  'w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/30 focus:outline-none focus:border-[#0075ff]/50';
+
+function formFromRule(rule: AlertRule | undefined): AlertRuleFormState {
+  if (!rule) {
+    return {
+      name: '',
+      rule_type: 'threshold',
+      metric: 'temperature',
+      operator: 'above',
+      threshold: '',
+      duration_minutes: '0',
+      scope: 'all',
+      severity: 'warning',
+      enabled: true,
+    };
+  }
+  const threshold =
+    rule.rule_type === 'weather_deviation'
+      ? toDisplayDelta(rule.metric, rule.threshold)
+      : toDisplayValue(rule.metric, rule.threshold);
+  return {
+    name: rule.name,
+    rule_type: rule.rule_type,
+    metric: rule.metric,
+    operator: rule.operator,
+    threshold: String(Number(threshold.toFixed(2))),
+    duration_minutes: String(rule.duration_minutes),
+    scope: rule.deployment_id !== null
+      ? `deployment:${rule.deployment_id}`
+      : rule.device_id !== null
+      ? `device:${rule.device_id}`
+      : 'all',
+    severity: rule.severity,
+    enabled: rule.enabled,
+  };
+}
+
+function parseAlertRuleForm(form: AlertRuleFormState): AlertRuleInput | string {
+  const name = form.name.trim();
+  if (!name) return 'Rule name is required.';
+
+  const threshold = Number(form.threshold);
+  if (form.threshold.trim() === '' || !Number.isFinite(threshold)) return 'Threshold must be a number.';
+  if (form.rule_type === 'weather_deviation' && threshold < 0) return 'Deviation must not be negative.';
+
+  const duration = Number(form.duration_minutes);
+  if (!Number.isInteger(duration) || duration < 0 || duration > 1440) {
+    return 'Duration must be a whole number of minutes between 0 and 1440.';
+  }
+
+  const [scopeType, scopeId] = form.scope.split(':');
+  return {
+    name,
+    rule_type: form.rule_type,
+    metric: form.metric,
+    operator: form.operator,
+    threshold:
+      form.rule_type === 'weather_deviation'
+        ? fromDisplayDelta(form.metric, threshold)
+        : fromDisplayValue(form.metric, threshold),
+    duration_minutes: duration,
+    device_id: scopeType === 'device' ? scopeId : null,
+    deployment_id: scopeType === 'deployment' ? Number(scopeId) : null,
+    severity: form.severity,
+    enabled: form.enabled,
+  };
+}
+
+interface AlertRuleFormProps {
+  rule?: AlertRule;
+  metrics: MetricDefinition[];
+  devices: Device[];
+  deployments: Deployment[];
+  onSave: (input: AlertRuleInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function AlertRuleForm({ rule, metrics, devices, deployments, onSave, onCancel }: AlertRuleFormProps) {
+  const [form, setForm] = useState<AlertRuleFormState>(() => formFromRule(rule));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDeviation = form.rule_type === 'weather_deviation';
+  const metricOptions = isDeviation ? metrics.filter((m) => WEATHER_METRICS.includes(m.key)) : metrics;
+  const selectedMetric = metrics.find((m) => m.key === form.metric);
+  const unit = selectedMetric ? displayUnit(selectedMetric) : '';
+
+  const update = <K extends keyof AlertRuleFormState>(key: K, value: AlertRuleFormState[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleTypeChange = (ruleType: AlertRuleType) => {
+    setForm((prev) => ({
+      ...prev,
+      rule_type: ruleType,
+      metric: ruleType === 'weather_deviation' && !WEATHER_METRICS.includes(prev.metric) ? 'temperature' : prev.metric,
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const parsed = parseAlertRuleForm(form);
+    if (typeof parsed === 'string') {
+      setError(parsed);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(parsed);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed to save rule.';
+      setError(msg);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass-card p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-white">{rule ? 'Edit Rule' : 'New Rule'}</h3>
+
+      {error && (
+        <div className="p-3 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+          <p className="text-sm text-[#e31a1a]">{error}</p>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="rule-name" className="block text-sm text-[#a0aec0] mb-1">Name</label>
+        <input
+          id="rule-name"
+          type="text"
+          value={form.name}
+          onChange={(e) => update('name', e.target.value)}
+          placeholder="Greenhouse too hot"
+          className={inputClass}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="rule-type" className="block text-sm text-[#a0aec0] mb-1">Type</label>
+          <select
+            id="rule-type"
+            value={form.rule_type}
+            onChange={(e) => handleTypeChange(e.target.value as AlertRuleType)}
+            className={inputClass}
+          >
+            <option value="threshold">Threshold</option>
+            <option value="weather_deviation">Deviation from weather</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="rule-metric" className="block text-sm text-[#a0aec0] mb-1">Metric</label>
+          <select
+            id="rule-metric"
+            value={form.metric}
+            onChange={(e) => update('metric', e.target.value)}
+            className={inputClass}
+          >
+            {metricOptions.map((m) => (
+              <option key={m.key} value={m.key}>{m.display_name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="rule-operator" className="block text-sm text-[#a0aec0] mb-1">Condition</label>
+          <select
+            id="rule-operator"
+            value={form.operator}
+            onChange={(e) => update('operator', e.target.value as AlertOperator)}
+            className={inputClass}
+          >
+            <option value="above">{isDeviation ? 'More than' : 'Above'}</option>
+            <option value="below">{isDeviation ? 'Less than' : 'Below'}</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="rule-threshold" className="block text-sm text-[#a0aec0] mb-1">
+            {isDeviation ? 'Deviation' : 'Threshold'}{unit ? ` (${unit})` : ''}
+          </label>
+          <input
+            id="rule-threshold"
+            type="number"
+            step="any"
+            value={form.threshold}
+            onChange={(e) => update('threshold', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="rule-duration" className="block text-sm text-[#a0aec0] mb-1">For (minutes)</label>
+          <input
+            id="rule-duration"
+            type="number"
+            min={0}
+            max={1440}
+            step={1}
+            value={form.duration_minutes}
+            onChange={(e) => update('duration_minutes', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="rule-severity" className="block text-sm text-[#a0aec0] mb-1">Severity</label>
+          <select
+            id="rule-severity"
+            value={form.severity}
+            onChange={(e) => update('severity', e.target.value as AlertSeverity)}
+            className={inputClass}
+          >
+            {ALERT_SEVERITIES.map((s) => (
+              <option key={s} value={s}>{s.charAt(0).toUpperCase() + s.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="rule-scope" className="block text-sm text-[#a0aec0] mb-1">Applies to</label>
+        <select
+          id="rule-scope"
+          value={form.scope}
+          onChange={(e) => update('scope', e.target.value)}
+          className={inputClass}
+        >
+          <option value="all">All monitored devices</option>
+          <optgroup label="Device">
+            {devices.map((d) => (
+              <option key={d.id} value={`device:${d.id}`}>{d.display_name}</option>
+            ))}
+          </optgroup>
+          {deployments.length > 0 && (
+            <optgroup label="Active deployment">
+              {deployments.map((d) => (
+                <option key={d.id} value={`deployment:${d.id}`}>{d.name} ({d.device_id})</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <p className="text-xs text-[#a0aec0]/60 mt-1">
+          Deployment rules only check readings taken while the deployment is active.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-[#a0aec0]">
+        <input
+          type="checkbox"
+          checked={form.enabled}
+          onChange={(e) => update('enabled', e.target.checked)}
+        />
+        Enabled
+      </label>
+
+      <div className="flex gap-3 pt-2">
+        <button
+          onClick={handleSubmit}
+          disabled={isSaving}
+          className="btn-glass px-5 py-2 text-sm font-semibold text-white disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Rule'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium text-[#a0aec0] hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -8,17 +8,21 @@ import {
   ReactNode,
 } from 'react';
 import { Session, User } from '@supabase/supabase-js';
-import { getSession, onAuthStateChange } from '@/lib/auth';
+import { getCurrentRole, getSession, onAuthStateChange } from '@/lib/auth';
+import type { AppRole } from '@/lib/supabase';
 
 interface AuthContextType {
   session: Session | null;
   user: User | null;
+  /** Null while signed out or until the role has loaded. */
+  role: AppRole | null;
   loading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType>({
   session: null,
   user: null,
+  role: null,
   loading: true,
 });
 
@@ -37,6 +41,8 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [roleState, setRoleState] = useState<{ userId: string; role: AppRole } | null>(null);
+  const userId = session?.user?.id ?? null;
 
   useEffect(() => {
     getSession().then((session) => {
@@ -56,9 +62,21 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
   }, []);
 
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    getCurrentRole().then((role) => {
+      if (!cancelled) setRoleState({ userId, role });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
   const value: AuthContextType = {
     session,
     user: session?.user ?? null,
+    role: roleState && roleState.userId === userId ? roleState.role : null,
     loading,
   };
 
@@ -0,0 +1,317 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  DeploymentStartResult,
+  DeploymentTemplate,
+  startDeployments,
+  getDeploymentTemplates,
+  createDeploymentTemplate,
+  deleteDeploymentTemplate,
+  getLocations,
+} from '@/lib/supabase';
+import { isValidOptionalWeatherLocation, parseWeatherLocation, toLocationFields } from '@/lib/weatherLocation';
+import {
+  describeStartResult,
+  formFieldsToTemplate,
+  templateToFormFields,
+  type DeploymentFormFields,
+} from '@/lib/deploymentTemplates';
+import { useDevices } from '@/contexts/DevicesContext';
+
+interface BulkDeploymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDeploymentChange: () => void;
+}
+
+const EMPTY_FIELDS: DeploymentFormFields = { name: '', location: '', notes: '', weather_location: '' };
+
+const inputClass = 'w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-[#a0aec0]/50 focus:outline-none focus:border-white/40 transition-colors';
+
+/**
+ * Starts a deployment on several devices at once with shared metadata,
+ * optionally filled from (or saved as) a deployment template.
+ */
+export function BulkDeploymentModal({ isOpen, onClose, onDeploymentChange }: BulkDeploymentModalProps) {
+  const { devices } = useDevices();
+  const [templates, setTemplates] = useState<DeploymentTemplate[]>([]);
+  const [locationNames, setLocationNames] = useState<string[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [selectedDeviceIds, setSelectedDeviceIds] = useState<string[]>([]);
+  const [fields, setFields] = useState<DeploymentFormFields>(EMPTY_FIELDS);
+  const [startedAt, setStartedAt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [results, setResults] = useState<DeploymentStartResult[] | null>(null);
+
+  const isLocationValid = isValidOptionalWeatherLocation(fields.weather_location);
+  const isFormValid = selectedDeviceIds.length > 0 && fields.name.trim() !== '' && fields.location.trim() !== '' && isLocationValid;
+  const activeDevices = devices.filter((d) => d.is_active);
+  const deviceName = (id: string) => devices.find((d) => d.id === id)?.display_name || id;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    void Promise.all([getDeploymentTemplates(), getLocations()]).then(([templateRows, locationRows]) => {
+      if (cancelled) return;
+      setTemplates(templateRows);
+      setLocationNames(locationRows.map((l) => l.name));
+    });
+    return () => { cancelled = true; };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    document.body.style.overflow = 'hidden';
+    return () => { document.body.style.overflow = ''; };
+  }, [isOpen]);
+
+  const toggleDevice = (id: string) => {
+    setSelectedDeviceIds((prev) => (prev.includes(id) ? prev.filter((d) => d !== id) : [...prev, id]));
+  };
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((t) => String(t.id) === id);
+    if (template) setFields(templateToFormFields(template));
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim() || !fields.name.trim() || !fields.location.trim() || !isLocationValid) return;
+    setActionError(null);
+    setIsSaving(true);
+    try {
+      const saved = await createDeploymentTemplate(formFieldsToTemplate(templateName, fields));
+      if (saved) {
+        setTemplates((prev) => [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+        setTemplateId(String(saved.id));
+        setTemplateName('');
+      }
+    } catch {
+      setActionError('Could not save template. Template names must be unique.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    const id = Number(templateId);
+    if (!id) return;
+    setActionError(null);
+    setIsSaving(true);
+    const deleted = await deleteDeploymentTemplate(id);
+    if (deleted) {
+      setTemplates((prev) => prev.filter((t) => t.id !== id));
+      setTemplateId('');
+    } else {
+      setActionError('Could not delete template. Please try again.');
+    }
+    setIsSaving(false);
+  };
+
+  const handleStart = async () => {
+    if (!isFormValid) return;
+    setActionError(null);
+    setResults(null);
+    setIsSaving(true);
+    try {
+      const started = await startDeployments({
+        device_ids: selectedDeviceIds,
+        name: fields.name.trim(),
+        location: fields.location.trim(),
+        notes: fields.notes.trim() || undefined,
+        ...toLocationFields(parseWeatherLocation(fields.weather_location)),
+        started_at: startedAt ? new Date(startedAt).toISOString() : undefined,
+      });
+      setResults(started);
+      if (started.some((r) => r.deployment_id !== null)) onDeploymentChange();
+      // Keep conflicting devices selected so they can be retried with a later start.
+      setSelectedDeviceIds(started.filter((r) => r.conflict).map((r) => r.device_id));
+    } catch (err) {
+      // Supabase rejects with a PostgrestError, which is not an Error instance.
+      const message = (err as { message?: string } | null)?.message || 'unknown error';
+      setActionError(`Could not start deployments: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative glass-card w-full max-w-lg mx-4 max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-8 overflow-y-auto scrollbar-thin">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Start Deployments</h2>
+            <p className="text-sm text-[#a0aec0]">One deployment per device, with shared details</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="text-[#a0aec0] hover:text-white transition-colors p-2">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {actionError && (
+          <div className="mb-6 p-4 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+            <p className="text-sm text-[#e31a1a]">{actionError}</p>
+          </div>
+        )}
+
+        {results && (
+          <div className="mb-6 p-4 rounded-xl bg-white/5 border border-white/10" aria-live="polite">
+            <ul className="space-y-1 text-sm">
+              {results.map((r) => (
+                <li key={r.device_id} className={r.conflict ? 'text-[#e31a1a]' : 'text-[#01b574]'}>
+                  {describeStartResult(r, deviceName(r.device_id))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <fieldset>
+            <legend className="block text-sm text-[#a0aec0] mb-2">Devices</legend>
+            <div className="grid grid-cols-2 gap-2">
+              {activeDevices.map((d) => (
+                <label key={d.id} className="flex items-center gap-2 text-sm text-white">
+                  <input
+                    type="checkbox"
+                    checked={selectedDeviceIds.includes(d.id)}
+                    onChange={() => toggleDevice(d.id)}
+                  />
+                  {d.display_name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div>
+            <label htmlFor="bulk-template" className="block text-sm text-[#a0aec0] mb-2">Template</label>
+            <div className="flex gap-3">
+              <select
+                id="bulk-template"
+                value={templateId}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+              {templateId && (
+                <button
+                  onClick={handleDeleteTemplate}
+                  disabled={isSaving}
+                  className="px-3 py-2 text-sm font-medium text-[#e31a1a] hover:text-[#ff4444] transition-colors disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-[#a0aec0] mb-2">Name</label>
+            <input
+              type="text"
+              value={fields.name}
+              onChange={(e) => setFields({ ...fields, name: e.target.value })}
+              className={inputClass}
+              placeholder="e.g., Kitchen Test Week 1"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-[#a0aec0] mb-2">Location</label>
+            <datalist id="bulk-deployment-locations">
+              {locationNames.map((name) => <option key={name} value={name} />)}
+            </datalist>
+            <input
+              type="text"
+              value={fields.location}
+              list="bulk-deployment-locations"
+              onChange={(e) => setFields({ ...fields, location: e.target.value })}
+              className={inputClass}
+              placeholder="e.g., Kitchen"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-[#a0aec0] mb-2">Notes (optional)</label>
+            <textarea
+              value={fields.notes}
+              onChange={(e) => setFields({ ...fields, notes: e.target.value })}
+              className={`${inputClass} resize-none`}
+              rows={3}
+              placeholder="Any additional context..."
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-[#a0aec0] mb-2">Weather Location</label>
+            <input
+              type="text"
+              value={fields.weather_location}
+              onChange={(e) => setFields({ ...fields, weather_location: e.target.value })}
+              className={inputClass}
+              placeholder="85142, M5V 3L9, CA or 43.65, -79.38"
+            />
+            {!isLocationValid && (
+              <p className="text-xs text-[#e31a1a] mt-2">
+                Enter a US ZIP (12345 or 12345-6789), a postal code and country (M5V 3L9, CA), or latitude, longitude.
+              </p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="bulk-started-at" className="block text-sm text-[#a0aec0] mb-2">Start Time (optional)</label>
+            <input
+              id="bulk-started-at"
+              type="datetime-local"
+              value={startedAt}
+              onChange={(e) => setStartedAt(e.target.value)}
+              className={inputClass}
+            />
+            <p className="text-xs text-[#a0aec0]/70 mt-2">
+              Defaults to now. Each device&apos;s active deployment ends at this time.
+            </p>
+          </div>
+
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              className={inputClass}
+              placeholder="Template name"
+              aria-label="Template name"
+            />
+            <button
+              onClick={handleSaveTemplate}
+              disabled={isSaving || !templateName.trim() || !fields.name.trim() || !fields.location.trim() || !isLocationValid}
+              className="btn-glass px-4 py-2 text-sm font-semibold text-[#0075ff] whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save as Template
+            </button>
+          </div>
+
+          <button
+            onClick={handleStart}
+            disabled={isSaving || !isFormValid}
+            className="btn-glass w-full px-6 py-3 text-white text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving
+              ? 'Starting...'
+              : `Start ${selectedDeviceIds.length} Deployment${selectedDeviceIds.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+        </div>
+      </div>
+    </div>
+  );
+}
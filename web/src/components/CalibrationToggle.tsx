@@ -0,0 +1,38 @@
+'use client';
+
+import { useDevices } from '@/contexts/DevicesContext';
+
+interface CalibrationToggleProps {
+  compact?: boolean;
+}
+
+export function CalibrationToggle({ compact = false }: CalibrationToggleProps) {
+  const { calibrationEnabled, setCalibrationEnabled } = useDevices();
+  const options = [
+    { label: 'Calibrated', value: true },
+    { label: 'Raw', value: false },
+  ];
+
+  return (
+    <div
+      className={compact ? 'flex gap-1' : 'glass-card p-2 flex gap-1'}
+      role="group"
+      aria-label="Sensor values"
+    >
+      {options.map((option) => (
+        <button
+          key={option.label}
+          onClick={() => setCalibrationEnabled(option.value)}
+          aria-pressed={calibrationEnabled === option.value}
+          className={`${compact ? 'px-3 py-1.5 text-xs' : 'px-5 py-2.5 text-sm'} rounded-xl transition-all ${
+            calibrationEnabled === option.value
+              ? 'nav-active text-white font-semibold'
+              : 'text-[#a0aec0] hover:text-white hover:bg-white/5'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
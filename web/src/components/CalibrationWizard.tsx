@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DeploymentWithCount, getDeployments, celsiusDeltaToFahrenheit } from '@/lib/supabase';
+import type { Calibration } from '@/lib/calibration';
+import { getPyodide } from '@/lib/pyodide';
+import {
+  fitCalibration,
+  loadCalibrationPairs,
+  type CalibrationFit,
+  type ResidualSummary,
+} from '@/lib/calibrationWizard';
+
+interface CalibrationWizardProps {
+  deviceId: string;
+  onSave: (calibration: Calibration) => Promise<void>;
+  onCancel: () => void;
+}
+
+type WizardState =
+  | { status: 'idle' }
+  | { status: 'running'; message: string }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; fit: CalibrationFit };
+
+function ResidualRow({
+  label,
+  before,
+  after,
+  toDisplay,
+  unit,
+}: {
+  label: string;
+  before: ResidualSummary;
+  after: ResidualSummary;
+  toDisplay: (v: number) => number;
+  unit: string;
+}) {
+  const fmt = (v: number) => `${toDisplay(v).toFixed(2)}${unit}`;
+  return (
+    <tr className="border-t border-white/5">
+      <td className="py-1.5 text-[#a0aec0]">{label}</td>
+      <td className="py-1.5 text-white">{fmt(before.bias)} / {fmt(before.rmse)}</td>
+      <td className="py-1.5 text-[#01b574]">{fmt(after.bias)} / {fmt(after.rmse)}</td>
+    </tr>
+  );
+}
+
+export function CalibrationWizard({ deviceId, onSave, onCancel }: CalibrationWizardProps) {
+  const [deployments, setDeployments] = useState<DeploymentWithCount[]>([]);
+  const [deploymentId, setDeploymentId] = useState<number | null>(null);
+  const [state, setState] = useState<WizardState>({ status: 'idle' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    void getDeployments({ deviceId }).then((data) => {
+      if (cancelled) return;
+      setDeployments(data);
+      setDeploymentId(data[0]?.id ?? null);
+    });
+    return () => { cancelled = true; };
+  }, [deviceId]);
+
+  const handleFit = async () => {
+    const deployment = deployments.find((d) => d.id === deploymentId);
+    if (!deployment) return;
+
+    try {
+      setState({ status: 'running', message: 'Pairing sensor and weather readings...' });
+      const pairs = await loadCalibrationPairs(deployment);
+
+      setState({ status: 'running', message: 'Loading Python runtime...' });
+      const pyodide = await getPyodide();
+
+      setState({ status: 'running', message: 'Fitting regression...' });
+      const fit = await fitCalibration(pyodide, pairs);
+      setState({ status: 'ready', fit });
+    } catch (err) {
+      setState({ status: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const handleSave = async () => {
+    if (state.status !== 'ready') return;
+    setIsSaving(true);
+    try {
+      await onSave(state.fit.calibration);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg bg-[#0075ff]/10 border border-[#0075ff]/30">
+      <p className="text-sm text-white font-medium">Fit from weather data</p>
+      <p className="text-xs text-[#a0aec0]">
+        Pairs raw readings with the nearest WeatherAPI observation in a deployment window and fits gain/offset by least squares.
+      </p>
+
+      {deployments.length === 0 ? (
+        <p className="text-xs text-[#a0aec0]/60">No deployments for this device.</p>
+      ) : (
+        <div className="flex gap-2">
+          <select
+            aria-label="Deployment window"
+            value={deploymentId ?? ''}
+            onChange={(e) => {
+              setDeploymentId(parseInt(e.target.value, 10));
+              setState({ status: 'idle' });
+            }}
+            className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:border-[#0075ff]/50"
+          >
+            {deployments.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name} ({d.location})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleFit}
+            disabled={state.status === 'running' || deploymentId === null}
+            className="btn-glass px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Fit
+          </button>
+        </div>
+      )}
+
+      {state.status === 'running' && <p className="text-xs text-[#a0aec0]">{state.message}</p>}
+      {state.status === 'error' && <p className="text-xs text-[#e31a1a]">{state.message}</p>}
+
+      {state.status === 'ready' && (
+        <div className="space-y-2">
+          <p className="text-xs text-[#a0aec0]">
+            {state.fit.n_pairs} pairs · temp ×{state.fit.temperature.gain.toFixed(3)} {state.fit.temperature.offset >= 0 ? '+' : ''}
+            {state.fit.temperature.offset.toFixed(2)}°C (R² {state.fit.temperature.r_squared.toFixed(2)}) · humidity ×
+            {state.fit.humidity.gain.toFixed(3)} {state.fit.humidity.offset >= 0 ? '+' : ''}
+            {state.fit.humidity.offset.toFixed(2)}% (R² {state.fit.humidity.r_squared.toFixed(2)})
+          </p>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[#a0aec0]/80">
+                <th className="font-normal py-1">Residual (bias / RMSE)</th>
+                <th className="font-normal py-1">Before</th>
+                <th className="font-normal py-1">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              <ResidualRow
+                label="Temperature"
+                before={state.fit.residuals.temperature.before}
+                after={state.fit.residuals.temperature.after}
+                toDisplay={celsiusDeltaToFahrenheit}
+                unit="°F"
+              />
+              <ResidualRow
+                label="Humidity"
+                before={state.fit.residuals.humidity.before}
+                after={state.fit.residuals.humidity.after}
+                toDisplay={(v) => v}
+                unit="%"
+              />
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={state.status !== 'ready' || isSaving}
+          className="btn-glass px-4 py-2 text-sm font-semibold text-[#01b574] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save Calibration'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium text-[#a0aec0] hover:text-white transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
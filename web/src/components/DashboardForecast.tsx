@@ -115,7 +115,7 @@ function SkeletonStrip() {
 }
 
 export function DashboardForecast() {
-  const { devices, isLoading: devicesLoading } = useDevices();
+  const { devices, isLoading: devicesLoading, calibrations } = useDevices();
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [forecastState, setForecastState] = useState<ForecastState>({ status: 'loading', message: 'Loading Python runtime...' });
   const [retryKey, setRetryKey] = useState(0);
@@ -145,7 +145,7 @@ export function DashboardForecast() {
         if (cancelled) return;
         setForecastState({ status: 'loading', message: 'Computing forecast...' });
 
-        const points = await runHourlyForecast(pyodide, deviceId);
+        const points = await runHourlyForecast(pyodide, deviceId, calibrations);
         if (cancelled) return;
 
         if (points.length === 0) {
@@ -162,7 +162,7 @@ export function DashboardForecast() {
 
     void run();
     return () => { cancelled = true; };
-  }, [deviceId, retryKey]);
+  }, [deviceId, retryKey, calibrations]);
 
   return (
     <div className="glass-card p-4 sm:p-6 mt-8">
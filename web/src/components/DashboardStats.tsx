@@ -6,7 +6,7 @@ import { safeC2F } from '@/lib/format';
 import { useDevices } from '@/contexts/DevicesContext';
 
 export function DashboardStats() {
-  const { devices } = useDevices();
+  const { devices, calibrations } = useDevices();
   const [stats, setStats] = useState<DeviceStats[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -14,12 +14,12 @@ export function DashboardStats() {
     async function fetch() {
       const now = new Date().toISOString();
       const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-      const data = await getDeviceStats({ start: twentyFourHoursAgo, end: now });
+      const data = await getDeviceStats({ start: twentyFourHoursAgo, end: now, calibrations });
       setStats(data);
       setLoading(false);
     }
     void fetch();
-  }, []);
+  }, [calibrations]);
 
   if (loading) {
     return (
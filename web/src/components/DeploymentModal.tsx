@@ -1,17 +1,34 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import {
   Deployment,
+  DeploymentTemplate,
   Reading,
   getActiveDeployment,
+  getDeploymentTemplates,
+  getLocations,
   createDeployment,
   endDeployment,
   updateDeployment,
-  deleteDeployment,
+  archiveDeployment,
+  restoreDeployment,
+  purgeDeployment,
+  createMaintenanceWindow,
 } from '@/lib/supabase';
-import { isValidOptionalUsZipCode, normalizeUsZipCode } from '@/lib/weatherZip';
+import {
+  formatWeatherLocation,
+  isValidOptionalWeatherLocation,
+  locationFromFields,
+  parseWeatherLocation,
+  toLocationFields,
+} from '@/lib/weatherLocation';
+import { runWeatherBackfill, type BackfillProgress } from '@/lib/weatherBackfill';
+import { templateToFormFields } from '@/lib/deploymentTemplates';
 import { useDevices } from '@/contexts/DevicesContext';
+import { useSession } from '@/components/AuthProvider';
+import { hasRole } from '@/lib/roles';
 
 interface DeploymentModalProps {
   deviceId: string;
@@ -29,24 +46,31 @@ interface FormData {
   location: string;
   notes: string;
   device_id: string;
-  zip_code: string;
+  weather_location: string;
 }
 
 interface EditFormData {
   name: string;
   location: string;
   notes: string;
-  zip_code: string;
+  weather_location: string;
   started_at: string;
   ended_at: string;
 }
 
+const MAINTENANCE_HOURS = [1, 2, 4, 8, 24];
+
 function utcToDatetimeLocal(utcIso: string): string {
   const d = new Date(utcIso);
   const pad = (n: number) => String(n).padStart(2, '0');
   return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
 }
 
+function locationInput(deployment: Deployment): string {
+  const location = locationFromFields(deployment);
+  return location ? formatWeatherLocation(location) : '';
+}
+
 export function DeploymentModal({
   deviceId,
   deviceName,
@@ -58,7 +82,12 @@ export function DeploymentModal({
   onDeploymentChange,
 }: DeploymentModalProps) {
   const { devices } = useDevices();
-  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const { role } = useSession();
+  const canOperate = hasRole(role, 'operator');
+  const canPurge = hasRole(role, 'admin');
+  const [showArchiveConfirm, setShowArchiveConfirm] = useState(false);
+  const [showPurgeConfirm, setShowPurgeConfirm] = useState(false);
+  const [purgeConfirmName, setPurgeConfirmName] = useState('');
   const isDeviceConnected = isDeviceConnectedProp ?? Boolean(reading);
   const isViewingSpecific = !!existingDeployment;
   const [currentDeployment, setCurrentDeployment] = useState<Deployment | null>(null);
@@ -66,10 +95,19 @@ export function DeploymentModal({
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
-  const [formData, setFormData] = useState<FormData>({ name: '', location: '', notes: '', device_id: deviceId, zip_code: '' });
-  const [editFormData, setEditFormData] = useState<EditFormData>({ name: '', location: '', notes: '', zip_code: '', started_at: '', ended_at: '' });
-  const isCreateZipValid = isValidOptionalUsZipCode(formData.zip_code);
-  const isEditZipValid = isValidOptionalUsZipCode(editFormData.zip_code);
+  // Offered after ending a deployment: the node is usually being moved.
+  const [maintenanceOffer, setMaintenanceOffer] = useState<Deployment | null>(null);
+  const [maintenanceHours, setMaintenanceHours] = useState(2);
+  const [maintenanceUntil, setMaintenanceUntil] = useState<string | null>(null);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const [backfill, setBackfill] = useState<BackfillProgress | null>(null);
+  const [backfillError, setBackfillError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<DeploymentTemplate[]>([]);
+  const [locationNames, setLocationNames] = useState<string[]>([]);
+  const [formData, setFormData] = useState<FormData>({ name: '', location: '', notes: '', device_id: deviceId, weather_location: '' });
+  const [editFormData, setEditFormData] = useState<EditFormData>({ name: '', location: '', notes: '', weather_location: '', started_at: '', ended_at: '' });
+  const isCreateLocationValid = isValidOptionalWeatherLocation(formData.weather_location);
+  const isEditLocationValid = isValidOptionalWeatherLocation(editFormData.weather_location);
 
   const fetchDeployment = useCallback(async () => {
     setIsLoading(true);
@@ -79,7 +117,7 @@ export function DeploymentModal({
         name: existingDeployment.name,
         location: existingDeployment.location,
         notes: existingDeployment.notes || '',
-        zip_code: existingDeployment.zip_code || '',
+        weather_location: locationInput(existingDeployment),
         started_at: utcToDatetimeLocal(existingDeployment.started_at),
         ended_at: existingDeployment.ended_at ? utcToDatetimeLocal(existingDeployment.ended_at) : '',
       });
@@ -93,7 +131,7 @@ export function DeploymentModal({
         name: deployment.name,
         location: deployment.location,
         notes: deployment.notes || '',
-        zip_code: deployment.zip_code || '',
+        weather_location: locationInput(deployment),
         started_at: utcToDatetimeLocal(deployment.started_at),
         ended_at: deployment.ended_at ? utcToDatetimeLocal(deployment.ended_at) : '',
       });
@@ -101,14 +139,44 @@ export function DeploymentModal({
     setIsLoading(false);
   }, [deviceId, existingDeployment]);
 
+  useEffect(() => {
+    if (!isOpen || isViewingSpecific) return;
+    let cancelled = false;
+    void getDeploymentTemplates().then((rows) => {
+      if (!cancelled) setTemplates(rows);
+    });
+    return () => { cancelled = true; };
+  }, [isOpen, isViewingSpecific]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    void getLocations().then((rows) => {
+      if (!cancelled) setLocationNames(rows.map((l) => l.name));
+    });
+    return () => { cancelled = true; };
+  }, [isOpen]);
+
+  const handleApplyTemplate = (templateId: string) => {
+    const template = templates.find((t) => String(t.id) === templateId);
+    if (!template) return;
+    setFormData({ ...formData, ...templateToFormFields(template) });
+  };
+
   useEffect(() => {
     if (!isOpen) return;
     const timer = setTimeout(() => {
       void fetchDeployment();
       setIsEditing(false);
-      setShowDeleteConfirm(false);
+      setShowArchiveConfirm(false);
+      setShowPurgeConfirm(false);
+      setPurgeConfirmName('');
       setActionError(null);
-      setFormData({ name: '', location: '', notes: '', device_id: deviceId, zip_code: '' });
+      setMaintenanceOffer(null);
+      setMaintenanceUntil(null);
+      setBackfill(null);
+      setBackfillError(null);
+      setFormData({ name: '', location: '', notes: '', device_id: deviceId, weather_location: '' });
     }, 0);
     return () => clearTimeout(timer);
   }, [deviceId, fetchDeployment, isOpen]);
@@ -125,13 +193,51 @@ export function DeploymentModal({
     }
     setCurrentDeployment(isViewingSpecific ? ended : null);
     setIsEditing(false);
+    setMaintenanceOffer(ended);
+    setMaintenanceUntil(null);
     onDeploymentChange();
     setIsSaving(false);
   };
 
+  const handleStartMaintenance = async () => {
+    if (!maintenanceOffer) return;
+    setActionError(null);
+    setIsSaving(true);
+    const startsAt = new Date();
+    const endsAt = new Date(startsAt.getTime() + maintenanceHours * 60 * 60 * 1000);
+    try {
+      await createMaintenanceWindow({
+        device_id: maintenanceOffer.device_id,
+        deployment_id: maintenanceOffer.id,
+        reason: `Ended ${maintenanceOffer.name}`,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt.toISOString(),
+      });
+      setMaintenanceOffer(null);
+      setMaintenanceUntil(endsAt.toISOString());
+    } catch {
+      setActionError('Could not start maintenance window. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBackfillWeather = async () => {
+    if (!currentDeployment) return;
+    setIsBackfilling(true);
+    setBackfill(null);
+    setBackfillError(null);
+    try {
+      await runWeatherBackfill(currentDeployment.id, setBackfill);
+    } catch (err) {
+      setBackfillError(err instanceof Error ? err.message : String(err));
+    }
+    setIsBackfilling(false);
+  };
+
   const handleStartDeployment = async () => {
     if (!formData.device_id || !formData.name.trim() || !formData.location.trim()) return;
-    if (!isCreateZipValid) return;
+    if (!isCreateLocationValid) return;
     setActionError(null);
     setIsSaving(true);
 
@@ -151,7 +257,7 @@ export function DeploymentModal({
       name: formData.name.trim(),
       location: formData.location.trim(),
       notes: formData.notes.trim() || undefined,
-      zip_code: normalizeUsZipCode(formData.zip_code) || undefined,
+      ...toLocationFields(parseWeatherLocation(formData.weather_location)),
     });
 
     if (!newDeployment) {
@@ -165,11 +271,11 @@ export function DeploymentModal({
       name: newDeployment.name,
       location: newDeployment.location,
       notes: newDeployment.notes || '',
-      zip_code: newDeployment.zip_code || '',
+      weather_location: locationInput(newDeployment),
       started_at: utcToDatetimeLocal(newDeployment.started_at),
       ended_at: newDeployment.ended_at ? utcToDatetimeLocal(newDeployment.ended_at) : '',
     });
-    setFormData({ name: '', location: '', notes: '', device_id: deviceId, zip_code: '' });
+    setFormData({ name: '', location: '', notes: '', device_id: deviceId, weather_location: '' });
     onDeploymentChange();
     setIsSaving(false);
   };
@@ -180,7 +286,7 @@ export function DeploymentModal({
     if (!currentDeployment) return;
     if (!editFormData.name.trim() || !editFormData.location.trim()) return;
     if (!editFormData.started_at || !isEditTimeValid) return;
-    if (!isEditZipValid) return;
+    if (!isEditLocationValid) return;
     setActionError(null);
     setIsSaving(true);
 
@@ -188,7 +294,7 @@ export function DeploymentModal({
       name: editFormData.name.trim(),
       location: editFormData.location.trim(),
       notes: editFormData.notes.trim() || null,
-      zip_code: normalizeUsZipCode(editFormData.zip_code),
+      ...toLocationFields(parseWeatherLocation(editFormData.weather_location)),
       started_at: new Date(editFormData.started_at).toISOString(),
       ended_at: editFormData.ended_at ? new Date(editFormData.ended_at).toISOString() : null,
     });
@@ -205,22 +311,56 @@ export function DeploymentModal({
     setIsSaving(false);
   };
 
-  const handleDeleteDeployment = async () => {
+  const handleArchiveDeployment = async () => {
     if (!currentDeployment) return;
     setActionError(null);
     setIsSaving(true);
-    const deleted = await deleteDeployment(currentDeployment.id);
-    if (!deleted) {
-      setActionError('Could not delete deployment. Please try again.');
+    const archived = await archiveDeployment(currentDeployment.id);
+    if (!archived) {
+      setActionError('Could not archive deployment. Please try again.');
       setIsSaving(false);
       return;
     }
-    setCurrentDeployment(null);
-    setShowDeleteConfirm(false);
+    // Opened on one deployment, stay on it so it can be restored or purged;
+    // opened on a device, it no longer has an active deployment.
+    setCurrentDeployment(isViewingSpecific ? archived : null);
+    setShowArchiveConfirm(false);
     onDeploymentChange();
     setIsSaving(false);
   };
 
+  const handleRestoreDeployment = async () => {
+    if (!currentDeployment) return;
+    setActionError(null);
+    setIsSaving(true);
+    const restored = await restoreDeployment(currentDeployment.id);
+    if (!restored) {
+      setActionError('Could not restore deployment. Another deployment may now cover the same time window.');
+      setIsSaving(false);
+      return;
+    }
+    setCurrentDeployment(restored);
+    onDeploymentChange();
+    setIsSaving(false);
+  };
+
+  const handlePurgeDeployment = async () => {
+    if (!currentDeployment || purgeConfirmName !== currentDeployment.name) return;
+    setActionError(null);
+    setIsSaving(true);
+    try {
+      await purgeDeployment(currentDeployment.id, purgeConfirmName);
+    } catch (err) {
+      const message = (err as { message?: string })?.message;
+      setActionError(`Could not purge deployment${message ? `: ${message}` : '.'}`);
+      setIsSaving(false);
+      return;
+    }
+    setIsSaving(false);
+    onDeploymentChange();
+    onClose();
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString([], {
@@ -260,6 +400,10 @@ export function DeploymentModal({
 
       <div className="relative glass-card w-full max-w-lg mx-4 max-h-[90vh] overflow-hidden flex flex-col">
         <div className="p-8 overflow-y-auto scrollbar-thin">
+        {/* Picking an existing name reuses that location; a new name creates one. */}
+        <datalist id="deployment-locations">
+          {locationNames.map((name) => <option key={name} value={name} />)}
+        </datalist>
         <div className="flex items-center justify-between mb-6">
           <div>
             <h2 className="text-2xl font-bold text-white">Manage Deployment</h2>
@@ -285,6 +429,45 @@ export function DeploymentModal({
           </div>
         )}
 
+        {maintenanceOffer && (
+          <div className="mb-6 p-4 rounded-xl bg-[#0075ff]/10 border border-[#0075ff]/30">
+            <p className="text-sm text-white mb-3">
+              Moving this node? Hold back offline and recovery alerts for it while it is unplugged.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                aria-label="Maintenance duration"
+                value={maintenanceHours}
+                onChange={(e) => setMaintenanceHours(Number(e.target.value))}
+                className="px-3 py-2 rounded-xl bg-white/5 border border-white/20 text-white text-sm focus:outline-none focus:border-white/40 transition-colors"
+              >
+                {MAINTENANCE_HOURS.map((h) => (
+                  <option key={h} value={h}>{h} hour{h === 1 ? '' : 's'}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleStartMaintenance}
+                disabled={isSaving}
+                className="btn-glass px-4 py-2 text-sm font-semibold text-[#0075ff] disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Start Maintenance
+              </button>
+              <button
+                onClick={() => setMaintenanceOffer(null)}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm text-[#a0aec0] hover:text-white transition-colors"
+              >
+                Not now
+              </button>
+            </div>
+          </div>
+        )}
+        {maintenanceUntil && (
+          <div className="mb-6 p-4 rounded-xl bg-[#01b574]/10 border border-[#01b574]/30">
+            <p className="text-sm text-[#01b574]">Alerts paused until {formatDate(maintenanceUntil)}.</p>
+          </div>
+        )}
+
         {isLoading ? (
           <div className="space-y-4">
             <div className="skeleton h-6 w-3/4"></div>
@@ -296,7 +479,12 @@ export function DeploymentModal({
             {currentDeployment && (
               <div className="mb-8">
                 <div className="flex items-center gap-2 mb-4">
-                  {currentDeployment.ended_at ? (
+                  {currentDeployment.archived_at ? (
+                    <>
+                      <div className="w-2 h-2 rounded-full bg-[#e31a1a]/60" />
+                      <h3 className="text-lg font-semibold text-white">Archived Deployment</h3>
+                    </>
+                  ) : currentDeployment.ended_at ? (
                     <>
                       <div className="w-2 h-2 rounded-full bg-[#a0aec0]/40" />
                       <h3 className="text-lg font-semibold text-white">Ended Deployment</h3>
@@ -326,6 +514,7 @@ export function DeploymentModal({
                       <input
                         type="text"
                         value={editFormData.location}
+                        list="deployment-locations"
                         onChange={(e) => setEditFormData({ ...editFormData, location: e.target.value })}
                         className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-[#a0aec0]/50 focus:outline-none focus:border-white/40 transition-colors"
                         placeholder="Location"
@@ -342,17 +531,17 @@ export function DeploymentModal({
                       />
                     </div>
                     <div>
-                      <label className="block text-sm text-[#a0aec0] mb-2">Zip Code (for weather)</label>
+                      <label className="block text-sm text-[#a0aec0] mb-2">Weather Location</label>
                       <input
                         type="text"
-                        value={editFormData.zip_code}
-                        onChange={(e) => setEditFormData({ ...editFormData, zip_code: e.target.value })}
+                        value={editFormData.weather_location}
+                        onChange={(e) => setEditFormData({ ...editFormData, weather_location: e.target.value })}
                         className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-[#a0aec0]/50 focus:outline-none focus:border-white/40 transition-colors"
-                        placeholder="e.g., 85142"
+                        placeholder="85142, M5V 3L9, CA or 43.65, -79.38"
                       />
-                      {!isEditZipValid && (
+                      {!isEditLocationValid && (
                         <p className="text-xs text-[#e31a1a] mt-2">
-                          Enter a valid US ZIP (12345 or 12345-6789).
+                          Enter a US ZIP (12345 or 12345-6789), a postal code and country (M5V 3L9, CA), or latitude, longitude.
                         </p>
                       )}
                     </div>
@@ -392,7 +581,7 @@ export function DeploymentModal({
                     <div className="flex gap-3">
                       <button
                         onClick={handleSaveEdit}
-                        disabled={isSaving || !editFormData.name.trim() || !editFormData.location.trim() || !editFormData.started_at || !isEditTimeValid || !isEditZipValid}
+                        disabled={isSaving || !editFormData.name.trim() || !editFormData.location.trim() || !editFormData.started_at || !isEditTimeValid || !isEditLocationValid}
                         className="btn-glass px-4 py-2 text-sm font-semibold text-[#01b574] disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         {isSaving ? 'Saving...' : 'Save'}
@@ -412,7 +601,13 @@ export function DeploymentModal({
                 ) : (
                   <div className="p-5 rounded-xl bg-white/5 border border-white/10">
                     <p className="text-xl font-semibold text-white mb-1">{currentDeployment.name}</p>
-                    <p className="text-[#a0aec0] mb-3">{currentDeployment.location}</p>
+                    <p className="text-[#a0aec0] mb-3">
+                      {currentDeployment.location_id ? (
+                        <Link href={`/locations/${currentDeployment.location_id}`} className="hover:text-white hover:underline underline-offset-2">
+                          {currentDeployment.location}
+                        </Link>
+                      ) : currentDeployment.location}
+                    </p>
                     {currentDeployment.notes && (
                       <p className="text-sm text-[#a0aec0]/80 mb-3 italic">{currentDeployment.notes}</p>
                     )}
@@ -424,6 +619,35 @@ export function DeploymentModal({
                       <p className="text-xs text-[#a0aec0]/60 mt-1">({getTimeAgo(currentDeployment.started_at)})</p>
                     )}
 
+                    {currentDeployment.archived_at && (
+                      <p className="text-sm text-[#a0aec0]">Archived: {formatDate(currentDeployment.archived_at)} &bull; readings kept</p>
+                    )}
+
+                    {!canOperate ? (
+                      <p className="text-xs text-[#a0aec0]/60 mt-4">Only operators and admins can change deployments.</p>
+                    ) : currentDeployment.archived_at ? (
+                    <div className="flex flex-wrap gap-3 mt-4">
+                      <button
+                        onClick={handleRestoreDeployment}
+                        disabled={isSaving}
+                        className="btn-glass px-4 py-2 text-sm font-semibold text-[#01b574] disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSaving ? 'Restoring...' : 'Restore'}
+                      </button>
+                      {canPurge && (
+                        <button
+                          onClick={() => {
+                            setPurgeConfirmName('');
+                            setShowPurgeConfirm(true);
+                          }}
+                          disabled={isSaving}
+                          className="px-4 py-2 text-sm font-medium text-[#e31a1a] hover:text-[#ff4444] transition-colors"
+                        >
+                          Purge
+                        </button>
+                      )}
+                    </div>
+                    ) : (
                     <div className="flex flex-wrap gap-3 mt-4">
                       {!currentDeployment.ended_at && (
                         <button
@@ -444,28 +668,105 @@ export function DeploymentModal({
                       >
                         Edit
                       </button>
+                      {locationFromFields(currentDeployment) && (
+                        <button
+                          onClick={handleBackfillWeather}
+                          disabled={isSaving || isBackfilling}
+                          className="px-4 py-2 text-sm font-medium text-[#0075ff] hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isBackfilling ? 'Backfilling...' : 'Backfill Weather'}
+                        </button>
+                      )}
                       <button
-                        onClick={() => setShowDeleteConfirm(true)}
+                        onClick={() => setShowArchiveConfirm(true)}
                         disabled={isSaving}
                         className="px-4 py-2 text-sm font-medium text-[#e31a1a] hover:text-[#ff4444] transition-colors"
                       >
-                        Delete
+                        Archive
                       </button>
                     </div>
+                    )}
 
-                    {showDeleteConfirm && (
+                    {(backfill || backfillError || isBackfilling) && (
+                      <div className="mt-4 p-4 rounded-xl bg-[#0075ff]/10 border border-[#0075ff]/30" aria-live="polite">
+                        <div className="flex items-center justify-between text-sm text-white mb-2">
+                          <span>{backfill?.done ? 'Weather backfill complete' : 'Backfilling weather'}</span>
+                          <span>{Math.round((backfill?.fraction ?? 0) * 100)}%</span>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                          <div
+                            role="progressbar"
+                            aria-valuenow={Math.round((backfill?.fraction ?? 0) * 100)}
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            className="h-full bg-[#0075ff] transition-all"
+                            style={{ width: `${(backfill?.fraction ?? 0) * 100}%` }}
+                          />
+                        </div>
+                        {backfill && (
+                          <p className="text-xs text-[#a0aec0] mt-2">
+                            {backfill.insertedCount} hour{backfill.insertedCount === 1 ? '' : 's'} added, {backfill.skippedCount} already stored
+                          </p>
+                        )}
+                        {backfillError && <p className="text-sm text-[#e31a1a] mt-2">{backfillError}</p>}
+                        {backfill && backfill.errors.length > 0 && (
+                          <ul className="text-xs text-[#e31a1a] mt-2 space-y-1">
+                            {backfill.errors.map((e, i) => <li key={i}>{e}</li>)}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+
+                    {showArchiveConfirm && !currentDeployment.archived_at && (
                       <div className="mt-4 p-4 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
-                        <p className="text-sm text-white mb-3">Are you sure? This will permanently delete this deployment <span className="font-semibold">and all its sensor readings</span>. This cannot be undone.</p>
+                        <p className="text-sm text-white mb-3">
+                          Archive this deployment?{!currentDeployment.ended_at && ' It will be ended first.'} Its sensor readings are kept, and it can be restored or purged from the Archived filter on the Deployments page.
+                        </p>
                         <div className="flex gap-3">
                           <button
-                            onClick={handleDeleteDeployment}
+                            onClick={handleArchiveDeployment}
                             disabled={isSaving}
                             className="btn-glass px-4 py-2 text-sm font-semibold text-[#e31a1a] disabled:opacity-50"
                           >
-                            {isSaving ? 'Deleting...' : 'Yes, Delete'}
+                            {isSaving ? 'Archiving...' : 'Yes, Archive'}
+                          </button>
+                          <button
+                            onClick={() => setShowArchiveConfirm(false)}
+                            disabled={isSaving}
+                            className="px-4 py-2 text-sm text-[#a0aec0] hover:text-white transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    {showPurgeConfirm && currentDeployment.archived_at && (
+                      <div className="mt-4 p-4 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+                        <p className="text-sm text-white mb-3">
+                          Purging permanently deletes this deployment <span className="font-semibold">and all its sensor readings</span> not covered by another deployment. This cannot be undone.
+                        </p>
+                        <label htmlFor="purge-confirm-name" className="block text-sm text-[#a0aec0] mb-2">
+                          Type <span className="font-semibold text-white">{currentDeployment.name}</span> to confirm
+                        </label>
+                        <input
+                          id="purge-confirm-name"
+                          type="text"
+                          value={purgeConfirmName}
+                          onChange={(e) => setPurgeConfirmName(e.target.value)}
+                          autoComplete="off"
+                          className="w-full mb-3 px-4 py-2 rounded-xl bg-white/5 border border-white/20 text-white focus:outline-none focus:border-white/40 transition-colors"
+                        />
+                        <div className="flex gap-3">
+                          <button
+                            onClick={handlePurgeDeployment}
+                            disabled={isSaving || purgeConfirmName !== currentDeployment.name}
+                            className="btn-glass px-4 py-2 text-sm font-semibold text-[#e31a1a] disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {isSaving ? 'Purging...' : 'Purge Permanently'}
                           </button>
                           <button
-                            onClick={() => setShowDeleteConfirm(false)}
+                            onClick={() => setShowPurgeConfirm(false)}
                             disabled={isSaving}
                             className="px-4 py-2 text-sm text-[#a0aec0] hover:text-white transition-colors"
                           >
@@ -485,7 +786,7 @@ export function DeploymentModal({
               </div>
             )}
 
-            {!isViewingSpecific && (
+            {!isViewingSpecific && canOperate && (
             <div>
               <h3 className="text-lg font-semibold text-white mb-4">
                 {currentDeployment ? 'Start New Deployment' : 'Create Deployment'}
@@ -496,9 +797,26 @@ export function DeploymentModal({
                 </p>
               )}
               <div className="space-y-4">
+                {templates.length > 0 && (
+                  <div>
+                    <label htmlFor="deployment-template" className="block text-sm text-[#a0aec0] mb-2">Template</label>
+                    <select
+                      id="deployment-template"
+                      value=""
+                      onChange={(e) => handleApplyTemplate(e.target.value)}
+                      className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white focus:outline-none focus:border-white/40 transition-colors"
+                    >
+                      <option value="">Fill from a template…</option>
+                      {templates.map((t) => (
+                        <option key={t.id} value={t.id}>{t.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <div>
-                  <label className="block text-sm text-[#a0aec0] mb-2">Device</label>
+                  <label htmlFor="deployment-device" className="block text-sm text-[#a0aec0] mb-2">Device</label>
                   <select
+                    id="deployment-device"
                     value={formData.device_id}
                     onChange={(e) => setFormData({ ...formData, device_id: e.target.value })}
                     className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white focus:outline-none focus:border-white/40 transition-colors"
@@ -523,6 +841,7 @@ export function DeploymentModal({
                   <input
                     type="text"
                     value={formData.location}
+                    list="deployment-locations"
                     onChange={(e) => setFormData({ ...formData, location: e.target.value })}
                     className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-[#a0aec0]/50 focus:outline-none focus:border-white/40 transition-colors"
                     placeholder="e.g., Kitchen"
@@ -539,23 +858,23 @@ export function DeploymentModal({
                   />
                 </div>
                 <div>
-                  <label className="block text-sm text-[#a0aec0] mb-2">Zip Code (for weather)</label>
+                  <label className="block text-sm text-[#a0aec0] mb-2">Weather Location</label>
                   <input
                     type="text"
-                    value={formData.zip_code}
-                    onChange={(e) => setFormData({ ...formData, zip_code: e.target.value })}
+                    value={formData.weather_location}
+                    onChange={(e) => setFormData({ ...formData, weather_location: e.target.value })}
                     className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-[#a0aec0]/50 focus:outline-none focus:border-white/40 transition-colors"
-                    placeholder="e.g., 85142"
+                    placeholder="85142, M5V 3L9, CA or 43.65, -79.38"
                   />
-                  {!isCreateZipValid && (
+                  {!isCreateLocationValid && (
                     <p className="text-xs text-[#e31a1a] mt-2">
-                      Enter a valid US ZIP (12345 or 12345-6789).
+                      Enter a US ZIP (12345 or 12345-6789), a postal code and country (M5V 3L9, CA), or latitude, longitude.
                     </p>
                   )}
                 </div>
                 <button
                   onClick={handleStartDeployment}
-                  disabled={isSaving || !formData.device_id || !formData.name.trim() || !formData.location.trim() || !isCreateZipValid}
+                  disabled={isSaving || !formData.device_id || !formData.name.trim() || !formData.location.trim() || !isCreateLocationValid}
                   className="btn-glass w-full px-6 py-3 text-white text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isSaving ? 'Starting...' : currentDeployment ? 'End Current & Start New' : 'Start Deployment'}
@@ -0,0 +1,271 @@
+'use client';
+
+import { useState } from 'react';
+import type { Deployment } from '@/lib/supabase';
+import { useDevices } from '@/contexts/DevicesContext';
+import {
+  TIMELINE_PRESETS,
+  deploymentSpan,
+  deploymentWindowError,
+  timelinePercent,
+  timelineTicks,
+  zoomWindow,
+  type CoverageGap,
+  type TimelineWindow,
+} from '@/lib/deploymentTimeline';
+
+type Edge = 'start' | 'end';
+
+interface DragState {
+  deployment: Deployment;
+  edge: Edge;
+  ms: number;
+  track: DOMRect;
+}
+
+interface DeploymentTimelineProps {
+  /** Deployments drawn as bars. */
+  deployments: Deployment[];
+  /** Every deployment of the shown devices, for overlap checks while dragging. */
+  allDeployments: Deployment[];
+  /** Device lanes, in display order. */
+  deviceIds: string[];
+  gaps: CoverageGap[];
+  range: TimelineWindow;
+  nowMs: number;
+  onRangeChange: (range: TimelineWindow) => void;
+  onSelect: (deployment: Deployment) => void;
+  /** Saves a dragged edge; resolves to an error message when the save fails. */
+  onResize: (deployment: Deployment, window: { started_at: string; ended_at: string | null }) => Promise<string | null>;
+}
+
+const SNAP_MS = 5 * 60_000;
+
+function formatTick(ms: number, spanMs: number): string {
+  const d = new Date(ms);
+  if (spanMs <= 2 * 24 * 3_600_000) return d.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return d.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+function formatMoment(ms: number): string {
+  return new Date(ms).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export function DeploymentTimeline({
+  deployments,
+  allDeployments,
+  deviceIds,
+  gaps,
+  range,
+  nowMs,
+  onRangeChange,
+  onSelect,
+  onResize,
+}: DeploymentTimelineProps) {
+  const { devices } = useDevices();
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const spanMs = range.endMs - range.startMs;
+  const deviceName = (id: string) => devices.find((d) => d.id === id)?.display_name || id;
+  const deviceColor = (id: string) => devices.find((d) => d.id === id)?.color || '#a0aec0';
+
+  const dragWindow = (d: DragState) => {
+    const [start, end] = deploymentSpan(d.deployment, nowMs);
+    return d.edge === 'start'
+      ? { startMs: d.ms, endMs: d.deployment.ended_at ? end : null }
+      : { startMs: start, endMs: d.ms };
+  };
+  const dragError = drag
+    ? deploymentWindowError(drag.deployment, dragWindow(drag).startMs, dragWindow(drag).endMs, allDeployments, nowMs)
+    : null;
+
+  const msAt = (clientX: number, track: DOMRect) => {
+    const ms = range.startMs + ((clientX - track.left) / track.width) * spanMs;
+    return Math.round(ms / SNAP_MS) * SNAP_MS;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, deployment: Deployment, edge: Edge) => {
+    const track = e.currentTarget.closest('[data-timeline-track]')?.getBoundingClientRect();
+    if (!track || track.width === 0 || isSaving) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    const [start, end] = deploymentSpan(deployment, nowMs);
+    setError(null);
+    setDrag({ deployment, edge, ms: edge === 'start' ? start : end, track });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    setDrag({ ...drag, ms: msAt(e.clientX, drag.track) });
+  };
+
+  const handlePointerUp = async () => {
+    if (!drag) return;
+    const current = drag;
+    setDrag(null);
+
+    const [start, end] = deploymentSpan(current.deployment, nowMs);
+    if (current.ms === (current.edge === 'start' ? start : end)) return;
+    const next = dragWindow(current);
+    const invalid = deploymentWindowError(current.deployment, next.startMs, next.endMs, allDeployments, nowMs);
+    if (invalid) {
+      setError(`${current.deployment.name}: ${invalid}`);
+      return;
+    }
+
+    setIsSaving(true);
+    const failed = await onResize(current.deployment, {
+      started_at: new Date(next.startMs).toISOString(),
+      ended_at: next.endMs === null ? null : new Date(next.endMs).toISOString(),
+    });
+    if (failed) setError(`${current.deployment.name}: ${failed}`);
+    setIsSaving(false);
+  };
+
+  const setPreset = (days: number) => {
+    onRangeChange({ startMs: nowMs - days * 24 * 3_600_000, endMs: nowMs });
+  };
+  const pan = (direction: -1 | 1) => {
+    const shift = Math.round(spanMs / 2) * direction;
+    onRangeChange({ startMs: range.startMs + shift, endMs: range.endMs + shift });
+  };
+
+  const ticks = timelineTicks(range);
+  const controlClass = 'px-3 py-1.5 rounded-lg text-xs font-medium text-[#a0aec0] hover:text-white hover:bg-white/10 transition-colors';
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {TIMELINE_PRESETS.map((p) => (
+          <button key={p.label} onClick={() => setPreset(p.days)} className={controlClass}>
+            {p.label}
+          </button>
+        ))}
+        <span className="w-px h-5 bg-white/10 mx-1" />
+        <button onClick={() => pan(-1)} className={controlClass} aria-label="Earlier">&larr;</button>
+        <button onClick={() => onRangeChange(zoomWindow(range, 0.5))} className={controlClass} aria-label="Zoom in">+</button>
+        <button onClick={() => onRangeChange(zoomWindow(range, 2))} className={controlClass} aria-label="Zoom out">&minus;</button>
+        <button onClick={() => pan(1)} className={controlClass} aria-label="Later">&rarr;</button>
+        <span className="ml-auto text-xs text-[#a0aec0]">
+          {formatMoment(range.startMs)} – {formatMoment(range.endMs)}
+        </span>
+      </div>
+
+      {(error || (drag && dragError)) && (
+        <p role="alert" className="mb-3 text-sm text-[#e31a1a]">
+          {drag && dragError ? `${drag.deployment.name}: ${dragError}` : error}
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[640px]">
+          <div className="flex">
+            <div className="w-28 shrink-0" />
+            <div className="relative flex-1 h-6 text-[10px] text-[#a0aec0]">
+              {ticks.map((t) => (
+                <span key={t} className="absolute -translate-x-1/2 whitespace-nowrap" style={{ left: `${timelinePercent(t, range)}%` }}>
+                  {formatTick(t, spanMs)}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {deviceIds.map((deviceId) => {
+            const laneDeployments = deployments.filter((d) => d.device_id === deviceId);
+            const laneGaps = gaps.filter((g) => g.device_id === deviceId && g.endMs > range.startMs && g.startMs < range.endMs);
+            return (
+              <div key={deviceId} className="flex items-center border-t border-white/5">
+                <div className="w-28 shrink-0 pr-3 py-3 text-sm font-semibold truncate" style={{ color: deviceColor(deviceId) }}>
+                  {deviceName(deviceId)}
+                </div>
+                <div data-timeline-track className="relative flex-1 h-10">
+                  {ticks.map((t) => (
+                    <div key={t} className="absolute inset-y-0 w-px bg-white/5" style={{ left: `${timelinePercent(t, range)}%` }} />
+                  ))}
+                  {nowMs > range.startMs && nowMs < range.endMs && (
+                    <div className="absolute inset-y-0 w-px bg-white/30" style={{ left: `${timelinePercent(nowMs, range)}%` }} />
+                  )}
+
+                  {laneGaps.map((g) => {
+                    const left = timelinePercent(g.startMs, range);
+                    return (
+                      <div
+                        key={`gap-${g.startMs}`}
+                        title={`Readings outside any deployment: ${formatMoment(g.startMs)} – ${formatMoment(g.endMs)} (${g.readingCount.toLocaleString()} readings)`}
+                        data-testid="coverage-gap"
+                        className="absolute inset-y-1 rounded bg-[#ffb547]/20 border border-dashed border-[#ffb547]/70"
+                        style={{ left: `${left}%`, width: `max(2px, ${timelinePercent(g.endMs, range) - left}%)` }}
+                      />
+                    );
+                  })}
+
+                  {laneDeployments.map((dep) => {
+                    const isDragging = drag?.deployment.id === dep.id;
+                    const span = isDragging ? dragWindow(drag) : null;
+                    const [start, end] = deploymentSpan(dep, nowMs);
+                    const startMs = span ? span.startMs : start;
+                    const endMs = span ? span.endMs ?? nowMs : end;
+                    if (endMs < range.startMs || startMs > range.endMs) return null;
+                    const left = timelinePercent(startMs, range);
+                    const width = timelinePercent(endMs, range) - left;
+                    const color = deviceColor(dep.device_id);
+                    return (
+                      <div
+                        key={dep.id}
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => onSelect(dep)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' || e.key === ' ') onSelect(dep);
+                        }}
+                        title={`${dep.name} • ${dep.location}\n${formatMoment(startMs)} – ${dep.ended_at ? formatMoment(endMs) : 'active'}`}
+                        className={`group absolute inset-y-2 rounded-md cursor-pointer overflow-hidden ${isDragging && dragError ? 'ring-2 ring-[#e31a1a]' : ''}`}
+                        style={{
+                          left: `${left}%`,
+                          width: `max(4px, ${width}%)`,
+                          backgroundColor: `${color}${dep.ended_at ? '99' : 'cc'}`,
+                        }}
+                      >
+                        <span className="block px-2 text-xs leading-6 text-white truncate pointer-events-none">{dep.name}</span>
+                        {start >= range.startMs && (
+                          <div
+                            aria-label={`Drag to change start of ${dep.name}`}
+                            onPointerDown={(e) => handlePointerDown(e, dep, 'start')}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onClick={(e) => e.stopPropagation()}
+                            className="absolute inset-y-0 left-0 w-2 cursor-ew-resize bg-white/0 group-hover:bg-white/30"
+                          />
+                        )}
+                        {dep.ended_at && end <= range.endMs && (
+                          <div
+                            aria-label={`Drag to change end of ${dep.name}`}
+                            onPointerDown={(e) => handlePointerDown(e, dep, 'end')}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onClick={(e) => e.stopPropagation()}
+                            className="absolute inset-y-0 right-0 w-2 cursor-ew-resize bg-white/0 group-hover:bg-white/30"
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-[#a0aec0]">
+        <span className="flex items-center gap-2">
+          <span className="inline-block w-4 h-3 rounded bg-[#ffb547]/20 border border-dashed border-[#ffb547]/70" />
+          Readings outside any deployment
+        </span>
+        <span>Drag a bar&apos;s edge to change its start or end; click it for details.</span>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { createDevice, updateDevice } from '@/lib/supabase';
+import { createDevice, updateDevice, getCalibrationHistory, issueDeviceApiKey, revokeDeviceApiKey } from '@/lib/supabase';
+import type { Device, DeviceCalibrationHistory } from '@/lib/supabase';
 import { useDevices } from '@/contexts/DevicesContext';
+import type { Calibration } from '@/lib/calibration';
+import { CalibrationWizard } from '@/components/CalibrationWizard';
+import { useSession } from '@/components/AuthProvider';
+import { hasRole } from '@/lib/roles';
 
 interface DeviceManagerProps {
   isOpen: boolean;
@@ -11,6 +16,36 @@ interface DeviceManagerProps {
 
 const DEVICE_ID_PATTERN = /^[a-z0-9_-]{1,32}$/;
 
+interface CalibrationForm {
+  temp_offset_c: string;
+  temp_gain: string;
+  humidity_offset: string;
+  humidity_gain: string;
+}
+
+const CALIBRATION_FIELDS: { key: keyof CalibrationForm; label: string }[] = [
+  { key: 'temp_offset_c', label: 'Temp Offset (°C)' },
+  { key: 'temp_gain', label: 'Temp Gain' },
+  { key: 'humidity_offset', label: 'Humidity Offset (%)' },
+  { key: 'humidity_gain', label: 'Humidity Gain' },
+];
+
+function parseCalibrationForm(form: CalibrationForm): Pick<Device, keyof CalibrationForm> | string {
+  const values = {
+    temp_offset_c: Number(form.temp_offset_c),
+    temp_gain: Number(form.temp_gain),
+    humidity_offset: Number(form.humidity_offset),
+    humidity_gain: Number(form.humidity_gain),
+  };
+  if (Object.values(values).some((v) => !Number.isFinite(v))) {
+    return 'Calibration values must be numbers.';
+  }
+  if (values.temp_gain <= 0 || values.humidity_gain <= 0) {
+    return 'Calibration gains must be greater than 0.';
+  }
+  return values;
+}
+
 const COLOR_PALETTE = [
   '#0075ff',
   '#01b574',
@@ -24,10 +59,21 @@ const COLOR_PALETTE = [
 
 export function DeviceManager({ isOpen, onClose }: DeviceManagerProps) {
   const { allDevices, refresh } = useDevices();
+  const { role } = useSession();
+  const canManage = hasRole(role, 'admin');
 
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editColor, setEditColor] = useState('');
+  const [editCalibration, setEditCalibration] = useState<CalibrationForm>({
+    temp_offset_c: '0',
+    temp_gain: '1',
+    humidity_offset: '0',
+    humidity_gain: '1',
+  });
+  const [calibrationHistory, setCalibrationHistory] = useState<DeviceCalibrationHistory[]>([]);
+  const [showWizard, setShowWizard] = useState(false);
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [confirmDeactivate, setConfirmDeactivate] = useState<string | null>(null);
@@ -42,25 +88,91 @@ export function DeviceManager({ isOpen, onClose }: DeviceManagerProps) {
     setNewColor(COLOR_PALETTE[0]);
   };
 
-  const startEditing = (id: string, displayName: string, color: string) => {
-    setEditingId(id);
-    setEditName(displayName);
-    setEditColor(color);
+  const startEditing = (device: Device) => {
+    setEditingId(device.id);
+    setEditName(device.display_name);
+    setEditColor(device.color);
+    setEditCalibration({
+      temp_offset_c: String(device.temp_offset_c ?? 0),
+      temp_gain: String(device.temp_gain ?? 1),
+      humidity_offset: String(device.humidity_offset ?? 0),
+      humidity_gain: String(device.humidity_gain ?? 1),
+    });
+    setCalibrationHistory([]);
+    setShowWizard(false);
+    setIssuedKey(null);
     setError(null);
+    void getCalibrationHistory(device.id, 5).then(setCalibrationHistory);
   };
 
   const cancelEditing = () => {
     setEditingId(null);
     setEditName('');
     setEditColor('');
+    setCalibrationHistory([]);
+    setShowWizard(false);
+    setIssuedKey(null);
+  };
+
+  const handleIssueKey = async () => {
+    if (!editingId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      setIssuedKey(await issueDeviceApiKey(editingId));
+      await refresh();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed to issue API key.';
+      setError(msg);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevokeKey = async () => {
+    if (!editingId) return;
+    setIsSaving(true);
+    setError(null);
+    if (await revokeDeviceApiKey(editingId)) {
+      setIssuedKey(null);
+      await refresh();
+    } else {
+      setError('Failed to revoke API key.');
+    }
+    setIsSaving(false);
+  };
+
+  const handleSaveFittedCalibration = async (calibration: Calibration) => {
+    if (!editingId) return;
+    setError(null);
+    try {
+      await updateDevice(editingId, calibration);
+      await refresh();
+      setEditCalibration({
+        temp_offset_c: String(calibration.temp_offset_c),
+        temp_gain: String(calibration.temp_gain),
+        humidity_offset: String(calibration.humidity_offset),
+        humidity_gain: String(calibration.humidity_gain),
+      });
+      setShowWizard(false);
+      setCalibrationHistory(await getCalibrationHistory(editingId, 5));
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed to save calibration.';
+      setError(msg);
+    }
   };
 
   const handleSaveEdit = async () => {
     if (!editingId || !editName.trim()) return;
+    const calibration = parseCalibrationForm(editCalibration);
+    if (typeof calibration === 'string') {
+      setError(calibration);
+      return;
+    }
     setIsSaving(true);
     setError(null);
     try {
-      await updateDevice(editingId, { display_name: editName.trim(), color: editColor });
+      await updateDevice(editingId, { display_name: editName.trim(), color: editColor, ...calibration });
       await refresh();
       cancelEditing();
     } catch (err: unknown) {
@@ -165,6 +277,10 @@ export function DeviceManager({ isOpen, onClose }: DeviceManagerProps) {
           </button>
         </div>
 
+        {!canManage && (
+          <p className="mb-4 text-sm text-[#a0aec0]">Only admins can add, edit or deactivate devices.</p>
+        )}
+
         {error && (
           <div className="mb-4 p-3 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
             <p className="text-sm text-[#e31a1a]">{error}</p>
@@ -202,6 +318,88 @@ export function DeviceManager({ isOpen, onClose }: DeviceManagerProps) {
                       ))}
                     </div>
                   </div>
+                  <div>
+                    <label className="block text-sm text-[#a0aec0] mb-1">Calibration</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {CALIBRATION_FIELDS.map(({ key, label }) => (
+                        <div key={key}>
+                          <label htmlFor={`${device.id}-${key}`} className="block text-xs text-[#a0aec0]/80 mb-1">{label}</label>
+                          <input
+                            id={`${device.id}-${key}`}
+                            type="number"
+                            step="any"
+                            value={editCalibration[key]}
+                            onChange={(e) => setEditCalibration((prev) => ({ ...prev, [key]: e.target.value }))}
+                            className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/30 focus:outline-none focus:border-[#0075ff]/50"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-[#a0aec0]/60 mt-1">Corrected value = raw × gain + offset. Raw readings are kept.</p>
+                    {!showWizard && (
+                      <button
+                        onClick={() => setShowWizard(true)}
+                        disabled={isSaving}
+                        className="mt-2 text-xs text-[#0075ff] hover:text-white transition-colors"
+                      >
+                        Fit from weather data...
+                      </button>
+                    )}
+                  </div>
+                  {showWizard && (
+                    <CalibrationWizard
+                      deviceId={device.id}
+                      onSave={handleSaveFittedCalibration}
+                      onCancel={() => setShowWizard(false)}
+                    />
+                  )}
+                  {calibrationHistory.length > 0 && (
+                    <div>
+                      <p className="text-xs text-[#a0aec0] uppercase tracking-wider mb-1">Calibration History</p>
+                      <ul className="space-y-1">
+                        {calibrationHistory.map((entry) => (
+                          <li key={entry.id} className="text-xs text-[#a0aec0]">
+                            {new Date(entry.created_at).toLocaleString()}: temp ×{entry.temp_gain} {entry.temp_offset_c >= 0 ? '+' : ''}{entry.temp_offset_c}°C,
+                            humidity ×{entry.humidity_gain} {entry.humidity_offset >= 0 ? '+' : ''}{entry.humidity_offset}%
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm text-[#a0aec0] mb-1">Ingest API Key</label>
+                    {issuedKey ? (
+                      <div className="p-3 rounded-lg bg-[#01b574]/10 border border-[#01b574]/30">
+                        <code className="block text-xs text-white break-all select-all">{issuedKey}</code>
+                        <p className="text-xs text-[#a0aec0] mt-1">Copy this into the node&apos;s secrets.h now. It will not be shown again.</p>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-[#a0aec0]">
+                        {device.api_key_prefix
+                          ? `${device.api_key_prefix}… issued ${device.api_key_created_at ? new Date(device.api_key_created_at).toLocaleString() : ''}`
+                          : 'No key issued. This device cannot post to /api/ingest.'}
+                      </p>
+                    )}
+                    <div className="flex gap-3 mt-2">
+                      <button
+                        onClick={handleIssueKey}
+                        disabled={isSaving}
+                        title={device.api_key_prefix ? 'Replaces the current key; the node must be reflashed with the new one' : undefined}
+                        className="text-xs text-[#0075ff] hover:text-white transition-colors disabled:opacity-50"
+                      >
+                        {device.api_key_prefix ? 'Rotate key' : 'Issue key'}
+                      </button>
+                      {device.api_key_prefix && (
+                        <button
+                          onClick={handleRevokeKey}
+                          disabled={isSaving}
+                          className="text-xs text-[#e31a1a] hover:text-white transition-colors disabled:opacity-50"
+                        >
+                          Revoke key
+                        </button>
+                      )}
+                    </div>
+                  </div>
                   <div className="flex gap-3">
                     <button
                       onClick={handleSaveEdit}
@@ -229,34 +427,38 @@ export function DeviceManager({ isOpen, onClose }: DeviceManagerProps) {
                     <p className="text-white font-medium truncate">{device.display_name}</p>
                     <p className="text-xs text-[#a0aec0]">{device.id}</p>
                   </div>
-                  <button
-                    onClick={() => handleToggleActive(device.id, device.is_active)}
-                    disabled={isSaving}
-                    className="flex-shrink-0"
-                    title={device.is_active ? 'Deactivate' : 'Activate'}
-                  >
-                    <div
-                      className={`w-9 h-5 rounded-full relative transition-colors ${
-                        device.is_active ? 'bg-[#01b574]' : 'bg-white/20'
-                      }`}
-                    >
-                      <div
-                        className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
-                          device.is_active ? 'translate-x-4' : 'translate-x-0.5'
-                        }`}
-                      />
-                    </div>
-                  </button>
-                  <button
-                    onClick={() => startEditing(device.id, device.display_name, device.color)}
-                    disabled={isSaving}
-                    className="text-[#a0aec0] hover:text-white transition-colors flex-shrink-0"
-                    title="Edit"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                    </svg>
-                  </button>
+                  {canManage && (
+                    <>
+                      <button
+                        onClick={() => handleToggleActive(device.id, device.is_active)}
+                        disabled={isSaving}
+                        className="flex-shrink-0"
+                        title={device.is_active ? 'Deactivate' : 'Activate'}
+                      >
+                        <div
+                          className={`w-9 h-5 rounded-full relative transition-colors ${
+                            device.is_active ? 'bg-[#01b574]' : 'bg-white/20'
+                          }`}
+                        >
+                          <div
+                            className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
+                              device.is_active ? 'translate-x-4' : 'translate-x-0.5'
+                            }`}
+                          />
+                        </div>
+                      </button>
+                      <button
+                        onClick={() => startEditing(device)}
+                        disabled={isSaving}
+                        className="text-[#a0aec0] hover:text-white transition-colors flex-shrink-0"
+                        title="Edit"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                        </svg>
+                      </button>
+                    </>
+                  )}
                 </div>
               )}
 
@@ -285,63 +487,65 @@ export function DeviceManager({ isOpen, onClose }: DeviceManagerProps) {
           ))}
         </div>
 
-        <div className="border-t border-white/10 pt-4">
-          <h3 className="text-lg font-semibold text-white mb-3">Add Device</h3>
-          <div className="space-y-3">
-            <div>
-              <label className="block text-sm text-[#a0aec0] mb-1">Device ID</label>
-              <input
-                type="text"
-                value={newId}
-                onChange={(e) => {
-                  setNewId(e.target.value.toLowerCase());
-                  setError(null);
-                }}
-                className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/30 focus:outline-none focus:border-[#0075ff]/50"
-                placeholder="e.g., node3"
-              />
-              {!isNewIdValid && (
-                <p className="text-xs text-[#e31a1a] mt-1">
-                  Only lowercase letters, numbers, hyphens, underscores (1-32 chars).
-                </p>
-              )}
-            </div>
-            <div>
-              <label className="block text-sm text-[#a0aec0] mb-1">Display Name</label>
-              <input
-                type="text"
-                value={newName}
-                onChange={(e) => setNewName(e.target.value)}
-                className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/30 focus:outline-none focus:border-[#0075ff]/50"
-                placeholder="e.g., Node 3"
-              />
-            </div>
-            <div>
-              <label className="block text-sm text-[#a0aec0] mb-1">Color</label>
-              <div className="flex gap-2 flex-wrap">
-                {COLOR_PALETTE.map((c) => (
-                  <button
-                    key={c}
-                    onClick={() => setNewColor(c)}
-                    className="w-7 h-7 rounded-full transition-all"
-                    style={{
-                      backgroundColor: c,
-                      outline: newColor === c ? '2px solid white' : '2px solid transparent',
-                      outlineOffset: '2px',
-                    }}
-                  />
-                ))}
+        {canManage && (
+          <div className="border-t border-white/10 pt-4">
+            <h3 className="text-lg font-semibold text-white mb-3">Add Device</h3>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm text-[#a0aec0] mb-1">Device ID</label>
+                <input
+                  type="text"
+                  value={newId}
+                  onChange={(e) => {
+                    setNewId(e.target.value.toLowerCase());
+                    setError(null);
+                  }}
+                  className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/30 focus:outline-none focus:border-[#0075ff]/50"
+                  placeholder="e.g., node3"
+                />
+                {!isNewIdValid && (
+                  <p className="text-xs text-[#e31a1a] mt-1">
+                    Only lowercase letters, numbers, hyphens, underscores (1-32 chars).
+                  </p>
+                )}
               </div>
+              <div>
+                <label className="block text-sm text-[#a0aec0] mb-1">Display Name</label>
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/30 focus:outline-none focus:border-[#0075ff]/50"
+                  placeholder="e.g., Node 3"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-[#a0aec0] mb-1">Color</label>
+                <div className="flex gap-2 flex-wrap">
+                  {COLOR_PALETTE.map((c) => (
+                    <button
+                      key={c}
+                      onClick={() => setNewColor(c)}
+                      className="w-7 h-7 rounded-full transition-all"
+                      style={{
+                        backgroundColor: c,
+                        outline: newColor === c ? '2px solid white' : '2px solid transparent',
+                        outlineOffset: '2px',
+                      }}
+                    />
+                  ))}
+                </div>
+              </div>
+              <button
+                onClick={handleAddDevice}
+                disabled={isSaving || !newId.trim() || !newName.trim() || !isNewIdValid}
+                className="btn-glass w-full px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Adding...' : 'Add Device'}
+              </button>
             </div>
-            <button
-              onClick={handleAddDevice}
-              disabled={isSaving || !newId.trim() || !newName.trim() || !isNewIdValid}
-              className="btn-glass w-full px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isSaving ? 'Adding...' : 'Add Device'}
-            </button>
           </div>
-        </div>
+        )}
         </div>
       </div>
     </div>
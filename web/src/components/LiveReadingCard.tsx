@@ -1,10 +1,12 @@
 'use client';
 
 import { useState } from 'react';
-import { Reading, Deployment, ChartSample, celsiusToFahrenheit } from '@/lib/supabase';
+import { Reading, Deployment, ChartSample, celsiusToFahrenheit, readingTime } from '@/lib/supabase';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { STALE_THRESHOLD_MS } from '@/lib/constants';
 import { formatTime, formatDate, getTimeAgo } from '@/lib/format';
+import { formatWeatherDetails } from '@/lib/weatherDetails';
+import { DERIVED_METRICS } from '@/lib/psychrometrics';
 
 interface LiveReadingCardProps {
   deviceId: string;
@@ -19,6 +21,60 @@ interface LiveReadingCardProps {
   sparklineData?: ChartSample[];
 }
 
+function DerivedMetricsRow({ reading }: { reading: Reading }) {
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-5 gap-2 mb-4">
+      {DERIVED_METRICS.map((metric) => {
+        const value = metric.displayValue(reading.temperature, reading.humidity);
+        return (
+          <div key={metric.key} className="text-center">
+            <p className="text-[10px] sm:text-xs text-[#a0aec0] uppercase tracking-wider">{metric.display_name}</p>
+            <p className="text-sm text-white">
+              {value === null ? '—' : `${value.toFixed(metric.display_precision)}${metric.unit ? ` ${metric.unit}` : ''}`}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function WeatherDetailsPanel({ weatherReading }: { weatherReading: Reading }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const details = formatWeatherDetails(weatherReading);
+  if (details.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen((open) => !open);
+        }}
+        aria-expanded={isOpen}
+        className="text-xs text-[#a0aec0] hover:text-white transition-colors"
+      >
+        {isOpen ? 'Hide' : 'Show'} outdoor conditions
+      </button>
+      {isOpen && (
+        <dl className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-2 mt-3 p-3 rounded-xl bg-white/5 text-sm">
+          {details.map(({ label, value }) => (
+            <div key={label}>
+              <dt className="text-xs text-[#a0aec0] uppercase tracking-wider">{label}</dt>
+              <dd className="text-white">{value}</dd>
+            </div>
+          ))}
+          <div>
+            <dt className="text-xs text-[#a0aec0] uppercase tracking-wider">Observed</dt>
+            <dd className="text-white">{formatTime(readingTime(weatherReading))}</dd>
+          </div>
+        </dl>
+      )}
+    </div>
+  );
+}
+
 function Sparkline({ data }: { data: ChartSample[] }) {
   if (data.length < 2) return null;
   const values = data.map((s) => celsiusToFahrenheit(s.temperature_avg));
@@ -47,7 +103,7 @@ function Sparkline({ data }: { data: ChartSample[] }) {
 export function LiveReadingCard({ deviceId, deviceName, reading, activeDeployment, isLoading, onClick, onRefresh, lastRefresh, weatherReading, sparklineData }: LiveReadingCardProps) {
   const [isRefreshing, setIsRefreshing] = useState(false);
 
-  const readingTimestampMs = reading ? new Date(reading.created_at).getTime() : null;
+  const readingTimestampMs = reading ? new Date(readingTime(reading)).getTime() : null;
   const referenceTimestampMs = lastRefresh?.getTime() ?? readingTimestampMs;
   const isStale = readingTimestampMs !== null
     ? (referenceTimestampMs ?? readingTimestampMs) - readingTimestampMs > STALE_THRESHOLD_MS
@@ -157,6 +213,10 @@ export function LiveReadingCard({ deviceId, deviceName, reading, activeDeploymen
             </div>
           </div>
 
+          <DerivedMetricsRow reading={reading} />
+
+          {weatherReading && <WeatherDetailsPanel weatherReading={weatherReading} />}
+
           {sparklineData && sparklineData.length >= 2 && (
             <div className="mb-4 -mx-2">
               <Sparkline data={sparklineData} />
@@ -164,7 +224,7 @@ export function LiveReadingCard({ deviceId, deviceName, reading, activeDeploymen
           )}
 
           <div className="text-sm text-[#a0aec0]">
-            {formatDate(reading.created_at)} at {formatTime(reading.created_at)}
+            {formatDate(readingTime(reading))} at {formatTime(readingTime(reading))}
           </div>
         </>
       ) : reading && isStale ? (
@@ -181,7 +241,7 @@ export function LiveReadingCard({ deviceId, deviceName, reading, activeDeploymen
             </svg>
           </div>
           <p className="text-lg font-medium text-[#e31a1a] mb-1">Device Offline</p>
-          <p className="text-sm text-[#a0aec0]">Last seen {getTimeAgo(reading.created_at)}</p>
+          <p className="text-sm text-[#a0aec0]">Last seen {getTimeAgo(readingTime(reading))}</p>
           <div className="grid grid-cols-2 gap-6 mt-5 w-full opacity-50">
             <div className="text-center">
               <p className="text-xs text-[#a0aec0] uppercase tracking-wider mb-1">Last Temp</p>
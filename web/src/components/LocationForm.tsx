@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import type { Location, LocationInput, LocationType } from '@/lib/supabase';
+import { LOCATION_TYPES } from '@/lib/locations';
+import {
+  formatWeatherLocation,
+  isValidOptionalWeatherLocation,
+  locationFromFields,
+  parseWeatherLocation,
+  toLocationFields,
+} from '@/lib/weatherLocation';
+
+interface LocationFormProps {
+  initial?: Location | null;
+  submitLabel: string;
+  onSubmit: (input: LocationInput) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const inputClass = 'w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-[#a0aec0]/50 focus:outline-none focus:border-white/40 transition-colors';
+
+export function LocationForm({ initial, submitLabel, onSubmit, onCancel }: LocationFormProps) {
+  const initialWeather = initial ? locationFromFields(initial) : null;
+  const [name, setName] = useState(initial?.name ?? '');
+  const [description, setDescription] = useState(initial?.description ?? '');
+  const [locationType, setLocationType] = useState<LocationType>(initial?.location_type ?? 'indoor');
+  const [weatherLocation, setWeatherLocation] = useState(initialWeather ? formatWeatherLocation(initialWeather) : '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isWeatherValid = isValidOptionalWeatherLocation(weatherLocation);
+  const canSubmit = name.trim() !== '' && isWeatherValid && !isSaving;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        name,
+        description: description || null,
+        location_type: locationType,
+        ...toLocationFields(parseWeatherLocation(weatherLocation)),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="location-name" className="block text-sm text-[#a0aec0] mb-2">Name</label>
+          <input
+            id="location-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClass}
+            placeholder="e.g., Patio"
+          />
+        </div>
+        <div>
+          <label htmlFor="location-type" className="block text-sm text-[#a0aec0] mb-2">Type</label>
+          <select
+            id="location-type"
+            value={locationType}
+            onChange={(e) => setLocationType(e.target.value as LocationType)}
+            className={inputClass}
+          >
+            {LOCATION_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label htmlFor="location-description" className="block text-sm text-[#a0aec0] mb-2">Description (optional)</label>
+        <textarea
+          id="location-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className={`${inputClass} resize-none`}
+          rows={2}
+        />
+      </div>
+      <div>
+        <label htmlFor="location-weather" className="block text-sm text-[#a0aec0] mb-2">Weather Location (optional)</label>
+        <input
+          id="location-weather"
+          type="text"
+          value={weatherLocation}
+          onChange={(e) => setWeatherLocation(e.target.value)}
+          className={inputClass}
+          placeholder="85142, M5V 3L9, CA or 43.65, -79.38"
+        />
+        {isWeatherValid ? (
+          <p className="text-xs text-[#a0aec0]/70 mt-2">New deployments here without their own weather location use this one.</p>
+        ) : (
+          <p className="text-xs text-[#e31a1a] mt-2">
+            Enter a US ZIP (12345 or 12345-6789), a postal code and country (M5V 3L9, CA), or latitude, longitude.
+          </p>
+        )}
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className="btn-glass px-5 py-2.5 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-[#a0aec0] hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createMaintenanceWindow,
+  deleteMaintenanceWindow,
+  endMaintenanceWindow,
+  getMaintenanceWindows,
+  updateDevice,
+  type Device,
+  type MaintenanceWindow,
+} from '@/lib/supabase';
+import { isSnoozed } from '@/lib/alertSuppression';
+
+const SNOOZE_OPTIONS = [
+  { label: '1 hour', hours: 1 },
+  { label: '4 hours', hours: 4 },
+  { label: '24 hours', hours: 24 },
+  { label: '1 week', hours: 168 },
+];
+
+const inputClass =
+  'w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/30 focus:outline-none focus:border-[#0075ff]/50';
+
+interface WindowForm {
+  device_id: string; // '' = all devices
+  starts_at: string;
+  ends_at: string;
+  reason: string;
+}
+
+function toDatetimeLocal(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function emptyForm(): WindowForm {
+  const now = Date.now();
+  return { device_id: '', starts_at: toDatetimeLocal(now), ends_at: toDatetimeLocal(now + 2 * 3_600_000), reason: '' };
+}
+
+interface MaintenancePanelProps {
+  devices: Device[];
+  onDevicesChange: () => Promise<void>;
+}
+
+export function MaintenancePanel({ devices, onDevicesChange }: MaintenancePanelProps) {
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([]);
+  const [form, setForm] = useState<WindowForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [nowMs, setNowMs] = useState(0);
+
+  const fetchData = useCallback(async () => {
+    setWindows(await getMaintenanceWindows());
+    setNowMs(Date.now());
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void fetchData();
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [fetchData]);
+
+  const handleSnooze = async (device: Device, hours: number | null) => {
+    setError(null);
+    try {
+      await updateDevice(device.id, {
+        alerts_snoozed_until: hours === null ? null : new Date(Date.now() + hours * 3_600_000).toISOString(),
+      });
+      await onDevicesChange();
+      setNowMs(Date.now());
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed to snooze device.';
+      setError(msg);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!form) return;
+    const startsMs = new Date(form.starts_at).getTime();
+    const endsMs = new Date(form.ends_at).getTime();
+    if (!Number.isFinite(startsMs) || !Number.isFinite(endsMs) || endsMs <= startsMs) {
+      setError('End time must be after start time.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createMaintenanceWindow({
+        device_id: form.device_id || null,
+        deployment_id: null,
+        reason: form.reason.trim() || null,
+        starts_at: new Date(startsMs).toISOString(),
+        ends_at: new Date(endsMs).toISOString(),
+      });
+      setForm(null);
+      await fetchData();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed to schedule maintenance.';
+      setError(msg);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (w: MaintenanceWindow, active: boolean) => {
+    setError(null);
+    try {
+      if (active) {
+        await endMaintenanceWindow(w.id);
+      } else if (!(await deleteMaintenanceWindow(w.id))) {
+        setError('Failed to remove maintenance window.');
+        return;
+      }
+      await fetchData();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed to end maintenance window.';
+      setError(msg);
+    }
+  };
+
+  const deviceName = (id: string | null) =>
+    id === null ? 'All devices' : devices.find((d) => d.id === id)?.display_name ?? id;
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Maintenance &amp; Snooze</h2>
+          <p className="text-xs text-[#a0aec0]">Status and incidents are still recorded; only notifications are held back.</p>
+        </div>
+        <button
+          onClick={() => setForm(form ? null : emptyForm())}
+          className="btn-glass px-4 py-2 text-sm font-semibold text-white"
+        >
+          {form ? 'Cancel' : '+ Schedule Maintenance'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+          <p className="text-sm text-[#e31a1a]">{error}</p>
+        </div>
+      )}
+
+      {form && (
+        <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-3 mb-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="maintenance-device" className="block text-sm text-[#a0aec0] mb-1">Device</label>
+              <select
+                id="maintenance-device"
+                value={form.device_id}
+                onChange={(e) => setForm({ ...form, device_id: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">All devices</option>
+                {devices.map((d) => (
+                  <option key={d.id} value={d.id}>{d.display_name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="maintenance-start" className="block text-sm text-[#a0aec0] mb-1">Starts</label>
+              <input
+                id="maintenance-start"
+                type="datetime-local"
+                value={form.starts_at}
+                onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="maintenance-end" className="block text-sm text-[#a0aec0] mb-1">Ends</label>
+              <input
+                id="maintenance-end"
+                type="datetime-local"
+                value={form.ends_at}
+                onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="maintenance-reason" className="block text-sm text-[#a0aec0] mb-1">Reason (optional)</label>
+            <input
+              id="maintenance-reason"
+              type="text"
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              placeholder="Moving node to the greenhouse"
+              className={inputClass}
+            />
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={isSaving}
+            className="btn-glass px-5 py-2 text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Window'}
+          </button>
+        </div>
+      )}
+
+      {windows.length > 0 && (
+        <div className="space-y-3 mb-6">
+          {windows.map((w) => {
+            const active = new Date(w.starts_at).getTime() <= nowMs;
+            return (
+              <div key={w.id} className="p-4 rounded-xl bg-white/5 border border-white/10 flex items-center gap-3">
+                <div className={`w-2 h-2 rounded-full flex-shrink-0 ${active ? 'bg-[#ffb547] animate-pulse' : 'bg-[#a0aec0]/40'}`} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-white font-medium truncate">
+                    {deviceName(w.device_id)}
+                    {w.reason && <span className="text-[#a0aec0] font-normal"> &bull; {w.reason}</span>}
+                  </p>
+                  <p className="text-xs text-[#a0aec0]">
+                    {active ? 'Until' : `${new Date(w.starts_at).toLocaleString()} →`} {new Date(w.ends_at).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(w, active)}
+                  className="text-sm text-[#a0aec0] hover:text-[#e31a1a] transition-colors flex-shrink-0"
+                >
+                  {active ? 'End' : 'Remove'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <h3 className="text-sm font-semibold text-white mb-3">Snooze device alerts</h3>
+      <div className="space-y-2">
+        {devices.map((device) => {
+          const snoozed = isSnoozed(device.alerts_snoozed_until, nowMs);
+          return (
+            <div key={device.id} className="flex items-center gap-3">
+              <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: device.color }} />
+              <span className="flex-1 text-sm text-white truncate">{device.display_name}</span>
+              {snoozed ? (
+                <>
+                  <span className="text-xs text-[#ffb547]">
+                    Snoozed until {new Date(device.alerts_snoozed_until as string).toLocaleString()}
+                  </span>
+                  <button
+                    onClick={() => handleSnooze(device, null)}
+                    className="text-sm text-[#a0aec0] hover:text-white transition-colors"
+                  >
+                    Unsnooze
+                  </button>
+                </>
+              ) : (
+                <select
+                  aria-label={`Snooze ${device.display_name}`}
+                  value=""
+                  onChange={(e) => e.target.value && handleSnooze(device, Number(e.target.value))}
+                  className="px-2 py-1 bg-white/5 border border-white/10 rounded-lg text-sm text-[#a0aec0] focus:outline-none focus:border-[#0075ff]/50"
+                >
+                  <option value="">Snooze…</option>
+                  {SNOOZE_OPTIONS.map((o) => (
+                    <option key={o.hours} value={o.hours}>{o.label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,9 @@ const NAV_LINKS = [
   { href: '/compare', label: 'Compare' },
   { href: '/analysis', label: 'Analysis' },
   { href: '/deployments', label: 'Deployments' },
+  { href: '/locations', label: 'Locations' },
+  { href: '/alerts', label: 'Alerts' },
+  { href: '/incidents', label: 'Incidents' },
 ];
 
 export function Navbar() {
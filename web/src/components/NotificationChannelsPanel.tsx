@@ -0,0 +1,315 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createNotificationChannel,
+  deleteNotificationChannel,
+  getNotificationAttempts,
+  getNotificationChannels,
+  updateNotificationChannel,
+  type AlertRule,
+  type Device,
+  type NotificationAttempt,
+  type NotificationChannelConfig,
+  type NotificationChannelInput,
+  type NotificationChannelType,
+} from '@/lib/supabase';
+import { NOTIFICATION_CHANNEL_TYPES } from '@/lib/notificationChannels';
+import { useSession } from '@/components/AuthProvider';
+import { hasRole } from '@/lib/roles';
+
+const TYPE_LABELS: Record<NotificationChannelType, string> = {
+  webhook: 'Webhook (signed JSON)',
+  slack: 'Slack',
+  discord: 'Discord',
+  ntfy: 'ntfy',
+};
+
+const URL_PLACEHOLDERS: Record<NotificationChannelType, string> = {
+  webhook: 'https://example.com/hooks/iot',
+  slack: 'https://hooks.slack.com/services/...',
+  discord: 'https://discord.com/api/webhooks/...',
+  ntfy: 'https://ntfy.sh/my-topic',
+};
+
+const inputClass =
+  'w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/30 focus:outline-none focus:border-[#0075ff]/50';
+
+interface ChannelForm {
+  name: string;
+  channel_type: NotificationChannelType;
+  url: string;
+  secret: string;
+  scope: string; // 'all' | 'device:<id>' | 'rule:<id>'
+}
+
+const EMPTY_FORM: ChannelForm = { name: '', channel_type: 'webhook', url: '', secret: '', scope: 'all' };
+
+function parseChannelForm(form: ChannelForm): NotificationChannelInput | string {
+  const name = form.name.trim();
+  const url = form.url.trim();
+  if (!name) return 'Channel name is required.';
+  if (!/^https?:\/\//.test(url)) return 'URL must start with http:// or https://.';
+
+  const [scopeType, scopeId] = form.scope.split(':');
+  return {
+    name,
+    channel_type: form.channel_type,
+    url,
+    secret: form.secret.trim() || null,
+    device_id: scopeType === 'device' ? scopeId : null,
+    rule_id: scopeType === 'rule' ? Number(scopeId) : null,
+    enabled: true,
+  };
+}
+
+interface NotificationChannelsPanelProps {
+  rules: AlertRule[];
+  devices: Device[];
+}
+
+export function NotificationChannelsPanel({ rules, devices }: NotificationChannelsPanelProps) {
+  const { role } = useSession();
+  const isAdmin = hasRole(role, 'admin');
+  const [channels, setChannels] = useState<NotificationChannelConfig[]>([]);
+  const [attempts, setAttempts] = useState<NotificationAttempt[]>([]);
+  const [form, setForm] = useState<ChannelForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    // Channel URLs and secrets are admin-only in RLS.
+    const [channelRows, attemptRows] = await Promise.all([
+      isAdmin ? getNotificationChannels() : Promise.resolve([]),
+      getNotificationAttempts(),
+    ]);
+    setChannels(channelRows);
+    setAttempts(attemptRows);
+  }, [isAdmin]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void fetchData();
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [fetchData]);
+
+  const handleAdd = async () => {
+    if (!form) return;
+    const parsed = parseChannelForm(form);
+    if (typeof parsed === 'string') {
+      setError(parsed);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createNotificationChannel(parsed);
+      setForm(null);
+      await fetchData();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed to add channel.';
+      setError(msg);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (channel: NotificationChannelConfig) => {
+    setError(null);
+    try {
+      await updateNotificationChannel(channel.id, { enabled: !channel.enabled });
+      await fetchData();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed to update channel.';
+      setError(msg);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setError(null);
+    if (!(await deleteNotificationChannel(id))) {
+      setError('Failed to delete channel.');
+      return;
+    }
+    await fetchData();
+  };
+
+  const scopeLabel = (channel: NotificationChannelConfig) => {
+    if (channel.rule_id !== null) {
+      return `Rule: ${rules.find((r) => r.id === channel.rule_id)?.name ?? channel.rule_id}`;
+    }
+    if (channel.device_id !== null) {
+      return devices.find((d) => d.id === channel.device_id)?.display_name ?? channel.device_id;
+    }
+    return 'All alerts';
+  };
+
+  const lastAttempt = (channelId: number) => attempts.find((a) => a.channel_id === channelId);
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Notification Channels</h2>
+          <p className="text-xs text-[#a0aec0]">Email from ALERT_EMAIL_TO always receives every alert.</p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={() => setForm(form ? null : EMPTY_FORM)}
+            className="btn-glass px-4 py-2 text-sm font-semibold text-white"
+          >
+            {form ? 'Cancel' : '+ Add Channel'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-[#e31a1a]/10 border border-[#e31a1a]/30">
+          <p className="text-sm text-[#e31a1a]">{error}</p>
+        </div>
+      )}
+
+      {form && (
+        <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-3 mb-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="channel-name" className="block text-sm text-[#a0aec0] mb-1">Name</label>
+              <input
+                id="channel-name"
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="On-call Slack"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="channel-type" className="block text-sm text-[#a0aec0] mb-1">Type</label>
+              <select
+                id="channel-type"
+                value={form.channel_type}
+                onChange={(e) => setForm({ ...form, channel_type: e.target.value as NotificationChannelType })}
+                className={inputClass}
+              >
+                {NOTIFICATION_CHANNEL_TYPES.map((t) => (
+                  <option key={t} value={t}>{TYPE_LABELS[t]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="channel-url" className="block text-sm text-[#a0aec0] mb-1">URL</label>
+            <input
+              id="channel-url"
+              type="url"
+              value={form.url}
+              onChange={(e) => setForm({ ...form, url: e.target.value })}
+              placeholder={URL_PLACEHOLDERS[form.channel_type]}
+              className={inputClass}
+            />
+          </div>
+          {(form.channel_type === 'webhook' || form.channel_type === 'ntfy') && (
+            <div>
+              <label htmlFor="channel-secret" className="block text-sm text-[#a0aec0] mb-1">
+                {form.channel_type === 'webhook' ? 'Signing secret (optional)' : 'Access token (optional)'}
+              </label>
+              <input
+                id="channel-secret"
+                type="password"
+                value={form.secret}
+                onChange={(e) => setForm({ ...form, secret: e.target.value })}
+                className={inputClass}
+              />
+              {form.channel_type === 'webhook' && (
+                <p className="text-xs text-[#a0aec0]/60 mt-1">
+                  Requests carry X-Signature-256: sha256=HMAC(secret, body).
+                </p>
+              )}
+            </div>
+          )}
+          <div>
+            <label htmlFor="channel-scope" className="block text-sm text-[#a0aec0] mb-1">Receives</label>
+            <select
+              id="channel-scope"
+              value={form.scope}
+              onChange={(e) => setForm({ ...form, scope: e.target.value })}
+              className={inputClass}
+            >
+              <option value="all">All alerts</option>
+              <optgroup label="Device">
+                {devices.map((d) => (
+                  <option key={d.id} value={`device:${d.id}`}>{d.display_name}</option>
+                ))}
+              </optgroup>
+              {rules.length > 0 && (
+                <optgroup label="Rule">
+                  {rules.map((r) => (
+                    <option key={r.id} value={`rule:${r.id}`}>{r.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={isSaving}
+            className="btn-glass px-5 py-2 text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Channel'}
+          </button>
+        </div>
+      )}
+
+      {!isAdmin ? (
+        <p className="text-sm text-[#a0aec0]">Only admins can view and change notification channels.</p>
+      ) : channels.length === 0 ? (
+        <p className="text-sm text-[#a0aec0]">No extra channels configured.</p>
+      ) : (
+        <div className="space-y-3">
+          {channels.map((channel) => {
+            const last = lastAttempt(channel.id);
+            return (
+              <div key={channel.id} className="p-4 rounded-xl bg-white/5 border border-white/10 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-white font-medium truncate">{channel.name}</p>
+                  <p className="text-xs text-[#a0aec0]">
+                    {TYPE_LABELS[channel.channel_type]} &bull; {scopeLabel(channel)}
+                  </p>
+                  {last && (
+                    <p className={`text-xs mt-1 ${last.ok ? 'text-[#01b574]' : 'text-[#e31a1a]'}`}>
+                      Last attempt {new Date(last.created_at).toLocaleString()}: {last.ok ? 'delivered' : last.error}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleToggle(channel)}
+                  className="flex-shrink-0"
+                  title={channel.enabled ? 'Disable' : 'Enable'}
+                >
+                  <div
+                    className={`w-9 h-5 rounded-full relative transition-colors ${
+                      channel.enabled ? 'bg-[#01b574]' : 'bg-white/20'
+                    }`}
+                  >
+                    <div
+                      className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
+                        channel.enabled ? 'translate-x-4' : 'translate-x-0.5'
+                      }`}
+                    />
+                  </div>
+                </button>
+                <button
+                  onClick={() => handleDelete(channel.id)}
+                  className="text-sm text-[#a0aec0] hover:text-[#e31a1a] transition-colors flex-shrink-0"
+                >
+                  Delete
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  OrphanedReadingSpan,
+  createDeployment,
+  getOrphanedReadingSpans,
+  updateDeployment,
+} from '@/lib/supabase';
+import {
+  extensionFor,
+  planAdjacentAssignments,
+  spanKey,
+  type DeploymentExtension,
+} from '@/lib/orphanedReadings';
+import { useDevices } from '@/contexts/DevicesContext';
+import { LoadingSpinner } from './LoadingSpinner';
+import { EmptyState } from './EmptyState';
+
+interface OrphanedReadingsPanelProps {
+  /** Limit the scan to one device; all devices when empty. */
+  deviceId?: string;
+  onDeploymentChange: () => void;
+}
+
+const inputClass = 'px-3 py-2 rounded-lg bg-white/5 border border-white/20 text-sm text-white placeholder-[#a0aec0]/50 focus:outline-none focus:border-white/40';
+
+function formatMoment(iso: string): string {
+  return new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function formatDuration(span: OrphanedReadingSpan): string {
+  const minutes = Math.round((Date.parse(span.ended_at) - Date.parse(span.started_at)) / 60_000);
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)} h`;
+  return `${(minutes / 1440).toFixed(1)} days`;
+}
+
+export function OrphanedReadingsPanel({ deviceId, onDeploymentChange }: OrphanedReadingsPanelProps) {
+  const { devices } = useDevices();
+  const [spans, setSpans] = useState<OrphanedReadingSpan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [creatingFor, setCreatingFor] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newLocation, setNewLocation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const deviceName = (id: string) => devices.find((d) => d.id === id)?.display_name || id;
+  const deviceColor = (id: string) => devices.find((d) => d.id === id)?.color || '#a0aec0';
+
+  const fetchSpans = useCallback(async () => {
+    setIsLoading(true);
+    const rows = await getOrphanedReadingSpans({ deviceId: deviceId || undefined });
+    setSpans(rows);
+    setSelected((prev) => new Set(rows.map(spanKey).filter((k) => prev.has(k))));
+    setIsLoading(false);
+  }, [deviceId]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void fetchSpans();
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [fetchSpans]);
+
+  const afterChange = async (text: string, isError: boolean) => {
+    setMessage({ text, isError });
+    await fetchSpans();
+    onDeploymentChange();
+  };
+
+  const applyExtensions = async (extensions: DeploymentExtension[]): Promise<number> => {
+    let failed = 0;
+    for (const { deployment_id, ...changes } of extensions) {
+      if (!(await updateDeployment(deployment_id, changes))) failed += 1;
+    }
+    return failed;
+  };
+
+  const handleExtend = async (span: OrphanedReadingSpan, side: 'previous' | 'next') => {
+    const ext = extensionFor(span, side);
+    if (!ext) return;
+    setMessage(null);
+    setIsSaving(true);
+    const failed = await applyExtensions([ext]);
+    const name = side === 'previous' ? span.previous_deployment_name : span.next_deployment_name;
+    await afterChange(
+      failed ? `Could not extend "${name}". It may overlap another deployment.` : `Extended "${name}" over ${span.reading_count.toLocaleString()} readings.`,
+      failed > 0
+    );
+    setIsSaving(false);
+  };
+
+  const handleAssignSelected = async () => {
+    const plan = planAdjacentAssignments(spans.filter((s) => selected.has(spanKey(s))));
+    setMessage(null);
+    setIsSaving(true);
+    const failed = await applyExtensions(plan.extensions);
+    const parts = [`Extended ${plan.extensions.length - failed} deployment${plan.extensions.length - failed === 1 ? '' : 's'}.`];
+    if (failed) parts.push(`${failed} could not be extended.`);
+    if (plan.unassigned.length) {
+      parts.push(`${plan.unassigned.length} span${plan.unassigned.length === 1 ? ' has' : 's have'} no deployment nearby; create one instead.`);
+    }
+    await afterChange(parts.join(' '), failed > 0);
+    setIsSaving(false);
+  };
+
+  const startCreate = (span: OrphanedReadingSpan) => {
+    setCreatingFor(spanKey(span));
+    setNewName('');
+    setNewLocation('');
+    setMessage(null);
+  };
+
+  const handleCreate = async (span: OrphanedReadingSpan) => {
+    if (!newName.trim() || !newLocation.trim()) return;
+    setIsSaving(true);
+    const created = await createDeployment({
+      device_id: span.device_id,
+      name: newName.trim(),
+      location: newLocation.trim(),
+      started_at: span.started_at,
+      ended_at: span.ended_at,
+    });
+    if (created) setCreatingFor(null);
+    await afterChange(
+      created ? `Created "${created.name}" covering ${span.reading_count.toLocaleString()} readings.` : 'Could not create the deployment. It may overlap another deployment.',
+      !created
+    );
+    setIsSaving(false);
+  };
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  if (isLoading && spans.length === 0) {
+    return (
+      <div className="glass-card p-12">
+        <LoadingSpinner message="Looking for readings outside deployments..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div className={`p-4 rounded-xl border ${message.isError ? 'bg-[#e31a1a]/10 border-[#e31a1a]/30' : 'bg-[#01b574]/10 border-[#01b574]/30'}`}>
+          <p className={`text-sm ${message.isError ? 'text-[#e31a1a]' : 'text-[#01b574]'}`}>{message.text}</p>
+        </div>
+      )}
+
+      {spans.length === 0 ? (
+        <EmptyState title="No orphaned readings" subtitle="Every sensor reading falls inside a deployment" />
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-4">
+            <p className="text-sm text-[#a0aec0]">
+              {spans.reduce((n, s) => n + s.reading_count, 0).toLocaleString()} readings in {spans.length} span{spans.length === 1 ? '' : 's'} are outside every deployment.
+            </p>
+            <button
+              onClick={handleAssignSelected}
+              disabled={isSaving || selected.size === 0}
+              className="btn-glass px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed ml-auto"
+            >
+              Assign Selected to Adjacent Deployments
+            </button>
+          </div>
+
+          {spans.map((span) => {
+            const key = spanKey(span);
+            const label = `${deviceName(span.device_id)} ${formatMoment(span.started_at)} – ${formatMoment(span.ended_at)}`;
+            return (
+              <div key={key} className="glass-card p-5">
+                <div className="flex flex-wrap items-center gap-4">
+                  <input
+                    type="checkbox"
+                    aria-label={`Select ${label}`}
+                    checked={selected.has(key)}
+                    onChange={() => toggle(key)}
+                    className="w-4 h-4 accent-[#0075ff]"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold" style={{ color: deviceColor(span.device_id) }}>{deviceName(span.device_id)}</p>
+                    <p className="text-sm text-white">
+                      {formatMoment(span.started_at)} – {formatMoment(span.ended_at)}
+                    </p>
+                    <p className="text-xs text-[#a0aec0]">
+                      {span.reading_count.toLocaleString()} readings &bull; {formatDuration(span)}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {span.previous_deployment_id !== null && (
+                      <button
+                        onClick={() => handleExtend(span, 'previous')}
+                        disabled={isSaving}
+                        className="px-3 py-2 rounded-lg text-xs font-medium text-white bg-white/5 hover:bg-white/10 disabled:opacity-50"
+                      >
+                        Extend &ldquo;{span.previous_deployment_name}&rdquo; to here
+                      </button>
+                    )}
+                    {span.next_deployment_id !== null && (
+                      <button
+                        onClick={() => handleExtend(span, 'next')}
+                        disabled={isSaving}
+                        className="px-3 py-2 rounded-lg text-xs font-medium text-white bg-white/5 hover:bg-white/10 disabled:opacity-50"
+                      >
+                        Start &ldquo;{span.next_deployment_name}&rdquo; here
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startCreate(span)}
+                      disabled={isSaving}
+                      className="px-3 py-2 rounded-lg text-xs font-medium text-[#0075ff] bg-white/5 hover:bg-white/10 disabled:opacity-50"
+                    >
+                      New Deployment
+                    </button>
+                  </div>
+                </div>
+
+                {creatingFor === key && (
+                  <div className="flex flex-wrap items-center gap-3 mt-4 pt-4 border-t border-white/10">
+                    <input
+                      type="text"
+                      aria-label="Deployment name"
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      placeholder="Deployment name"
+                      className={inputClass}
+                    />
+                    <input
+                      type="text"
+                      aria-label="Location"
+                      value={newLocation}
+                      onChange={(e) => setNewLocation(e.target.value)}
+                      placeholder="Location"
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => handleCreate(span)}
+                      disabled={isSaving || !newName.trim() || !newLocation.trim()}
+                      className="btn-glass px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Create Deployment
+                    </button>
+                    <button
+                      onClick={() => setCreatingFor(null)}
+                      disabled={isSaving}
+                      className="px-3 py-2 text-sm font-medium text-[#a0aec0] hover:text-white transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
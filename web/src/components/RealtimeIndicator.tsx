@@ -0,0 +1,24 @@
+import type { RealtimeMode } from '@/lib/realtime';
+
+const MODE_STYLES: Record<RealtimeMode, { label: string; color: string; title: string }> = {
+  live: { label: 'Live', color: '#01b574', title: 'Receiving readings in realtime' },
+  connecting: { label: 'Connecting', color: '#a0aec0', title: 'Connecting to realtime updates' },
+  polling: { label: 'Polling', color: '#ffb547', title: 'Realtime unavailable, refreshing every 30s' },
+};
+
+export function RealtimeIndicator({ mode }: { mode: RealtimeMode }) {
+  const style = MODE_STYLES[mode];
+  return (
+    <span
+      className="inline-flex items-center gap-1.5 text-xs text-[#a0aec0]"
+      title={style.title}
+      data-mode={mode}
+    >
+      <span
+        className={`w-2 h-2 rounded-full ${mode === 'live' ? 'animate-pulse' : ''}`}
+        style={{ backgroundColor: style.color }}
+      />
+      {style.label}
+    </span>
+  );
+}
@@ -1,12 +1,14 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import Link from 'next/link';
 import { useSession } from './AuthProvider';
 import { signOut } from '@/lib/auth';
+import { ROLE_LABELS, hasRole } from '@/lib/roles';
 import { useRouter } from 'next/navigation';
 
 export function UserMenu() {
-  const { session, user } = useSession();
+  const { session, user, role } = useSession();
   const [isOpen, setIsOpen] = useState(false);
   const [isSigningOut, setIsSigningOut] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -65,8 +67,31 @@ export function UserMenu() {
               <span className="text-[#c8d0e0]">Status</span>
               <span className="text-[#01b574] font-medium">● Active</span>
             </div>
+            <div className="flex justify-between text-xs">
+              <span className="text-[#c8d0e0]">Role</span>
+              <span className="text-white font-medium">{role ? ROLE_LABELS[role] : '…'}</span>
+            </div>
           </div>
 
+          {hasRole(role, 'admin') && (
+            <div className="pb-3 mb-3 border-b border-white/20">
+              <Link
+                href="/admin/users"
+                onClick={() => setIsOpen(false)}
+                className="block px-4 py-2 text-sm text-[#c8d0e0] hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+              >
+                Manage Users
+              </Link>
+              <Link
+                href="/audit"
+                onClick={() => setIsOpen(false)}
+                className="block px-4 py-2 text-sm text-[#c8d0e0] hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+              >
+                Audit Log
+              </Link>
+            </div>
+          )}
+
           <button
             onClick={handleSignOut}
             disabled={isSigningOut}
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BulkDeploymentModal } from '../BulkDeploymentModal';
+import {
+  startDeployments,
+  getDeploymentTemplates,
+  createDeploymentTemplate,
+  deleteDeploymentTemplate,
+  getLocations,
+} from '@/lib/supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  startDeployments: vi.fn(),
+  getDeploymentTemplates: vi.fn(),
+  createDeploymentTemplate: vi.fn(),
+  deleteDeploymentTemplate: vi.fn(),
+  getLocations: vi.fn(),
+}));
+
+const template = {
+  id: 9,
+  name: 'Kitchen rotation',
+  deployment_name: 'Kitchen week',
+  location: 'Kitchen',
+  notes: null,
+  zip_code: '85142',
+  country_code: 'US',
+  latitude: null,
+  longitude: null,
+  created_at: '2026-02-01T00:00:00.000Z',
+  updated_at: '2026-02-01T00:00:00.000Z',
+};
+
+describe('BulkDeploymentModal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getDeploymentTemplates).mockResolvedValue([template]);
+    vi.mocked(deleteDeploymentTemplate).mockResolvedValue(true);
+    vi.mocked(getLocations).mockResolvedValue([]);
+  });
+
+  it('starts deployments for the selected devices and reports conflicts per device', async () => {
+    vi.mocked(startDeployments).mockResolvedValue([
+      { device_id: 'node1', deployment_id: 101, ended_deployment_id: 11, conflict: null },
+      { device_id: 'node2', deployment_id: null, ended_deployment_id: null, conflict: 'Overlaps deployment "Patio" (2026-02-01 to now)' },
+    ]);
+    const onDeploymentChange = vi.fn();
+    const user = userEvent.setup();
+
+    render(<BulkDeploymentModal isOpen={true} onClose={vi.fn()} onDeploymentChange={onDeploymentChange} />);
+
+    await user.selectOptions(await screen.findByLabelText('Template'), '9');
+    expect(screen.getByPlaceholderText('e.g., Kitchen')).toHaveValue('Kitchen');
+    await user.click(screen.getByRole('checkbox', { name: 'Node 1' }));
+    await user.click(screen.getByRole('checkbox', { name: 'Node 2' }));
+    await user.click(screen.getByRole('button', { name: 'Start 2 Deployments' }));
+
+    await waitFor(() => {
+      expect(startDeployments).toHaveBeenCalledWith(expect.objectContaining({
+        device_ids: ['node1', 'node2'],
+        name: 'Kitchen week',
+        location: 'Kitchen',
+        zip_code: '85142',
+      }));
+    });
+    expect(await screen.findByText('Node 1: started (ended deployment #11)')).toBeInTheDocument();
+    expect(screen.getByText('Node 2: skipped, Overlaps deployment "Patio" (2026-02-01 to now)')).toBeInTheDocument();
+    expect(onDeploymentChange).toHaveBeenCalled();
+    // The conflicting device stays selected for a retry.
+    expect(screen.getByRole('checkbox', { name: 'Node 1' })).not.toBeChecked();
+    expect(screen.getByRole('checkbox', { name: 'Node 2' })).toBeChecked();
+  });
+
+  it('shows the error when the bulk start fails outright', async () => {
+    vi.mocked(startDeployments).mockRejectedValue(new Error('Deployment name and location are required'));
+    const onDeploymentChange = vi.fn();
+    const user = userEvent.setup();
+
+    render(<BulkDeploymentModal isOpen={true} onClose={vi.fn()} onDeploymentChange={onDeploymentChange} />);
+
+    await user.click(await screen.findByRole('checkbox', { name: 'Node 1' }));
+    await user.type(screen.getByPlaceholderText('e.g., Kitchen Test Week 1'), 'Attic');
+    await user.type(screen.getByPlaceholderText('e.g., Kitchen'), 'Attic');
+    await user.click(screen.getByRole('button', { name: 'Start 1 Deployment' }));
+
+    expect(await screen.findByText('Could not start deployments: Deployment name and location are required')).toBeInTheDocument();
+    expect(onDeploymentChange).not.toHaveBeenCalled();
+  });
+
+  it('saves the current fields as a named template', async () => {
+    vi.mocked(getDeploymentTemplates).mockResolvedValue([]);
+    vi.mocked(createDeploymentTemplate).mockResolvedValue({ ...template, id: 12, name: 'Attic run' });
+    const user = userEvent.setup();
+
+    render(<BulkDeploymentModal isOpen={true} onClose={vi.fn()} onDeploymentChange={vi.fn()} />);
+
+    await user.type(screen.getByPlaceholderText('e.g., Kitchen Test Week 1'), 'Attic');
+    await user.type(screen.getByPlaceholderText('e.g., Kitchen'), 'Attic');
+    await user.type(screen.getByPlaceholderText('85142, M5V 3L9, CA or 43.65, -79.38'), '43.65, -79.38');
+    await user.type(screen.getByLabelText('Template name'), 'Attic run');
+    await user.click(screen.getByRole('button', { name: 'Save as Template' }));
+
+    await waitFor(() => {
+      expect(createDeploymentTemplate).toHaveBeenCalledWith({
+        name: 'Attic run',
+        deployment_name: 'Attic',
+        location: 'Attic',
+        notes: null,
+        zip_code: null,
+        country_code: null,
+        latitude: 43.65,
+        longitude: -79.38,
+      });
+    });
+    expect(await screen.findByRole('option', { name: 'Attic run' })).toBeInTheDocument();
+  });
+});
@@ -18,13 +18,13 @@ describe('ChatShell', () => {
   const mockedUseSession = vi.mocked(useSession);
 
   it('renders nothing while loading', () => {
-    mockedUseSession.mockReturnValue({ session: null, user: null, loading: true });
+    mockedUseSession.mockReturnValue({ session: null, user: null, role: null, loading: true });
     const { container } = render(<ChatShell />);
     expect(container).toBeEmptyDOMElement();
   });
 
   it('renders nothing when unauthenticated', () => {
-    mockedUseSession.mockReturnValue({ session: null, user: null, loading: false });
+    mockedUseSession.mockReturnValue({ session: null, user: null, role: null, loading: false });
     const { container } = render(<ChatShell />);
     expect(container).toBeEmptyDOMElement();
   });
@@ -33,6 +33,7 @@ describe('ChatShell', () => {
     mockedUseSession.mockReturnValue({
       session: {} as never,
       user: { id: 'user-1' } as never,
+      role: 'viewer',
       loading: false,
     });
 
@@ -54,6 +55,7 @@ describe('ChatShell', () => {
     mockedUseSession.mockReturnValue({
       session: {} as never,
       user: { id: 'user-1' } as never,
+      role: 'viewer',
       loading: false,
     });
 
@@ -2,12 +2,18 @@ import { describe, expect, it, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { DeploymentModal } from '../DeploymentModal';
+import { useSession } from '../AuthProvider';
 import {
   getActiveDeployment,
   createDeployment,
   endDeployment,
   updateDeployment,
-  deleteDeployment,
+  archiveDeployment,
+  restoreDeployment,
+  purgeDeployment,
+  createMaintenanceWindow,
+  getDeploymentTemplates,
+  getLocations,
 } from '@/lib/supabase';
 
 vi.mock('@/lib/supabase', () => ({
@@ -15,9 +21,22 @@ vi.mock('@/lib/supabase', () => ({
   createDeployment: vi.fn(),
   endDeployment: vi.fn(),
   updateDeployment: vi.fn(),
-  deleteDeployment: vi.fn(),
+  archiveDeployment: vi.fn(),
+  restoreDeployment: vi.fn(),
+  purgeDeployment: vi.fn(),
+  createMaintenanceWindow: vi.fn(),
+  getDeploymentTemplates: vi.fn(),
+  getLocations: vi.fn(),
 }));
 
+vi.mock('../AuthProvider', () => ({
+  useSession: vi.fn(),
+}));
+
+function setRole(role: 'viewer' | 'operator' | 'admin') {
+  vi.mocked(useSession).mockReturnValue({ session: null, user: null, role, loading: false });
+}
+
 function makeDeployment(overrides: Partial<{
   id: number;
   device_id: string;
@@ -28,17 +47,23 @@ function makeDeployment(overrides: Partial<{
   started_at: string;
   ended_at: string | null;
   created_at: string;
+  archived_at: string | null;
 }> = {}) {
   return {
     id: 1,
     device_id: 'node1',
     name: 'Node 1 Active',
     location: 'Yard',
+    location_id: null as number | null,
     notes: null,
     zip_code: '85142',
+    country_code: null as string | null,
+    latitude: null as number | null,
+    longitude: null as number | null,
     started_at: '2026-02-01T00:00:00.000Z',
     ended_at: null,
     created_at: '2026-02-01T00:00:00.000Z',
+    archived_at: null as string | null,
     ...overrides,
   };
 }
@@ -46,8 +71,11 @@ function makeDeployment(overrides: Partial<{
 describe('DeploymentModal', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    setRole('admin');
     vi.mocked(updateDeployment).mockResolvedValue(null);
-    vi.mocked(deleteDeployment).mockResolvedValue(false);
+    vi.mocked(archiveDeployment).mockResolvedValue(null);
+    vi.mocked(getDeploymentTemplates).mockResolvedValue([]);
+    vi.mocked(getLocations).mockResolvedValue([]);
   });
 
   it('ends the active deployment for the selected target device before creating', async () => {
@@ -81,7 +109,7 @@ describe('DeploymentModal', () => {
 
     await screen.findByText('Active Deployment');
 
-    const deviceSelect = screen.getByRole('combobox');
+    const deviceSelect = screen.getByRole('combobox', { name: 'Device' });
     await user.selectOptions(deviceSelect, 'node2');
     await user.type(screen.getByPlaceholderText('e.g., Kitchen Test Week 1'), 'Node 2 Fresh Deployment');
     await user.type(screen.getByPlaceholderText('e.g., Kitchen'), 'Patio');
@@ -122,4 +150,282 @@ describe('DeploymentModal', () => {
     expect(onDeploymentChange).not.toHaveBeenCalled();
     expect(screen.getByText('Active Deployment')).toBeInTheDocument();
   });
+
+  it('stores coordinates as the weather location for a new deployment', async () => {
+    vi.mocked(getActiveDeployment).mockResolvedValue(null);
+    vi.mocked(createDeployment).mockResolvedValue(null);
+    const user = userEvent.setup();
+
+    render(
+      <DeploymentModal
+        deviceId="node1"
+        deviceName="Node 1"
+        isOpen={true}
+        onClose={vi.fn()}
+        onDeploymentChange={vi.fn()}
+      />
+    );
+
+    await user.type(await screen.findByPlaceholderText('e.g., Kitchen Test Week 1'), 'Field');
+    await user.type(screen.getByPlaceholderText('e.g., Kitchen'), 'North field');
+    const locationInput = screen.getByPlaceholderText('85142, M5V 3L9, CA or 43.65, -79.38');
+    await user.type(locationInput, 'Toronto');
+    expect(screen.getByRole('button', { name: 'Start Deployment' })).toBeDisabled();
+    await user.clear(locationInput);
+    await user.type(locationInput, '43.65, -79.38');
+    await user.click(screen.getByRole('button', { name: 'Start Deployment' }));
+
+    await waitFor(() => {
+      expect(createDeployment).toHaveBeenCalledWith(expect.objectContaining({
+        zip_code: null,
+        country_code: null,
+        latitude: 43.65,
+        longitude: -79.38,
+      }));
+    });
+  });
+
+  it('fills the new deployment form from a saved template', async () => {
+    vi.mocked(getActiveDeployment).mockResolvedValue(null);
+    vi.mocked(createDeployment).mockResolvedValue(null);
+    vi.mocked(getDeploymentTemplates).mockResolvedValue([{
+      id: 3,
+      name: 'Greenhouse rotation',
+      deployment_name: 'Greenhouse',
+      location: 'Greenhouse bench',
+      notes: 'North end',
+      zip_code: 'M5V 3L9',
+      country_code: 'CA',
+      latitude: null,
+      longitude: null,
+      created_at: '2026-02-01T00:00:00.000Z',
+      updated_at: '2026-02-01T00:00:00.000Z',
+    }]);
+    const user = userEvent.setup();
+
+    render(
+      <DeploymentModal
+        deviceId="node1"
+        deviceName="Node 1"
+        isOpen={true}
+        onClose={vi.fn()}
+        onDeploymentChange={vi.fn()}
+      />
+    );
+
+    await user.selectOptions(await screen.findByLabelText('Template'), '3');
+    expect(screen.getByPlaceholderText('e.g., Kitchen Test Week 1')).toHaveValue('Greenhouse');
+    expect(screen.getByPlaceholderText('85142, M5V 3L9, CA or 43.65, -79.38')).toHaveValue('M5V 3L9, CA');
+    await user.click(screen.getByRole('button', { name: 'Start Deployment' }));
+
+    await waitFor(() => {
+      expect(createDeployment).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Greenhouse',
+        location: 'Greenhouse bench',
+        notes: 'North end',
+        zip_code: 'M5V 3L9',
+        country_code: 'CA',
+      }));
+    });
+  });
+
+  it('offers a maintenance window after ending a deployment', async () => {
+    const active = makeDeployment({ id: 55, device_id: 'node1', name: 'Kitchen' });
+    vi.mocked(getActiveDeployment).mockResolvedValue(active);
+    vi.mocked(endDeployment).mockResolvedValue({ ...active, ended_at: '2026-02-10T00:00:00.000Z' });
+    vi.mocked(createMaintenanceWindow).mockResolvedValue(null);
+
+    const user = userEvent.setup();
+
+    render(
+      <DeploymentModal
+        deviceId="node1"
+        deviceName="Node 1"
+        isOpen={true}
+        onClose={vi.fn()}
+        onDeploymentChange={vi.fn()}
+      />
+    );
+
+    await screen.findByText('Active Deployment');
+    await user.click(screen.getByRole('button', { name: 'End Deployment' }));
+    await user.selectOptions(await screen.findByLabelText('Maintenance duration'), '4');
+    await user.click(screen.getByRole('button', { name: 'Start Maintenance' }));
+
+    await waitFor(() => {
+      expect(createMaintenanceWindow).toHaveBeenCalledTimes(1);
+    });
+    const window = vi.mocked(createMaintenanceWindow).mock.calls[0][0];
+    expect(window).toMatchObject({ device_id: 'node1', deployment_id: 55 });
+    expect(new Date(window.ends_at).getTime() - new Date(window.starts_at).getTime()).toBe(4 * 60 * 60 * 1000);
+    expect(await screen.findByText(/Alerts paused until/)).toBeInTheDocument();
+  });
+
+  it('backfills weather chunk by chunk and shows progress and errors', async () => {
+    vi.mocked(getActiveDeployment).mockResolvedValue(makeDeployment({ id: 66, ended_at: '2026-02-15T00:00:00.000Z' }));
+    const chunk = (chunkEnd: string, done: boolean, extra: Record<string, unknown> = {}) => ({
+      ok: true,
+      window_start: '2026-02-01T00:00:00.000Z',
+      window_end: '2026-02-15T00:00:00.000Z',
+      chunk_end: chunkEnd,
+      next_cursor: done ? null : chunkEnd,
+      done,
+      inserted_count: 168,
+      skipped_existing_count: 0,
+      ...extra,
+    });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(chunk('2026-02-08T00:00:00.000Z', false))))
+      .mockResolvedValueOnce(new Response(JSON.stringify(
+        chunk('2026-02-15T00:00:00.000Z', true, { inserted_count: 160, skipped_existing_count: 8, errors: ['Insert failed for x: boom'] })
+      )));
+    const originalFetch = global.fetch;
+    global.fetch = fetchMock as typeof fetch;
+
+    const user = userEvent.setup();
+    render(
+      <DeploymentModal
+        deviceId="node1"
+        deviceName="Node 1"
+        isOpen={true}
+        onClose={vi.fn()}
+        onDeploymentChange={vi.fn()}
+      />
+    );
+
+    await user.click(await screen.findByRole('button', { name: 'Backfill Weather' }));
+
+    expect(await screen.findByText('Weather backfill complete')).toBeInTheDocument();
+    expect(screen.getByText('100%')).toBeInTheDocument();
+    expect(screen.getByText('328 hours added, 8 already stored')).toBeInTheDocument();
+    expect(screen.getByText('Insert failed for x: boom')).toBeInTheDocument();
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ deployment_id: 66, cursor: '2026-02-08T00:00:00.000Z' });
+    global.fetch = originalFetch;
+  });
+
+  it('stops the backfill and shows the error when a chunk fails', async () => {
+    vi.mocked(getActiveDeployment).mockResolvedValue(makeDeployment({ id: 77 }));
+    const originalFetch = global.fetch;
+    global.fetch = vi.fn(async () => new Response(
+      JSON.stringify({ ok: false, error: 'Weather history failed for 85142: open-meteo: Open-Meteo history HTTP 429' }),
+      { status: 502 }
+    )) as typeof fetch;
+
+    const user = userEvent.setup();
+    render(
+      <DeploymentModal
+        deviceId="node1"
+        deviceName="Node 1"
+        isOpen={true}
+        onClose={vi.fn()}
+        onDeploymentChange={vi.fn()}
+      />
+    );
+
+    await user.click(await screen.findByRole('button', { name: 'Backfill Weather' }));
+
+    expect(await screen.findByText(/Open-Meteo history HTTP 429/)).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(screen.getByRole('button', { name: 'Backfill Weather' })).toBeEnabled();
+    global.fetch = originalFetch;
+  });
+
+  it('archives instead of deleting, then restores', async () => {
+    const deployment = makeDeployment({ id: 55, name: 'Garage', ended_at: '2026-02-05T00:00:00.000Z' });
+    const archived = { ...deployment, archived_at: '2026-02-10T00:00:00.000Z' };
+    vi.mocked(archiveDeployment).mockResolvedValue(archived);
+    vi.mocked(restoreDeployment).mockResolvedValue(deployment);
+    const onDeploymentChange = vi.fn();
+    const user = userEvent.setup();
+
+    render(
+      <DeploymentModal
+        deviceId="node1"
+        deviceName="Node 1"
+        existingDeployment={deployment}
+        isOpen={true}
+        onClose={vi.fn()}
+        onDeploymentChange={onDeploymentChange}
+      />
+    );
+
+    await user.click(await screen.findByRole('button', { name: 'Archive' }));
+    expect(screen.getByText(/Its sensor readings are kept/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Yes, Archive' }));
+
+    expect(archiveDeployment).toHaveBeenCalledWith(55);
+    expect(await screen.findByText('Archived Deployment')).toBeInTheDocument();
+    expect(onDeploymentChange).toHaveBeenCalledTimes(1);
+
+    await user.click(screen.getByRole('button', { name: 'Restore' }));
+    expect(restoreDeployment).toHaveBeenCalledWith(55);
+    expect(await screen.findByText('Ended Deployment')).toBeInTheDocument();
+    expect(onDeploymentChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('purges an archived deployment only after its name is typed', async () => {
+    const archived = makeDeployment({
+      id: 66,
+      name: 'Garage',
+      ended_at: '2026-02-05T00:00:00.000Z',
+      archived_at: '2026-02-10T00:00:00.000Z',
+    });
+    vi.mocked(purgeDeployment).mockResolvedValue(120);
+    const onClose = vi.fn();
+    const user = userEvent.setup();
+
+    render(
+      <DeploymentModal
+        deviceId="node1"
+        deviceName="Node 1"
+        existingDeployment={archived}
+        isOpen={true}
+        onClose={onClose}
+        onDeploymentChange={vi.fn()}
+      />
+    );
+
+    await user.click(await screen.findByRole('button', { name: 'Purge' }));
+    const purge = screen.getByRole('button', { name: 'Purge Permanently' });
+    expect(purge).toBeDisabled();
+
+    await user.type(screen.getByLabelText(/to confirm/), 'garage');
+    expect(purge).toBeDisabled();
+    await user.clear(screen.getByLabelText(/to confirm/));
+    await user.type(screen.getByLabelText(/to confirm/), 'Garage');
+    await user.click(purge);
+
+    await waitFor(() => {
+      expect(purgeDeployment).toHaveBeenCalledWith(66, 'Garage');
+    });
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('hides deployment changes from viewers and purges from operators', async () => {
+    const archived = makeDeployment({
+      id: 77,
+      name: 'Garage',
+      ended_at: '2026-02-05T00:00:00.000Z',
+      archived_at: '2026-02-10T00:00:00.000Z',
+    });
+    const props = {
+      deviceId: 'node1',
+      deviceName: 'Node 1',
+      existingDeployment: archived,
+      isOpen: true,
+      onClose: vi.fn(),
+      onDeploymentChange: vi.fn(),
+    };
+
+    setRole('operator');
+    const { unmount } = render(<DeploymentModal {...props} />);
+    expect(await screen.findByRole('button', { name: 'Restore' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Purge' })).not.toBeInTheDocument();
+    unmount();
+
+    setRole('viewer');
+    render(<DeploymentModal {...props} />);
+    expect(await screen.findByText(/Only operators and admins/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Restore' })).not.toBeInTheDocument();
+  });
 });
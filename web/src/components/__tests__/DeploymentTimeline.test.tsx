@@ -0,0 +1,119 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { DeploymentTimeline } from '../DeploymentTimeline';
+
+// jsdom has no PointerEvent, so fireEvent.pointer* would drop clientX.
+if (typeof window.PointerEvent === 'undefined') {
+  class PointerEventPolyfill extends MouseEvent {
+    pointerId: number;
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerId = init.pointerId ?? 0;
+    }
+  }
+  window.PointerEvent = PointerEventPolyfill as unknown as typeof PointerEvent;
+}
+
+const HOUR = 3_600_000;
+const START = Date.parse('2026-03-01T00:00:00.000Z');
+const NOW = START + 100 * HOUR;
+const iso = (ms: number) => new Date(ms).toISOString();
+
+function makeDeployment(id: number, startH: number, endH: number | null) {
+  return {
+    id,
+    device_id: 'node1',
+    name: `Deployment ${id}`,
+    location: 'Kitchen',
+    location_id: null,
+    notes: null,
+    zip_code: null,
+    country_code: null,
+    latitude: null,
+    longitude: null,
+    started_at: iso(START + startH * HOUR),
+    ended_at: endH === null ? null : iso(START + endH * HOUR),
+    created_at: iso(START),
+    archived_at: null,
+  };
+}
+
+const first = makeDeployment(1, 10, 40);
+const second = makeDeployment(2, 50, null);
+
+function renderTimeline(onResize = vi.fn().mockResolvedValue(null), onSelect = vi.fn()) {
+  render(
+    <DeploymentTimeline
+      deployments={[first, second]}
+      allDeployments={[first, second]}
+      deviceIds={['node1', 'node2']}
+      gaps={[{ device_id: 'node1', startMs: START + 42 * HOUR, endMs: START + 48 * HOUR, readingCount: 72 }]}
+      range={{ startMs: START, endMs: NOW }}
+      nowMs={NOW}
+      onRangeChange={vi.fn()}
+      onSelect={onSelect}
+      onResize={onResize}
+    />
+  );
+  return { onResize, onSelect };
+}
+
+// Drags a handle to the point `hours` into the 100-hour window, on a track
+// 1000px wide (10px per hour).
+function drag(label: string, hours: number) {
+  const handle = screen.getByLabelText(label);
+  fireEvent.pointerDown(handle, { pointerId: 1, clientX: 0 });
+  fireEvent.pointerMove(handle, { pointerId: 1, clientX: hours * 10 });
+  fireEvent.pointerUp(handle, { pointerId: 1, clientX: hours * 10 });
+}
+
+describe('DeploymentTimeline', () => {
+  beforeEach(() => {
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({
+      left: 0, right: 1000, width: 1000, top: 0, bottom: 40, height: 40, x: 0, y: 0, toJSON: () => ({}),
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('draws a lane per device with bars and coverage gaps, and opens a clicked bar', () => {
+    const { onSelect } = renderTimeline();
+
+    expect(screen.getByText('Node 1')).toBeInTheDocument();
+    expect(screen.getByText('Node 2')).toBeInTheDocument();
+    expect(screen.getAllByTestId('coverage-gap')).toHaveLength(1);
+
+    fireEvent.click(screen.getByRole('button', { name: /Deployment 1/ }));
+    expect(onSelect).toHaveBeenCalledWith(first);
+  });
+
+  it('saves a dragged edge', async () => {
+    const { onResize, onSelect } = renderTimeline();
+
+    drag('Drag to change end of Deployment 1', 45);
+
+    await waitFor(() => {
+      expect(onResize).toHaveBeenCalledWith(first, { started_at: first.started_at, ended_at: iso(START + 45 * HOUR) });
+    });
+    expect(onSelect).not.toHaveBeenCalled();
+  });
+
+  it('rejects a drag that would overlap the next deployment', () => {
+    const { onResize } = renderTimeline();
+
+    drag('Drag to change end of Deployment 1', 60);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Deployment 1: Overlaps deployment "Deployment 2"');
+    expect(onResize).not.toHaveBeenCalled();
+  });
+
+  it('shows the error when the save fails', async () => {
+    renderTimeline(vi.fn().mockResolvedValue('Could not save the new dates.'));
+
+    drag('Drag to change start of Deployment 2', 55);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Deployment 2: Could not save the new dates.');
+  });
+});
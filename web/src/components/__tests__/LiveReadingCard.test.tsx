@@ -1,5 +1,5 @@
-import { describe, expect, it } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
 import { LiveReadingCard } from '../LiveReadingCard';
 
 const baseReading = {
@@ -25,6 +25,65 @@ describe('LiveReadingCard', () => {
     expect(screen.getByText('45.2')).toBeInTheDocument();
   });
 
+  it('shows derived metrics computed from the reading', () => {
+    render(
+      <LiveReadingCard
+        deviceId="node1"
+        deviceName="Node 1"
+        reading={{ ...baseReading, humidity: 50 }}
+      />
+    );
+
+    expect(screen.getByText('Dew Point')).toBeInTheDocument();
+    expect(screen.getByText('48.7 °F')).toBeInTheDocument();
+    expect(screen.getByText('1.17 kPa')).toBeInTheDocument();
+  });
+
+  it('expands outdoor conditions from the weather reading', () => {
+    const onClick = vi.fn();
+    render(
+      <LiveReadingCard
+        deviceId="node1"
+        deviceName="Node 1"
+        reading={baseReading}
+        onClick={onClick}
+        weatherReading={{
+          ...baseReading,
+          id: 2,
+          device_id: 'weather_node1',
+          source: 'weather',
+          dew_point: 10,
+          wind_speed_kph: 16.09344,
+          wind_direction_deg: 225,
+          pressure_hpa: 1013.2,
+          weather_condition: 'Light drizzle',
+        }}
+      />
+    );
+
+    expect(screen.queryByText('Light drizzle')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Show outdoor conditions' }));
+
+    expect(onClick).not.toHaveBeenCalled();
+    expect(screen.getByText('Light drizzle')).toBeInTheDocument();
+    expect(screen.getByText('50.0°F')).toBeInTheDocument();
+    expect(screen.getByText('10.0 mph SW')).toBeInTheDocument();
+    expect(screen.getByText('1013 hPa')).toBeInTheDocument();
+  });
+
+  it('omits the panel for weather rows stored without details', () => {
+    render(
+      <LiveReadingCard
+        deviceId="node1"
+        deviceName="Node 1"
+        reading={baseReading}
+        weatherReading={{ ...baseReading, id: 2, device_id: 'weather_node1', source: 'weather' }}
+      />
+    );
+
+    expect(screen.queryByRole('button', { name: /outdoor conditions/ })).not.toBeInTheDocument();
+  });
+
   it('renders loading state when no reading and loading', () => {
     render(
       <LiveReadingCard
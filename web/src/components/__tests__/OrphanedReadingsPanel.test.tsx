@@ -0,0 +1,97 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { OrphanedReadingsPanel } from '../OrphanedReadingsPanel';
+import { createDeployment, getOrphanedReadingSpans, updateDeployment } from '@/lib/supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  createDeployment: vi.fn(),
+  getOrphanedReadingSpans: vi.fn(),
+  updateDeployment: vi.fn(),
+}));
+
+const betweenDeployments = {
+  device_id: 'node1',
+  started_at: '2026-03-02T00:00:00.000Z',
+  ended_at: '2026-03-02T06:00:00.000Z',
+  reading_count: 72,
+  previous_deployment_id: 1,
+  previous_deployment_name: 'Kitchen week',
+  next_deployment_id: 2,
+  next_deployment_name: 'Patio',
+};
+
+const alone = {
+  device_id: 'node2',
+  started_at: '2026-03-01T00:00:00.000Z',
+  ended_at: '2026-03-01T12:00:00.000Z',
+  reading_count: 144,
+  previous_deployment_id: null,
+  previous_deployment_name: null,
+  next_deployment_id: null,
+  next_deployment_name: null,
+};
+
+describe('OrphanedReadingsPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getOrphanedReadingSpans).mockResolvedValue([betweenDeployments, alone]);
+  });
+
+  it('summarises spans and extends the previous deployment over one', async () => {
+    vi.mocked(updateDeployment).mockResolvedValue({} as never);
+    const onDeploymentChange = vi.fn();
+    const user = userEvent.setup();
+
+    render(<OrphanedReadingsPanel onDeploymentChange={onDeploymentChange} />);
+
+    expect(await screen.findByText('216 readings in 2 spans are outside every deployment.')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /Extend .Kitchen week. to here/ }));
+
+    await waitFor(() => {
+      expect(updateDeployment).toHaveBeenCalledWith(1, { ended_at: betweenDeployments.ended_at });
+    });
+    expect(await screen.findByText('Extended "Kitchen week" over 72 readings.')).toBeInTheDocument();
+    expect(onDeploymentChange).toHaveBeenCalled();
+  });
+
+  it('assigns selected spans and reports the ones with no neighbour', async () => {
+    vi.mocked(updateDeployment).mockResolvedValue({} as never);
+    const user = userEvent.setup();
+
+    render(<OrphanedReadingsPanel onDeploymentChange={vi.fn()} />);
+
+    const boxes = await screen.findAllByRole('checkbox');
+    await user.click(boxes[0]);
+    await user.click(boxes[1]);
+    await user.click(screen.getByRole('button', { name: 'Assign Selected to Adjacent Deployments' }));
+
+    expect(await screen.findByText('Extended 1 deployment. 1 span has no deployment nearby; create one instead.')).toBeInTheDocument();
+    expect(updateDeployment).toHaveBeenCalledTimes(1);
+  });
+
+  it('creates a deployment covering a span', async () => {
+    vi.mocked(createDeployment).mockResolvedValue({ name: 'Garage' } as never);
+    const user = userEvent.setup();
+
+    render(<OrphanedReadingsPanel deviceId="node2" onDeploymentChange={vi.fn()} />);
+
+    const buttons = await screen.findAllByRole('button', { name: 'New Deployment' });
+    await user.click(buttons[1]);
+    await user.type(screen.getByLabelText('Deployment name'), 'Garage');
+    await user.type(screen.getByLabelText('Location'), 'Garage');
+    await user.click(screen.getByRole('button', { name: 'Create Deployment' }));
+
+    await waitFor(() => {
+      expect(createDeployment).toHaveBeenCalledWith({
+        device_id: 'node2',
+        name: 'Garage',
+        location: 'Garage',
+        started_at: alone.started_at,
+        ended_at: alone.ended_at,
+      });
+    });
+    expect(getOrphanedReadingSpans).toHaveBeenCalledWith({ deviceId: 'node2' });
+    expect(await screen.findByText('Created "Garage" covering 144 readings.')).toBeInTheDocument();
+  });
+});
@@ -30,7 +30,7 @@ describe('UserMenu', () => {
   const mockedSignOut = vi.mocked(signOut);
 
   it('renders sign-in link when unauthenticated', () => {
-    mockedUseSession.mockReturnValue({ session: null, user: null, loading: false });
+    mockedUseSession.mockReturnValue({ session: null, user: null, role: null, loading: false });
 
     render(<UserMenu />);
 
@@ -43,6 +43,7 @@ describe('UserMenu', () => {
     mockedUseSession.mockReturnValue({
       session: { user: { email: 'test@example.com' } } as never,
       user: { email: 'test@example.com' } as never,
+      role: 'viewer',
       loading: false,
     });
     mockedSignOut.mockResolvedValue({ success: true });
@@ -55,6 +56,9 @@ describe('UserMenu', () => {
 
     expect(screen.getByText('Signed in as')).toBeInTheDocument();
     expect(screen.getByText('test@example.com')).toBeInTheDocument();
+    expect(screen.getByText('Viewer')).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'Audit Log' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'Manage Users' })).not.toBeInTheDocument();
 
     const signOutButton = screen.getByRole('button', { name: 'Sign Out' });
     await user.click(signOutButton);
@@ -62,4 +66,20 @@ describe('UserMenu', () => {
     expect(mockedSignOut).toHaveBeenCalledTimes(1);
     expect(push).toHaveBeenCalledWith('/login');
   });
+
+  it('shows admin links to admins', async () => {
+    mockedUseSession.mockReturnValue({
+      session: { user: { email: 'admin@example.com' } } as never,
+      user: { email: 'admin@example.com' } as never,
+      role: 'admin',
+      loading: false,
+    });
+
+    render(<UserMenu />);
+    await userEvent.setup().click(screen.getByRole('button', { name: 'User menu' }));
+
+    expect(screen.getByText('Admin')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Audit Log' })).toHaveAttribute('href', '/audit');
+    expect(screen.getByRole('link', { name: 'Manage Users' })).toHaveAttribute('href', '/admin/users');
+  });
 });
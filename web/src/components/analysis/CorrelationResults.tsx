@@ -1,6 +1,7 @@
 'use client';
 
-import type { CorrelationResult } from '@/lib/analysisRunner';
+import type { CorrelationResult, CovariateCorrelation } from '@/lib/analysisRunner';
+import { WEATHER_COVARIATES } from '@/lib/weatherDetails';
 
 interface CorrelationResultsProps {
   results: CorrelationResult[];
@@ -159,6 +160,66 @@ function StatRow({ label, value, valueClassName }: StatRowProps) {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Outdoor weather covariates
+// ---------------------------------------------------------------------------
+
+function covariateLabel(key: CovariateCorrelation['key']): string {
+  return WEATHER_COVARIATES.find((c) => c.key === key)?.label ?? key;
+}
+
+function CovariateCell({ r, p }: { r: number; p: number }) {
+  return (
+    <td
+      className={`py-1.5 text-sm text-right font-mono ${p < 0.05 ? 'text-white' : 'text-[#a0aec0]'}`}
+      title={`p = ${formatPValue(p)}`}
+    >
+      {r.toFixed(3)}
+      {p < 0.05 ? '*' : ''}
+    </td>
+  );
+}
+
+function CovariateTable({ covariates }: { covariates: CovariateCorrelation[] }) {
+  if (covariates.length === 0) {
+    return (
+      <p className="text-xs text-[#a0aec0] mt-4">
+        No outdoor weather details were recorded for this window.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-6">
+      <p className="text-xs text-[#a0aec0] mb-2">
+        Outdoor Weather Covariates (Pearson r, * p &lt; 0.05)
+      </p>
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-white/10 text-xs text-[#a0aec0]">
+            <th className="py-1.5 pr-4 text-left font-normal">Covariate</th>
+            <th className="py-1.5 text-right font-normal">vs Temp</th>
+            <th className="py-1.5 text-right font-normal">vs Humidity</th>
+            <th className="py-1.5 text-right font-normal">N</th>
+          </tr>
+        </thead>
+        <tbody>
+          {covariates.map((c) => (
+            <tr key={c.key} className="border-b border-white/5 last:border-b-0">
+              <td className="py-1.5 pr-4 text-sm text-[#a0aec0]">{covariateLabel(c.key)}</td>
+              <CovariateCell r={c.temperature_r} p={c.temperature_p} />
+              <CovariateCell r={c.humidity_r} p={c.humidity_p} />
+              <td className="py-1.5 text-sm text-right font-mono text-[#a0aec0]">
+                {c.n_points.toLocaleString()}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 interface CorrelationCardProps {
   result: CorrelationResult;
 }
@@ -237,6 +298,8 @@ function CorrelationCard({ result }: CorrelationCardProps) {
           </div>
         </div>
       </div>
+
+      <CovariateTable covariates={result.covariates} />
     </div>
   );
 }
@@ -1,13 +1,14 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, useCallback, useRef, type ReactNode } from 'react';
+import { createContext, useContext, useEffect, useState, useCallback, useMemo, useRef, type ReactNode } from 'react';
 import type { Device } from '@/lib/supabase';
 import { getDevices } from '@/lib/supabase';
+import { buildCalibrationMap, type CalibrationMap } from '@/lib/calibration';
 import { useSession } from '@/components/AuthProvider';
 
 const FALLBACK_DEVICES: Device[] = [
-  { id: 'node1', display_name: 'Node 1', color: '#0075ff', is_active: true, monitor_enabled: true, sort_order: 1, created_at: '', updated_at: '' },
-  { id: 'node2', display_name: 'Node 2', color: '#01b574', is_active: true, monitor_enabled: true, sort_order: 2, created_at: '', updated_at: '' },
+  { id: 'node1', display_name: 'Node 1', color: '#0075ff', is_active: true, monitor_enabled: true, sort_order: 1, temp_offset_c: 0, temp_gain: 1, humidity_offset: 0, humidity_gain: 1, created_at: '', updated_at: '' },
+  { id: 'node2', display_name: 'Node 2', color: '#01b574', is_active: true, monitor_enabled: true, sort_order: 2, temp_offset_c: 0, temp_gain: 1, humidity_offset: 0, humidity_gain: 1, created_at: '', updated_at: '' },
 ];
 
 interface DevicesContextValue {
@@ -15,6 +16,10 @@ interface DevicesContextValue {
   allDevices: Device[];
   isLoading: boolean;
   refresh: () => Promise<void>;
+  calibrationEnabled: boolean;
+  setCalibrationEnabled: (enabled: boolean) => void;
+  // null when calibration is toggled off so queries return raw values.
+  calibrations: CalibrationMap | null;
 }
 
 const DevicesContext = createContext<DevicesContextValue>({
@@ -22,6 +27,9 @@ const DevicesContext = createContext<DevicesContextValue>({
   allDevices: FALLBACK_DEVICES,
   isLoading: true,
   refresh: async () => {},
+  calibrationEnabled: true,
+  setCalibrationEnabled: () => {},
+  calibrations: null,
 });
 
 async function fetchAllDevices() {
@@ -37,6 +45,7 @@ export function DevicesProvider({ children }: { children: ReactNode }) {
   const [devices, setDevices] = useState<Device[]>(FALLBACK_DEVICES);
   const [allDevices, setAllDevices] = useState<Device[]>(FALLBACK_DEVICES);
   const [isLoading, setIsLoading] = useState(true);
+  const [calibrationEnabled, setCalibrationEnabled] = useState(true);
   const fetchVersionRef = useRef(0);
   const hasLoadedRef = useRef(false);
 
@@ -63,8 +72,15 @@ export function DevicesProvider({ children }: { children: ReactNode }) {
     setAllDevices(all);
   }, []);
 
+  const calibrations = useMemo(
+    () => (calibrationEnabled ? buildCalibrationMap(allDevices) : null),
+    [allDevices, calibrationEnabled]
+  );
+
   return (
-    <DevicesContext.Provider value={{ devices, allDevices, isLoading, refresh }}>
+    <DevicesContext.Provider
+      value={{ devices, allDevices, isLoading, refresh, calibrationEnabled, setCalibrationEnabled, calibrations }}
+    >
       {children}
     </DevicesContext.Provider>
   );
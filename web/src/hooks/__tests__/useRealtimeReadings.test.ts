@@ -0,0 +1,61 @@
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { useRealtimeReadings } from '../useRealtimeReadings';
+import type { ReadingsFeed, ReadingsFeedHandlers } from '@/lib/realtime';
+
+function makeFakeFeed() {
+  let handlers: ReadingsFeedHandlers | undefined;
+  const unsubscribe = vi.fn();
+  const feed: ReadingsFeed = {
+    subscribe: vi.fn((h: ReadingsFeedHandlers) => {
+      handlers = h;
+      h.onStatus('connecting');
+      return unsubscribe;
+    }),
+  };
+  return { feed, unsubscribe, handlers: () => handlers! };
+}
+
+describe('useRealtimeReadings', () => {
+  it('reports polling when there is no feed', () => {
+    const { result } = renderHook(() => useRealtimeReadings(null, vi.fn()));
+    expect(result.current).toBe('polling');
+  });
+
+  it('forwards inserts and tracks live/polling status', () => {
+    const fake = makeFakeFeed();
+    const onInsert = vi.fn();
+    const { result } = renderHook(() => useRealtimeReadings(fake.feed, onInsert));
+    expect(result.current).toBe('connecting');
+
+    act(() => fake.handlers().onStatus('live'));
+    expect(result.current).toBe('live');
+
+    const reading = { id: 1, device_id: 'node1', temperature: 20, humidity: 40, created_at: '2026-03-01T00:00:00Z' };
+    act(() => fake.handlers().onInsert(reading));
+    expect(onInsert).toHaveBeenCalledWith(reading);
+
+    act(() => fake.handlers().onStatus('polling'));
+    expect(result.current).toBe('polling');
+  });
+
+  it('calls onReconnect only when coming back from polling', () => {
+    const fake = makeFakeFeed();
+    const onReconnect = vi.fn();
+    renderHook(() => useRealtimeReadings(fake.feed, vi.fn(), onReconnect));
+
+    act(() => fake.handlers().onStatus('live'));
+    expect(onReconnect).not.toHaveBeenCalled();
+
+    act(() => fake.handlers().onStatus('polling'));
+    act(() => fake.handlers().onStatus('live'));
+    expect(onReconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('unsubscribes on unmount', () => {
+    const fake = makeFakeFeed();
+    const { unmount } = renderHook(() => useRealtimeReadings(fake.feed, vi.fn()));
+    unmount();
+    expect(fake.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
@@ -20,11 +20,16 @@ describe('useTimeRange', () => {
       device_id: 'node2',
       name: 'Greenhouse',
       location: 'Backyard',
+      location_id: null,
       notes: null,
       zip_code: '85142',
+      country_code: null,
+      latitude: null,
+      longitude: null,
       started_at: '2026-02-10T00:00:00.000Z',
       ended_at: '2026-02-20T00:00:00.000Z',
       created_at: '2026-02-10T00:00:00.000Z',
+      archived_at: null,
     });
 
     const { result } = renderHook(() => useTimeRange());
@@ -51,11 +56,16 @@ describe('useTimeRange', () => {
       device_id: 'node1',
       name: 'Office',
       location: 'Lab',
+      location_id: null,
       notes: null,
       zip_code: '85142',
+      country_code: null,
+      latitude: null,
+      longitude: null,
       started_at: '2026-01-01T00:00:00.000Z',
       ended_at: '2026-01-15T12:00:00.000Z',
       created_at: '2026-01-01T00:00:00.000Z',
+      archived_at: null,
     });
 
     const { result } = renderHook(() => useTimeRange());
@@ -80,11 +90,16 @@ describe('useTimeRange', () => {
       device_id: 'node2',
       name: 'Garage',
       location: 'Driveway',
+      location_id: null,
       notes: null,
       zip_code: '85142',
+      country_code: null,
+      latitude: null,
+      longitude: null,
       started_at: '2026-01-01T00:00:00.000Z',
       ended_at: '2026-03-01T00:00:00.000Z',
       created_at: '2026-01-01T00:00:00.000Z',
+      archived_at: null,
     });
 
     const { result } = renderHook(() => useTimeRange());
@@ -0,0 +1,20 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getMetrics, type MetricDefinition } from '@/lib/supabase';
+import { BUILTIN_METRICS, sortMetrics } from '@/lib/metrics';
+
+export function useMetrics() {
+  const [metrics, setMetrics] = useState<MetricDefinition[]>(BUILTIN_METRICS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getMetrics()
+      .then((data) => {
+        if (data.length > 0) setMetrics(sortMetrics(data));
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return { metrics, isLoading };
+}
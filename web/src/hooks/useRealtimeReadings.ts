@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { Reading } from '@/lib/supabase';
+import type { ReadingsFeed, RealtimeMode } from '@/lib/realtime';
+
+/**
+ * Subscribes to `readings` inserts while mounted. Returns 'polling' when there
+ * is no feed or the channel dropped, so callers know to keep their interval.
+ * `onReconnect` fires when the feed comes back live after a drop, to backfill
+ * anything missed while polling.
+ */
+export function useRealtimeReadings(
+  feed: ReadingsFeed | null,
+  onInsert: (reading: Reading) => void,
+  onReconnect?: () => void
+): RealtimeMode {
+  const [mode, setMode] = useState<RealtimeMode>('connecting');
+  const onInsertRef = useRef(onInsert);
+  const onReconnectRef = useRef(onReconnect);
+
+  useEffect(() => {
+    onInsertRef.current = onInsert;
+    onReconnectRef.current = onReconnect;
+  }, [onInsert, onReconnect]);
+
+  useEffect(() => {
+    if (!feed) return;
+
+    let previous: RealtimeMode = 'connecting';
+    const unsubscribe = feed.subscribe({
+      onInsert: (reading) => onInsertRef.current(reading),
+      onStatus: (next) => {
+        if (next === 'live' && previous === 'polling') {
+          onReconnectRef.current?.();
+        }
+        previous = next;
+        setMode(next);
+      },
+    });
+
+    return unsubscribe;
+  }, [feed]);
+
+  return feed ? mode : 'polling';
+}
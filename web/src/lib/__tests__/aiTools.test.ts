@@ -8,6 +8,10 @@ vi.mock('@supabase/supabase-js', () => ({
   createClient: vi.fn(),
 }));
 
+function devicesQuery(rows: Record<string, unknown>[] = []) {
+  return { select: vi.fn(async () => ({ data: rows, error: null })) };
+}
+
 describe('aiTools executeTool', () => {
   const originalEnv = { ...process.env };
 
@@ -40,7 +44,7 @@ describe('aiTools executeTool', () => {
       error: null,
     }));
 
-    vi.mocked(createClient).mockReturnValue({ rpc } as never);
+    vi.mocked(createClient).mockReturnValue({ rpc, from: vi.fn(() => devicesQuery()) } as never);
 
     const result = await executeTool('get_deployment_stats', { deployment_ids: [1] }) as {
       stats: Array<{ temp_avg_f: number; temp_stddev_f: number }>;
@@ -75,7 +79,7 @@ describe('aiTools executeTool', () => {
       error: null,
     }));
 
-    vi.mocked(createClient).mockReturnValue({ rpc } as never);
+    vi.mocked(createClient).mockReturnValue({ rpc, from: vi.fn(() => devicesQuery()) } as never);
 
     const ids = Array.from({ length: 150 }, (_, i) => i + 1);
     const result = await executeTool('get_deployment_stats', { deployment_ids: ids }) as {
@@ -159,7 +163,7 @@ describe('aiTools executeTool', () => {
       return { data: [], error: null };
     });
 
-    vi.mocked(createClient).mockReturnValue({ rpc } as never);
+    vi.mocked(createClient).mockReturnValue({ rpc, from: vi.fn(() => devicesQuery()) } as never);
 
     const result = await executeTool('get_report_data', {}) as {
       deployment_stats: unknown[];
@@ -210,6 +214,7 @@ describe('aiTools executeTool', () => {
     const from = vi.fn((table: string) => {
       if (table === 'deployments') return deploymentQuery;
       if (table === 'readings') return readingsQuery;
+      if (table === 'devices') return devicesQuery();
       throw new Error(`Unexpected table: ${table}`);
     });
 
@@ -217,15 +222,56 @@ describe('aiTools executeTool', () => {
 
     const result = await executeTool('get_readings', { deployment_id: 1, limit: 1 }) as Array<{
       temperature_f: number;
+      dew_point_f: number | null;
+      vpd_kpa: number | null;
     }>;
     expect(result[0].temperature_f).toBe(68);
+    expect(result[0]).toMatchObject({ dew_point_f: 45.9, vpd_kpa: 1.28 });
+  });
+
+  it('applies device calibration to stats unless raw is requested', async () => {
+    const rpc = vi.fn(async () => ({
+      data: [
+        {
+          device_id: 'node1',
+          temp_avg: 20,
+          temp_min: 18,
+          temp_max: 22,
+          temp_stddev: 1,
+          humidity_avg: 45,
+          humidity_min: 40,
+          humidity_max: 50,
+          humidity_stddev: 2,
+          reading_count: 10,
+        },
+      ],
+      error: null,
+    }));
+    const from = vi.fn(() =>
+      devicesQuery([{ id: 'node1', temp_offset_c: -1, temp_gain: 1, humidity_offset: 2, humidity_gain: 1 }])
+    );
+    vi.mocked(createClient).mockReturnValue({ rpc, from } as never);
+
+    const calibrated = await executeTool('get_device_stats', {
+      start: '2026-01-01T00:00:00Z',
+      end: '2026-01-02T00:00:00Z',
+    }) as Array<{ temp_avg: number; humidity_avg: number; calibrated: boolean }>;
+    expect(calibrated[0]).toMatchObject({ temp_avg: 19, humidity_avg: 47, calibrated: true });
+
+    const raw = await executeTool('get_device_stats', {
+      start: '2026-01-01T00:00:00Z',
+      end: '2026-01-02T00:00:00Z',
+      raw: true,
+    }) as Array<{ temp_avg: number; calibrated: boolean }>;
+    expect(raw[0]).toMatchObject({ temp_avg: 20, calibrated: false });
+    expect(from).toHaveBeenCalledTimes(1);
   });
 
   it('throws on unknown tools', async () => {
     await expect(executeTool('unknown_tool', {})).rejects.toThrow('Unknown tool');
   });
 
-  it('validates zip codes for get_weather', async () => {
+  it('validates postal codes for get_weather', async () => {
     const query: Record<string, unknown> = {};
     query.select = vi.fn(() => query);
     query.eq = vi.fn(() => query);
@@ -238,7 +284,39 @@ describe('aiTools executeTool', () => {
     } as never);
 
     await expect(executeTool('get_weather', { zip_code: 'bad' })).rejects.toThrow(
-      'Invalid US zip code'
+      'Invalid postal code'
     );
   });
+
+  it('returns weather details with US-unit conversions from get_weather', async () => {
+    const query: Record<string, unknown> = {};
+    query.select = vi.fn(() => query);
+    query.eq = vi.fn(() => query);
+    query.order = vi.fn(() => query);
+    query.limit = vi.fn(async () => ({
+      data: [{
+        id: 5,
+        device_id: 'weather_node1',
+        temperature: 20,
+        humidity: 40,
+        created_at: '2026-01-01T12:00:00Z',
+        measured_at: '2026-01-01T12:00:00Z',
+        observed_at: '2026-01-01T12:00:00Z',
+        dew_point: 10,
+        wind_speed_kph: 16.09344,
+        weather_condition: 'Overcast',
+      }],
+      error: null,
+    }));
+
+    vi.mocked(createClient).mockReturnValue({
+      from: vi.fn(() => query),
+      rpc: vi.fn(),
+    } as never);
+
+    const [row] = await executeTool('get_weather', { device_id: 'weather_node1' }) as Array<Record<string, unknown>>;
+    expect(row).toMatchObject({ temperature_f: 68, dew_point_f: 50, wind_speed_mph: 10, weather_condition: 'Overcast' });
+    // Derived from temperature and humidity; the provider's dew point wins over the computed 42.8 °F.
+    expect(row).toMatchObject({ absolute_humidity_g_m3: 6.9, vpd_kpa: 1.4 });
+  });
 });
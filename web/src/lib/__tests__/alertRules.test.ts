@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  breachesRule,
+  describeRule,
+  evaluateRule,
+  resolveRuleTargets,
+  type RuleReading,
+} from '../alertRules';
+import { BUILTIN_METRICS } from '../metrics';
+import type { AlertRule } from '../supabase';
+
+const NOW = Date.parse('2026-06-01T12:00:00Z');
+
+function makeRule(overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: 1,
+    name: 'Too hot',
+    rule_type: 'threshold',
+    metric: 'temperature',
+    operator: 'above',
+    threshold: 32,
+    duration_minutes: 15,
+    device_id: null,
+    deployment_id: null,
+    severity: 'warning',
+    enabled: true,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+/** One reading per `stepMinutes`, oldest first, ending at NOW. */
+function series(values: number[], stepMinutes = 5, field: 'temperature' | 'humidity' = 'temperature'): RuleReading[] {
+  return values.map((value, i) => ({
+    measured_at: new Date(NOW - (values.length - 1 - i) * stepMinutes * 60_000).toISOString(),
+    temperature: field === 'temperature' ? value : 20,
+    humidity: field === 'humidity' ? value : 50,
+  }));
+}
+
+const options = { nowMs: NOW, staleMinutes: 10, metrics: BUILTIN_METRICS };
+
+describe('resolveRuleTargets', () => {
+  const deployments = [
+    { id: 7, device_id: 'node2', started_at: '2026-05-01T00:00:00Z', ended_at: null },
+    { id: 8, device_id: 'node1', started_at: '2026-04-01T00:00:00Z', ended_at: '2026-04-10T00:00:00Z' },
+  ];
+
+  it('covers every monitored device when unscoped', () => {
+    expect(resolveRuleTargets(makeRule(), ['node1', 'node2'], [])).toEqual([
+      { deviceId: 'node1', since: null },
+      { deviceId: 'node2', since: null },
+    ]);
+  });
+
+  it('limits device-scoped rules to that device when it is monitored', () => {
+    expect(resolveRuleTargets(makeRule({ device_id: 'node2' }), ['node1', 'node2'], [])).toEqual([
+      { deviceId: 'node2', since: null },
+    ]);
+    expect(resolveRuleTargets(makeRule({ device_id: 'node3' }), ['node1'], [])).toEqual([]);
+  });
+
+  it('applies deployment-scoped rules only while the deployment is active', () => {
+    expect(resolveRuleTargets(makeRule({ deployment_id: 7 }), ['node1', 'node2'], deployments)).toEqual([
+      { deviceId: 'node2', since: '2026-05-01T00:00:00Z' },
+    ]);
+    expect(resolveRuleTargets(makeRule({ deployment_id: 8 }), ['node1', 'node2'], deployments)).toEqual([]);
+  });
+});
+
+describe('describeRule', () => {
+  it('shows thresholds and deviations in display units', () => {
+    expect(describeRule(makeRule(), BUILTIN_METRICS)).toBe('Temperature above 89.6°F for 15 min');
+    expect(describeRule(makeRule({ metric: 'humidity', operator: 'below', threshold: 20, duration_minutes: 0 }), BUILTIN_METRICS))
+      .toBe('Humidity below 20.0%');
+    expect(describeRule(makeRule({ rule_type: 'weather_deviation', threshold: 5 / 1.8, duration_minutes: 0 }), BUILTIN_METRICS))
+      .toBe('Temperature deviation from weather more than 5.0°F');
+  });
+});
+
+describe('evaluateRule', () => {
+  it('fires once the breach has lasted the rule duration', () => {
+    const result = evaluateRule(makeRule(), series([30, 33, 33, 34, 35]), [], options);
+    expect(result.firing).toBe(true);
+    expect(result.value).toBe(35);
+    expect(result.breachStartedAt).toBe(new Date(NOW - 15 * 60_000).toISOString());
+  });
+
+  it('records a breach shorter than the duration without firing', () => {
+    const result = evaluateRule(makeRule(), series([30, 30, 33, 34]), [], options);
+    expect(result.firing).toBe(false);
+    expect(result.breachStartedAt).toBe(new Date(NOW - 5 * 60_000).toISOString());
+    expect(result.reason).toContain('5 of 15 min');
+  });
+
+  it('clears as soon as the latest reading is back within the rule', () => {
+    const result = evaluateRule(makeRule(), series([35, 35, 35, 35, 31]), [], options);
+    expect(result).toMatchObject({ firing: false, value: 31, breachStartedAt: null });
+  });
+
+  it('fires immediately for rules without a duration', () => {
+    const rule = makeRule({ metric: 'humidity', operator: 'below', threshold: 20, duration_minutes: 0 });
+    expect(evaluateRule(rule, series([40, 18], 5, 'humidity'), [], options).firing).toBe(true);
+  });
+
+  it('ignores readings before the deployment started', () => {
+    const since = new Date(NOW - 5 * 60_000).toISOString();
+    const result = evaluateRule(makeRule(), series([35, 35, 35, 35, 35]), [], { ...options, since });
+    expect(result.firing).toBe(false);
+    expect(result.breachStartedAt).toBe(since);
+  });
+
+  it('has nothing to evaluate without recent readings', () => {
+    const result = evaluateRule(makeRule(), [], [], options);
+    expect(result).toMatchObject({ firing: false, value: null });
+  });
+
+  it('compares each reading with the latest weather row for deviation rules', () => {
+    const rule = makeRule({ rule_type: 'weather_deviation', threshold: 3, duration_minutes: 10 });
+    const weather = [
+      { measured_at: new Date(NOW - 40 * 60_000).toISOString(), temperature: 20, humidity: 50 },
+      { measured_at: new Date(NOW - 10 * 60_000).toISOString(), temperature: 21, humidity: 50 },
+    ];
+    const result = evaluateRule(rule, series([24.5, 25, 24.5]), weather, options);
+    expect(result.firing).toBe(true);
+    expect(result.value).toBeCloseTo(3.5);
+
+    // Deviation is absolute: a sensor reading far below the weather also breaches.
+    expect(breachesRule(rule, -4)).toBe(true);
+  });
+
+  it('skips readings with no recent weather row', () => {
+    const rule = makeRule({ rule_type: 'weather_deviation', threshold: 3, duration_minutes: 0 });
+    const weather = [{ measured_at: new Date(NOW - 3 * 60 * 60_000).toISOString(), temperature: 10, humidity: 50 }];
+    const result = evaluateRule(rule, series([25]), weather, options);
+    expect(result).toMatchObject({ firing: false, value: null });
+  });
+});
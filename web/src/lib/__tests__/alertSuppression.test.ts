@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { activeMaintenanceWindow, isSnoozed, suppressionReason } from '../alertSuppression';
+
+const NOW = Date.parse('2026-06-01T12:00:00Z');
+const at = (minutes: number) => new Date(NOW + minutes * 60_000).toISOString();
+
+const allDevices = { device_id: null, starts_at: at(-30), ends_at: at(30) };
+const node2Only = { device_id: 'node2', starts_at: at(-30), ends_at: at(30) };
+const upcoming = { device_id: 'node1', starts_at: at(10), ends_at: at(60) };
+
+describe('activeMaintenanceWindow', () => {
+  it('matches device-less windows for every device', () => {
+    expect(activeMaintenanceWindow([allDevices], 'node1', NOW)).toBe(allDevices);
+  });
+
+  it('ignores windows for other devices and windows not yet started', () => {
+    expect(activeMaintenanceWindow([node2Only, upcoming], 'node1', NOW)).toBeUndefined();
+  });
+
+  it('treats the end time as exclusive', () => {
+    expect(activeMaintenanceWindow([node2Only], 'node2', Date.parse(at(30)))).toBeUndefined();
+  });
+});
+
+describe('isSnoozed', () => {
+  it('is true only before the snooze expires', () => {
+    expect(isSnoozed(at(5), NOW)).toBe(true);
+    expect(isSnoozed(at(-5), NOW)).toBe(false);
+    expect(isSnoozed(null, NOW)).toBe(false);
+  });
+});
+
+describe('suppressionReason', () => {
+  const base = { deviceId: 'node1', nowMs: NOW, maintenanceWindows: [], snoozedUntil: null, incident: undefined };
+
+  it('returns null when nothing applies', () => {
+    expect(suppressionReason(base)).toBeNull();
+  });
+
+  it('prefers maintenance over snooze and acknowledgement', () => {
+    expect(
+      suppressionReason({
+        ...base,
+        maintenanceWindows: [allDevices],
+        snoozedUntil: at(5),
+        incident: { acknowledged_at: at(-1) },
+      })
+    ).toBe('maintenance');
+  });
+
+  it('reports snoozed devices and acknowledged incidents', () => {
+    expect(suppressionReason({ ...base, snoozedUntil: at(5) })).toBe('snoozed');
+    expect(suppressionReason({ ...base, incident: { acknowledged_at: at(-1) } })).toBe('acknowledged');
+  });
+});
@@ -3,12 +3,13 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 vi.mock('../supabase', () => ({
   getDeployments: vi.fn(),
   getDeploymentReadings: vi.fn(),
+  getAllReadingsRange: vi.fn(),
   getChartSamples: vi.fn(),
   celsiusToFahrenheit: (celsius: number) => (celsius * 9) / 5 + 32,
 }));
 
-import { runAnalyses } from '../analysisRunner';
-import { getDeployments, getDeploymentReadings } from '../supabase';
+import { attachWeatherCovariates, runAnalyses } from '../analysisRunner';
+import { getAllReadingsRange, getDeployments, getDeploymentReadings } from '../supabase';
 
 function makePyodideStub() {
   const globals = new Map<string, unknown>();
@@ -41,11 +42,16 @@ describe('runAnalyses forecasting data scope', () => {
         device_id: 'node1',
         name: 'Deployment A',
         location: 'Yard',
+        location_id: null,
         notes: null,
         zip_code: '85142',
+        country_code: null,
+        latitude: null,
+        longitude: null,
         started_at: '2025-01-01T00:00:00.000Z',
         ended_at: null,
         created_at: '2025-01-01T00:00:00.000Z',
+        archived_at: null,
         reading_count: 10000,
       },
     ];
@@ -77,3 +83,77 @@ describe('runAnalyses forecasting data scope', () => {
     expect(call?.[2]?.end).not.toBe('2000-01-01T00:00:00.000Z');
   });
 });
+
+describe('weather covariates for correlation', () => {
+  const weather = (measured_at: string, dew_point: number | null) => ({
+    id: 0,
+    device_id: 'weather_node1',
+    temperature: 10,
+    humidity: 50,
+    created_at: measured_at,
+    measured_at,
+    source: 'weather' as const,
+    dew_point,
+    pressure_hpa: 1015,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('attaches the nearest weather observation within 90 minutes', () => {
+    const readings = [
+      { created_at: '2026-02-01T00:10:00.000Z' },
+      { created_at: '2026-02-01T00:40:00.000Z' },
+      { created_at: '2026-02-01T04:00:00.000Z' },
+    ];
+    const rows = attachWeatherCovariates(readings, [
+      weather('2026-02-01T00:00:00.000Z', 1),
+      weather('2026-02-01T01:00:00.000Z', 2),
+    ]);
+
+    expect(rows.map((r) => r.dew_point)).toEqual([1, 2, null]);
+    expect(rows[0]).toMatchObject({ pressure_hpa: 1015, wind_speed_kph: null });
+    expect(rows[2].pressure_hpa).toBeNull();
+  });
+
+  it('fetches weather_<device> rows only when correlation runs', async () => {
+    vi.mocked(getDeployments).mockResolvedValue([
+      {
+        id: 1,
+        device_id: 'node1',
+        name: 'Deployment A',
+        location: 'Yard',
+        location_id: null,
+        notes: null,
+        zip_code: '85142',
+        country_code: null,
+        latitude: null,
+        longitude: null,
+        started_at: '2026-02-01T00:00:00.000Z',
+        ended_at: null,
+        created_at: '2026-02-01T00:00:00.000Z',
+        archived_at: null,
+        reading_count: 1,
+      },
+    ]);
+    vi.mocked(getDeploymentReadings).mockResolvedValue([
+      { id: 1, device_id: 'node1', temperature: 20, humidity: 40, created_at: '2026-02-01T02:00:00.000Z' },
+    ]);
+    vi.mocked(getAllReadingsRange).mockResolvedValue([weather('2026-02-01T02:00:00.000Z', 5)]);
+    const params = { deploymentIds: [1], start: '2026-02-01T00:00:00.000Z', end: '2026-02-02T00:00:00.000Z' };
+
+    const pyodide = makePyodideStub();
+    await runAnalyses(pyodide as never, { ...params, analyses: ['descriptive'] });
+    expect(getAllReadingsRange).not.toHaveBeenCalled();
+
+    await runAnalyses(pyodide as never, { ...params, analyses: ['correlation'] });
+    expect(getAllReadingsRange).toHaveBeenCalledWith({
+      start: '2026-02-01T00:30:00.000Z',
+      end: '2026-02-01T03:30:00.000Z',
+      device_id: 'weather_node1',
+    });
+    const readings = JSON.parse(pyodide.globals.get('readings_json') as string);
+    expect(readings[0]).toMatchObject({ temperature: 20, dew_point: 5, pressure_hpa: 1015 });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { auditActorLabel, auditChanges, formatAuditValue } from '../audit';
+
+describe('auditChanges', () => {
+  it('lists only fields that changed, ignoring updated_at', () => {
+    const changes = auditChanges({
+      before: { id: 'node1', display_name: 'Node 1', temp_offset_c: 0, updated_at: '2026-01-01T00:00:00Z' },
+      after: { id: 'node1', display_name: 'Kitchen', temp_offset_c: 0.5, updated_at: '2026-01-02T00:00:00Z' },
+    });
+    expect(changes).toEqual([
+      { field: 'display_name', before: 'Node 1', after: 'Kitchen' },
+      { field: 'temp_offset_c', before: 0, after: 0.5 },
+    ]);
+  });
+
+  it('lists every field for creates and deletes', () => {
+    expect(auditChanges({ before: null, after: { key: 'device_auto_register', value: true } })).toEqual([
+      { field: 'key', before: undefined, after: 'device_auto_register' },
+      { field: 'value', before: undefined, after: true },
+    ]);
+    expect(auditChanges({ before: { id: 3, name: 'Attic' }, after: null })).toEqual([
+      { field: 'id', before: 3, after: undefined },
+      { field: 'name', before: 'Attic', after: undefined },
+    ]);
+  });
+
+  it('compares nested values structurally', () => {
+    expect(auditChanges({ before: { value: { on: true } }, after: { value: { on: true } } })).toEqual([]);
+  });
+});
+
+describe('audit formatting', () => {
+  it('formats values and actors', () => {
+    expect(formatAuditValue(null)).toBe('—');
+    expect(formatAuditValue('Attic')).toBe('Attic');
+    expect(formatAuditValue({ on: true })).toBe('{"on":true}');
+    expect(auditActorLabel({ actor_id: null, actor_email: null })).toBe('System');
+    expect(auditActorLabel({ actor_id: 'u1', actor_email: 'sam@example.com' })).toBe('sam@example.com');
+  });
+});
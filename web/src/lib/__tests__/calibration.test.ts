@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyCalibrationToReading,
+  applyCalibrationToSample,
+  applyCalibrationToStats,
+  buildCalibrationMap,
+  calibrationFromDevice,
+  IDENTITY_CALIBRATION,
+} from '../calibration';
+
+const node1 = { id: 'node1', temp_offset_c: -0.5, temp_gain: 1.02, humidity_offset: 3, humidity_gain: 0.95 };
+
+describe('calibrationFromDevice', () => {
+  it('defaults missing fields to identity', () => {
+    expect(calibrationFromDevice({})).toEqual(IDENTITY_CALIBRATION);
+  });
+
+  it('falls back to gain 1 for non-positive gains', () => {
+    const c = calibrationFromDevice({ temp_gain: 0, humidity_gain: -2 });
+    expect(c.temp_gain).toBe(1);
+    expect(c.humidity_gain).toBe(1);
+  });
+});
+
+describe('buildCalibrationMap', () => {
+  it('skips devices with identity calibration', () => {
+    const map = buildCalibrationMap([node1, { id: 'node2', ...IDENTITY_CALIBRATION }]);
+    expect(Object.keys(map)).toEqual(['node1']);
+  });
+});
+
+describe('applyCalibrationToReading', () => {
+  const map = buildCalibrationMap([node1]);
+
+  it('applies gain then offset', () => {
+    const r = applyCalibrationToReading({ device_id: 'node1', temperature: 20, humidity: 40 }, map);
+    expect(r.temperature).toBeCloseTo(19.9);
+    expect(r.humidity).toBeCloseTo(41);
+  });
+
+  it('leaves uncalibrated devices and weather rows untouched', () => {
+    const weather = { device_id: 'weather_node1', temperature: 20, humidity: 40 };
+    expect(applyCalibrationToReading(weather, map)).toBe(weather);
+  });
+
+  it('returns the input when calibrations are disabled', () => {
+    const reading = { device_id: 'node1', temperature: 20, humidity: 40 };
+    expect(applyCalibrationToReading(reading, null)).toBe(reading);
+  });
+});
+
+describe('applyCalibrationToSample', () => {
+  it('calibrates bucket averages', () => {
+    const s = applyCalibrationToSample(
+      { device_id: 'node1', temperature_avg: 10, humidity_avg: 50 },
+      buildCalibrationMap([node1])
+    );
+    expect(s.temperature_avg).toBeCloseTo(9.7);
+    expect(s.humidity_avg).toBeCloseTo(50.5);
+  });
+});
+
+describe('applyCalibrationToStats', () => {
+  it('shifts location stats and only scales stddev', () => {
+    const stats = applyCalibrationToStats(
+      {
+        device_id: 'node1',
+        temp_avg: 20,
+        temp_min: 10,
+        temp_max: 30,
+        temp_stddev: 2,
+        humidity_avg: 40,
+        humidity_min: null,
+        humidity_max: 60,
+        humidity_stddev: 4,
+      },
+      buildCalibrationMap([node1])
+    );
+    expect(stats.temp_min).toBeCloseTo(9.7);
+    expect(stats.temp_max).toBeCloseTo(30.1);
+    expect(stats.temp_stddev).toBeCloseTo(2.04);
+    expect(stats.humidity_min).toBeNull();
+    expect(stats.humidity_stddev).toBeCloseTo(3.8);
+  });
+});
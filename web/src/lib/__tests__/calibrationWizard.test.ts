@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({
+  getAllReadingsRange: vi.fn(),
+  getDeploymentReadings: vi.fn(),
+}));
+
+import fixture from './fixtures/calibrationWindow.json';
+import {
+  computeResiduals,
+  fitCalibration,
+  pairSensorWithWeather,
+  summarizeResiduals,
+  type CalibrationPair,
+} from '../calibrationWizard';
+import { IDENTITY_CALIBRATION } from '../calibration';
+import type { Reading } from '../supabase';
+
+const sensor = fixture.sensor as Reading[];
+const weather = fixture.weather as Reading[];
+
+function ols(x: number[], y: number[]) {
+  const n = x.length;
+  const mx = x.reduce((a, b) => a + b, 0) / n;
+  const my = y.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+  }
+  const gain = sxy / sxx;
+  return { gain, offset: my - gain * mx, r_squared: 1 };
+}
+
+// Stands in for Pyodide by answering CALIBRATION_FIT_SCRIPT with a JS least-squares fit.
+function makePyodideStub() {
+  const globals = new Map<string, unknown>();
+  return {
+    globals: {
+      set: (key: string, value: unknown) => globals.set(key, value),
+      get: (key: string) => globals.get(key),
+    },
+    runPythonAsync: vi.fn(async () => {
+      const pairs = JSON.parse(globals.get('calibration_pairs_json') as string) as CalibrationPair[];
+      globals.set('result_json', JSON.stringify({
+        temperature: ols(pairs.map((p) => p.sensor_temperature), pairs.map((p) => p.weather_temperature)),
+        humidity: ols(pairs.map((p) => p.sensor_humidity), pairs.map((p) => p.weather_humidity)),
+      }));
+    }),
+  };
+}
+
+describe('pairSensorWithWeather', () => {
+  it('pairs each weather observation with the nearest sensor reading', () => {
+    const pairs = pairSensorWithWeather(sensor, weather);
+    expect(pairs).toHaveLength(11);
+    expect(pairs[0]).toMatchObject({
+      weather_at: '2026-03-01T00:00:00.000Z',
+      sensor_at: '2026-03-01T00:03:00Z',
+      weather_temperature: 14.2,
+    });
+  });
+
+  it('skips weather rows with no sensor reading inside the gap', () => {
+    const pairs = pairSensorWithWeather(sensor, weather);
+    expect(pairs.some((p) => p.weather_at === '2026-03-01T05:00:00.000Z')).toBe(false);
+    expect(pairSensorWithWeather(sensor, weather, 30).some((p) => p.weather_at === '2026-03-01T05:00:00.000Z')).toBe(true);
+  });
+
+  it('returns nothing without sensor data', () => {
+    expect(pairSensorWithWeather([], weather)).toEqual([]);
+  });
+});
+
+describe('summarizeResiduals', () => {
+  it('computes bias, MAE and RMSE', () => {
+    const s = summarizeResiduals([1, -1, 2]);
+    expect(s.bias).toBeCloseTo(2 / 3);
+    expect(s.mae).toBeCloseTo(4 / 3);
+    expect(s.rmse).toBeCloseTo(Math.sqrt(2));
+  });
+
+  it('is zero for empty input', () => {
+    expect(summarizeResiduals([])).toEqual({ bias: 0, mae: 0, rmse: 0 });
+  });
+});
+
+describe('fitCalibration', () => {
+  it('recovers the fixture gain/offset and shrinks residuals', async () => {
+    const pairs = pairSensorWithWeather(sensor, weather);
+    const fit = await fitCalibration(makePyodideStub() as never, pairs);
+
+    expect(fit.n_pairs).toBe(11);
+    expect(fit.calibration.temp_gain).toBeCloseTo(0.96, 3);
+    expect(fit.calibration.temp_offset_c).toBeCloseTo(1.2, 2);
+    expect(fit.calibration.humidity_gain).toBeCloseTo(1.04, 3);
+    expect(fit.calibration.humidity_offset).toBeCloseTo(-2, 2);
+    expect(fit.residuals.temperature.after.rmse).toBeLessThan(0.01);
+    expect(fit.residuals.temperature.before.rmse).toBeGreaterThan(0.1);
+  });
+
+  it('refuses to fit with too few pairs', async () => {
+    const pairs = pairSensorWithWeather(sensor, weather).slice(0, 3);
+    await expect(fitCalibration(makePyodideStub() as never, pairs)).rejects.toThrow('at least');
+  });
+});
+
+describe('computeResiduals', () => {
+  it('matches before and after for identity calibration', () => {
+    const pairs = pairSensorWithWeather(sensor, weather);
+    const r = computeResiduals(pairs, IDENTITY_CALIBRATION);
+    expect(r.humidity.after).toEqual(r.humidity.before);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MIN_TIMELINE_SPAN_MS,
+  coverageGaps,
+  deploymentWindowError,
+  zoomWindow,
+} from '../deploymentTimeline';
+
+const HOUR = 3_600_000;
+const T0 = Date.parse('2026-03-01T00:00:00.000Z');
+const iso = (ms: number) => new Date(ms).toISOString();
+
+function dep(id: number, startH: number, endH: number | null, device_id = 'node1') {
+  return {
+    id,
+    device_id,
+    name: `Dep ${id}`,
+    started_at: iso(T0 + startH * HOUR),
+    ended_at: endH === null ? null : iso(T0 + endH * HOUR),
+  };
+}
+
+function bucket(hour: number, device_id = 'node1', reading_count = 12) {
+  return { bucket_ts: iso(T0 + hour * HOUR), device_id, reading_count };
+}
+
+describe('coverageGaps', () => {
+  it('merges consecutive uncovered buckets with readings into one gap per run', () => {
+    const gaps = coverageGaps(
+      [bucket(0), bucket(1), bucket(2), bucket(3), bucket(4), bucket(6), bucket(2, 'node2', 5)],
+      [dep(1, 0, 2)],
+      HOUR,
+      T0 + 24 * HOUR
+    );
+
+    expect(gaps).toEqual([
+      { device_id: 'node1', startMs: T0 + 2 * HOUR, endMs: T0 + 5 * HOUR, readingCount: 36 },
+      { device_id: 'node1', startMs: T0 + 6 * HOUR, endMs: T0 + 7 * HOUR, readingCount: 12 },
+      { device_id: 'node2', startMs: T0 + 2 * HOUR, endMs: T0 + 3 * HOUR, readingCount: 5 },
+    ]);
+  });
+
+  it('treats an active deployment as covering up to now and ignores empty buckets', () => {
+    const gaps = coverageGaps(
+      [bucket(1), bucket(5), bucket(6, 'node1', 0)],
+      [dep(1, 3, null)],
+      HOUR,
+      T0 + 10 * HOUR
+    );
+    expect(gaps).toEqual([{ device_id: 'node1', startMs: T0 + HOUR, endMs: T0 + 2 * HOUR, readingCount: 12 }]);
+  });
+});
+
+describe('deploymentWindowError', () => {
+  const now = T0 + 48 * HOUR;
+  const others = [dep(1, 0, 10), dep(2, 10, 20), dep(3, 30, null), dep(4, 0, null, 'node2')];
+
+  it('accepts a window that only touches its neighbours', () => {
+    expect(deploymentWindowError(others[1], T0 + 10 * HOUR, T0 + 30 * HOUR, others, now)).toBeNull();
+  });
+
+  it('names the deployment a window would overlap', () => {
+    expect(deploymentWindowError(others[1], T0 + 9 * HOUR, T0 + 20 * HOUR, others, now)).toBe('Overlaps deployment "Dep 1"');
+    expect(deploymentWindowError(others[1], T0 + 10 * HOUR, T0 + 31 * HOUR, others, now)).toBe('Overlaps deployment "Dep 3"');
+  });
+
+  it('rejects inverted and future windows', () => {
+    expect(deploymentWindowError(others[1], T0 + 15 * HOUR, T0 + 12 * HOUR, others, now)).toBe('End must be after start');
+    expect(deploymentWindowError(others[2], now + HOUR, null, others, now)).toBe('Start cannot be in the future');
+    expect(deploymentWindowError(others[1], T0 + 10 * HOUR, now + HOUR, others, now)).toBe('End cannot be in the future');
+  });
+});
+
+describe('zoomWindow', () => {
+  it('zooms around the centre and stops at the minimum span', () => {
+    const range = { startMs: T0, endMs: T0 + 48 * HOUR };
+    expect(zoomWindow(range, 0.5)).toEqual({ startMs: T0 + 12 * HOUR, endMs: T0 + 36 * HOUR });
+    const narrowest = zoomWindow(range, 0.01);
+    expect(narrowest.endMs - narrowest.startMs).toBe(MIN_TIMELINE_SPAN_MS);
+  });
+});
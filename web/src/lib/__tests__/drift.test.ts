@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { driftLookbackMinutes, driftSeries, evaluateDrift, type DriftReading } from '../drift';
+
+const NOW = Date.parse('2026-06-01T12:00:00Z');
+const at = (minutes: number) => new Date(NOW + minutes * 60_000).toISOString();
+const OPTIONS = { nowMs: NOW, windowMinutes: 60, durationMinutes: 120, thresholdPercent: 10 };
+
+// Readings from `fromMinutes` ago up to now, every `step` minutes.
+function series(
+  fromMinutes: number,
+  step: number,
+  value: (minutesAgo: number) => { temperature: number; humidity: number }
+): DriftReading[] {
+  const out: DriftReading[] = [];
+  for (let m = fromMinutes; m >= 0; m -= step) out.push({ measured_at: at(-m), ...value(m) });
+  return out;
+}
+
+const LOOKBACK = driftLookbackMinutes(OPTIONS);
+const weather = series(LOOKBACK, 30, () => ({ temperature: 20, humidity: 50 }));
+
+describe('driftSeries', () => {
+  it('averages both series over the window before each weather row', () => {
+    const sensor = series(LOOKBACK, 10, () => ({ temperature: 25, humidity: 50 }));
+    const points = driftSeries(sensor, weather, 'temperature', OPTIONS);
+    // Weather rows from duration + one weather interval ago up to now.
+    expect(points.map((p) => p.at)).toEqual([-180, -150, -120, -90, -60, -30, 0].map((m) => NOW + m * 60_000));
+    expect(points[0]).toMatchObject({ sensor: 25, weather: 20 });
+  });
+
+  it('takes percent error on display units, like /compare', () => {
+    const sensor = series(LOOKBACK, 10, () => ({ temperature: 25, humidity: 50 }));
+    const [point] = driftSeries(sensor, weather, 'temperature', OPTIONS);
+    // 77°F vs 68°F, not 25°C vs 20°C.
+    expect(point.percentError).toBeCloseTo((9 / 68) * 100, 5);
+  });
+
+  it('skips weather rows with no sensor readings in their window', () => {
+    const sensor = series(50, 10, () => ({ temperature: 25, humidity: 50 }));
+    expect(driftSeries(sensor, weather, 'temperature', OPTIONS).map((p) => p.at)).toEqual([NOW - 30 * 60_000, NOW]);
+  });
+});
+
+describe('evaluateDrift', () => {
+  it('raises drift once the error has exceeded the threshold for the duration', () => {
+    const sensor = series(LOOKBACK, 10, () => ({ temperature: 25, humidity: 50 }));
+    const result = evaluateDrift(sensor, weather, OPTIONS);
+    expect(result).toMatchObject({ drifting: true, metric: 'temperature', breachStartedAt: at(-180) });
+    expect(result.percentError).toBeCloseTo(13.2, 1);
+    expect(result.reason).toContain('13.2% above weather');
+    expect(result.reason).toContain('for 180 min');
+    expect(result.trend?.direction).toBe('steady');
+  });
+
+  it('is not drifting while the breach is shorter than the duration', () => {
+    const sensor = series(LOOKBACK, 10, (ago) => ({ temperature: ago <= 90 ? 25 : 20, humidity: 50 }));
+    const result = evaluateDrift(sensor, weather, OPTIONS);
+    expect(result.drifting).toBe(false);
+    expect(result.breachStartedAt).toBe(at(-30));
+    expect(result.reason).toContain('over threshold for 30 of 120 min');
+  });
+
+  it('reports a widening trend as the sensor walks away from the weather', () => {
+    const sensor = series(LOOKBACK, 10, (ago) => ({ temperature: 27 - ago / 60, humidity: 50 }));
+    const result = evaluateDrift(sensor, weather, OPTIONS);
+    expect(result.drifting).toBe(true);
+    expect(result.trend?.direction).toBe('widening');
+    expect(result.trend?.change).toBeGreaterThan(1);
+    expect(result.reason).toContain('trend widening (+');
+  });
+
+  it('reports the metric with the largest error', () => {
+    const sensor = series(LOOKBACK, 10, () => ({ temperature: 25, humidity: 80 }));
+    const result = evaluateDrift(sensor, weather, OPTIONS);
+    expect(result.metric).toBe('humidity');
+    expect(result.percentError).toBeCloseTo(60, 5);
+  });
+
+  it('is not drifting below the threshold or without weather', () => {
+    const sensor = series(LOOKBACK, 10, () => ({ temperature: 21, humidity: 52 }));
+    expect(evaluateDrift(sensor, weather, OPTIONS)).toMatchObject({ drifting: false, breachStartedAt: null });
+    expect(evaluateDrift(sensor, [], OPTIONS)).toMatchObject({
+      drifting: false,
+      metric: null,
+      reason: 'No recent readings with matching weather data.',
+    });
+  });
+});
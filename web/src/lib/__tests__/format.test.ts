@@ -3,6 +3,7 @@ import {
   safeC2F,
   safeDeltaC2F,
   formatValue,
+  formatDuration,
   formatDelta,
   formatPercent,
   formatPercentDelta,
@@ -129,3 +130,18 @@ describe('getTimeAgo', () => {
     expect(getTimeAgo('2026-02-07T12:00:00Z')).toBe('3 days ago');
   });
 });
+
+describe('formatDuration', () => {
+  it('shows minutes under an hour', () => {
+    expect(formatDuration(0)).toBe('0m');
+    expect(formatDuration(45 * 60_000)).toBe('45m');
+  });
+
+  it('shows hours and minutes under two days', () => {
+    expect(formatDuration(6 * 3_600_000 + 5 * 60_000)).toBe('6h 5m');
+  });
+
+  it('shows days and hours beyond that', () => {
+    expect(formatDuration(3 * 86_400_000 + 4 * 3_600_000)).toBe('3d 4h');
+  });
+});
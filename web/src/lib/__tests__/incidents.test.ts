@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { computeUptime, deploymentUptime, incidentDurationMs, incidentTransition } from '../incidents';
+import type { Incident } from '../supabase';
+
+const HOUR = 3_600_000;
+const START = Date.parse('2026-06-01T00:00:00Z');
+const END = START + 24 * HOUR;
+
+function makeIncident(overrides: Partial<Incident> = {}): Incident {
+  return {
+    id: 1,
+    device_id: 'node1',
+    rule_id: null,
+    status: 'missing',
+    severity: null,
+    reason: 'No readings found',
+    opened_at: new Date(START + 2 * HOUR).toISOString(),
+    detected_at: new Date(START + 2 * HOUR).toISOString(),
+    closed_at: new Date(START + 8 * HOUR).toISOString(),
+    acknowledged_at: null,
+    acknowledged_by: null,
+    created_at: '',
+    ...overrides,
+  };
+}
+
+const at = (hours: number) => new Date(START + hours * HOUR).toISOString();
+
+describe('incidentTransition', () => {
+  it('opens an incident when a problem starts', () => {
+    expect(incidentTransition(undefined, 'stale')).toEqual({ close: false, open: true });
+  });
+
+  it('keeps the incident open while the status is unchanged', () => {
+    expect(incidentTransition({ status: 'stale' }, 'stale')).toEqual({ close: false, open: false });
+  });
+
+  it('closes and reopens on a change of problem type', () => {
+    expect(incidentTransition({ status: 'stale' }, 'missing')).toEqual({ close: true, open: true });
+  });
+
+  it('closes on recovery and does nothing when already healthy', () => {
+    expect(incidentTransition({ status: 'firing' }, 'ok')).toEqual({ close: true, open: false });
+    expect(incidentTransition(undefined, 'ok')).toEqual({ close: false, open: false });
+  });
+});
+
+describe('incidentDurationMs', () => {
+  it('runs open incidents until now', () => {
+    expect(incidentDurationMs(makeIncident({ closed_at: null }), START + 5 * HOUR)).toBe(3 * HOUR);
+  });
+});
+
+describe('computeUptime', () => {
+  it('subtracts a six hour outage from a day', () => {
+    const summary = computeUptime([makeIncident()], START, END, END);
+    expect(summary.downtimeMs).toBe(6 * HOUR);
+    expect(summary.uptimePct).toBeCloseTo(75);
+    expect(summary.incidentCount).toBe(1);
+  });
+
+  it('merges overlapping incidents and clips to the window', () => {
+    const summary = computeUptime(
+      [
+        makeIncident({ opened_at: at(-3), closed_at: at(1) }),
+        makeIncident({ id: 2, status: 'stale', opened_at: at(10), closed_at: at(14) }),
+        makeIncident({ id: 3, status: 'anomaly', opened_at: at(12), closed_at: at(16) }),
+      ],
+      START,
+      END,
+      END
+    );
+    expect(summary.downtimeMs).toBe(7 * HOUR);
+  });
+
+  it('ignores rule incidents', () => {
+    const summary = computeUptime([makeIncident({ rule_id: 4, status: 'firing' })], START, END, END);
+    expect(summary.downtimeMs).toBe(0);
+    expect(summary.uptimePct).toBe(100);
+  });
+
+  it('ignores drift incidents', () => {
+    expect(computeUptime([makeIncident({ status: 'drift' })], START, END, END).downtimeMs).toBe(0);
+  });
+
+  it('returns null uptime for an empty window', () => {
+    expect(computeUptime([], START, START, START).uptimePct).toBeNull();
+  });
+});
+
+describe('deploymentUptime', () => {
+  it('measures only while the deployment ran', () => {
+    const summary = deploymentUptime(
+      { device_id: 'node1', started_at: at(4), ended_at: at(12) },
+      [makeIncident(), makeIncident({ id: 2, device_id: 'node2', opened_at: at(5), closed_at: at(6) })],
+      { startMs: START, endMs: END },
+      END
+    );
+    expect(summary?.windowMs).toBe(8 * HOUR);
+    expect(summary?.downtimeMs).toBe(4 * HOUR);
+    expect(summary?.uptimePct).toBeCloseTo(50);
+  });
+
+  it('returns null when the deployment is outside the window', () => {
+    expect(
+      deploymentUptime({ device_id: 'node1', started_at: at(30), ended_at: null }, [], { startMs: START, endMs: END }, END)
+    ).toBeNull();
+  });
+});
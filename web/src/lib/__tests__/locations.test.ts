@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { locationKey, mergeStatsByDevice, normalizeLocationName } from '../locations';
+import type { DeploymentStats } from '../supabase/types';
+
+function makeStats(overrides: Partial<DeploymentStats>): DeploymentStats {
+  return {
+    deployment_id: 1,
+    device_id: 'node1',
+    temp_avg: 20,
+    temp_min: 18,
+    temp_max: 22,
+    temp_stddev: 1,
+    humidity_avg: 40,
+    humidity_min: 35,
+    humidity_max: 45,
+    humidity_stddev: 2,
+    reading_count: 10,
+    ...overrides,
+  };
+}
+
+describe('location names', () => {
+  it('treats case and extra whitespace as the same place', () => {
+    expect(normalizeLocationName('  Back   patio ')).toBe('Back patio');
+    expect(locationKey('Patio')).toBe(locationKey('patio '));
+    expect(locationKey('Patio')).not.toBe(locationKey('Patio 2'));
+  });
+});
+
+describe('mergeStatsByDevice', () => {
+  it('pools deployments of the same device by reading count', () => {
+    const [node1, node2] = mergeStatsByDevice([
+      makeStats({ deployment_id: 1, temp_avg: 20, temp_stddev: 0, temp_min: 20, temp_max: 20, reading_count: 30 }),
+      makeStats({ deployment_id: 2, temp_avg: 24, temp_stddev: 0, temp_min: 24, temp_max: 24, reading_count: 10 }),
+      makeStats({ deployment_id: 3, device_id: 'node2', reading_count: 5 }),
+    ]);
+
+    expect(node1).toMatchObject({ device_id: 'node1', deployment_count: 2, reading_count: 40, temp_min: 20, temp_max: 24 });
+    expect(node1.temp_avg).toBeCloseTo(21, 10);
+    // Two constant groups at 20 (×30) and 24 (×10): population σ = √3.
+    expect(node1.temp_stddev).toBeCloseTo(Math.sqrt(3), 10);
+    expect(node2).toMatchObject({ device_id: 'node2', deployment_count: 1, temp_avg: 20, humidity_avg: 40 });
+  });
+
+  it('keeps deployments without readings in the count but out of the averages', () => {
+    const [merged] = mergeStatsByDevice([
+      makeStats({ deployment_id: 1 }),
+      makeStats({ deployment_id: 2, temp_avg: null, temp_min: null, temp_max: null, temp_stddev: null, humidity_avg: null, reading_count: 0 }),
+    ]);
+    expect(merged).toMatchObject({ deployment_count: 2, reading_count: 10, temp_avg: 20, humidity_avg: 40 });
+  });
+});
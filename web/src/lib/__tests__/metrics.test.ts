@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUILTIN_METRICS,
+  deviceStatsToMetricStats,
+  findOutOfRangeMetrics,
+  formatMetricValue,
+  getReadingMetric,
+  isCoreMetric,
+  sortMetrics,
+} from '../metrics';
+import type { MetricDefinition } from '../supabase';
+
+const pressure: MetricDefinition = {
+  key: 'pressure',
+  display_name: 'Pressure',
+  unit: 'hPa',
+  min_value: 300,
+  max_value: 1100,
+  display_precision: 1,
+  sort_order: 3,
+};
+
+describe('metric registry helpers', () => {
+  it('treats temperature and humidity as core metrics', () => {
+    expect(isCoreMetric('temperature')).toBe(true);
+    expect(isCoreMetric('humidity')).toBe(true);
+    expect(isCoreMetric('pressure')).toBe(false);
+  });
+
+  it('sorts by sort_order', () => {
+    const sorted = sortMetrics([pressure, ...BUILTIN_METRICS].reverse());
+    expect(sorted.map((m) => m.key)).toEqual(['temperature', 'humidity', 'pressure']);
+  });
+
+  it('reads core metrics from columns and others from the metrics map', () => {
+    const reading = { temperature: 21, humidity: 40, metrics: { pressure: 1013.2, bad: Number.NaN } };
+    expect(getReadingMetric(reading, 'temperature')).toBe(21);
+    expect(getReadingMetric(reading, 'pressure')).toBe(1013.2);
+    expect(getReadingMetric(reading, 'bad')).toBeNull();
+    expect(getReadingMetric(reading, 'co2')).toBeNull();
+  });
+
+  it('formats temperature in Fahrenheit and other metrics in their unit', () => {
+    expect(formatMetricValue(BUILTIN_METRICS[0], 20)).toBe('68.0°F');
+    expect(formatMetricValue(pressure, 1013.25)).toBe('1013.3hPa');
+    expect(formatMetricValue(pressure, null)).toBe('—');
+  });
+
+  it('finds every metric outside its valid range', () => {
+    const reading = { temperature: 90, humidity: 50, metrics: { pressure: 200 } };
+    const out = findOutOfRangeMetrics(reading, [pressure, ...BUILTIN_METRICS]);
+    expect(out.map((o) => [o.metric.key, o.value])).toEqual([
+      ['temperature', 90],
+      ['pressure', 200],
+    ]);
+  });
+
+  it('splits fixed-column device stats into per-metric rows', () => {
+    const rows = deviceStatsToMetricStats({
+      device_id: 'node1',
+      temp_avg: 20,
+      temp_min: 18,
+      temp_max: 22,
+      temp_stddev: 1,
+      humidity_avg: 45,
+      humidity_min: 40,
+      humidity_max: 50,
+      humidity_stddev: 2,
+      reading_count: 10,
+    });
+    expect(rows).toEqual([
+      { device_id: 'node1', metric: 'temperature', value_avg: 20, value_min: 18, value_max: 22, value_stddev: 1, reading_count: 10 },
+      { device_id: 'node1', metric: 'humidity', value_avg: 45, value_min: 40, value_max: 50, value_stddev: 2, reading_count: 10 },
+    ]);
+  });
+});
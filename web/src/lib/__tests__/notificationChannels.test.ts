@@ -0,0 +1,158 @@
+// @vitest-environment node
+
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  channelFromConfig,
+  selectChannels,
+  signWebhookBody,
+  type AlertNotification,
+} from '../notificationChannels';
+import type { NotificationChannelConfig } from '../supabase';
+
+type Received = { url: string; headers: IncomingHttpHeaders; body: string };
+
+// Local stand-in for Slack, Discord, ntfy and webhook receivers.
+let server: Server;
+let baseUrl: string;
+let received: Received[];
+let responseStatus: number;
+
+beforeEach(async () => {
+  received = [];
+  responseStatus = 200;
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      received.push({ url: req.url ?? '', headers: req.headers, body });
+      res.statusCode = responseStatus;
+      res.end(responseStatus >= 400 ? 'channel_not_found' : 'ok');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+function makeConfig(overrides: Partial<NotificationChannelConfig>): NotificationChannelConfig {
+  return {
+    id: 3,
+    name: 'Ops',
+    channel_type: 'webhook',
+    url: `${baseUrl}/hook`,
+    secret: null,
+    device_id: null,
+    rule_id: null,
+    enabled: true,
+    created_at: '',
+    ...overrides,
+  };
+}
+
+const notification: AlertNotification = {
+  kind: 'problem',
+  subject: '[IoT Alert] node2 CRITICAL: Greenhouse too hot',
+  body: 'Reason: Temperature above 89.6°F for 15 min',
+  device_id: 'node2',
+  rule_id: 9,
+  incident_id: 41,
+  status: 'firing',
+  severity: 'critical',
+  occurred_at: '2026-06-01T12:00:00.000Z',
+};
+
+describe('notification channels', () => {
+  it('posts signed JSON to a generic webhook', async () => {
+    const result = await channelFromConfig(makeConfig({ secret: 's3cret' })).send(notification);
+
+    expect(result).toEqual({ channel: 'webhook', channel_id: 3, ok: true, status_code: 200 });
+    expect(JSON.parse(received[0].body)).toEqual(notification);
+    expect(received[0].headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]).toBe(
+      await signWebhookBody('s3cret', received[0].body)
+    );
+  });
+
+  it('omits the signature when no secret is set', async () => {
+    await channelFromConfig(makeConfig({})).send(notification);
+    expect(received[0].headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]).toBeUndefined();
+  });
+
+  it('sends Slack-compatible text', async () => {
+    await channelFromConfig(makeConfig({ channel_type: 'slack', url: `${baseUrl}/services/T0/B0/x` })).send(notification);
+    expect(received[0].url).toBe('/services/T0/B0/x');
+    expect(JSON.parse(received[0].body)).toEqual({
+      text: `*${notification.subject}*\n${notification.body}`,
+    });
+  });
+
+  it('sends Discord content capped at 2000 characters', async () => {
+    const long = { ...notification, body: 'x'.repeat(3000) };
+    await channelFromConfig(makeConfig({ channel_type: 'discord' })).send(long);
+    const payload = JSON.parse(received[0].body);
+    expect(payload.content.startsWith(`**${notification.subject}**`)).toBe(true);
+    expect(payload.content).toHaveLength(2000);
+  });
+
+  it('sends ntfy push with title, priority and token', async () => {
+    await channelFromConfig(makeConfig({ channel_type: 'ntfy', url: `${baseUrl}/iot-alerts`, secret: 'tk_abc' })).send(notification);
+    expect(received[0].url).toBe('/iot-alerts');
+    expect(received[0].body).toBe(notification.body);
+    expect(received[0].headers).toMatchObject({
+      title: notification.subject,
+      priority: '5',
+      tags: 'warning',
+      authorization: 'Bearer tk_abc',
+    });
+  });
+
+  it('encodes non-ASCII ntfy titles', async () => {
+    await channelFromConfig(makeConfig({ channel_type: 'ntfy' })).send({ ...notification, subject: 'Serre trop chaude · node2' });
+    expect(received[0].headers.title).toMatch(/^=\?UTF-8\?B\?.+\?=$/);
+  });
+
+  it('reports HTTP errors without throwing', async () => {
+    responseStatus = 404;
+    const result = await channelFromConfig(makeConfig({ channel_type: 'slack' })).send(notification);
+    expect(result).toEqual({
+      channel: 'slack',
+      channel_id: 3,
+      ok: false,
+      status_code: 404,
+      error: 'HTTP 404: channel_not_found',
+    });
+  });
+
+  it('reports connection failures without throwing', async () => {
+    const url = `${baseUrl}/hook`;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const result = await channelFromConfig(makeConfig({ url })).send(notification);
+    expect(result.ok).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+});
+
+describe('selectChannels', () => {
+  const all = makeConfig({ id: 1 });
+  const forNode2 = makeConfig({ id: 2, device_id: 'node2' });
+  const forNode1 = makeConfig({ id: 3, device_id: 'node1' });
+  const forRule = makeConfig({ id: 4, rule_id: 9 });
+  const disabled = makeConfig({ id: 5, enabled: false });
+  const configs = [all, forNode2, forNode1, forRule, disabled];
+
+  it('picks unscoped channels plus those scoped to the device or rule', () => {
+    expect(selectChannels(configs, { device_id: 'node2', rule_id: 9 }).map((c) => c.id)).toEqual([1, 2, 4]);
+  });
+
+  it('does not send device status alerts to rule-scoped channels', () => {
+    expect(selectChannels(configs, { device_id: 'node1', rule_id: null }).map((c) => c.id)).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { extensionFor, planAdjacentAssignments } from '../orphanedReadings';
+import type { OrphanedReadingSpan } from '../supabase/types';
+
+function makeSpan(overrides: Partial<OrphanedReadingSpan>): OrphanedReadingSpan {
+  return {
+    device_id: 'node1',
+    started_at: '2026-03-02T00:00:00.000Z',
+    ended_at: '2026-03-02T06:00:00.000Z',
+    reading_count: 72,
+    previous_deployment_id: null,
+    previous_deployment_name: null,
+    next_deployment_id: null,
+    next_deployment_name: null,
+    ...overrides,
+  };
+}
+
+describe('extensionFor', () => {
+  it('stretches the previous deployment to the span end or pulls the next one back to its start', () => {
+    const span = makeSpan({ previous_deployment_id: 1, next_deployment_id: 2 });
+    expect(extensionFor(span, 'previous')).toEqual({ deployment_id: 1, ended_at: span.ended_at });
+    expect(extensionFor(span, 'next')).toEqual({ deployment_id: 2, started_at: span.started_at });
+    expect(extensionFor(makeSpan({}), 'previous')).toBeNull();
+  });
+});
+
+describe('planAdjacentAssignments', () => {
+  it('prefers the previous deployment and updates each deployment once', () => {
+    const plan = planAdjacentAssignments([
+      makeSpan({ previous_deployment_id: 1, next_deployment_id: 2 }),
+      makeSpan({ started_at: '2026-03-02T09:00:00.000Z', ended_at: '2026-03-02T10:00:00.000Z', previous_deployment_id: 1, next_deployment_id: 2 }),
+      makeSpan({ device_id: 'node2', next_deployment_id: 5 }),
+      makeSpan({ device_id: 'node3' }),
+    ]);
+
+    expect(plan.extensions).toEqual([
+      { deployment_id: 1, ended_at: '2026-03-02T10:00:00.000Z' },
+      { deployment_id: 5, started_at: '2026-03-02T00:00:00.000Z' },
+    ]);
+    expect(plan.unassigned.map((s) => s.device_id)).toEqual(['node3']);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  absoluteHumidity,
+  derivedFields,
+  derivedMetricStats,
+  dewPoint,
+  heatIndex,
+  humidex,
+  saturationVaporPressure,
+  vaporPressureDeficit,
+} from '../psychrometrics';
+import { celsiusToFahrenheit, fahrenheitToCelsius } from '../supabase/queries/conversions';
+
+const heatIndexF = (tempF: number, rh: number) => {
+  const value = heatIndex(fahrenheitToCelsius(tempF), rh);
+  return value === null ? null : celsiusToFahrenheit(value);
+};
+
+// Magnus-type fits agree with the reference tables to a fraction of a percent.
+const expectWithinPercent = (actual: number | null, expected: number, percent = 0.5) => {
+  expect(actual).not.toBeNull();
+  expect(Math.abs((actual as number) - expected) / expected).toBeLessThan(percent / 100);
+};
+
+describe('saturationVaporPressure', () => {
+  it('matches tabulated values over water', () => {
+    // WMO-No. 8 table: 6.11 hPa at 0 °C, 23.39 hPa at 20 °C, 42.46 hPa at 30 °C.
+    expectWithinPercent(saturationVaporPressure(0), 6.11);
+    expectWithinPercent(saturationVaporPressure(20), 23.39);
+    expectWithinPercent(saturationVaporPressure(30), 42.46);
+  });
+});
+
+describe('dewPoint', () => {
+  it('matches published dew points', () => {
+    expect(dewPoint(20, 50)).toBeCloseTo(9.3, 1);
+    expect(dewPoint(25, 60)).toBeCloseTo(16.7, 1);
+    expect(dewPoint(30, 70)).toBeCloseTo(23.9, 1);
+  });
+
+  it('equals the air temperature at saturation', () => {
+    expect(dewPoint(12.5, 100)).toBeCloseTo(12.5, 6);
+  });
+
+  it('is undefined for dry or impossible humidity', () => {
+    expect(dewPoint(20, 0)).toBeNull();
+    expect(dewPoint(20, 101)).toBeNull();
+    expect(dewPoint(Number.NaN, 50)).toBeNull();
+  });
+});
+
+describe('heatIndex', () => {
+  it('matches the NWS heat index chart', () => {
+    expect(heatIndexF(90, 70)).toBeCloseTo(106, 0);
+    expect(heatIndexF(100, 40)).toBeCloseTo(109, 0);
+    expect(heatIndexF(84, 90)).toBeCloseTo(98, 0);
+    expect(heatIndexF(80, 40)).toBeCloseTo(80, 0);
+  });
+
+  it('applies the NWS low-humidity adjustment', () => {
+    // 105 °F at 10 % RH: 100.9 °F unadjusted, 99.1 °F after the adjustment.
+    expect(heatIndexF(105, 10)).toBeCloseTo(99.1, 1);
+  });
+
+  it('uses the simple formula in mild conditions', () => {
+    expect(heatIndexF(70, 50)).toBeCloseTo(69.05, 2);
+  });
+});
+
+describe('absoluteHumidity', () => {
+  it('matches published vapor densities', () => {
+    // Saturated air holds about 17.3 g/m³ at 20 °C and 30.4 g/m³ at 30 °C.
+    expectWithinPercent(absoluteHumidity(20, 100), 17.3);
+    expectWithinPercent(absoluteHumidity(30, 100), 30.4);
+    expectWithinPercent(absoluteHumidity(20, 50), 8.65);
+  });
+});
+
+describe('vaporPressureDeficit', () => {
+  it('is saturation minus actual vapor pressure', () => {
+    expect(vaporPressureDeficit(25, 50)).toBeCloseTo(1.58, 2);
+    expect(vaporPressureDeficit(25, 100)).toBeCloseTo(0, 6);
+  });
+});
+
+describe('humidex', () => {
+  it('matches the Environment Canada humidex table', () => {
+    // 30 °C with a 15 °C dew point gives 34; 30 °C at 70 % RH gives 41.
+    expect(humidex(30, 39.3)).toBeCloseTo(34, 0);
+    expect(humidex(30, 70)).toBeCloseTo(41, 0);
+  });
+});
+
+describe('derivedFields', () => {
+  it('returns every metric in display units keyed by field name', () => {
+    expect(derivedFields(20, 50)).toEqual({
+      dew_point_f: 48.7,
+      heat_index_f: 66.8,
+      absolute_humidity_g_m3: 8.62,
+      vpd_kpa: 1.17,
+      humidex: 20.9,
+    });
+  });
+});
+
+describe('derivedMetricStats', () => {
+  it('weights bucket values by reading count per device', () => {
+    const stats = derivedMetricStats([
+      { bucket_ts: '2026-01-01T00:00:00Z', device_id: 'node1', temperature_avg: 20, humidity_avg: 100, reading_count: 3 },
+      { bucket_ts: '2026-01-01T00:15:00Z', device_id: 'node1', temperature_avg: 10, humidity_avg: 100, reading_count: 1 },
+      { bucket_ts: '2026-01-01T00:00:00Z', device_id: 'node2', temperature_avg: 20, humidity_avg: 0, reading_count: 5 },
+    ]);
+
+    const dew = stats.find((s) => s.device_id === 'node1' && s.metric === 'dew_point');
+    expect(dew?.value_avg).toBeCloseTo((68 * 3 + 50) / 4, 6);
+    expect(dew).toMatchObject({ value_min: 50, reading_count: 4 });
+    expect(dew?.value_max).toBeCloseTo(68, 6);
+    // No valid humidity means no derived values at all.
+    expect(stats.some((s) => s.device_id === 'node2')).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSupabaseReadingsFeed, isNewerReading, mergeReadingIntoSparkline } from '../realtime';
+import type { ChartSample, Reading } from '../supabase';
+
+function makeFakeClient() {
+  let insertHandler: ((payload: { new: Reading }) => void) | undefined;
+  let statusHandler: ((status: string) => void) | undefined;
+  const channel: Record<string, unknown> = {};
+  channel.on = vi.fn((_type: string, _filter: unknown, cb: (payload: { new: Reading }) => void) => {
+    insertHandler = cb;
+    return channel;
+  });
+  channel.subscribe = vi.fn((cb: (status: string) => void) => {
+    statusHandler = cb;
+    return channel;
+  });
+
+  const client = {
+    channel: vi.fn(() => channel),
+    removeChannel: vi.fn(async () => 'ok'),
+  };
+
+  return {
+    client,
+    channel,
+    emitInsert: (reading: Reading) => insertHandler?.({ new: reading }),
+    emitStatus: (status: string) => statusHandler?.(status),
+  };
+}
+
+const reading: Reading = {
+  id: 1,
+  device_id: 'node1',
+  temperature: 22,
+  humidity: 40,
+  created_at: '2026-03-01T12:07:00.000Z',
+};
+
+describe('createSupabaseReadingsFeed', () => {
+  it('returns null without a client', () => {
+    expect(createSupabaseReadingsFeed(null)).toBeNull();
+  });
+
+  it('listens for readings inserts and maps channel status to a mode', () => {
+    const fake = makeFakeClient();
+    const feed = createSupabaseReadingsFeed(fake.client as never)!;
+    const onInsert = vi.fn();
+    const onStatus = vi.fn();
+
+    const unsubscribe = feed.subscribe({ onInsert, onStatus });
+    expect(fake.channel.on).toHaveBeenCalledWith(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'readings' },
+      expect.any(Function)
+    );
+    expect(onStatus).toHaveBeenLastCalledWith('connecting');
+
+    fake.emitStatus('SUBSCRIBED');
+    expect(onStatus).toHaveBeenLastCalledWith('live');
+
+    fake.emitInsert(reading);
+    expect(onInsert).toHaveBeenCalledWith(reading);
+
+    fake.emitStatus('CHANNEL_ERROR');
+    expect(onStatus).toHaveBeenLastCalledWith('polling');
+
+    unsubscribe();
+    expect(fake.client.removeChannel).toHaveBeenCalledWith(fake.channel);
+  });
+});
+
+describe('mergeReadingIntoSparkline', () => {
+  const bucket: ChartSample = {
+    bucket_ts: '2026-03-01T12:00:00.000Z',
+    device_id: 'node1',
+    temperature_avg: 20,
+    humidity_avg: 50,
+    reading_count: 3,
+  };
+
+  it('updates the running average of an existing bucket', () => {
+    const [merged] = mergeReadingIntoSparkline([bucket], reading, 15);
+    expect(merged.reading_count).toBe(4);
+    expect(merged.temperature_avg).toBeCloseTo(20.5);
+    expect(merged.humidity_avg).toBeCloseTo(47.5);
+  });
+
+  it('buckets by measurement time rather than arrival time', () => {
+    const backfilled = { ...reading, measured_at: '2026-03-01T11:50:00.000Z', created_at: '2026-03-01T12:07:00.000Z' };
+    const merged = mergeReadingIntoSparkline([bucket], backfilled, 15);
+    expect(merged.map((s) => s.bucket_ts)).toEqual(['2026-03-01T11:45:00.000Z', '2026-03-01T12:00:00.000Z']);
+  });
+
+  it('appends a new bucket and drops buckets outside the window', () => {
+    const later = { ...reading, created_at: '2026-03-01T18:20:00.000Z' };
+    const windowStart = new Date('2026-03-01T12:20:00.000Z').getTime();
+    const merged = mergeReadingIntoSparkline([bucket], later, 15, windowStart);
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ bucket_ts: '2026-03-01T18:15:00.000Z', reading_count: 1 });
+  });
+
+  it('ignores a reading older than the window', () => {
+    const current = { ...bucket, bucket_ts: '2026-03-01T18:15:00.000Z' };
+    const old = { ...reading, measured_at: '2026-03-01T09:00:00.000Z', created_at: '2026-03-01T18:20:00.000Z' };
+    const windowStart = new Date('2026-03-01T12:20:00.000Z').getTime();
+    expect(mergeReadingIntoSparkline([current], old, 15, windowStart)).toEqual([current]);
+  });
+});
+
+describe('isNewerReading', () => {
+  it('accepts the first reading for a device', () => {
+    expect(isNewerReading(reading, null)).toBe(true);
+  });
+
+  it('keeps the newer reading when a batch arrives out of order', () => {
+    const latest = { ...reading, measured_at: '2026-03-01T12:06:00.000Z' };
+    const late = { ...reading, id: 2, measured_at: '2026-03-01T11:54:00.000Z', created_at: '2026-03-01T12:08:00.000Z' };
+    expect(isNewerReading(late, latest)).toBe(false);
+    expect(isNewerReading(latest, late)).toBe(true);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { hasRole, parseRole } from '../roles';
+
+describe('roles', () => {
+  it('orders viewer < operator < admin', () => {
+    expect(hasRole('admin', 'operator')).toBe(true);
+    expect(hasRole('operator', 'operator')).toBe(true);
+    expect(hasRole('operator', 'admin')).toBe(false);
+    expect(hasRole('viewer', 'operator')).toBe(false);
+    expect(hasRole(null, 'viewer')).toBe(false);
+  });
+
+  it('treats unknown values as viewer', () => {
+    expect(parseRole('admin')).toBe('admin');
+    expect(parseRole('superuser')).toBe('viewer');
+    expect(parseRole(null)).toBe('viewer');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { BUILTIN_METRICS } from '../metrics';
+import { detectFlatline, detectSpike, type FaultReading } from '../sensorFaults';
+
+const NOW = Date.parse('2026-06-01T12:00:00Z');
+const at = (minutes: number) => new Date(NOW + minutes * 60_000).toISOString();
+
+// Newest first, one reading per `stepMinutes`.
+function series(values: Array<[number, number]>, stepMinutes = 1): FaultReading[] {
+  return values.map(([temperature, humidity], i) => ({ measured_at: at(-i * stepMinutes), temperature, humidity }));
+}
+
+describe('detectFlatline', () => {
+  it('flags identical temperature and humidity across the window', () => {
+    const readings = series(Array.from({ length: 5 }, () => [21.4, 48.2] as [number, number]));
+    expect(detectFlatline(readings, 5)).toEqual({ count: 5, since: at(-4), temperature: 21.4, humidity: 48.2 });
+  });
+
+  it('ignores older readings outside the window', () => {
+    const readings = series([[21.4, 48.2], [21.4, 48.2], [21.4, 48.2], [20, 50]]);
+    expect(detectFlatline(readings, 3)).not.toBeNull();
+    expect(detectFlatline(readings, 4)).toBeNull();
+  });
+
+  it('needs both values to be flat', () => {
+    const readings = series([[21.4, 48.2], [21.4, 48.3], [21.4, 48.2]]);
+    expect(detectFlatline(readings, 3)).toBeNull();
+  });
+
+  it('needs a full window of readings', () => {
+    expect(detectFlatline(series([[21.4, 48.2], [21.4, 48.2]]), 3)).toBeNull();
+    expect(detectFlatline(series([[21.4, 48.2]]), 1)).toBeNull();
+  });
+
+  it('does not consider extra metrics', () => {
+    const readings = series([[21.4, 48.2], [21.4, 48.2]]).map((r, i) => ({ ...r, metrics: { lux: i } }));
+    expect(detectFlatline(readings, 2)).not.toBeNull();
+  });
+});
+
+describe('detectSpike', () => {
+  it('flags a jump larger than max_delta between consecutive readings', () => {
+    const spike = detectSpike(series([[35, 50], [24, 50]], 3), BUILTIN_METRICS, 10);
+    expect(spike).toMatchObject({ from: 24, to: 35, minutes: 3, at: at(0) });
+    expect(spike?.metric.key).toBe('temperature');
+  });
+
+  it('allows changes within max_delta', () => {
+    expect(detectSpike(series([[30, 70], [24, 45]], 3), BUILTIN_METRICS, 10)).toBeNull();
+  });
+
+  it('skips pairs further apart than the window', () => {
+    expect(detectSpike(series([[35, 50], [24, 50]], 30), BUILTIN_METRICS, 10)).toBeNull();
+  });
+
+  it('reports the newest spike', () => {
+    const spike = detectSpike(series([[24, 50], [24, 90], [24, 50]], 2), BUILTIN_METRICS, 10);
+    expect(spike).toMatchObject({ from: 90, to: 50, at: at(0) });
+    expect(spike?.metric.key).toBe('humidity');
+  });
+
+  it('only compares the latest reading with the one before it', () => {
+    expect(detectSpike(series([[35, 50], [35, 50], [24, 50]], 3), BUILTIN_METRICS, 10)).toBeNull();
+  });
+
+  it('ignores metrics without max_delta', () => {
+    const metrics = BUILTIN_METRICS.map((m) => ({ ...m, max_delta: null }));
+    expect(detectSpike(series([[35, 90], [24, 40]], 3), metrics, 10)).toBeNull();
+  });
+
+  it('checks extra metrics that define max_delta', () => {
+    const co2 = { key: 'co2', display_name: 'CO₂', unit: 'ppm', min_value: 0, max_value: 10000, display_precision: 0, sort_order: 4, max_delta: 2000 };
+    const readings = series([[24, 50], [24, 50]], 1).map((r, i) => ({ ...r, metrics: { co2: i === 0 ? 5000 : 600 } }));
+    expect(detectSpike(readings, [co2], 10)).toMatchObject({ metric: co2, from: 600, to: 5000 });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  generateInvitationToken,
+  hashInvitationToken,
+  invitationError,
+  invitationExpiry,
+  invitationStatus,
+  invitationUrl,
+  isValidEmail,
+  normalizeEmail,
+  toManagedUser,
+} from '../userAdmin';
+
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+
+describe('invitation tokens', () => {
+  it('generates unique prefixed tokens', () => {
+    const a = generateInvitationToken();
+    const b = generateInvitationToken();
+    expect(a).toMatch(/^inv_[0-9a-f]{64}$/);
+    expect(a).not.toBe(b);
+  });
+
+  it('hashes deterministically with SHA-256', async () => {
+    const hash = await hashInvitationToken('inv_abc');
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashInvitationToken('inv_abc')).toBe(hash);
+    expect(await hashInvitationToken('inv_abd')).not.toBe(hash);
+  });
+
+  it('builds links from the configured site URL before the request origin', () => {
+    expect(invitationUrl('inv_1', 'https://iot.example.com/dashboard', 'http://10.0.0.5:3000/api/admin/users'))
+      .toBe('https://iot.example.com/invite/inv_1');
+    expect(invitationUrl('inv_1', undefined, 'http://localhost:3000/api/admin/users'))
+      .toBe('http://localhost:3000/invite/inv_1');
+  });
+
+  it('expires after the TTL', () => {
+    expect(invitationExpiry(NOW)).toBe('2026-03-17T12:00:00.000Z');
+    expect(invitationExpiry(NOW, 1)).toBe('2026-03-11T12:00:00.000Z');
+  });
+});
+
+describe('invitationStatus', () => {
+  const pending = { accepted_at: null, revoked_at: null, expires_at: '2026-03-11T12:00:00Z' };
+
+  it('is pending until it expires', () => {
+    expect(invitationStatus(pending, NOW)).toBe('pending');
+    expect(invitationStatus(pending, Date.parse(pending.expires_at))).toBe('expired');
+  });
+
+  it('prefers revoked and accepted over expiry', () => {
+    const later = Date.parse('2026-04-01T00:00:00Z');
+    expect(invitationStatus({ ...pending, accepted_at: '2026-03-10T13:00:00Z' }, later)).toBe('accepted');
+    expect(invitationStatus({ ...pending, revoked_at: '2026-03-10T13:00:00Z' }, later)).toBe('revoked');
+  });
+
+  it('explains every unusable status', () => {
+    expect(invitationError('pending')).toBeNull();
+    expect(invitationError('accepted')).toMatch(/already been used/);
+    expect(invitationError('expired')).toMatch(/expired/);
+    expect(invitationError('revoked')).toMatch(/revoked/);
+  });
+});
+
+describe('emails', () => {
+  it('normalizes and validates addresses', () => {
+    expect(normalizeEmail('  Ada@Example.COM ')).toBe('ada@example.com');
+    expect(isValidEmail('ada@example.com')).toBe(true);
+    expect(isValidEmail('ada@example')).toBe(false);
+    expect(isValidEmail('not an email')).toBe(false);
+  });
+});
+
+describe('toManagedUser', () => {
+  const base = {
+    id: 'u1',
+    email: 'ada@example.com',
+    created_at: '2026-01-01T00:00:00Z',
+    last_sign_in_at: '2026-03-09T08:00:00Z',
+    banned_until: undefined,
+  };
+
+  it('maps auth users with their role', () => {
+    expect(toManagedUser(base, 'operator', NOW)).toEqual({
+      id: 'u1',
+      email: 'ada@example.com',
+      role: 'operator',
+      created_at: '2026-01-01T00:00:00Z',
+      last_sign_in_at: '2026-03-09T08:00:00Z',
+      disabled: false,
+    });
+  });
+
+  it('treats a ban in the future as disabled', () => {
+    expect(toManagedUser({ ...base, banned_until: '2126-01-01T00:00:00Z' }, 'viewer', NOW).disabled).toBe(true);
+    expect(toManagedUser({ ...base, banned_until: '2026-03-01T00:00:00Z' }, 'viewer', NOW).disabled).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { BACKFILL_CHUNK_DAYS, backfillChunk, backfillWindow, hourKey, planBackfillRows } from '../weatherBackfill';
+import { toWeatherDetails } from '../weatherDetails';
+import type { WeatherObservation } from '../weatherProviders';
+
+const DAY = 86_400_000;
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+const TARGET = { deviceId: 'weather_node1', deploymentId: 7, location: { kind: 'us_zip', zipCode: '85142' } as const };
+
+const obs = (observedAt: string, temperature = 10): WeatherObservation => ({
+  provider: 'open-meteo',
+  temperature,
+  humidity: 40,
+  observedAt,
+  details: toWeatherDetails({ dew_point: -3.5, weather_condition: 'Overcast' }),
+});
+
+describe('backfillWindow', () => {
+  it('runs from started_at to ended_at', () => {
+    expect(backfillWindow({ started_at: '2026-02-01T00:00:00Z', ended_at: '2026-02-03T00:00:00Z' }, NOW)).toEqual({
+      startMs: Date.parse('2026-02-01T00:00:00Z'),
+      endMs: Date.parse('2026-02-03T00:00:00Z'),
+    });
+  });
+
+  it('ends now for active deployments and is null when empty', () => {
+    expect(backfillWindow({ started_at: '2026-02-28T00:00:00Z', ended_at: null }, NOW)?.endMs).toBe(NOW);
+    expect(backfillWindow({ started_at: '2026-03-02T00:00:00Z', ended_at: null }, NOW)).toBeNull();
+  });
+});
+
+describe('backfillChunk', () => {
+  const window = { startMs: NOW - 10 * DAY, endMs: NOW };
+
+  it('walks the window in fixed chunks', () => {
+    const first = backfillChunk(window);
+    expect(first).toEqual({ startMs: window.startMs, endMs: window.startMs + BACKFILL_CHUNK_DAYS * DAY, done: false });
+    expect(backfillChunk(window, first.endMs)).toEqual({ startMs: first.endMs, endMs: NOW, done: true });
+  });
+
+  it('clamps a cursor before the window start', () => {
+    expect(backfillChunk(window, 0).startMs).toBe(window.startMs);
+  });
+});
+
+describe('planBackfillRows', () => {
+  it('stamps created_at on the observation hour and keeps the observation details', () => {
+    const [row] = planBackfillRows([obs('2026-02-01T05:00:00.000Z')], [], TARGET);
+    expect(row).toEqual({
+      device_id: 'weather_node1',
+      temperature: 10,
+      humidity: 40,
+      source: 'weather',
+      weather_provider: 'open-meteo',
+      deployment_id: 7,
+      zip_code: '85142',
+      country_code: 'US',
+      latitude: null,
+      longitude: null,
+      observed_at: '2026-02-01T05:00:00.000Z',
+      created_at: '2026-02-01T05:00:00.000Z',
+      dew_point: -3.5,
+      pressure_hpa: null,
+      wind_speed_kph: null,
+      wind_direction_deg: null,
+      cloud_cover: null,
+      precipitation_mm: null,
+      weather_condition: 'Overcast',
+    });
+  });
+
+  it('skips hours already stored and duplicate hours in the batch', () => {
+    const rows = planBackfillRows(
+      [obs('2026-02-01T07:00:00.000Z'), obs('2026-02-01T05:00:00.000Z'), obs('2026-02-01T06:00:00.000Z'), obs('2026-02-01T07:30:00.000Z', 11)],
+      ['2026-02-01T05:29:41.000Z'],
+      TARGET
+    );
+    expect(rows.map((r) => r.observed_at)).toEqual(['2026-02-01T06:00:00.000Z', '2026-02-01T07:00:00.000Z']);
+  });
+});
+
+describe('hourKey', () => {
+  it('floors to the UTC hour', () => {
+    expect(hourKey(Date.parse('2026-02-01T05:59:59.999Z'))).toBe('2026-02-01T05:00:00.000Z');
+  });
+});
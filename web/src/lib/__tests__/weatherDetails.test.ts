@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { compassDirection, formatWeatherDetails, toWeatherDetails, wmoCondition } from '../weatherDetails';
+
+describe('toWeatherDetails', () => {
+  it('keeps finite numbers and non-empty condition text only', () => {
+    expect(toWeatherDetails({ dew_point: 4.2, pressure_hpa: Number.NaN, wind_speed_kph: '12', weather_condition: '  ' })).toEqual({
+      dew_point: 4.2,
+      pressure_hpa: null,
+      wind_speed_kph: null,
+      wind_direction_deg: null,
+      cloud_cover: null,
+      precipitation_mm: null,
+      weather_condition: null,
+    });
+  });
+});
+
+describe('wmoCondition', () => {
+  it('describes known WMO codes and ignores the rest', () => {
+    expect(wmoCondition(0)).toBe('Clear sky');
+    expect(wmoCondition(95)).toBe('Thunderstorm');
+    expect(wmoCondition(42)).toBeNull();
+    expect(wmoCondition(null)).toBeNull();
+  });
+});
+
+describe('compassDirection', () => {
+  it('rounds to the nearest of eight points', () => {
+    expect(compassDirection(0)).toBe('N');
+    expect(compassDirection(350)).toBe('N');
+    expect(compassDirection(140)).toBe('SE');
+    expect(compassDirection(-90)).toBe('W');
+  });
+});
+
+describe('formatWeatherDetails', () => {
+  it('formats reported fields in US units and skips missing ones', () => {
+    expect(formatWeatherDetails({
+      weather_condition: 'Overcast',
+      dew_point: 0,
+      wind_speed_kph: 8.04672,
+      wind_direction_deg: null,
+      pressure_hpa: 1012.6,
+      cloud_cover: null,
+      precipitation_mm: 2.54,
+    })).toEqual([
+      { label: 'Conditions', value: 'Overcast' },
+      { label: 'Dew point', value: '32.0°F' },
+      { label: 'Wind', value: '5.0 mph' },
+      { label: 'Pressure', value: '1013 hPa' },
+      { label: 'Precipitation', value: '0.10 in' },
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatWeatherLocation,
+  isValidOptionalWeatherLocation,
+  locationFromFields,
+  normalizeUsZipCode,
+  parseWeatherLocation,
+  toLocationFields,
+  toSensorDeviceId,
+  toWeatherDeviceId,
+  weatherLocationKey,
+} from '../weatherLocation';
+
+describe('weatherLocation helpers', () => {
+  it('normalizes valid US zip codes', () => {
+    expect(normalizeUsZipCode(' 85142 ')).toBe('85142');
+    expect(normalizeUsZipCode('85001-1234')).toBe('85001-1234');
+  });
+
+  it('rejects invalid zip values', () => {
+    expect(normalizeUsZipCode('')).toBeNull();
+    expect(normalizeUsZipCode('abcde')).toBeNull();
+    expect(normalizeUsZipCode('1234')).toBeNull();
+    expect(normalizeUsZipCode(null)).toBeNull();
+  });
+
+  it('allows optional empty zip input', () => {
+    expect(isValidOptionalWeatherLocation('')).toBe(true);
+    expect(isValidOptionalWeatherLocation('   ')).toBe(true);
+    expect(isValidOptionalWeatherLocation('85142')).toBe(true);
+    expect(isValidOptionalWeatherLocation('bad-zip')).toBe(false);
+  });
+
+  it('converts between sensor/weather device ids', () => {
+    expect(toWeatherDeviceId('node1')).toBe('weather_node1');
+    expect(toWeatherDeviceId('weather_node2')).toBe('weather_node2');
+    expect(toSensorDeviceId('weather_node1')).toBe('node1');
+    expect(toSensorDeviceId('node2')).toBe('node2');
+  });
+});
+
+describe('parseWeatherLocation', () => {
+  it('parses US ZIPs with or without a country', () => {
+    expect(parseWeatherLocation('85142')).toEqual({ kind: 'us_zip', zipCode: '85142' });
+    expect(parseWeatherLocation('85142-1234, us')).toEqual({ kind: 'us_zip', zipCode: '85142-1234' });
+    expect(parseWeatherLocation('8514, US')).toBeNull();
+  });
+
+  it('parses international postal codes followed by a country code', () => {
+    expect(parseWeatherLocation(' m5v  3l9 ,ca ')).toEqual({ kind: 'postal', postalCode: 'M5V 3L9', countryCode: 'CA' });
+    expect(parseWeatherLocation('SW1A 1AA, GB')).toEqual({ kind: 'postal', postalCode: 'SW1A 1AA', countryCode: 'GB' });
+    expect(parseWeatherLocation('Toronto, CA')).toBeNull();
+    expect(parseWeatherLocation('M5V 3L9')).toBeNull();
+  });
+
+  it('parses latitude, longitude and checks ranges', () => {
+    expect(parseWeatherLocation('43.65, -79.38')).toEqual({ kind: 'coordinates', latitude: 43.65, longitude: -79.38 });
+    expect(parseWeatherLocation('-33.9,151')).toEqual({ kind: 'coordinates', latitude: -33.9, longitude: 151 });
+    expect(parseWeatherLocation('91, 0')).toBeNull();
+    expect(parseWeatherLocation('0, 181')).toBeNull();
+  });
+
+  it('round-trips through formatWeatherLocation', () => {
+    for (const input of ['85142-1234', 'M5V 3L9, CA', '43.65, -79.38']) {
+      const location = parseWeatherLocation(input);
+      expect(location && formatWeatherLocation(location)).toBe(input);
+    }
+  });
+});
+
+describe('stored location fields', () => {
+  it('reads a ZIP without a country as US, as rows did before countries', () => {
+    expect(locationFromFields({ zip_code: '85142', country_code: null })).toEqual({ kind: 'us_zip', zipCode: '85142' });
+    expect(locationFromFields({ zip_code: 'not-a-zip', country_code: null })).toBeNull();
+  });
+
+  it('prefers coordinates over a postal code', () => {
+    expect(locationFromFields({ zip_code: '85142', latitude: 33.2, longitude: -111.6 })).toMatchObject({ kind: 'coordinates' });
+  });
+
+  it('writes every column so a location type change clears the old one', () => {
+    expect(toLocationFields({ kind: 'coordinates', latitude: 1, longitude: 2 })).toEqual({
+      zip_code: null,
+      country_code: null,
+      latitude: 1,
+      longitude: 2,
+    });
+    expect(toLocationFields(null)).toEqual({ zip_code: null, country_code: null, latitude: null, longitude: null });
+  });
+});
+
+describe('weatherLocationKey', () => {
+  it('groups ZIP+4 codes under their ZIP and nearby coordinates together', () => {
+    expect(weatherLocationKey({ kind: 'us_zip', zipCode: '85142-1234' })).toBe(weatherLocationKey({ kind: 'us_zip', zipCode: '85142' }));
+    expect(weatherLocationKey({ kind: 'coordinates', latitude: 43.6512, longitude: -79.3834 })).toBe('43.65,-79.38');
+    expect(weatherLocationKey({ kind: 'postal', postalCode: 'M5V 3L9', countryCode: 'CA' })).toBe('CA:M5V 3L9');
+  });
+});
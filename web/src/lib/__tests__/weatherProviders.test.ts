@@ -0,0 +1,245 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createOpenMeteoProvider,
+  createWeatherApiProvider,
+  fetchCurrentWeather,
+  fetchWeatherHistory,
+  providersFromEnv,
+} from '../weatherProviders';
+import type { WeatherLocation } from '../weatherLocation';
+import weatherApiCurrent from './fixtures/weatherApiCurrent.json';
+import openMeteoGeocoding from './fixtures/openMeteoGeocoding.json';
+import openMeteoCurrent from './fixtures/openMeteoCurrent.json';
+import openMeteoArchive from './fixtures/openMeteoArchive.json';
+
+const zip = (zipCode: string): WeatherLocation => ({ kind: 'us_zip', zipCode });
+const ZIP = zip('85142');
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Serves the recorded responses by host; anything else is a 404.
+function mockFetch(overrides: Record<string, () => Response> = {}) {
+  const fetchMock = vi.fn(async (input: string | URL | Request) => {
+    const url = new URL(String(input));
+    if (overrides[url.host]) return overrides[url.host]();
+    if (url.host === 'api.weatherapi.com') return json(weatherApiCurrent);
+    if (url.host === 'geocoding-api.open-meteo.com') return json(openMeteoGeocoding);
+    if (url.host === 'api.open-meteo.com') return json(openMeteoCurrent);
+    if (url.host === 'archive-api.open-meteo.com') return json(openMeteoArchive);
+    return new Response('not found', { status: 404 });
+  });
+  global.fetch = fetchMock as typeof fetch;
+  return fetchMock;
+}
+
+const originalFetch = global.fetch;
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe('createWeatherApiProvider', () => {
+  it('parses a recorded current.json response', async () => {
+    const fetchMock = mockFetch();
+    const result = await createWeatherApiProvider('key').current(ZIP);
+    expect(result).toEqual({
+      ok: true,
+      observation: {
+        provider: 'weatherapi',
+        temperature: 24.4,
+        humidity: 18,
+        observedAt: '2026-06-01T12:00:00.000Z',
+        details: {
+          dew_point: -1,
+          pressure_hpa: 1011,
+          wind_speed_kph: 6.8,
+          wind_direction_deg: 140,
+          cloud_cover: 0,
+          precipitation_mm: 0,
+          weather_condition: 'Clear',
+        },
+      },
+    });
+    expect(String(fetchMock.mock.calls[0][0])).toContain('key=key&q=85142');
+  });
+
+  it('reports HTTP errors without throwing', async () => {
+    mockFetch({ 'api.weatherapi.com': () => json({ error: { code: 2007, message: 'API key has exceeded calls per month quota.' } }, 403) });
+    const result = await createWeatherApiProvider('key').current(ZIP);
+    expect(result).toMatchObject({ ok: false, provider: 'weatherapi' });
+    expect(!result.ok && result.error).toContain('WeatherAPI HTTP 403');
+  });
+
+  it('queries by coordinates and by UK or Canadian postcode', async () => {
+    const fetchMock = mockFetch();
+    await createWeatherApiProvider('key').current({ kind: 'coordinates', latitude: 43.65, longitude: -79.38 });
+    await createWeatherApiProvider('key').current({ kind: 'postal', postalCode: 'M5V 3L9', countryCode: 'CA' });
+    expect(String(fetchMock.mock.calls[0][0])).toContain('q=43.65%2C-79.38');
+    expect(String(fetchMock.mock.calls[1][0])).toContain('q=M5V%203L9');
+  });
+
+  it('declines postal codes it cannot resolve so the next provider is tried', async () => {
+    const fetchMock = mockFetch();
+    const result = await createWeatherApiProvider('key').current({ kind: 'postal', postalCode: '10115', countryCode: 'DE' });
+    expect(result).toMatchObject({ ok: false, error: 'WeatherAPI cannot look up postal codes in DE' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('leaves details the plan does not report as null', async () => {
+    mockFetch({ 'api.weatherapi.com': () => json({ current: { temp_c: 20, humidity: 50, last_updated_epoch: 1780315200, wind_kph: 3 } }) });
+    const result = await createWeatherApiProvider('key').current(ZIP);
+    expect(result.ok && result.observation.details).toMatchObject({ wind_speed_kph: 3, dew_point: null, weather_condition: null });
+  });
+
+  it('rejects a payload without readings', async () => {
+    mockFetch({ 'api.weatherapi.com': () => json({ current: { temp_c: null } }) });
+    expect(await createWeatherApiProvider('key').current(ZIP)).toMatchObject({
+      ok: false,
+      error: 'Invalid weather payload',
+    });
+  });
+});
+
+describe('createOpenMeteoProvider', () => {
+  it('geocodes the ZIP and parses recorded current conditions', async () => {
+    const fetchMock = mockFetch();
+    const result = await createOpenMeteoProvider().current(zip('85142-1234'));
+    expect(result).toEqual({
+      ok: true,
+      observation: {
+        provider: 'open-meteo',
+        temperature: 23.9,
+        humidity: 20,
+        observedAt: '2026-06-01T12:00:00.000Z',
+        details: {
+          dew_point: -0.6,
+          pressure_hpa: 1010.4,
+          wind_speed_kph: 7.2,
+          wind_direction_deg: 135,
+          cloud_cover: 12,
+          precipitation_mm: 0,
+          weather_condition: 'Mainly clear',
+        },
+      },
+    });
+    expect(String(fetchMock.mock.calls[0][0])).toContain('name=85142&');
+    expect(String(fetchMock.mock.calls[1][0])).toContain('latitude=33.24866&longitude=-111.6343');
+    expect(String(fetchMock.mock.calls[1][0])).toContain('dew_point_2m,pressure_msl,wind_speed_10m');
+  });
+
+  it('skips geocoding for coordinates', async () => {
+    const fetchMock = mockFetch();
+    const result = await createOpenMeteoProvider().current({ kind: 'coordinates', latitude: 60.17, longitude: 24.94 });
+    expect(result.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toContain('latitude=60.17&longitude=24.94');
+  });
+
+  it('geocodes international postal codes, falling back to the outward code', async () => {
+    const fetchMock = mockFetch({
+      'geocoding-api.open-meteo.com': () => json(fetchMock.mock.calls.length === 1 ? {} : openMeteoGeocoding),
+    });
+    const result = await createOpenMeteoProvider().current({ kind: 'postal', postalCode: 'M5V 3L9', countryCode: 'CA' });
+    expect(result.ok).toBe(true);
+    expect(String(fetchMock.mock.calls[0][0])).toContain('name=M5V%203L9&count=1&countryCode=CA');
+    expect(String(fetchMock.mock.calls[1][0])).toContain('name=M5V&count=1&countryCode=CA');
+  });
+
+  it('fails when the ZIP cannot be geocoded', async () => {
+    mockFetch({ 'geocoding-api.open-meteo.com': () => json({ generationtime_ms: 0.2 }) });
+    expect(await createOpenMeteoProvider().current(zip('00000'))).toMatchObject({
+      ok: false,
+      provider: 'open-meteo',
+      error: 'Open-Meteo could not geocode 00000',
+    });
+  });
+});
+
+describe('fetchCurrentWeather', () => {
+  it('falls back to the next provider and keeps the earlier error', async () => {
+    mockFetch({ 'api.weatherapi.com': () => new Response('rate limited', { status: 429 }) });
+    const { observation, errors } = await fetchCurrentWeather(
+      [createWeatherApiProvider('key'), createOpenMeteoProvider()],
+      ZIP
+    );
+    expect(observation?.provider).toBe('open-meteo');
+    expect(errors).toEqual(['weatherapi: WeatherAPI HTTP 429: rate limited']);
+  });
+
+  it('returns no observation when every provider fails', async () => {
+    mockFetch({ 'api.weatherapi.com': () => new Response('down', { status: 500 }) });
+    const { observation, errors } = await fetchCurrentWeather([createWeatherApiProvider('key')], ZIP);
+    expect(observation).toBeNull();
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe('fetchWeatherHistory', () => {
+  const start = Date.parse('2026-02-01T01:00:00Z');
+  const end = Date.parse('2026-02-01T06:00:00Z');
+
+  it('reads hourly rows from the Open-Meteo archive, skipping nulls and hours outside the window', async () => {
+    const fetchMock = mockFetch();
+    const { observations, errors } = await fetchWeatherHistory(
+      [createWeatherApiProvider('key'), createOpenMeteoProvider()],
+      ZIP,
+      start,
+      end
+    );
+    expect(errors).toEqual([]);
+    expect(observations?.map((o) => o.observedAt)).toEqual([
+      '2026-02-01T01:00:00.000Z',
+      '2026-02-01T02:00:00.000Z',
+      '2026-02-01T03:00:00.000Z',
+      '2026-02-01T05:00:00.000Z',
+    ]);
+    expect(observations?.[0]).toMatchObject({ provider: 'open-meteo', temperature: 9.1, humidity: 44, observedAt: '2026-02-01T01:00:00.000Z' });
+    expect(observations?.[3].details).toEqual({
+      dew_point: -1.5,
+      pressure_hpa: 1019.6,
+      wind_speed_kph: 2.9,
+      wind_direction_deg: 284,
+      cloud_cover: 61,
+      precipitation_mm: 0.1,
+      weather_condition: 'Slight rain',
+    });
+    // WeatherAPI has no history, so only Open-Meteo is called.
+    const archiveUrl = String(fetchMock.mock.calls[1][0]);
+    expect(archiveUrl).toContain('archive-api.open-meteo.com');
+    expect(archiveUrl).toContain('start_date=2026-02-01&end_date=2026-02-01');
+  });
+
+  it('uses the forecast endpoint for the last few days', async () => {
+    const fetchMock = mockFetch({ 'api.open-meteo.com': () => json({ hourly: { time: [], temperature_2m: [], relative_humidity_2m: [] } }) });
+    const now = Date.now();
+    const { observations } = await fetchWeatherHistory([createOpenMeteoProvider()], ZIP, now - 86_400_000, now);
+    expect(observations).toEqual([]);
+    expect(new URL(String(fetchMock.mock.calls[1][0])).host).toBe('api.open-meteo.com');
+  });
+
+  it('reports when no provider offers history', async () => {
+    expect(await fetchWeatherHistory([createWeatherApiProvider('key')], ZIP, start, end)).toEqual({
+      observations: null,
+      errors: ['No configured weather provider offers history'],
+    });
+  });
+});
+
+describe('providersFromEnv', () => {
+  it('defaults to WeatherAPI then Open-Meteo', () => {
+    expect(providersFromEnv({ WEATHER_API_KEY: 'key' }).providers.map((p) => p.name)).toEqual(['weatherapi', 'open-meteo']);
+  });
+
+  it('skips WeatherAPI without a key and unknown names', () => {
+    const { providers, skipped } = providersFromEnv({ WEATHER_PROVIDERS: 'nws, open-meteo, weatherapi' });
+    expect(providers.map((p) => p.name)).toEqual(['open-meteo']);
+    expect(skipped).toEqual(['nws: unknown provider', 'weatherapi: WEATHER_API_KEY not configured']);
+  });
+
+  it('honours the configured order', () => {
+    const { providers } = providersFromEnv({ WEATHER_PROVIDERS: 'open-meteo,weatherapi', WEATHER_API_KEY: 'key' });
+    expect(providers.map((p) => p.name)).toEqual(['open-meteo', 'weatherapi']);
+  });
+});
@@ -6,9 +6,18 @@ import {
   Reading,
   celsiusToFahrenheit,
   celsiusDeltaToFahrenheit,
+  readingTime,
   getServerClient,
 } from './supabase';
-import { normalizeUsZipCode } from './weatherZip';
+import { normalizePostalCode, normalizeUsZipCode } from './weatherLocation';
+import { derivedFields } from './psychrometrics';
+import {
+  applyCalibrationToReading,
+  applyCalibrationToSample,
+  applyCalibrationToStats,
+  buildCalibrationMap,
+  type CalibrationMap,
+} from './calibration';
 
 const TIMEZONE = 'America/Phoenix';
 
@@ -43,6 +52,29 @@ function toLocalTime(utcString: unknown): string {
   return parsed.toLocaleString('en-US', { timeZone: TIMEZONE });
 }
 
+async function getCalibrationMap(): Promise<CalibrationMap> {
+  const supabase = getServerClient();
+
+  const { data, error } = await supabase
+    .from('devices')
+    .select('id, temp_offset_c, temp_gain, humidity_offset, humidity_gain');
+
+  if (error) {
+    throw new Error(`Failed to fetch device calibrations: ${error.message}`);
+  }
+
+  return buildCalibrationMap(data || []);
+}
+
+// Sensor values are calibrated unless the model explicitly asks for raw data.
+async function resolveCalibrations(params: Record<string, unknown>): Promise<CalibrationMap | null> {
+  return params.raw === true ? null : getCalibrationMap();
+}
+
+function isCalibrated(calibrations: CalibrationMap | null, deviceId: string | undefined): boolean {
+  return Boolean(deviceId && calibrations?.[deviceId]);
+}
+
 export async function executeGetDeployments(params: {
   device_id?: string;
   location?: string;
@@ -125,11 +157,11 @@ export async function executeGetReadings(params: {
     .from('readings')
     .select('*')
     .eq('device_id', deployment.device_id)
-    .gte('created_at', deployment.started_at)
-    .order('created_at', { ascending: false });
+    .gte('measured_at', deployment.started_at)
+    .order('measured_at', { ascending: false });
 
   if (deployment.ended_at) {
-    query = query.lte('created_at', deployment.ended_at);
+    query = query.lte('measured_at', deployment.ended_at);
   }
 
   const limit = safeInt(params.limit, 100, 1, 2000);
@@ -240,12 +272,12 @@ export async function executeGetWeather(params: {
     .from('readings')
     .select('*')
     .eq('source', 'weather')
-    .order('created_at', { ascending: false });
+    .order('measured_at', { ascending: false });
 
   if (params.zip_code) {
-    const normalized = normalizeUsZipCode(params.zip_code);
+    const normalized = normalizeUsZipCode(params.zip_code) ?? normalizePostalCode(params.zip_code);
     if (!normalized) {
-      throw new Error(`Invalid US zip code: "${params.zip_code}". Must be a 5-digit US zip code.`);
+      throw new Error(`Invalid postal code: "${params.zip_code}". Use a US zip code like 85142 or a postal code like M5V 3L9.`);
     }
     query = query.eq('zip_code', normalized);
   }
@@ -282,7 +314,11 @@ export async function executeTool(
     }
     case 'get_deployment_stats': {
       const { stats, truncated } = await executeGetDeploymentStats(params as Parameters<typeof executeGetDeploymentStats>[0]);
-      const mapped = stats.map((s) => convertStatsToF(s));
+      const calibrations = await resolveCalibrations(params);
+      const mapped = stats.map((s) => ({
+        ...convertStatsToF(applyCalibrationToStats(s, calibrations)),
+        calibrated: isCalibrated(calibrations, s.device_id),
+      }));
       return {
         stats: mapped,
         ...(truncated ? { note: `Results limited to first ${MAX_DEPLOYMENT_IDS} deployments.` } : {}),
@@ -290,26 +326,44 @@ export async function executeTool(
     }
     case 'get_readings': {
       const readings = await executeGetReadings(params as Parameters<typeof executeGetReadings>[0]);
-      return readings.map((r) => ({
-        ...r,
-        created_at: toLocalTime(r.created_at),
-        temperature_f: celsiusToFahrenheit(r.temperature),
-      }));
+      const calibrations = await resolveCalibrations(params);
+      return readings.map((raw) => {
+        const r = applyCalibrationToReading(raw, calibrations);
+        return {
+          ...r,
+          created_at: toLocalTime(r.created_at),
+          measured_at: toLocalTime(readingTime(r)),
+          temperature_f: celsiusToFahrenheit(r.temperature),
+          ...derivedFields(r.temperature, r.humidity),
+          calibrated: isCalibrated(calibrations, r.device_id),
+        };
+      });
     }
     case 'get_device_stats': {
       const deviceStats = await executeGetDeviceStats(params as Parameters<typeof executeGetDeviceStats>[0]);
-      return deviceStats.map((s) => convertStatsToF(s));
+      const calibrations = await resolveCalibrations(params);
+      return deviceStats.map((s) => ({
+        ...convertStatsToF(applyCalibrationToStats(s, calibrations)),
+        calibrated: isCalibrated(calibrations, s.device_id),
+      }));
     }
     case 'get_chart_data': {
       const chartData = await executeGetChartData(params as Parameters<typeof executeGetChartData>[0]);
-      return chartData.map((s) => ({
-        ...s,
-        bucket_ts: toLocalTime(s.bucket_ts),
-        temperature_avg_f: celsiusToFahrenheit(s.temperature_avg),
-      }));
+      const calibrations = await resolveCalibrations(params);
+      return chartData.map((raw) => {
+        const s = applyCalibrationToSample(raw, calibrations);
+        return {
+          ...s,
+          bucket_ts: toLocalTime(s.bucket_ts),
+          temperature_avg_f: celsiusToFahrenheit(s.temperature_avg),
+          ...derivedFields(s.temperature_avg, s.humidity_avg),
+          calibrated: isCalibrated(calibrations, s.device_id),
+        };
+      });
     }
     case 'get_report_data': {
       const reportData = await executeGetReportData();
+      const calibrations = await resolveCalibrations(params);
       return {
         deployments: reportData.deployments.map((d) => ({
           ...d,
@@ -317,8 +371,9 @@ export async function executeTool(
           ended_at: d.ended_at ? toLocalTime(d.ended_at) : null,
           created_at: toLocalTime(d.created_at),
         })),
-        deployment_stats: reportData.deployment_stats.map((s) => convertStatsToF(s)),
-        overall_device_stats: reportData.overall_device_stats.map((s) => convertStatsToF(s)),
+        deployment_stats: reportData.deployment_stats.map((s) => convertStatsToF(applyCalibrationToStats(s, calibrations))),
+        overall_device_stats: reportData.overall_device_stats.map((s) => convertStatsToF(applyCalibrationToStats(s, calibrations))),
+        calibrated: calibrations !== null,
         data_range: {
           earliest: toLocalTime(reportData.data_range.earliest),
           latest: toLocalTime(reportData.data_range.latest),
@@ -329,12 +384,20 @@ export async function executeTool(
     }
     case 'get_weather': {
       const weatherReadings = await executeGetWeather(params as Parameters<typeof executeGetWeather>[0]);
-      return weatherReadings.map((r) => ({
-        ...r,
-        created_at: toLocalTime(r.created_at as string),
-        observed_at: r.observed_at ? toLocalTime(r.observed_at as string) : null,
-        temperature_f: celsiusToFahrenheit(r.temperature as number),
-      }));
+      return weatherReadings.map((r) => {
+        const derived = derivedFields(r.temperature as number, r.humidity as number);
+        return {
+          ...r,
+          created_at: toLocalTime(r.created_at as string),
+          measured_at: r.measured_at ? toLocalTime(r.measured_at as string) : null,
+          observed_at: r.observed_at ? toLocalTime(r.observed_at as string) : null,
+          temperature_f: celsiusToFahrenheit(r.temperature as number),
+          ...derived,
+          // Prefer the provider's dew point; older rows fall back to the computed one.
+          dew_point_f: r.dew_point != null ? celsiusToFahrenheit(r.dew_point as number) : derived.dew_point_f,
+          wind_speed_mph: r.wind_speed_kph != null ? (r.wind_speed_kph as number) / 1.609344 : null,
+        };
+      });
     }
     default:
       throw new Error(`Unknown tool: ${name}`);
@@ -0,0 +1,177 @@
+import type { AlertRule, Deployment, MetricDefinition, Reading } from './supabase/types';
+import { displayUnit, formatMetricValue, getReadingMetric, toDisplayDelta } from './metrics';
+
+// Weather rows arrive every 30 minutes; a sensor reading is compared with the
+// latest weather row no older than this.
+export const WEATHER_MATCH_MINUTES = 60;
+
+export const ALERT_SEVERITIES = ['info', 'warning', 'critical'] as const;
+
+export type RuleReading = Pick<Reading, 'temperature' | 'humidity' | 'metrics'> & {
+  measured_at: string;
+};
+
+export type RuleTarget = {
+  deviceId: string;
+  /** Readings before this are ignored (deployment start for deployment-scoped rules). */
+  since: string | null;
+};
+
+export type RuleEvaluation = {
+  firing: boolean;
+  /** Latest evaluated value; the signed sensor − weather difference for deviation rules. */
+  value: number | null;
+  /** Start of the current breach, set even while it is shorter than the rule's duration. */
+  breachStartedAt: string | null;
+  reason: string;
+};
+
+type RuleSample = { at: number; value: number };
+
+/**
+ * Devices a rule is evaluated for. Unscoped rules cover every monitored
+ * device; deployment-scoped rules only apply while the deployment is active.
+ */
+export function resolveRuleTargets(
+  rule: Pick<AlertRule, 'device_id' | 'deployment_id'>,
+  monitoredDevices: string[],
+  deployments: Array<Pick<Deployment, 'id' | 'device_id' | 'started_at' | 'ended_at'>>
+): RuleTarget[] {
+  if (rule.deployment_id !== null) {
+    const deployment = deployments.find((d) => d.id === rule.deployment_id);
+    if (!deployment || deployment.ended_at || !monitoredDevices.includes(deployment.device_id)) {
+      return [];
+    }
+    return [{ deviceId: deployment.device_id, since: deployment.started_at }];
+  }
+  if (rule.device_id !== null) {
+    return monitoredDevices.includes(rule.device_id) ? [{ deviceId: rule.device_id, since: null }] : [];
+  }
+  return monitoredDevices.map((deviceId) => ({ deviceId, since: null }));
+}
+
+/**
+ * How far back a rule needs readings: its duration plus one stale interval, so
+ * a breach that started before the window is still seen as sustained.
+ */
+export function ruleLookbackMinutes(rule: Pick<AlertRule, 'duration_minutes'>, staleMinutes: number): number {
+  return rule.duration_minutes + staleMinutes;
+}
+
+export function breachesRule(rule: Pick<AlertRule, 'rule_type' | 'operator' | 'threshold'>, value: number): boolean {
+  const magnitude = rule.rule_type === 'weather_deviation' ? Math.abs(value) : value;
+  return rule.operator === 'above' ? magnitude > rule.threshold : magnitude < rule.threshold;
+}
+
+function metricFor(key: string, metrics: MetricDefinition[]): MetricDefinition {
+  return (
+    metrics.find((m) => m.key === key) ?? {
+      key,
+      display_name: key,
+      unit: '',
+      min_value: null,
+      max_value: null,
+      display_precision: 1,
+      sort_order: 0,
+    }
+  );
+}
+
+function formatDelta(metric: MetricDefinition, delta: number): string {
+  return `${toDisplayDelta(metric.key, delta).toFixed(metric.display_precision)}${displayUnit(metric)}`;
+}
+
+/** Human-readable condition, in display units: "Temperature above 89.6°F for 15 min". */
+export function describeRule(
+  rule: Pick<AlertRule, 'rule_type' | 'metric' | 'operator' | 'threshold' | 'duration_minutes'>,
+  metrics: MetricDefinition[]
+): string {
+  const metric = metricFor(rule.metric, metrics);
+  const condition =
+    rule.rule_type === 'weather_deviation'
+      ? `${metric.display_name} deviation from weather ${rule.operator === 'above' ? 'more' : 'less'} than ${formatDelta(metric, rule.threshold)}`
+      : `${metric.display_name} ${rule.operator} ${formatMetricValue(metric, rule.threshold)}`;
+  return rule.duration_minutes > 0 ? `${condition} for ${rule.duration_minutes} min` : condition;
+}
+
+function toSamples(
+  rule: Pick<AlertRule, 'rule_type' | 'metric'>,
+  readings: RuleReading[],
+  weather: RuleReading[]
+): RuleSample[] {
+  const byTime = (a: { at: number }, b: { at: number }) => a.at - b.at;
+  const sensor = readings
+    .map((r) => ({ at: new Date(r.measured_at).getTime(), value: getReadingMetric(r, rule.metric) }))
+    .filter((s): s is RuleSample => Number.isFinite(s.at) && s.value !== null)
+    .sort(byTime);
+
+  if (rule.rule_type !== 'weather_deviation') return sensor;
+
+  const reference = weather
+    .map((r) => ({ at: new Date(r.measured_at).getTime(), value: getReadingMetric(r, rule.metric) }))
+    .filter((s): s is RuleSample => Number.isFinite(s.at) && s.value !== null)
+    .sort(byTime);
+
+  const samples: RuleSample[] = [];
+  let w = -1;
+  for (const s of sensor) {
+    while (w + 1 < reference.length && reference[w + 1].at <= s.at) w++;
+    // Readings with no recent weather row are skipped rather than breaking a breach.
+    if (w < 0 || s.at - reference[w].at > WEATHER_MATCH_MINUTES * 60_000) continue;
+    samples.push({ at: s.at, value: s.value - reference[w].value });
+  }
+  return samples;
+}
+
+/**
+ * Evaluates one rule for one device. The rule fires when the newest reading in
+ * the lookback window breaches it and every reading back to at least
+ * `duration_minutes` earlier breaches too. Readings are expected calibrated.
+ */
+export function evaluateRule(
+  rule: AlertRule,
+  readings: RuleReading[],
+  weather: RuleReading[],
+  options: { nowMs: number; staleMinutes: number; since?: string | null; metrics: MetricDefinition[] }
+): RuleEvaluation {
+  const sinceMs = options.since ? new Date(options.since).getTime() : -Infinity;
+  const windowStart = Math.max(sinceMs, options.nowMs - ruleLookbackMinutes(rule, options.staleMinutes) * 60_000);
+  const samples = toSamples(rule, readings, weather).filter((s) => s.at >= windowStart && s.at <= options.nowMs);
+  const description = describeRule(rule, options.metrics);
+
+  if (samples.length === 0) {
+    return {
+      firing: false,
+      value: null,
+      breachStartedAt: null,
+      reason: rule.rule_type === 'weather_deviation'
+        ? 'No recent readings with matching weather data.'
+        : 'No recent readings to evaluate.',
+    };
+  }
+
+  const latest = samples[samples.length - 1];
+  if (!breachesRule(rule, latest.value)) {
+    return { firing: false, value: latest.value, breachStartedAt: null, reason: `Within rule: ${description}.` };
+  }
+
+  let start = latest.at;
+  for (let i = samples.length - 2; i >= 0 && breachesRule(rule, samples[i].value); i--) {
+    start = samples[i].at;
+  }
+
+  const breachMinutes = (latest.at - start) / 60_000;
+  const metric = metricFor(rule.metric, options.metrics);
+  const shown =
+    rule.rule_type === 'weather_deviation' ? formatDelta(metric, latest.value) : formatMetricValue(metric, latest.value);
+  const firing = breachMinutes >= rule.duration_minutes;
+
+  return {
+    firing,
+    value: latest.value,
+    breachStartedAt: new Date(start).toISOString(),
+    reason: firing
+      ? `${description}: latest ${shown}, breaching for ${breachMinutes.toFixed(0)} min.`
+      : `Breaching for ${breachMinutes.toFixed(0)} of ${rule.duration_minutes} min (latest ${shown}).`,
+  };
+}
@@ -0,0 +1,42 @@
+import type { Incident, MaintenanceWindow } from './supabase/types';
+
+// Reasons keepalive keeps quiet about a device. Status, alert state and
+// incidents are still recorded; only notifications are skipped.
+
+export type SuppressionReason = 'maintenance' | 'snoozed' | 'acknowledged';
+
+/** The window covering a device at `nowMs`, if any. Device-less windows cover all devices. */
+export function activeMaintenanceWindow<T extends Pick<MaintenanceWindow, 'device_id' | 'starts_at' | 'ends_at'>>(
+  windows: T[],
+  deviceId: string,
+  nowMs: number
+): T | undefined {
+  return windows.find(
+    (w) =>
+      (w.device_id === null || w.device_id === deviceId) &&
+      new Date(w.starts_at).getTime() <= nowMs &&
+      nowMs < new Date(w.ends_at).getTime()
+  );
+}
+
+export function isSnoozed(snoozedUntil: string | null | undefined, nowMs: number): boolean {
+  return Boolean(snoozedUntil) && new Date(snoozedUntil as string).getTime() > nowMs;
+}
+
+/**
+ * Why an alert for this device should not be sent, or null to send it.
+ * `incident` is the incident the alert belongs to; acknowledging it silences
+ * the rest of that incident, including its recovery.
+ */
+export function suppressionReason(params: {
+  deviceId: string;
+  nowMs: number;
+  maintenanceWindows: Array<Pick<MaintenanceWindow, 'device_id' | 'starts_at' | 'ends_at'>>;
+  snoozedUntil: string | null | undefined;
+  incident: Pick<Incident, 'acknowledged_at'> | undefined;
+}): SuppressionReason | null {
+  if (activeMaintenanceWindow(params.maintenanceWindows, params.deviceId, params.nowMs)) return 'maintenance';
+  if (isSnoozed(params.snoozedUntil, params.nowMs)) return 'snoozed';
+  if (params.incident?.acknowledged_at) return 'acknowledged';
+  return null;
+}
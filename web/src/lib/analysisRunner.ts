@@ -1,6 +1,10 @@
 import type { PyodideInterface } from './pyodide';
-import { getDeployments, getDeploymentReadings, getChartSamples, celsiusToFahrenheit } from './supabase';
-import type { DeploymentWithCount } from './supabase';
+import { getDeployments, getDeploymentReadings, getAllReadingsRange, getChartSamples, celsiusToFahrenheit } from './supabase';
+import { readingTime } from './supabase/queries/conversions';
+import type { DeploymentWithCount, Reading } from './supabase';
+import { WEATHER_COVARIATES, type NumericWeatherDetail } from './weatherDetails';
+import { toWeatherDeviceId } from './weatherLocation';
+import type { CalibrationMap } from './calibration';
 
 export type AnalysisType =
   | 'descriptive'
@@ -14,6 +18,7 @@ export interface AnalysisParams {
   start: string; // ISO datetime
   end: string;
   analyses: AnalysisType[];
+  calibrations?: CalibrationMap | null;
 }
 
 export interface AnalysisResults {
@@ -53,6 +58,17 @@ export interface CorrelationResult {
   regression_intercept: number;
   n_points: number;
   scatter_data: { x: number; y: number }[];
+  covariates: CovariateCorrelation[];
+}
+
+/** Sensor temperature (°F) and humidity against one outdoor weather variable. */
+export interface CovariateCorrelation {
+  key: NumericWeatherDetail;
+  n_points: number;
+  temperature_r: number;
+  temperature_p: number;
+  humidity_r: number;
+  humidity_p: number;
 }
 
 export interface HypothesisTestResult {
@@ -95,7 +111,9 @@ export interface ForecastResult {
   model_params: { alpha: number; beta: number; gamma: number; aic: number };
 }
 
-interface ReadingWithContext {
+type WeatherCovariates = Partial<Record<NumericWeatherDetail, number | null>>;
+
+interface ReadingWithContext extends WeatherCovariates {
   id: number;
   temperature: number; // Celsius from DB
   humidity: number;
@@ -108,6 +126,41 @@ interface ReadingWithContext {
 interface AnalysisFetchOptions {
   useDeploymentBounds?: boolean;
   maxRows?: number;
+  calibrations?: CalibrationMap | null;
+  /** Attach the nearest weather observation's details to each reading. */
+  withWeather?: boolean;
+}
+
+// Weather rows are hourly, so the nearest one is at most half an hour away
+// when none are missing; allow one missed hour before giving up.
+const WEATHER_MATCH_WINDOW_MS = 90 * 60 * 1000;
+
+/**
+ * Copies the numeric details of the nearest weather row (within 90 minutes)
+ * onto each reading; readings with no weather nearby get nulls. Both inputs
+ * must be sorted by time.
+ */
+export function attachWeatherCovariates<T extends { created_at: string }>(
+  readings: T[],
+  weatherRows: Reading[]
+): Array<T & WeatherCovariates> {
+  const weatherTimes = weatherRows.map((w) => new Date(readingTime(w)).getTime());
+  let next = 0;
+  return readings.map((reading) => {
+    const t = new Date(reading.created_at).getTime();
+    while (next < weatherTimes.length && weatherTimes[next] < t) next++;
+    let nearest: number | null = null;
+    for (const i of [next - 1, next]) {
+      if (i < 0 || i >= weatherTimes.length) continue;
+      if (Math.abs(weatherTimes[i] - t) > WEATHER_MATCH_WINDOW_MS) continue;
+      if (nearest === null || Math.abs(weatherTimes[i] - t) < Math.abs(weatherTimes[nearest] - t)) nearest = i;
+    }
+    const covariates: WeatherCovariates = {};
+    for (const { key } of WEATHER_COVARIATES) {
+      covariates[key] = nearest !== null ? weatherRows[nearest][key] ?? null : null;
+    }
+    return { ...reading, ...covariates };
+  });
 }
 
 async function fetchReadingsForAnalysis(
@@ -135,18 +188,28 @@ async function fetchReadingsForAnalysis(
       start: requestedStart,
       end: requestedEnd,
       preferLatest: Boolean(options.maxRows),
+      calibrations: options.calibrations,
     });
 
-    for (const r of readings) {
-      combined.push({
-        id: r.id,
-        temperature: r.temperature,
-        humidity: r.humidity,
-        created_at: r.created_at,
-        deployment_id: dep.id,
-        deployment_name: dep.name,
-        location: dep.location,
+    const rows: ReadingWithContext[] = readings.map((r) => ({
+      id: r.id,
+      temperature: r.temperature,
+      humidity: r.humidity,
+      created_at: readingTime(r),
+      deployment_id: dep.id,
+      deployment_name: dep.name,
+      location: dep.location,
+    }));
+
+    if (options.withWeather && rows.length > 0) {
+      const weatherRows = await getAllReadingsRange({
+        start: new Date(new Date(rows[0].created_at).getTime() - WEATHER_MATCH_WINDOW_MS).toISOString(),
+        end: new Date(new Date(rows[rows.length - 1].created_at).getTime() + WEATHER_MATCH_WINDOW_MS).toISOString(),
+        device_id: toWeatherDeviceId(dep.device_id),
       });
+      combined.push(...attachWeatherCovariates(rows, weatherRows));
+    } else {
+      combined.push(...rows);
     }
   }
 
@@ -163,6 +226,9 @@ data = json.loads(readings_json)
 df = pd.DataFrame(data)
 if df.empty:
     df = pd.DataFrame(columns=['created_at', 'temperature', 'humidity', 'deployment_id', 'deployment_name', 'location'])
+WEATHER_COVARIATES = ${JSON.stringify(WEATHER_COVARIATES.map((c) => c.key))}
+for col in WEATHER_COVARIATES:
+    df[col] = pd.to_numeric(df[col], errors='coerce') if col in df else np.nan
 df['created_at'] = pd.to_datetime(df['created_at'])
 df['temperature_f'] = df['temperature'] * 9/5 + 32
 df = df.sort_values('created_at')
@@ -285,6 +351,22 @@ for (dep_id, name, location), group in df.groupby(
             slope = 0.0
             intercept = safe_float(h.mean(), 0.0)
 
+        covariates = []
+        for key in WEATHER_COVARIATES:
+            paired = group[['temperature_f', 'humidity', key]].dropna()
+            if len(paired) <= 2 or safe_float(paired[key].std(), 0.0) == 0:
+                continue
+            cov_stats = {'key': key, 'n_points': int(len(paired))}
+            for metric, col in [('temperature', 'temperature_f'), ('humidity', 'humidity')]:
+                if safe_float(paired[col].std(), 0.0) > 0:
+                    r_raw, p_raw = scipy_stats.pearsonr(paired[col], paired[key])
+                    cov_stats[metric + '_r'] = safe_float(r_raw, 0.0)
+                    cov_stats[metric + '_p'] = safe_p_value(p_raw)
+                else:
+                    cov_stats[metric + '_r'] = 0.0
+                    cov_stats[metric + '_p'] = 1.0
+            covariates.append(cov_stats)
+
         step = max(1, len(t) // 500)
         results.append({
             'deployment_id': int(dep_id),
@@ -300,6 +382,7 @@ for (dep_id, name, location), group in df.groupby(
                 {'x': safe_float(tv, 0.0), 'y': safe_float(hv, 0.0)}
                 for tv, hv in zip(t.values[::step], h.values[::step])
             ],
+            'covariates': covariates,
         })
 
 result_json = dumps_json_safe(results)
@@ -498,7 +581,11 @@ export async function runAnalyses(
       params.deploymentIds,
       params.start,
       params.end,
-      { maxRows: 5000 }
+      {
+        maxRows: 5000,
+        calibrations: params.calibrations,
+        withWeather: params.analyses.includes('correlation'),
+      }
     );
   }
 
@@ -509,7 +596,7 @@ export async function runAnalyses(
       params.deploymentIds,
       params.start,
       new Date().toISOString(),
-      { useDeploymentBounds: true }
+      { useDeploymentBounds: true, calibrations: params.calibrations }
     );
   }
 
@@ -639,6 +726,7 @@ const hourFormatter = new Intl.DateTimeFormat(undefined, {
 export async function runHourlyForecast(
   pyodide: PyodideInterface,
   deviceId: string,
+  calibrations?: CalibrationMap | null,
 ): Promise<HourlyForecast[]> {
   const now = new Date();
   const deployments = await getDeployments({ deviceId });
@@ -664,6 +752,7 @@ export async function runHourlyForecast(
     bucketSeconds: 3600,
     device_id: deviceId,
     maxRows: DASHBOARD_FORECAST_MAX_ROWS,
+    calibrations,
   });
 
   if (samples.length < 48) return [];
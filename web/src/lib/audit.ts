@@ -0,0 +1,71 @@
+import type { AuditEntityType, AuditEntry } from './supabase/types';
+
+// Presentation helpers for audit_log rows on the /audit page.
+
+export type AuditFieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  device: 'Device',
+  deployment: 'Deployment',
+  app_setting: 'Setting',
+  user: 'User',
+};
+
+/** Actions the audit triggers, purge_deployment and the user admin routes write, grouped by entity. */
+export const AUDIT_ACTIONS: Record<AuditEntityType, string[]> = {
+  device: ['device.create', 'device.update', 'device.deactivate', 'device.delete'],
+  deployment: [
+    'deployment.create',
+    'deployment.update',
+    'deployment.archive',
+    'deployment.restore',
+    'deployment.delete',
+    'deployment.purge',
+  ],
+  app_setting: ['app_setting.create', 'app_setting.update', 'app_setting.delete'],
+  user: ['user.invite', 'user.revoke_invite', 'user.accept_invite', 'user.role', 'user.disable', 'user.enable'],
+};
+
+/** Bookkeeping columns that change on every write and say nothing useful. */
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Fields that differ between the before and after snapshots, in column order.
+ * Creates list every field with an undefined `before`; deletes and purges
+ * list every field with an undefined `after`.
+ */
+export function auditChanges(entry: Pick<AuditEntry, 'before' | 'after'>): AuditFieldChange[] {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .filter((field) => !entry.before || !entry.after || !sameValue(before[field], after[field]))
+    .map((field) => ({
+      field,
+      before: entry.before ? before[field] : undefined,
+      after: entry.after ? after[field] : undefined,
+    }));
+}
+
+/** Compact display form of a snapshot value. */
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined) return '';
+  if (value === null) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+/** Who made the change; entries without an actor came from service-role code. */
+export function auditActorLabel(entry: Pick<AuditEntry, 'actor_id' | 'actor_email'>): string {
+  if (entry.actor_email) return entry.actor_email;
+  return entry.actor_id ? entry.actor_id : 'System';
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { Session } from '@supabase/supabase-js';
-import { supabase } from './supabase';
+import { supabase, type AppRole } from './supabase';
+import { parseRole } from './roles';
 
 export interface AuthResult {
   success: boolean;
@@ -57,6 +58,22 @@ export async function getSession(): Promise<Session | null> {
   return data.session;
 }
 
+/** The signed-in user's role; viewer when it cannot be read. */
+export async function getCurrentRole(): Promise<AppRole> {
+  if (!supabase) {
+    return 'viewer';
+  }
+
+  const { data, error } = await supabase.rpc('app_role');
+
+  if (error) {
+    console.error('Error getting role:', error.message);
+    return 'viewer';
+  }
+
+  return parseRole(data);
+}
+
 export function onAuthStateChange(
   callback: (session: Session | null) => void
 ): (() => void) | null {
@@ -0,0 +1,146 @@
+import type { Device } from './supabase/types';
+
+/**
+ * Linear correction applied to raw sensor values: corrected = raw * gain + offset.
+ * Stored per device; raw rows in `readings` are never rewritten.
+ */
+export interface Calibration {
+  temp_offset_c: number;
+  temp_gain: number;
+  humidity_offset: number;
+  humidity_gain: number;
+}
+
+export type CalibrationMap = Record<string, Calibration>;
+
+export const IDENTITY_CALIBRATION: Calibration = {
+  temp_offset_c: 0,
+  temp_gain: 1,
+  humidity_offset: 0,
+  humidity_gain: 1,
+};
+
+function finiteOr(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export function calibrationFromDevice(
+  device: Partial<Pick<Device, 'temp_offset_c' | 'temp_gain' | 'humidity_offset' | 'humidity_gain'>>
+): Calibration {
+  const tempGain = finiteOr(device.temp_gain, 1);
+  const humidityGain = finiteOr(device.humidity_gain, 1);
+  return {
+    temp_offset_c: finiteOr(device.temp_offset_c, 0),
+    temp_gain: tempGain > 0 ? tempGain : 1,
+    humidity_offset: finiteOr(device.humidity_offset, 0),
+    humidity_gain: humidityGain > 0 ? humidityGain : 1,
+  };
+}
+
+export function isIdentityCalibration(calibration: Calibration): boolean {
+  return (
+    calibration.temp_offset_c === 0 &&
+    calibration.temp_gain === 1 &&
+    calibration.humidity_offset === 0 &&
+    calibration.humidity_gain === 1
+  );
+}
+
+/**
+ * Builds a lookup keyed by sensor device id. Devices without a correction are
+ * left out so callers can skip work for them. Weather rows (`weather_<id>`) never
+ * match because they are keyed by their own device id.
+ */
+export function buildCalibrationMap(
+  devices: Array<{ id: string } & Partial<Pick<Device, 'temp_offset_c' | 'temp_gain' | 'humidity_offset' | 'humidity_gain'>>>
+): CalibrationMap {
+  const map: CalibrationMap = {};
+  for (const device of devices) {
+    const calibration = calibrationFromDevice(device);
+    if (!isIdentityCalibration(calibration)) {
+      map[device.id] = calibration;
+    }
+  }
+  return map;
+}
+
+export function calibrateTemperature(calibration: Calibration, celsius: number): number {
+  return celsius * calibration.temp_gain + calibration.temp_offset_c;
+}
+
+export function calibrateHumidity(calibration: Calibration, humidity: number): number {
+  return humidity * calibration.humidity_gain + calibration.humidity_offset;
+}
+
+function calibrateNullable(
+  value: number | null | undefined,
+  apply: (v: number) => number
+): number | null {
+  return value === null || value === undefined ? null : apply(value);
+}
+
+export function applyCalibrationToReading<
+  T extends { device_id: string; temperature: number; humidity: number; metrics?: Record<string, number> | null }
+>(reading: T, calibrations: CalibrationMap | null | undefined): T {
+  const calibration = calibrations?.[reading.device_id];
+  if (!calibration) return reading;
+  const temperature = calibrateTemperature(calibration, reading.temperature);
+  const humidity = calibrateHumidity(calibration, reading.humidity);
+  return {
+    ...reading,
+    temperature,
+    humidity,
+    // Keep the metric map consistent with the corrected columns.
+    ...(reading.metrics ? { metrics: { ...reading.metrics, temperature, humidity } } : {}),
+  };
+}
+
+export function applyCalibrationToSample<
+  T extends { device_id: string; temperature_avg: number; humidity_avg: number }
+>(sample: T, calibrations: CalibrationMap | null | undefined): T {
+  const calibration = calibrations?.[sample.device_id];
+  if (!calibration) return sample;
+  return {
+    ...sample,
+    temperature_avg: calibrateTemperature(calibration, sample.temperature_avg),
+    humidity_avg: calibrateHumidity(calibration, sample.humidity_avg),
+  };
+}
+
+type StatsShape = {
+  device_id?: string;
+  temp_avg: number | null;
+  temp_min: number | null;
+  temp_max: number | null;
+  temp_stddev: number | null;
+  humidity_avg: number | null;
+  humidity_min: number | null;
+  humidity_max: number | null;
+  humidity_stddev: number | null;
+};
+
+/**
+ * Aggregates transform exactly under a positive linear map: mean/min/max shift
+ * and scale, standard deviation only scales.
+ */
+export function applyCalibrationToStats<T extends StatsShape>(
+  stats: T,
+  calibrations: CalibrationMap | null | undefined
+): T {
+  const calibration = stats.device_id ? calibrations?.[stats.device_id] : undefined;
+  if (!calibration) return stats;
+  const temp = (v: number) => calibrateTemperature(calibration, v);
+  const humidity = (v: number) => calibrateHumidity(calibration, v);
+  return {
+    ...stats,
+    temp_avg: calibrateNullable(stats.temp_avg, temp),
+    temp_min: calibrateNullable(stats.temp_min, temp),
+    temp_max: calibrateNullable(stats.temp_max, temp),
+    temp_stddev: calibrateNullable(stats.temp_stddev, (v) => v * calibration.temp_gain),
+    humidity_avg: calibrateNullable(stats.humidity_avg, humidity),
+    humidity_min: calibrateNullable(stats.humidity_min, humidity),
+    humidity_max: calibrateNullable(stats.humidity_max, humidity),
+    humidity_stddev: calibrateNullable(stats.humidity_stddev, (v) => v * calibration.humidity_gain),
+  };
+}
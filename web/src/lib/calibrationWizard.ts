@@ -0,0 +1,209 @@
+import type { PyodideInterface } from './pyodide';
+import { getAllReadingsRange, getDeploymentReadings } from './supabase';
+import { readingTime } from './supabase/queries/conversions';
+import type { Deployment, Reading } from './supabase';
+import { calibrateHumidity, calibrateTemperature, type Calibration } from './calibration';
+import { toWeatherDeviceId } from './weatherLocation';
+
+export const DEFAULT_MAX_PAIR_GAP_MINUTES = 20;
+export const MIN_CALIBRATION_PAIRS = 6;
+
+export interface CalibrationPair {
+  weather_at: string;
+  sensor_at: string;
+  sensor_temperature: number; // Celsius, raw
+  weather_temperature: number;
+  sensor_humidity: number;
+  weather_humidity: number;
+}
+
+export interface MetricFit {
+  gain: number;
+  offset: number;
+  r_squared: number;
+}
+
+export interface ResidualSummary {
+  bias: number; // mean(reference - sensor)
+  mae: number;
+  rmse: number;
+}
+
+export interface CalibrationFit {
+  calibration: Calibration;
+  temperature: MetricFit;
+  humidity: MetricFit;
+  n_pairs: number;
+  residuals: {
+    temperature: { before: ResidualSummary; after: ResidualSummary };
+    humidity: { before: ResidualSummary; after: ResidualSummary };
+  };
+}
+
+function readingMs(reading: Reading): number {
+  return new Date(reading.measured_at ?? reading.observed_at ?? reading.created_at).getTime();
+}
+
+/**
+ * Matches every weather observation with the closest raw sensor reading inside
+ * `maxGapMinutes`. Weather is hourly and sparse, so it drives the pairing.
+ */
+export function pairSensorWithWeather(
+  sensor: Reading[],
+  weather: Reading[],
+  maxGapMinutes = DEFAULT_MAX_PAIR_GAP_MINUTES
+): CalibrationPair[] {
+  const maxGapMs = maxGapMinutes * 60_000;
+  const sorted = sensor
+    .map((r) => ({ reading: r, ts: readingMs(r) }))
+    .filter((r) => Number.isFinite(r.ts))
+    .sort((a, b) => a.ts - b.ts);
+
+  const pairs: CalibrationPair[] = [];
+  let cursor = 0;
+
+  const weatherSorted = weather
+    .map((r) => ({ reading: r, ts: readingMs(r) }))
+    .filter((r) => Number.isFinite(r.ts))
+    .sort((a, b) => a.ts - b.ts);
+
+  for (const w of weatherSorted) {
+    while (cursor < sorted.length - 1 && sorted[cursor + 1].ts <= w.ts) {
+      cursor++;
+    }
+    let best: (typeof sorted)[number] | undefined;
+    for (const candidate of [sorted[cursor], sorted[cursor + 1]]) {
+      if (!candidate) continue;
+      if (!best || Math.abs(candidate.ts - w.ts) < Math.abs(best.ts - w.ts)) {
+        best = candidate;
+      }
+    }
+    if (!best || Math.abs(best.ts - w.ts) > maxGapMs) continue;
+
+    pairs.push({
+      weather_at: new Date(w.ts).toISOString(),
+      sensor_at: readingTime(best.reading),
+      sensor_temperature: best.reading.temperature,
+      weather_temperature: w.reading.temperature,
+      sensor_humidity: best.reading.humidity,
+      weather_humidity: w.reading.humidity,
+    });
+  }
+
+  return pairs;
+}
+
+export function summarizeResiduals(residuals: number[]): ResidualSummary {
+  if (residuals.length === 0) return { bias: 0, mae: 0, rmse: 0 };
+  const n = residuals.length;
+  const bias = residuals.reduce((sum, r) => sum + r, 0) / n;
+  const mae = residuals.reduce((sum, r) => sum + Math.abs(r), 0) / n;
+  const rmse = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / n);
+  return { bias, mae, rmse };
+}
+
+export function computeResiduals(
+  pairs: CalibrationPair[],
+  calibration: Calibration
+): CalibrationFit['residuals'] {
+  return {
+    temperature: {
+      before: summarizeResiduals(pairs.map((p) => p.weather_temperature - p.sensor_temperature)),
+      after: summarizeResiduals(
+        pairs.map((p) => p.weather_temperature - calibrateTemperature(calibration, p.sensor_temperature))
+      ),
+    },
+    humidity: {
+      before: summarizeResiduals(pairs.map((p) => p.weather_humidity - p.sensor_humidity)),
+      after: summarizeResiduals(
+        pairs.map((p) => p.weather_humidity - calibrateHumidity(calibration, p.sensor_humidity))
+      ),
+    },
+  };
+}
+
+export const CALIBRATION_FIT_SCRIPT = `
+import json, math
+import numpy as np
+import statsmodels.api as sm
+
+pairs = json.loads(calibration_pairs_json)
+
+def fit(raw_key, ref_key):
+    x = np.array([p[raw_key] for p in pairs], dtype=float)
+    y = np.array([p[ref_key] for p in pairs], dtype=float)
+    # A constant sensor can't support a gain; fall back to a pure offset.
+    if np.ptp(x) < 1e-6:
+        return {'gain': 1.0, 'offset': float(np.mean(y - x)), 'r_squared': 0.0}
+    model = sm.OLS(y, sm.add_constant(x)).fit()
+    offset, gain = (float(v) for v in model.params)
+    r2 = float(model.rsquared)
+    return {
+        'gain': gain,
+        'offset': offset,
+        'r_squared': r2 if math.isfinite(r2) else 0.0,
+    }
+
+result_json = json.dumps({
+    'temperature': fit('sensor_temperature', 'weather_temperature'),
+    'humidity': fit('sensor_humidity', 'weather_humidity'),
+}, allow_nan=False)
+`;
+
+/**
+ * Fits corrected = raw * gain + offset for each metric by regressing the
+ * weather reference on the raw sensor values.
+ */
+export async function fitCalibration(
+  pyodide: PyodideInterface,
+  pairs: CalibrationPair[]
+): Promise<CalibrationFit> {
+  if (pairs.length < MIN_CALIBRATION_PAIRS) {
+    throw new Error(
+      `Need at least ${MIN_CALIBRATION_PAIRS} sensor/weather pairs to fit a calibration (found ${pairs.length}).`
+    );
+  }
+
+  pyodide.globals.set('calibration_pairs_json', JSON.stringify(pairs));
+  await pyodide.runPythonAsync(CALIBRATION_FIT_SCRIPT);
+  const resultJson: string = pyodide.globals.get('result_json');
+  const { temperature, humidity } = JSON.parse(resultJson) as {
+    temperature: MetricFit;
+    humidity: MetricFit;
+  };
+
+  if (!(temperature.gain > 0) || !(humidity.gain > 0)) {
+    throw new Error('Fitted gain is not positive; the window is too noisy to calibrate from.');
+  }
+
+  const calibration: Calibration = {
+    temp_offset_c: temperature.offset,
+    temp_gain: temperature.gain,
+    humidity_offset: humidity.offset,
+    humidity_gain: humidity.gain,
+  };
+
+  return {
+    calibration,
+    temperature,
+    humidity,
+    n_pairs: pairs.length,
+    residuals: computeResiduals(pairs, calibration),
+  };
+}
+
+/** Loads raw sensor readings for the deployment window and the matching weather rows. */
+export async function loadCalibrationPairs(
+  deployment: Deployment,
+  maxGapMinutes = DEFAULT_MAX_PAIR_GAP_MINUTES
+): Promise<CalibrationPair[]> {
+  const start = deployment.started_at;
+  const end = deployment.ended_at || new Date().toISOString();
+
+  const [sensor, weather] = await Promise.all([
+    getDeploymentReadings(deployment.id, undefined, { start, end }),
+    getAllReadingsRange({ start, end, device_id: toWeatherDeviceId(deployment.device_id) }),
+  ]);
+
+  return pairSensorWithWeather(sensor, weather, maxGapMinutes);
+}
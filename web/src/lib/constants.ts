@@ -11,3 +11,7 @@ export const DEPLOYMENT_ALL_TIME_LABEL = 'All Time';
 
 export const REFRESH_INTERVAL = 30000;
 export const STALE_THRESHOLD_MS = 5 * 60 * 1000;
+// Sensor nodes timestamp readings from NTP; this much drift into the future
+// is accepted by /api/ingest and not treated as a bad clock by keepalive.
+export const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
+export const LIVE_REFRESH_INTERVAL = 5 * 60 * 1000;
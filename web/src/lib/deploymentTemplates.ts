@@ -0,0 +1,39 @@
+import type { DeploymentStartResult, DeploymentTemplate } from './supabase/types';
+import type { DeploymentTemplateInput } from './supabase/queries/deploymentTemplates';
+import { formatWeatherLocation, locationFromFields, parseWeatherLocation, toLocationFields } from './weatherLocation';
+
+/** The shared text fields of the deployment forms, as typed. */
+export type DeploymentFormFields = {
+  name: string;
+  location: string;
+  notes: string;
+  weather_location: string;
+};
+
+export function templateToFormFields(template: DeploymentTemplate): DeploymentFormFields {
+  const location = locationFromFields(template);
+  return {
+    name: template.deployment_name,
+    location: template.location,
+    notes: template.notes || '',
+    weather_location: location ? formatWeatherLocation(location) : '',
+  };
+}
+
+export function formFieldsToTemplate(templateName: string, fields: DeploymentFormFields): DeploymentTemplateInput {
+  return {
+    name: templateName.trim(),
+    deployment_name: fields.name.trim(),
+    location: fields.location.trim(),
+    notes: fields.notes.trim() || null,
+    ...toLocationFields(parseWeatherLocation(fields.weather_location)),
+  };
+}
+
+/** One line per device for the bulk start report. */
+export function describeStartResult(result: DeploymentStartResult, deviceName: string): string {
+  if (result.conflict) return `${deviceName}: skipped, ${result.conflict}`;
+  return result.ended_deployment_id !== null
+    ? `${deviceName}: started (ended deployment #${result.ended_deployment_id})`
+    : `${deviceName}: started`;
+}
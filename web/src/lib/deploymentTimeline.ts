@@ -0,0 +1,155 @@
+import type { ChartSample, Deployment } from './supabase/types';
+
+// Geometry and validation for the deployment timeline on /deployments: one
+// lane per device, a bar per deployment, and highlighted stretches where a
+// device reported readings outside every deployment.
+
+export type TimelineWindow = { startMs: number; endMs: number };
+
+export type CoverageGap = {
+  device_id: string;
+  startMs: number;
+  endMs: number;
+  readingCount: number;
+};
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Narrowest and widest windows the zoom controls allow. */
+export const MIN_TIMELINE_SPAN_MS = 6 * HOUR_MS;
+export const MAX_TIMELINE_SPAN_MS = 3 * 365 * DAY_MS;
+
+export const TIMELINE_PRESETS = [
+  { label: '7d', days: 7 },
+  { label: '30d', days: 30 },
+  { label: '90d', days: 90 },
+  { label: '1y', days: 365 },
+] as const;
+
+/** Start and end of a deployment in ms; active deployments run until `nowMs`. */
+export function deploymentSpan(
+  deployment: Pick<Deployment, 'started_at' | 'ended_at'>,
+  nowMs: number
+): [number, number] {
+  const start = new Date(deployment.started_at).getTime();
+  const end = deployment.ended_at ? new Date(deployment.ended_at).getTime() : nowMs;
+  return [start, Math.max(start, end)];
+}
+
+/**
+ * Bucket size for the coverage query: about 400 buckets across the window,
+ * never below 5 minutes, rounded to whole minutes for get_chart_samples.
+ */
+export function coverageBucketSeconds(window: TimelineWindow): number {
+  const seconds = (window.endMs - window.startMs) / 400 / 1000;
+  return Math.max(300, Math.round(seconds / 60) * 60);
+}
+
+/**
+ * Runs of buckets in which a device has readings but no deployment overlaps
+ * the bucket. A bucket that touches a deployment at all counts as covered, so
+ * a gap shorter than one bucket at a deployment edge is not reported; zooming
+ * in shrinks the buckets. Consecutive buckets merge into one gap.
+ */
+export function coverageGaps(
+  samples: Array<Pick<ChartSample, 'bucket_ts' | 'device_id' | 'reading_count'>>,
+  deployments: Array<Pick<Deployment, 'device_id' | 'started_at' | 'ended_at'>>,
+  bucketMs: number,
+  nowMs: number
+): CoverageGap[] {
+  const spansByDevice = new Map<string, Array<[number, number]>>();
+  for (const d of deployments) {
+    const spans = spansByDevice.get(d.device_id) ?? [];
+    spans.push(deploymentSpan(d, nowMs));
+    spansByDevice.set(d.device_id, spans);
+  }
+
+  const uncovered = samples
+    .filter((s) => s.reading_count > 0)
+    .map((s) => ({ device_id: s.device_id, startMs: new Date(s.bucket_ts).getTime(), count: s.reading_count }))
+    .filter(({ device_id, startMs }) => {
+      const endMs = startMs + bucketMs;
+      return !(spansByDevice.get(device_id) ?? []).some(([from, to]) => from < endMs && to > startMs);
+    })
+    .sort((a, b) => a.device_id.localeCompare(b.device_id) || a.startMs - b.startMs);
+
+  const gaps: CoverageGap[] = [];
+  for (const bucket of uncovered) {
+    const last = gaps[gaps.length - 1];
+    if (last && last.device_id === bucket.device_id && bucket.startMs <= last.endMs) {
+      last.endMs = bucket.startMs + bucketMs;
+      last.readingCount += bucket.count;
+    } else {
+      gaps.push({
+        device_id: bucket.device_id,
+        startMs: bucket.startMs,
+        endMs: bucket.startMs + bucketMs,
+        readingCount: bucket.count,
+      });
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Why a deployment cannot take the window [startMs, endMs) (null end = still
+ * active), or null when it can. Mirrors the deployments_no_overlap_per_device
+ * constraint so a dragged edge is rejected before it reaches the database.
+ */
+export function deploymentWindowError(
+  deployment: Pick<Deployment, 'id' | 'device_id'>,
+  startMs: number,
+  endMs: number | null,
+  others: Array<Pick<Deployment, 'id' | 'device_id' | 'name' | 'started_at' | 'ended_at'>>,
+  nowMs: number
+): string | null {
+  if (startMs > nowMs) return 'Start cannot be in the future';
+  if (endMs !== null && endMs > nowMs) return 'End cannot be in the future';
+  if (endMs !== null && endMs <= startMs) return 'End must be after start';
+
+  const end = endMs ?? Infinity;
+  const overlap = others.find((o) => {
+    if (o.id === deployment.id || o.device_id !== deployment.device_id) return false;
+    const oStart = new Date(o.started_at).getTime();
+    const oEnd = o.ended_at ? new Date(o.ended_at).getTime() : Infinity;
+    return oStart < end && startMs < oEnd;
+  });
+  return overlap ? `Overlaps deployment "${overlap.name}"` : null;
+}
+
+/**
+ * Scales the window around `centerMs` by `factor` (< 1 zooms in), keeping the
+ * span between MIN_TIMELINE_SPAN_MS and MAX_TIMELINE_SPAN_MS.
+ */
+export function zoomWindow(window: TimelineWindow, factor: number, centerMs?: number): TimelineWindow {
+  const span = window.endMs - window.startMs;
+  const nextSpan = Math.min(MAX_TIMELINE_SPAN_MS, Math.max(MIN_TIMELINE_SPAN_MS, span * factor));
+  const center = centerMs ?? window.startMs + span / 2;
+  const ratio = span > 0 ? (center - window.startMs) / span : 0.5;
+  const startMs = Math.round(center - nextSpan * ratio);
+  return { startMs, endMs: startMs + Math.round(nextSpan) };
+}
+
+/** Position of `ms` across the window as a 0–100 percentage, clamped. */
+export function timelinePercent(ms: number, window: TimelineWindow): number {
+  const span = window.endMs - window.startMs;
+  if (span <= 0) return 0;
+  return Math.min(100, Math.max(0, ((ms - window.startMs) / span) * 100));
+}
+
+/** Evenly spaced axis ticks on whole hours or days, at most `maxTicks`. */
+export function timelineTicks(window: TimelineWindow, maxTicks = 8): number[] {
+  const span = window.endMs - window.startMs;
+  if (span <= 0) return [];
+  const steps = [HOUR_MS, 3 * HOUR_MS, 6 * HOUR_MS, 12 * HOUR_MS, DAY_MS, 2 * DAY_MS, 7 * DAY_MS, 14 * DAY_MS, 30 * DAY_MS, 90 * DAY_MS, 365 * DAY_MS];
+  const step = steps.find((s) => span / s <= maxTicks) ?? steps[steps.length - 1];
+  // Align day-or-longer steps to local midnight so labels read as dates.
+  const offset = step >= DAY_MS ? new Date(window.startMs).getTimezoneOffset() * MINUTE_MS : 0;
+  const ticks: number[] = [];
+  for (let t = Math.ceil((window.startMs - offset) / step) * step + offset; t <= window.endMs; t += step) {
+    ticks.push(t);
+  }
+  return ticks;
+}
@@ -0,0 +1,34 @@
+// Per-device ingest keys. Only the SHA-256 hash is stored on the `devices`
+// row; the plaintext is shown once when issued and then lives in the node's
+// secrets.h. Uses Web Crypto so the same code runs in the browser (Device
+// Manager) and in the `/api/ingest` route.
+
+export const DEVICE_KEY_PREFIX = 'dk_';
+const DEVICE_KEY_BYTES = 32;
+const DEVICE_KEY_HINT_LENGTH = DEVICE_KEY_PREFIX.length + 8;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function generateDeviceApiKey(): string {
+  const bytes = new Uint8Array(DEVICE_KEY_BYTES);
+  crypto.getRandomValues(bytes);
+  return `${DEVICE_KEY_PREFIX}${toHex(bytes)}`;
+}
+
+export async function hashDeviceApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return toHex(new Uint8Array(digest));
+}
+
+/** Leading characters kept in plaintext so a key can be recognised in the UI. */
+export function deviceKeyHint(key: string): string {
+  return key.slice(0, DEVICE_KEY_HINT_LENGTH);
+}
+
+export function parseBearerToken(header: string | null): string | null {
+  if (!header) return null;
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  return match ? match[1] : null;
+}
@@ -0,0 +1,206 @@
+import { BUILTIN_METRICS, CORE_METRIC_KEYS, formatMetricValue, getReadingMetric, toDisplayValue } from './metrics';
+import { WEATHER_MATCH_MINUTES } from './alertRules';
+import { computePercentError } from './weatherCompare';
+import type { MetricDefinition, Reading } from './supabase/types';
+
+// Sensor-vs-weather drift: a node whose rolling average slowly walks away from
+// its `weather_<id>` counterpart while every single reading looks plausible.
+// Percent error is taken on display values, the same figure /compare shows.
+
+export const DEFAULT_DRIFT_PERCENT = 20;
+export const DEFAULT_DRIFT_WINDOW_MINUTES = 180;
+export const DEFAULT_DRIFT_DURATION_MINUTES = 120;
+// A change in percent error smaller than this is reported as steady.
+const STEADY_TREND_POINTS = 1;
+
+export type DriftReading = Pick<Reading, 'temperature' | 'humidity' | 'metrics'> & { measured_at: string };
+
+export type DriftOptions = {
+  nowMs: number;
+  /** Rolling average window. */
+  windowMinutes: number;
+  /** How long the error must stay above the threshold before drift is raised. */
+  durationMinutes: number;
+  thresholdPercent: number;
+  metrics?: MetricDefinition[];
+};
+
+/** Rolling averages at one weather row, in storage units. */
+export type DriftPoint = { at: number; sensor: number; weather: number; percentError: number };
+
+export type DriftTrend = {
+  /** Change in percent error, in percentage points, since `since`. */
+  change: number;
+  since: string;
+  direction: 'widening' | 'narrowing' | 'steady';
+};
+
+export type DriftEvaluation = {
+  drifting: boolean;
+  metric: string | null;
+  percentError: number | null;
+  /** Start of the current breach, set even while it is shorter than the duration. */
+  breachStartedAt: string | null;
+  trend: DriftTrend | null;
+  reason: string;
+};
+
+/**
+ * How far back readings are needed: the breach duration plus one weather
+ * interval to see a breach that started earlier, plus the averaging window.
+ */
+export function driftLookbackMinutes(options: Pick<DriftOptions, 'windowMinutes' | 'durationMinutes'>): number {
+  return options.durationMinutes + WEATHER_MATCH_MINUTES + options.windowMinutes;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function samples(readings: DriftReading[], key: string): Array<{ at: number; value: number }> {
+  return readings
+    .map((r) => ({ at: new Date(r.measured_at).getTime(), value: getReadingMetric(r, key) }))
+    .filter((s): s is { at: number; value: number } => Number.isFinite(s.at) && s.value !== null)
+    .sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Sensor and weather averages over the `windowMinutes` before each weather
+ * row in the lookback, oldest first. Rows with no sensor readings in their
+ * window are skipped.
+ */
+export function driftSeries(
+  readings: DriftReading[],
+  weather: DriftReading[],
+  key: string,
+  options: Pick<DriftOptions, 'nowMs' | 'windowMinutes' | 'durationMinutes'>
+): DriftPoint[] {
+  const sensor = samples(readings, key);
+  const reference = samples(weather, key);
+  const windowMs = options.windowMinutes * 60_000;
+  const firstAt = options.nowMs - (options.durationMinutes + WEATHER_MATCH_MINUTES) * 60_000;
+
+  const points: DriftPoint[] = [];
+  for (const row of reference) {
+    if (row.at < firstAt || row.at > options.nowMs) continue;
+    const inWindow = (s: { at: number }) => s.at > row.at - windowMs && s.at <= row.at;
+    const sensorAvg = average(sensor.filter(inWindow).map((s) => s.value));
+    const weatherAvg = average(reference.filter(inWindow).map((s) => s.value));
+    if (sensorAvg === null || weatherAvg === null) continue;
+    const percentError = computePercentError(toDisplayValue(key, sensorAvg), toDisplayValue(key, weatherAvg));
+    if (percentError === undefined) continue;
+    points.push({ at: row.at, sensor: sensorAvg, weather: weatherAvg, percentError });
+  }
+  return points;
+}
+
+function trendBetween(first: DriftPoint, latest: DriftPoint): DriftTrend {
+  const change = latest.percentError - first.percentError;
+  return {
+    change,
+    since: new Date(first.at).toISOString(),
+    direction: Math.abs(change) < STEADY_TREND_POINTS ? 'steady' : change > 0 ? 'widening' : 'narrowing',
+  };
+}
+
+export function describeTrend(trend: DriftTrend): string {
+  const sign = trend.change >= 0 ? '+' : '';
+  return `${trend.direction} (${sign}${trend.change.toFixed(1)} points since ${trend.since})`;
+}
+
+type MetricDrift = DriftEvaluation & { metric: string; percentError: number; breachMinutes: number };
+
+function evaluateMetricDrift(points: DriftPoint[], metric: MetricDefinition, options: DriftOptions): MetricDrift {
+  const latest = points[points.length - 1];
+  const breaching = (p: DriftPoint) => p.percentError > options.thresholdPercent;
+  const base = { metric: metric.key, percentError: latest.percentError };
+
+  if (!breaching(latest)) {
+    return {
+      ...base,
+      drifting: false,
+      breachStartedAt: null,
+      breachMinutes: 0,
+      trend: points.length > 1 ? trendBetween(points[0], latest) : null,
+      reason: `${metric.key} ${latest.percentError.toFixed(1)}%`,
+    };
+  }
+
+  let first = latest;
+  for (let i = points.length - 2; i >= 0 && breaching(points[i]); i--) {
+    first = points[i];
+  }
+  const breachMinutes = (latest.at - first.at) / 60_000;
+  const drifting = breachMinutes >= options.durationMinutes;
+  const trend = trendBetween(first, latest);
+  const offset = latest.sensor > latest.weather ? 'above' : 'below';
+
+  return {
+    ...base,
+    drifting,
+    breachStartedAt: new Date(first.at).toISOString(),
+    breachMinutes,
+    trend,
+    reason: drifting
+      ? `${metric.display_name} ${options.windowMinutes}-min average ${formatMetricValue(metric, latest.sensor)} is ` +
+        `${latest.percentError.toFixed(1)}% ${offset} weather ${formatMetricValue(metric, latest.weather)} ` +
+        `(threshold ${options.thresholdPercent}%) for ${breachMinutes.toFixed(0)} min; trend ${describeTrend(trend)}.`
+      : `${metric.key} ${latest.percentError.toFixed(1)}%, over threshold for ${breachMinutes.toFixed(0)} of ${options.durationMinutes} min`,
+  };
+}
+
+/**
+ * Compares a device's calibrated readings with its weather readings for each
+ * core metric. Drift is raised when a metric's percent error has exceeded the
+ * threshold at every weather row for at least `durationMinutes`; the metric
+ * with the largest error is reported.
+ */
+export function evaluateDrift(
+  readings: DriftReading[],
+  weather: DriftReading[],
+  options: DriftOptions
+): DriftEvaluation {
+  const registry = options.metrics ?? BUILTIN_METRICS;
+  const results: MetricDrift[] = [];
+  for (const key of CORE_METRIC_KEYS) {
+    const metric = registry.find((m) => m.key === key) ?? BUILTIN_METRICS.find((m) => m.key === key);
+    const points = driftSeries(readings, weather, key, options);
+    if (!metric || points.length === 0) continue;
+    results.push(evaluateMetricDrift(points, metric, options));
+  }
+
+  if (results.length === 0) {
+    return {
+      drifting: false,
+      metric: null,
+      percentError: null,
+      breachStartedAt: null,
+      trend: null,
+      reason: 'No recent readings with matching weather data.',
+    };
+  }
+
+  const drifting = results.filter((r) => r.drifting).sort((a, b) => b.percentError - a.percentError);
+  if (drifting.length > 0) {
+    const worst = drifting[0];
+    return {
+      drifting: true,
+      metric: worst.metric,
+      percentError: worst.percentError,
+      breachStartedAt: worst.breachStartedAt,
+      trend: worst.trend,
+      reason: worst.reason,
+    };
+  }
+
+  // Not drifting yet: report the longest breach in progress, if any.
+  const [longest] = [...results].sort((a, b) => b.breachMinutes - a.breachMinutes || b.percentError - a.percentError);
+  return {
+    drifting: false,
+    metric: longest.metric,
+    percentError: longest.percentError,
+    breachStartedAt: longest.breachStartedAt,
+    trend: longest.trend,
+    reason: `No drift (threshold ${options.thresholdPercent}% for ${options.durationMinutes} min): ${results.map((r) => r.reason).join(', ')}.`,
+  };
+}
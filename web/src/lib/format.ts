@@ -87,3 +87,11 @@ export function getTimeAgo(dateString: string): string {
   if (diffMins > 0) return diffMins === 1 ? '1 min ago' : `${diffMins} mins ago`;
   return 'just now';
 }
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
@@ -0,0 +1,98 @@
+import type { Deployment, Incident } from './supabase/types';
+
+// Incident bookkeeping shared by the keepalive cron (open/close decisions) and
+// the /incidents page (durations and uptime).
+
+export type IncidentTransition = { close: boolean; open: boolean };
+
+/**
+ * What to do with the open incident for a device or (rule, device) given the
+ * status just computed. A change of problem type closes the old incident and
+ * opens a new one, matching when shouldSendProblemAlert re-alerts.
+ */
+export function incidentTransition(
+  open: Pick<Incident, 'status'> | undefined,
+  nextStatus: string
+): IncidentTransition {
+  if (nextStatus === 'ok') return { close: Boolean(open), open: false };
+  if (!open) return { close: false, open: true };
+  if (open.status !== nextStatus) return { close: true, open: true };
+  return { close: false, open: false };
+}
+
+/** Device status incidents count against uptime; rule and drift incidents do not. */
+export function isDowntimeIncident(incident: Pick<Incident, 'rule_id' | 'status'>): boolean {
+  return incident.rule_id === null && incident.status !== 'firing' && incident.status !== 'drift';
+}
+
+export function incidentDurationMs(incident: Pick<Incident, 'opened_at' | 'closed_at'>, nowMs: number): number {
+  const end = incident.closed_at ? new Date(incident.closed_at).getTime() : nowMs;
+  return Math.max(0, end - new Date(incident.opened_at).getTime());
+}
+
+export type UptimeSummary = {
+  windowMs: number;
+  downtimeMs: number;
+  /** Null when the window is empty. */
+  uptimePct: number | null;
+  incidentCount: number;
+};
+
+/**
+ * Uptime over [startMs, endMs] from device status incidents, clipping each to
+ * the window and merging overlaps so back-to-back incidents are not double
+ * counted. Open incidents run until `nowMs`.
+ */
+export function computeUptime(
+  incidents: Array<Pick<Incident, 'rule_id' | 'status' | 'opened_at' | 'closed_at'>>,
+  startMs: number,
+  endMs: number,
+  nowMs: number
+): UptimeSummary {
+  const windowMs = Math.max(0, endMs - startMs);
+  const intervals = incidents
+    .filter(isDowntimeIncident)
+    .map((i) => {
+      const opened = new Date(i.opened_at).getTime();
+      const closed = i.closed_at ? new Date(i.closed_at).getTime() : nowMs;
+      return [Math.max(opened, startMs), Math.min(closed, endMs)] as const;
+    })
+    .filter(([from, to]) => to > from)
+    .sort((a, b) => a[0] - b[0]);
+
+  let downtimeMs = 0;
+  let cursor = -Infinity;
+  for (const [from, to] of intervals) {
+    const clippedFrom = Math.max(from, cursor);
+    if (to > clippedFrom) downtimeMs += to - clippedFrom;
+    cursor = Math.max(cursor, to);
+  }
+
+  return {
+    windowMs,
+    downtimeMs,
+    uptimePct: windowMs > 0 ? ((windowMs - downtimeMs) / windowMs) * 100 : null,
+    incidentCount: intervals.length,
+  };
+}
+
+/**
+ * Uptime of a deployment's device while the deployment was running, limited
+ * to the window the caller loaded incidents for. Null when they do not overlap.
+ */
+export function deploymentUptime(
+  deployment: Pick<Deployment, 'device_id' | 'started_at' | 'ended_at'>,
+  incidents: Array<Pick<Incident, 'device_id' | 'rule_id' | 'status' | 'opened_at' | 'closed_at'>>,
+  window: { startMs: number; endMs: number },
+  nowMs: number
+): UptimeSummary | null {
+  const startMs = Math.max(new Date(deployment.started_at).getTime(), window.startMs);
+  const endMs = Math.min(deployment.ended_at ? new Date(deployment.ended_at).getTime() : nowMs, window.endMs);
+  if (endMs <= startMs) return null;
+  return computeUptime(
+    incidents.filter((i) => i.device_id === deployment.device_id),
+    startMs,
+    endMs,
+    nowMs
+  );
+}
@@ -0,0 +1,76 @@
+import type { DeploymentStats, LocationType } from './supabase/types';
+
+export const LOCATION_TYPES: Array<{ value: LocationType; label: string }> = [
+  { value: 'indoor', label: 'Indoor' },
+  { value: 'outdoor', label: 'Outdoor' },
+  { value: 'room', label: 'Room' },
+];
+
+/** Trims and collapses whitespace, as the database does before storing a name. */
+export function normalizeLocationName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Dedupe key for location names: "Patio" and "patio " are the same place.
+ * Mirrors `location_key()` in the schema.
+ */
+export function locationKey(name: string): string {
+  return normalizeLocationName(name).toLowerCase();
+}
+
+export type DeviceLocationStats = Omit<DeploymentStats, 'deployment_id' | 'deployment_name' | 'location'> & {
+  device_id: string;
+  deployment_count: number;
+};
+
+type Moments = { n: number; mean: number; sq: number; min: number; max: number };
+
+function addMoments(acc: Moments | null, n: number, mean: number | null, stddev: number | null, min: number | null, max: number | null): Moments | null {
+  if (n <= 0 || mean === null) return acc;
+  const sq = (stddev ?? 0) ** 2 + mean * mean;
+  if (!acc) return { n, mean, sq, min: min ?? mean, max: max ?? mean };
+  const total = acc.n + n;
+  return {
+    n: total,
+    mean: (acc.mean * acc.n + mean * n) / total,
+    sq: (acc.sq * acc.n + sq * n) / total,
+    min: Math.min(acc.min, min ?? mean),
+    max: Math.max(acc.max, max ?? mean),
+  };
+}
+
+const stddevOf = (m: Moments) => Math.sqrt(Math.max(0, m.sq - m.mean * m.mean));
+
+/**
+ * Combines per-deployment stats into one row per device, so devices that
+ * occupied the same location at different times can be compared. Means and
+ * (population) standard deviations are pooled by reading count.
+ */
+export function mergeStatsByDevice(stats: DeploymentStats[]): DeviceLocationStats[] {
+  const byDevice = new Map<string, { count: number; readings: number; temp: Moments | null; humidity: Moments | null }>();
+  for (const s of stats) {
+    if (!s.device_id) continue;
+    const n = s.reading_count ?? 0;
+    const entry = byDevice.get(s.device_id) ?? { count: 0, readings: 0, temp: null, humidity: null };
+    entry.count += 1;
+    entry.readings += n;
+    entry.temp = addMoments(entry.temp, n, s.temp_avg, s.temp_stddev, s.temp_min, s.temp_max);
+    entry.humidity = addMoments(entry.humidity, n, s.humidity_avg, s.humidity_stddev, s.humidity_min, s.humidity_max);
+    byDevice.set(s.device_id, entry);
+  }
+
+  return [...byDevice.entries()].map(([deviceId, e]) => ({
+    device_id: deviceId,
+    deployment_count: e.count,
+    reading_count: e.readings,
+    temp_avg: e.temp?.mean ?? null,
+    temp_min: e.temp?.min ?? null,
+    temp_max: e.temp?.max ?? null,
+    temp_stddev: e.temp ? stddevOf(e.temp) : null,
+    humidity_avg: e.humidity?.mean ?? null,
+    humidity_min: e.humidity?.min ?? null,
+    humidity_max: e.humidity?.max ?? null,
+    humidity_stddev: e.humidity ? stddevOf(e.humidity) : null,
+  }));
+}
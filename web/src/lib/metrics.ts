@@ -0,0 +1,128 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DeviceStats, MetricDefinition, MetricStats, Reading } from './supabase/types';
+import {
+  celsiusToFahrenheit,
+  celsiusDeltaToFahrenheit,
+  fahrenheitToCelsius,
+  fahrenheitDeltaToCelsius,
+} from './supabase/queries/conversions';
+
+// Mirrors the seed rows in schema.sql; used until the registry loads or when
+// the `metrics` table is unavailable.
+export const BUILTIN_METRICS: MetricDefinition[] = [
+  { key: 'temperature', display_name: 'Temperature', unit: '°C', min_value: -40, max_value: 85, display_precision: 1, sort_order: 1, max_delta: 10 },
+  { key: 'humidity', display_name: 'Humidity', unit: '%', min_value: 0, max_value: 100, display_precision: 1, sort_order: 2, max_delta: 30 },
+];
+
+/**
+ * Loads the registry with a server-side client, falling back to the built-in
+ * ranges when the table is missing or empty.
+ */
+export async function loadMetricRegistry(client: SupabaseClient): Promise<MetricDefinition[]> {
+  try {
+    const { data, error } = await client
+      .from('metrics')
+      .select('key, display_name, unit, min_value, max_value, display_precision, sort_order, max_delta');
+
+    if (!error && data && data.length > 0) {
+      return data as MetricDefinition[];
+    }
+  } catch (e) {
+    console.error('Failed to fetch metric registry:', e);
+  }
+
+  return BUILTIN_METRICS;
+}
+
+/** Metrics that have dedicated columns and RPC outputs. */
+export const CORE_METRIC_KEYS = ['temperature', 'humidity'] as const;
+
+export function isCoreMetric(key: string): boolean {
+  return (CORE_METRIC_KEYS as readonly string[]).includes(key);
+}
+
+export function sortMetrics(metrics: MetricDefinition[]): MetricDefinition[] {
+  return [...metrics].sort((a, b) => a.sort_order - b.sort_order || a.key.localeCompare(b.key));
+}
+
+export function getReadingMetric(
+  reading: Pick<Reading, 'temperature' | 'humidity' | 'metrics'>,
+  key: string
+): number | null {
+  if (key === 'temperature') return reading.temperature;
+  if (key === 'humidity') return reading.humidity;
+  const value = reading.metrics?.[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+// Temperature is stored in Celsius and shown in Fahrenheit everywhere else.
+export function toDisplayValue(key: string, value: number): number {
+  return key === 'temperature' ? celsiusToFahrenheit(value) : value;
+}
+
+export function toDisplayDelta(key: string, delta: number): number {
+  return key === 'temperature' ? celsiusDeltaToFahrenheit(delta) : delta;
+}
+
+/** Inverse of toDisplayValue, for values typed into forms. */
+export function fromDisplayValue(key: string, value: number): number {
+  return key === 'temperature' ? fahrenheitToCelsius(value) : value;
+}
+
+export function fromDisplayDelta(key: string, delta: number): number {
+  return key === 'temperature' ? fahrenheitDeltaToCelsius(delta) : delta;
+}
+
+export function displayUnit(metric: MetricDefinition): string {
+  return metric.key === 'temperature' ? '°F' : metric.unit;
+}
+
+export function formatMetricValue(metric: MetricDefinition, value: number | null | undefined): string {
+  if (value == null) return '—';
+  return `${toDisplayValue(metric.key, value).toFixed(metric.display_precision)}${displayUnit(metric)}`;
+}
+
+export function isOutOfRange(metric: MetricDefinition, value: number): boolean {
+  if (metric.min_value !== null && value < metric.min_value) return true;
+  if (metric.max_value !== null && value > metric.max_value) return true;
+  return false;
+}
+
+/** Lists every registered metric on the reading whose value falls outside its valid range. */
+export function findOutOfRangeMetrics(
+  reading: Pick<Reading, 'temperature' | 'humidity' | 'metrics'>,
+  metrics: MetricDefinition[]
+): Array<{ metric: MetricDefinition; value: number }> {
+  const out: Array<{ metric: MetricDefinition; value: number }> = [];
+  for (const metric of sortMetrics(metrics)) {
+    const value = getReadingMetric(reading, metric.key);
+    if (value !== null && isOutOfRange(metric, value)) {
+      out.push({ metric, value });
+    }
+  }
+  return out;
+}
+
+/** Splits the fixed-column stats RPC into per-metric rows. */
+export function deviceStatsToMetricStats(stats: DeviceStats): MetricStats[] {
+  return [
+    {
+      device_id: stats.device_id,
+      metric: 'temperature',
+      value_avg: stats.temp_avg,
+      value_min: stats.temp_min,
+      value_max: stats.temp_max,
+      value_stddev: stats.temp_stddev,
+      reading_count: stats.reading_count,
+    },
+    {
+      device_id: stats.device_id,
+      metric: 'humidity',
+      value_avg: stats.humidity_avg,
+      value_min: stats.humidity_min,
+      value_max: stats.humidity_max,
+      value_stddev: stats.humidity_stddev,
+      reading_count: stats.reading_count,
+    },
+  ];
+}
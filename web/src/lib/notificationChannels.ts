@@ -0,0 +1,156 @@
+import type { NotificationChannelConfig, NotificationChannelType } from './supabase/types';
+
+// Outbound alert delivery. Each channel turns an AlertNotification into one
+// HTTP request; failures are reported in the result, never thrown, so one
+// broken channel cannot stop the others.
+
+export const NOTIFICATION_CHANNEL_TYPES: NotificationChannelType[] = ['webhook', 'slack', 'discord', 'ntfy'];
+
+const SEND_TIMEOUT_MS = 10_000;
+// Discord rejects message content over 2000 characters.
+const DISCORD_MAX_CONTENT = 2000;
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Signature-256';
+
+export interface AlertNotification {
+  kind: 'problem' | 'recovery';
+  subject: string;
+  body: string;
+  device_id: string;
+  rule_id: number | null;
+  incident_id: number | null;
+  /** Device status (`stale`, `anomaly`, ...) or rule status (`firing`, `ok`). */
+  status: string;
+  severity: string | null;
+  occurred_at: string;
+}
+
+export interface ChannelResult {
+  channel: string;
+  channel_id?: number | null;
+  ok: boolean;
+  status_code?: number;
+  error?: string;
+  /** The channel is not configured, so nothing was attempted. */
+  skipped?: boolean;
+}
+
+export interface NotificationChannel {
+  readonly type: string;
+  readonly id: number | null;
+  send(notification: AlertNotification): Promise<ChannelResult>;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** `sha256=<hex HMAC of the raw body>`, the same scheme GitHub webhooks use. */
+export async function signWebhookBody(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return `sha256=${toHex(new Uint8Array(signature))}`;
+}
+
+async function postRequest(
+  config: Pick<NotificationChannelConfig, 'id' | 'channel_type' | 'url'>,
+  init: { body: string; headers: Record<string, string> }
+): Promise<ChannelResult> {
+  const base = { channel: config.channel_type, channel_id: config.id };
+  try {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: init.headers,
+      body: init.body,
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200);
+      return {
+        ...base,
+        ok: false,
+        status_code: response.status,
+        error: `HTTP ${response.status}${detail ? `: ${detail}` : ''}`,
+      };
+    }
+    return { ...base, ok: true, status_code: response.status };
+  } catch (err) {
+    return { ...base, ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+// Header values must be ASCII; ntfy decodes RFC 2047 encoded words.
+function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const bytes = new TextEncoder().encode(value);
+  return `=?UTF-8?B?${btoa(String.fromCharCode(...bytes))}?=`;
+}
+
+function ntfyPriority(notification: AlertNotification): string {
+  if (notification.kind === 'recovery') return '3';
+  if (notification.severity === 'critical') return '5';
+  if (notification.severity === 'info') return '3';
+  return '4';
+}
+
+export function channelFromConfig(config: NotificationChannelConfig): NotificationChannel {
+  const type = config.channel_type;
+  const send = async (notification: AlertNotification): Promise<ChannelResult> => {
+    switch (type) {
+      case 'webhook': {
+        const body = JSON.stringify(notification);
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.secret) headers[WEBHOOK_SIGNATURE_HEADER] = await signWebhookBody(config.secret, body);
+        return postRequest(config, { body, headers });
+      }
+      case 'slack':
+        return postRequest(config, {
+          body: JSON.stringify({ text: `*${notification.subject}*\n${notification.body}` }),
+          headers: { 'Content-Type': 'application/json' },
+        });
+      case 'discord': {
+        const content = `**${notification.subject}**\n${notification.body}`;
+        return postRequest(config, {
+          body: JSON.stringify({ content: content.slice(0, DISCORD_MAX_CONTENT) }),
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      case 'ntfy': {
+        // ntfy takes the message as the raw body and metadata as headers.
+        const headers: Record<string, string> = {
+          'Content-Type': 'text/plain; charset=utf-8',
+          Title: encodeHeaderValue(notification.subject),
+          Priority: ntfyPriority(notification),
+          Tags: notification.kind === 'recovery' ? 'white_check_mark' : 'warning',
+        };
+        if (config.secret) headers.Authorization = `Bearer ${config.secret}`;
+        return postRequest(config, { body: notification.body, headers });
+      }
+      default:
+        return { channel: String(type), channel_id: config.id, ok: false, error: `Unknown channel type: ${type}` };
+    }
+  };
+  return { type, id: config.id, send };
+}
+
+/**
+ * Enabled channels that should receive an alert: unscoped channels, channels
+ * scoped to the alert's device, and channels scoped to its rule.
+ */
+export function selectChannels(
+  configs: NotificationChannelConfig[],
+  target: { device_id: string; rule_id: number | null }
+): NotificationChannelConfig[] {
+  return configs.filter((c) => {
+    if (!c.enabled) return false;
+    if (c.rule_id !== null) return c.rule_id === target.rule_id;
+    if (c.device_id !== null) return c.device_id === target.device_id;
+    return true;
+  });
+}
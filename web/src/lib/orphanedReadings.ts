@@ -0,0 +1,66 @@
+import type { OrphanedReadingSpan } from './supabase/types';
+
+// Turning orphaned reading spans (readings outside every deployment) into
+// deployment edits for the /deployments page.
+
+export type DeploymentExtension = {
+  deployment_id: number;
+  /** New start, when the deployment is pulled back over a span before it. */
+  started_at?: string;
+  /** New end, when the deployment is stretched over a span after it. */
+  ended_at?: string;
+};
+
+export type AssignmentPlan = {
+  extensions: DeploymentExtension[];
+  /** Spans with no deployment on either side; they need a new deployment. */
+  unassigned: OrphanedReadingSpan[];
+};
+
+/** Key identifying a span across refetches. */
+export function spanKey(span: Pick<OrphanedReadingSpan, 'device_id' | 'started_at'>): string {
+  return `${span.device_id}:${span.started_at}`;
+}
+
+/** The edit that covers one span by stretching a neighbouring deployment. */
+export function extensionFor(
+  span: OrphanedReadingSpan,
+  side: 'previous' | 'next'
+): DeploymentExtension | null {
+  if (side === 'previous') {
+    return span.previous_deployment_id === null
+      ? null
+      : { deployment_id: span.previous_deployment_id, ended_at: span.ended_at };
+  }
+  return span.next_deployment_id === null
+    ? null
+    : { deployment_id: span.next_deployment_id, started_at: span.started_at };
+}
+
+/**
+ * Covers each span by extending the deployment before it, or the one after
+ * it when there is none before. Spans sharing a deployment collapse into one
+ * edit reaching the furthest span, so each deployment is updated once.
+ */
+export function planAdjacentAssignments(spans: OrphanedReadingSpan[]): AssignmentPlan {
+  const byDeployment = new Map<number, DeploymentExtension>();
+  const unassigned: OrphanedReadingSpan[] = [];
+
+  for (const span of spans) {
+    const ext = extensionFor(span, 'previous') ?? extensionFor(span, 'next');
+    if (!ext) {
+      unassigned.push(span);
+      continue;
+    }
+    const current = byDeployment.get(ext.deployment_id) ?? { deployment_id: ext.deployment_id };
+    if (ext.ended_at && (!current.ended_at || Date.parse(ext.ended_at) > Date.parse(current.ended_at))) {
+      current.ended_at = ext.ended_at;
+    }
+    if (ext.started_at && (!current.started_at || Date.parse(ext.started_at) < Date.parse(current.started_at))) {
+      current.started_at = ext.started_at;
+    }
+    byDeployment.set(ext.deployment_id, current);
+  }
+
+  return { extensions: Array.from(byDeployment.values()), unassigned };
+}
@@ -0,0 +1,200 @@
+import type { ChartSample, MetricDefinition, MetricStats } from './supabase/types';
+import { celsiusToFahrenheit, fahrenheitToCelsius } from './supabase/queries/conversions';
+
+// Moist-air quantities derived from air temperature (°C) and relative
+// humidity (%). Nothing here is stored: every page computes them from the
+// temperature/humidity it already has, so calibration carries through.
+
+// Magnus coefficients from Alduchov & Eskridge (1996), good to 0.1 % between
+// -40 °C and 50 °C.
+const MAGNUS_A = 17.625;
+const MAGNUS_B = 243.04; // °C
+const MAGNUS_C = 6.1094; // hPa
+
+function isValidInput(temperatureC: number, humidity: number): boolean {
+  return Number.isFinite(temperatureC) && Number.isFinite(humidity) && humidity > 0 && humidity <= 100;
+}
+
+/** Saturation vapor pressure over water, in hPa. */
+export function saturationVaporPressure(temperatureC: number): number {
+  return MAGNUS_C * Math.exp((MAGNUS_A * temperatureC) / (temperatureC + MAGNUS_B));
+}
+
+/** Actual vapor pressure, in hPa. */
+export function vaporPressure(temperatureC: number, humidity: number): number {
+  return saturationVaporPressure(temperatureC) * (humidity / 100);
+}
+
+/** Dew point in °C (Magnus), or null when RH is outside (0, 100]. */
+export function dewPoint(temperatureC: number, humidity: number): number | null {
+  if (!isValidInput(temperatureC, humidity)) return null;
+  const gamma = Math.log(humidity / 100) + (MAGNUS_A * temperatureC) / (temperatureC + MAGNUS_B);
+  return (MAGNUS_B * gamma) / (MAGNUS_A - gamma);
+}
+
+/**
+ * NWS heat index in °C: Steadman's simple formula below about 80 °F, the
+ * Rothfusz regression with the NWS low- and high-humidity adjustments above.
+ */
+export function heatIndex(temperatureC: number, humidity: number): number | null {
+  if (!isValidInput(temperatureC, humidity)) return null;
+  const t = celsiusToFahrenheit(temperatureC);
+  const rh = humidity;
+
+  const simple = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+  if ((simple + t) / 2 < 80) return fahrenheitToCelsius(simple);
+
+  let hi =
+    -42.379 +
+    2.04901523 * t +
+    10.14333127 * rh -
+    0.22475541 * t * rh -
+    0.00683783 * t * t -
+    0.05481717 * rh * rh +
+    0.00122874 * t * t * rh +
+    0.00085282 * t * rh * rh -
+    0.00000199 * t * t * rh * rh;
+
+  if (rh < 13 && t >= 80 && t <= 112) {
+    hi -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+  } else if (rh > 85 && t >= 80 && t <= 87) {
+    hi += ((rh - 85) / 10) * ((87 - t) / 5);
+  }
+  return fahrenheitToCelsius(hi);
+}
+
+/** Water vapor density in g/m³. */
+export function absoluteHumidity(temperatureC: number, humidity: number): number | null {
+  if (!isValidInput(temperatureC, humidity)) return null;
+  // 216.7 = 100 (hPa → Pa) × 1000 (kg → g) × M_w / R, with M_w/R ≈ 2.167e-3 K·kg/J.
+  return (216.7 * vaporPressure(temperatureC, humidity)) / (temperatureC + 273.15);
+}
+
+/** Vapor pressure deficit in kPa. */
+export function vaporPressureDeficit(temperatureC: number, humidity: number): number | null {
+  if (!isValidInput(temperatureC, humidity)) return null;
+  return (saturationVaporPressure(temperatureC) - vaporPressure(temperatureC, humidity)) / 10;
+}
+
+/** Environment Canada humidex (dimensionless, on the °C scale). */
+export function humidex(temperatureC: number, humidity: number): number | null {
+  const dew = dewPoint(temperatureC, humidity);
+  if (dew === null) return null;
+  const e = 6.11 * Math.exp(5417.753 * (1 / 273.16 - 1 / (dew + 273.15)));
+  return temperatureC + 0.5555 * (e - 10);
+}
+
+export const DERIVED_METRIC_KEYS = ['dew_point', 'heat_index', 'absolute_humidity', 'vpd', 'humidex'] as const;
+export type DerivedMetricKey = (typeof DERIVED_METRIC_KEYS)[number];
+
+/**
+ * A derived metric shaped like a registry entry so the chart and compare
+ * views can render it. Unlike registry metrics, `unit` is the display unit
+ * and `displayValue` already returns that unit (°F for the temperature-like
+ * ones), so the usual °C → °F conversion does not apply.
+ */
+export interface DerivedMetric extends MetricDefinition {
+  key: DerivedMetricKey;
+  /** CSV/AI field name, suffixed with the unit. */
+  field: string;
+  displayValue(temperatureC: number, humidity: number): number | null;
+}
+
+const inFahrenheit = (fn: (t: number, rh: number) => number | null) => (t: number, rh: number) => {
+  const value = fn(t, rh);
+  return value === null ? null : celsiusToFahrenheit(value);
+};
+
+const derived = (
+  key: DerivedMetricKey,
+  display_name: string,
+  unit: string,
+  field: string,
+  display_precision: number,
+  displayValue: DerivedMetric['displayValue']
+): DerivedMetric => ({
+  key,
+  display_name,
+  unit,
+  field,
+  display_precision,
+  displayValue,
+  min_value: null,
+  max_value: null,
+  sort_order: 100 + DERIVED_METRIC_KEYS.indexOf(key),
+  max_delta: null,
+});
+
+export const DERIVED_METRICS: DerivedMetric[] = [
+  derived('dew_point', 'Dew Point', '°F', 'dew_point_f', 1, inFahrenheit(dewPoint)),
+  derived('heat_index', 'Heat Index', '°F', 'heat_index_f', 1, inFahrenheit(heatIndex)),
+  derived('absolute_humidity', 'Absolute Humidity', 'g/m³', 'absolute_humidity_g_m3', 2, absoluteHumidity),
+  derived('vpd', 'Vapor Pressure Deficit', 'kPa', 'vpd_kpa', 2, vaporPressureDeficit),
+  derived('humidex', 'Humidex', '', 'humidex', 1, humidex),
+];
+
+export function isDerivedMetric(key: string): key is DerivedMetricKey {
+  return (DERIVED_METRIC_KEYS as readonly string[]).includes(key);
+}
+
+export function getDerivedMetric(key: string): DerivedMetric | undefined {
+  return DERIVED_METRICS.find((m) => m.key === key);
+}
+
+/** Every derived metric keyed by its `field` name, rounded to its display precision. */
+export function derivedFields(temperatureC: number, humidity: number): Record<string, number | null> {
+  const fields: Record<string, number | null> = {};
+  for (const metric of DERIVED_METRICS) {
+    const value = metric.displayValue(temperatureC, humidity);
+    fields[metric.field] = value === null ? null : Number(value.toFixed(metric.display_precision));
+  }
+  return fields;
+}
+
+/**
+ * Per-device stats for each derived metric from chart buckets. The metrics
+ * are non-linear, so each bucket's value is computed from its averaged
+ * temperature and humidity; short buckets keep that close to per-reading
+ * values. Averages are weighted by bucket reading count.
+ */
+export function derivedMetricStats(samples: ChartSample[]): MetricStats[] {
+  const byDevice = new Map<string, ChartSample[]>();
+  for (const sample of samples) {
+    const list = byDevice.get(sample.device_id) ?? [];
+    list.push(sample);
+    byDevice.set(sample.device_id, list);
+  }
+
+  const stats: MetricStats[] = [];
+  for (const [deviceId, deviceSamples] of byDevice) {
+    for (const metric of DERIVED_METRICS) {
+      let weight = 0;
+      let sum = 0;
+      let sumSq = 0;
+      let min = Infinity;
+      let max = -Infinity;
+      for (const s of deviceSamples) {
+        const value = metric.displayValue(s.temperature_avg, s.humidity_avg);
+        if (value === null) continue;
+        const w = Math.max(1, s.reading_count);
+        weight += w;
+        sum += value * w;
+        sumSq += value * value * w;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+      if (weight === 0) continue;
+      const mean = sum / weight;
+      stats.push({
+        device_id: deviceId,
+        metric: metric.key,
+        value_avg: mean,
+        value_min: min,
+        value_max: max,
+        value_stddev: Math.sqrt(Math.max(0, sumSq / weight - mean * mean)),
+        reading_count: weight,
+      });
+    }
+  }
+  return stats;
+}
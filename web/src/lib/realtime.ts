@@ -0,0 +1,105 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ChartSample, Reading } from './supabase';
+import { readingTime } from './supabase/queries/conversions';
+
+export type RealtimeMode = 'connecting' | 'live' | 'polling';
+
+export interface ReadingsFeedHandlers {
+  onInsert: (reading: Reading) => void;
+  onStatus: (mode: RealtimeMode) => void;
+}
+
+/** Anything that can push `readings` inserts; swapped for a fake in tests. */
+export interface ReadingsFeed {
+  subscribe(handlers: ReadingsFeedHandlers): () => void;
+}
+
+const CHANNEL_NAME = 'dashboard-readings';
+
+/**
+ * Wraps a Supabase realtime channel on `readings` INSERTs. Channel errors,
+ * timeouts and closes are reported as 'polling' so the caller can fall back;
+ * realtime-js rejoins on its own and reports 'live' again once subscribed.
+ */
+export function createSupabaseReadingsFeed(client: SupabaseClient | null): ReadingsFeed | null {
+  if (!client) return null;
+
+  return {
+    subscribe({ onInsert, onStatus }) {
+      onStatus('connecting');
+      const channel = client
+        .channel(CHANNEL_NAME)
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'readings' },
+          (payload: { new: Reading }) => onInsert(payload.new)
+        )
+        .subscribe((status: string) => {
+          if (status === 'SUBSCRIBED') onStatus('live');
+          else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+            onStatus('polling');
+          }
+        });
+
+      return () => {
+        void client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+/**
+ * Whether `incoming` should replace `current` as a device's latest reading.
+ * Nodes upload queued batches late, so inserts do not arrive in time order.
+ */
+export function isNewerReading(incoming: Reading, current: Reading | null): boolean {
+  if (!current) return true;
+  return new Date(readingTime(incoming)).getTime() > new Date(readingTime(current)).getTime();
+}
+
+/**
+ * Folds one reading into an epoch-aligned sparkline (same bucketing as
+ * `get_dashboard_live`), keeping a running average per bucket. Readings
+ * older than `windowStartMs` are dropped.
+ */
+export function mergeReadingIntoSparkline(
+  samples: ChartSample[],
+  reading: Reading,
+  bucketMinutes: number,
+  windowStartMs?: number
+): ChartSample[] {
+  const readingMs = new Date(readingTime(reading)).getTime();
+  if (!Number.isFinite(readingMs)) return samples;
+  if (windowStartMs !== undefined && readingMs < windowStartMs) return samples;
+
+  const bucketMs = bucketMinutes * 60_000;
+  const bucketStartMs = Math.floor(readingMs / bucketMs) * bucketMs;
+  const kept = windowStartMs === undefined
+    ? samples
+    : samples.filter((s) => new Date(s.bucket_ts).getTime() + bucketMs > windowStartMs);
+
+  const index = kept.findIndex((s) => new Date(s.bucket_ts).getTime() === bucketStartMs);
+  if (index === -1) {
+    const added: ChartSample = {
+      bucket_ts: new Date(bucketStartMs).toISOString(),
+      device_id: reading.device_id,
+      temperature_avg: reading.temperature,
+      humidity_avg: reading.humidity,
+      reading_count: 1,
+    };
+    return [...kept, added].sort(
+      (a, b) => new Date(a.bucket_ts).getTime() - new Date(b.bucket_ts).getTime()
+    );
+  }
+
+  const existing = kept[index];
+  const count = existing.reading_count || 0;
+  const next = [...kept];
+  next[index] = {
+    ...existing,
+    temperature_avg: (existing.temperature_avg * count + reading.temperature) / (count + 1),
+    humidity_avg: (existing.humidity_avg * count + reading.humidity) / (count + 1),
+    reading_count: count + 1,
+  };
+  return next;
+}
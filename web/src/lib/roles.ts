@@ -0,0 +1,24 @@
+import type { AppRole } from './supabase/types';
+
+// Role checks shared by the UI and server routes. The database enforces the
+// same ladder through has_role() in RLS policies and RPCs; these only decide
+// what to show and give server routes an early 403.
+
+export const ROLE_ORDER: AppRole[] = ['viewer', 'operator', 'admin'];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  viewer: 'Viewer',
+  operator: 'Operator',
+  admin: 'Admin',
+};
+
+/** Narrows an untrusted value to a role; anything unknown is a viewer. */
+export function parseRole(value: unknown): AppRole {
+  return ROLE_ORDER.includes(value as AppRole) ? (value as AppRole) : 'viewer';
+}
+
+/** True when `role` is `min` or above. A missing role (signed out, still loading) has no access. */
+export function hasRole(role: AppRole | null | undefined, min: AppRole): boolean {
+  if (!role) return false;
+  return ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(min);
+}
@@ -0,0 +1,71 @@
+import { getReadingMetric, sortMetrics } from './metrics';
+import type { MetricDefinition, Reading } from './supabase/types';
+
+// Faults a fresh, in-range reading can still hide: a locked-up DHT20 that
+// keeps repeating one value (flatline) and physically implausible jumps
+// between consecutive readings (spike). Readings are newest first.
+
+export type FaultReading = Pick<Reading, 'temperature' | 'humidity' | 'metrics'> & { measured_at: string };
+
+export const DEFAULT_FLATLINE_READINGS = 10;
+// Consecutive readings further apart than this are not compared: a node that
+// was off for an hour may legitimately come back somewhere warmer.
+export const DEFAULT_SPIKE_WINDOW_MINUTES = 10;
+
+export type Flatline = { count: number; since: string; temperature: number; humidity: number };
+
+export type Spike = {
+  metric: MetricDefinition;
+  from: number;
+  to: number;
+  minutes: number;
+  at: string;
+};
+
+/**
+ * The last `count` readings all carry the same temperature and humidity. A
+ * real environment never holds both to the sensor's resolution for long;
+ * other metrics (light at night, for example) legitimately can, so they are
+ * not considered.
+ */
+export function detectFlatline(readings: FaultReading[], count: number): Flatline | null {
+  if (count < 2 || readings.length < count) return null;
+  const window = readings.slice(0, count);
+  const [latest] = window;
+  const flat = window.every((r) => r.temperature === latest.temperature && r.humidity === latest.humidity);
+  if (!flat) return null;
+  return {
+    count,
+    since: window[count - 1].measured_at,
+    temperature: latest.temperature,
+    humidity: latest.humidity,
+  };
+}
+
+/**
+ * A jump larger than a metric's `max_delta` between the latest reading and
+ * the one before it, or null. Only the newest pair counts, so a single bad
+ * reading clears as soon as the next one arrives.
+ */
+export function detectSpike(
+  readings: FaultReading[],
+  metrics: MetricDefinition[],
+  windowMinutes: number
+): Spike | null {
+  const checked = sortMetrics(metrics).filter((m) => m.max_delta != null);
+  if (checked.length === 0 || readings.length < 2) return null;
+
+  const [newer, older] = readings;
+  const minutes = (new Date(newer.measured_at).getTime() - new Date(older.measured_at).getTime()) / 60000;
+  if (!(minutes > 0 && minutes <= windowMinutes)) return null;
+
+  for (const metric of checked) {
+    const to = getReadingMetric(newer, metric.key);
+    const from = getReadingMetric(older, metric.key);
+    if (to === null || from === null) continue;
+    if (Math.abs(to - from) > (metric.max_delta as number)) {
+      return { metric, from, to, minutes, at: newer.measured_at };
+    }
+  }
+  return null;
+}
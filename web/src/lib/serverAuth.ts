@@ -1,5 +1,8 @@
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import type { User } from '@supabase/supabase-js';
+import type { AppRole } from './supabase/types';
+import { parseRole } from './roles';
 
 export async function createServerSupabaseClient() {
   const cookieStore = await cookies();
@@ -45,3 +48,23 @@ export async function isAuthenticated(): Promise<boolean> {
   const user = await getServerUser();
   return user !== null;
 }
+
+/** The signed-in user and their role, or null when signed out. */
+export async function getServerUserWithRole(): Promise<{ user: User; role: AppRole } | null> {
+  const supabase = await createServerSupabaseClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return null;
+  }
+
+  const { data: role, error: roleError } = await supabase.rpc('app_role');
+  if (roleError) {
+    console.error('Error getting role:', roleError.message);
+  }
+
+  return { user, role: parseRole(role) };
+}
@@ -8,12 +8,39 @@ export type {
   Deployment,
   DeploymentWithCount,
   DeploymentStats,
+  DeploymentTemplate,
+  DeploymentStartResult,
+  OrphanedReadingSpan,
+  Location,
+  LocationType,
+  LocationWithCount,
   Device,
+  DeviceCalibrationHistory,
+  MetricDefinition,
+  MetricSample,
+  MetricStats,
+  AlertRule,
+  AlertRuleState,
+  AlertRuleType,
+  AlertOperator,
+  AlertSeverity,
+  NotificationChannelType,
+  NotificationChannelConfig,
+  NotificationAttempt,
+  Incident,
+  IncidentStatus,
+  MaintenanceWindow,
+  AuditEntityType,
+  AuditEntry,
+  AppRole,
+  UserInvitation,
+  ManagedUser,
 } from './types';
 
 export {
   celsiusToFahrenheit,
   celsiusDeltaToFahrenheit,
+  readingTime,
   getLatestReading,
   getReadings,
   getAllReadings,
@@ -23,17 +50,62 @@ export {
   getDeployments,
   getDeployment,
   createDeployment,
+  startDeployments,
   updateDeployment,
   endDeployment,
-  deleteDeployment,
+  archiveDeployment,
+  restoreDeployment,
+  purgeDeployment,
   getActiveDeployment,
   getDeploymentStats,
   getDeploymentReadings,
-  getDistinctLocations,
+  getOrphanedReadingSpans,
+  getDeploymentTemplates,
+  createDeploymentTemplate,
+  updateDeploymentTemplate,
+  deleteDeploymentTemplate,
+  getLocations,
+  getLocation,
+  getLocationDeployments,
+  createLocation,
+  updateLocation,
+  deleteLocation,
   getDevices,
   createDevice,
   updateDevice,
   deactivateDevice,
+  getCalibrationHistory,
+  issueDeviceApiKey,
+  revokeDeviceApiKey,
   getDashboardLive,
+  getMetrics,
+  getMetricChartSamples,
+  getMetricStats,
+  getAlertRules,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  getAlertRuleStates,
+  getNotificationChannels,
+  createNotificationChannel,
+  updateNotificationChannel,
+  deleteNotificationChannel,
+  getNotificationAttempts,
+  getIncidents,
+  getIncidentNotifications,
+  acknowledgeIncident,
+  getMaintenanceWindows,
+  createMaintenanceWindow,
+  endMaintenanceWindow,
+  deleteMaintenanceWindow,
+  getAuditLog,
+} from './queries/index';
+export type {
+  DashboardLiveData,
+  DeploymentTemplateInput,
+  LocationInput,
+  AlertRuleInput,
+  NotificationChannelInput,
+  MaintenanceWindowInput,
+  AuditLogFilters,
 } from './queries/index';
-export type { DashboardLiveData } from './queries/index';
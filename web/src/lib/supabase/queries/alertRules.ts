@@ -0,0 +1,75 @@
+import { supabase } from '../client';
+import type { AlertRule, AlertRuleState } from '../types';
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'created_at' | 'updated_at'>;
+
+export async function getAlertRules(): Promise<AlertRule[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select('*')
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching alert rules:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function createAlertRule(rule: AlertRuleInput): Promise<AlertRule | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .insert(rule)
+    .select()
+    .single();
+  if (error) {
+    console.error('Error creating alert rule:', error);
+    throw error;
+  }
+  return data;
+}
+
+export async function updateAlertRule(
+  id: number,
+  updates: Partial<AlertRuleInput>
+): Promise<AlertRule | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) {
+    console.error('Error updating alert rule:', error);
+    throw error;
+  }
+  return data;
+}
+
+export async function deleteAlertRule(id: number): Promise<boolean> {
+  if (!supabase) return false;
+  const { error } = await supabase
+    .from('alert_rules')
+    .delete()
+    .eq('id', id);
+  if (error) {
+    console.error('Error deleting alert rule:', error);
+    return false;
+  }
+  return true;
+}
+
+/** Current evaluation state per (rule, device), as last written by the keepalive cron. */
+export async function getAlertRuleStates(): Promise<AlertRuleState[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('alert_rule_state')
+    .select('*');
+  if (error) {
+    console.error('Error fetching alert rule state:', error);
+    return [];
+  }
+  return data || [];
+}
@@ -0,0 +1,42 @@
+import { supabase } from '../client';
+import type { AuditEntityType, AuditEntry } from '../types';
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: string;
+  /** Case-insensitive substring of the actor's email. */
+  actor?: string;
+  start?: string;
+  end?: string;
+  limit?: number;
+  /** Rows to skip, for paging past `limit`. */
+  offset?: number;
+}
+
+/** Audit entries matching the filters, newest first. */
+export async function getAuditLog(filters: AuditLogFilters = {}): Promise<AuditEntry[]> {
+  if (!supabase) return [];
+  const limit = filters.limit ?? 100;
+  const offset = filters.offset ?? 0;
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('occurred_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+  if (filters.entityId) query = query.eq('entity_id', filters.entityId);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actor) query = query.ilike('actor_email', `%${filters.actor}%`);
+  if (filters.start) query = query.gte('occurred_at', filters.start);
+  if (filters.end) query = query.lte('occurred_at', filters.end);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching audit log:', error);
+    return [];
+  }
+  return data || [];
+}
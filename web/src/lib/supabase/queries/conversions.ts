@@ -1,3 +1,5 @@
+import type { Reading } from '../types';
+
 export function celsiusToFahrenheit(celsius: number): number {
   return (celsius * 9) / 5 + 32;
 }
@@ -5,3 +7,16 @@ export function celsiusToFahrenheit(celsius: number): number {
 export function celsiusDeltaToFahrenheit(celsiusDelta: number): number {
   return (celsiusDelta * 9) / 5;
 }
+
+export function fahrenheitToCelsius(fahrenheit: number): number {
+  return ((fahrenheit - 32) * 5) / 9;
+}
+
+export function fahrenheitDeltaToCelsius(fahrenheitDelta: number): number {
+  return (fahrenheitDelta * 5) / 9;
+}
+
+/** Measurement time of a reading; rows fetched before `measured_at` existed fall back to arrival time. */
+export function readingTime(reading: Pick<Reading, 'created_at' | 'measured_at'>): string {
+  return reading.measured_at ?? reading.created_at;
+}
@@ -0,0 +1,75 @@
+import { supabase } from '../client';
+import type { DeploymentTemplate } from '../types';
+import { locationFromFields, toLocationFields } from '../../weatherLocation';
+
+export type DeploymentTemplateInput = Omit<DeploymentTemplate, 'id' | 'created_at' | 'updated_at'>;
+
+function normalizeTemplate(template: DeploymentTemplateInput): DeploymentTemplateInput {
+  return {
+    name: template.name.trim(),
+    deployment_name: template.deployment_name.trim(),
+    location: template.location.trim(),
+    notes: template.notes?.trim() || null,
+    ...toLocationFields(locationFromFields(template)),
+  };
+}
+
+export async function getDeploymentTemplates(): Promise<DeploymentTemplate[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('deployment_templates')
+    .select('*')
+    .order('name', { ascending: true });
+  if (error) {
+    console.error('Error fetching deployment templates:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function createDeploymentTemplate(
+  template: DeploymentTemplateInput
+): Promise<DeploymentTemplate | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('deployment_templates')
+    .insert(normalizeTemplate(template))
+    .select()
+    .single();
+  if (error) {
+    console.error('Error creating deployment template:', error);
+    throw error;
+  }
+  return data;
+}
+
+export async function updateDeploymentTemplate(
+  id: number,
+  template: DeploymentTemplateInput
+): Promise<DeploymentTemplate | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('deployment_templates')
+    .update(normalizeTemplate(template))
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) {
+    console.error('Error updating deployment template:', error);
+    throw error;
+  }
+  return data;
+}
+
+export async function deleteDeploymentTemplate(id: number): Promise<boolean> {
+  if (!supabase) return false;
+  const { error } = await supabase
+    .from('deployment_templates')
+    .delete()
+    .eq('id', id);
+  if (error) {
+    console.error('Error deleting deployment template:', error);
+    return false;
+  }
+  return true;
+}
@@ -4,13 +4,18 @@ import type {
   Deployment,
   DeploymentWithCount,
   DeploymentStats,
+  DeploymentStartResult,
+  OrphanedReadingSpan,
 } from '../types';
-import { normalizeUsZipCode } from '../../weatherZip';
+import { locationFromFields, toLocationFields, type WeatherLocationFields } from '../../weatherLocation';
+import { applyCalibrationToReading, type CalibrationMap } from '../../calibration';
+import { readingTime } from './conversions';
 
+/** Unarchived deployments, or only archived ones with `status: 'archived'`. */
 export async function getDeployments(filters?: {
   deviceId?: string;
-  location?: string;
-  status?: 'all' | 'active' | 'ended';
+  locationId?: number;
+  status?: 'all' | 'active' | 'ended' | 'archived';
 }): Promise<DeploymentWithCount[]> {
   if (!supabase) {
     console.warn('Supabase client not initialized');
@@ -20,6 +25,7 @@ export async function getDeployments(filters?: {
   const { data, error } = await supabase.rpc('get_deployments_with_counts', {
     p_device_id: filters?.deviceId || null,
     p_active_only: filters?.status === 'active',
+    p_archived: filters?.status === 'archived',
   });
 
   if (error) {
@@ -29,8 +35,8 @@ export async function getDeployments(filters?: {
 
   let results = (data || []) as DeploymentWithCount[];
 
-  if (filters?.location) {
-    results = results.filter(d => d.location === filters.location);
+  if (filters?.locationId) {
+    results = results.filter(d => d.location_id === filters.locationId);
   }
   if (filters?.status === 'ended') {
     results = results.filter(d => d.ended_at !== null);
@@ -56,13 +62,13 @@ export async function getDeployment(id: number): Promise<Deployment | null> {
   return data;
 }
 
-export async function createDeployment(deployment: {
+export async function createDeployment(deployment: Partial<WeatherLocationFields> & {
   device_id: string;
   name: string;
   location: string;
   notes?: string;
-  zip_code?: string;
   started_at?: string;
+  ended_at?: string;
 }): Promise<Deployment | null> {
   if (!supabase) return null;
 
@@ -73,8 +79,9 @@ export async function createDeployment(deployment: {
       name: deployment.name,
       location: deployment.location,
       notes: deployment.notes || null,
-      zip_code: deployment.zip_code ? normalizeUsZipCode(deployment.zip_code) : null,
+      ...toLocationFields(locationFromFields(deployment)),
       started_at: deployment.started_at || new Date().toISOString(),
+      ended_at: deployment.ended_at || null,
     })
     .select()
     .single();
@@ -87,21 +94,58 @@ export async function createDeployment(deployment: {
   return data;
 }
 
+/**
+ * Starts one deployment per device with shared metadata, ending each
+ * device's active deployment at the same instant. Devices that would
+ * overlap another deployment are skipped and come back with a `conflict`;
+ * the rest go ahead. Throws when the call itself fails.
+ */
+export async function startDeployments(params: Partial<WeatherLocationFields> & {
+  device_ids: string[];
+  name: string;
+  location: string;
+  notes?: string;
+  started_at?: string;
+}): Promise<DeploymentStartResult[]> {
+  if (!supabase || params.device_ids.length === 0) return [];
+
+  const location = toLocationFields(locationFromFields(params));
+  const { data, error } = await supabase.rpc('start_deployments', {
+    p_device_ids: params.device_ids,
+    p_name: params.name,
+    p_location: params.location,
+    p_notes: params.notes || null,
+    p_zip_code: location.zip_code,
+    p_country_code: location.country_code,
+    p_latitude: location.latitude,
+    p_longitude: location.longitude,
+    p_started_at: params.started_at || null,
+  });
+
+  if (error) {
+    console.error('Error starting deployments:', error);
+    throw error;
+  }
+
+  return (data || []) as DeploymentStartResult[];
+}
+
 export async function updateDeployment(
   id: number,
-  updates: {
+  updates: Partial<WeatherLocationFields> & {
     name?: string;
     location?: string;
     notes?: string | null;
-    zip_code?: string | null;
     started_at?: string;
     ended_at?: string | null;
   }
 ): Promise<Deployment | null> {
   if (!supabase) return null;
 
-  if ('zip_code' in updates && updates.zip_code != null) {
-    updates.zip_code = normalizeUsZipCode(updates.zip_code);
+  // Location columns are written together so a stale postal code or
+  // coordinate pair never outlives a change of location type.
+  if ('zip_code' in updates || 'latitude' in updates) {
+    updates = { ...updates, ...toLocationFields(locationFromFields(updates)) };
   }
 
   const { data, error } = await supabase
@@ -137,19 +181,60 @@ export async function endDeployment(id: number): Promise<Deployment | null> {
   return data;
 }
 
-export async function deleteDeployment(id: number): Promise<boolean> {
-  if (!supabase) return false;
+/**
+ * Deletes a deployment the recoverable way: it is archived (and ended, if
+ * active) while its readings stay. Null when it fails or was already archived.
+ */
+export async function archiveDeployment(id: number): Promise<Deployment | null> {
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .rpc('archive_deployment', { p_deployment_id: id })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error archiving deployment:', error);
+    return null;
+  }
+
+  return data as Deployment | null;
+}
+
+/** Null when it fails, e.g. because a live deployment now overlaps the window. */
+export async function restoreDeployment(id: number): Promise<Deployment | null> {
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .rpc('restore_deployment', { p_deployment_id: id })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error restoring deployment:', error);
+    return null;
+  }
+
+  return data as Deployment | null;
+}
+
+/**
+ * Permanently deletes an archived deployment and its readings (those no other
+ * deployment covers). `confirmName` must equal the deployment name. Recorded
+ * in the audit log. Returns the number of readings deleted; throws on error.
+ */
+export async function purgeDeployment(id: number, confirmName: string): Promise<number> {
+  if (!supabase) return 0;
 
-  const { error } = await supabase.rpc('delete_deployment_cascade', {
+  const { data, error } = await supabase.rpc('purge_deployment', {
     p_deployment_id: id,
+    p_confirm_name: confirmName,
   });
 
   if (error) {
-    console.error('Error deleting deployment:', error);
-    return false;
+    console.error('Error purging deployment:', error);
+    throw error;
   }
 
-  return true;
+  return Number(data ?? 0);
 }
 
 export async function getActiveDeployment(
@@ -191,6 +276,29 @@ export async function getDeploymentStats(
   return data || [];
 }
 
+/**
+ * Spans of sensor readings outside every deployment window. Readings less
+ * than `gapMinutes` apart (default 60) are one span.
+ */
+export async function getOrphanedReadingSpans(params?: {
+  deviceId?: string;
+  gapMinutes?: number;
+}): Promise<OrphanedReadingSpan[]> {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase.rpc('get_orphaned_reading_spans', {
+    p_device_id: params?.deviceId || null,
+    p_gap_minutes: params?.gapMinutes ?? 60,
+  });
+
+  if (error) {
+    console.error('Error fetching orphaned readings:', error);
+    return [];
+  }
+
+  return (data || []) as OrphanedReadingSpan[];
+}
+
 export async function getDeploymentReadings(
   deploymentId: number,
   limit?: number,
@@ -198,6 +306,7 @@ export async function getDeploymentReadings(
     start?: string;
     end?: string;
     preferLatest?: boolean;
+    calibrations?: CalibrationMap | null;
   }
 ): Promise<Reading[]> {
   if (!supabase) return [];
@@ -237,9 +346,9 @@ export async function getDeploymentReadings(
       .from('readings')
       .select('*')
       .eq('device_id', deployment.device_id)
-      .gte('created_at', startIso)
-      .lte('created_at', endIso)
-      .order('created_at', { ascending: !shouldFetchLatestWindow })
+      .gte('measured_at', startIso)
+      .lte('measured_at', endIso)
+      .order('measured_at', { ascending: !shouldFetchLatestWindow })
       .order('id', { ascending: !shouldFetchLatestWindow })
       .limit(limit);
 
@@ -248,12 +357,14 @@ export async function getDeploymentReadings(
       return [];
     }
 
-    const rows = data || [];
+    const rows = (data || []).map((r: Reading) =>
+      applyCalibrationToReading(r, options?.calibrations)
+    );
     if (!shouldFetchLatestWindow) return rows;
 
     return [...rows].sort(
       (a, b) =>
-        new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        new Date(readingTime(a)).getTime() - new Date(readingTime(b)).getTime()
     );
   }
 
@@ -265,9 +376,9 @@ export async function getDeploymentReadings(
       .from('readings')
       .select('*')
       .eq('device_id', deployment.device_id)
-      .gte('created_at', startIso)
-      .lte('created_at', endIso)
-      .order('created_at', { ascending: true })
+      .gte('measured_at', startIso)
+      .lte('measured_at', endIso)
+      .order('measured_at', { ascending: true })
       .order('id', { ascending: true })
       .range(from, to);
 
@@ -277,7 +388,7 @@ export async function getDeploymentReadings(
     }
 
     const page = data || [];
-    rows.push(...page);
+    rows.push(...page.map((r: Reading) => applyCalibrationToReading(r, options?.calibrations)));
     if (page.length < pageSize) {
       break;
     }
@@ -285,20 +396,3 @@ export async function getDeploymentReadings(
 
   return rows;
 }
-
-export async function getDistinctLocations(): Promise<string[]> {
-  if (!supabase) return [];
-
-  const { data, error } = await supabase
-    .from('deployments')
-    .select('location')
-    .order('location');
-
-  if (error) {
-    console.error('Error fetching locations:', error);
-    return [];
-  }
-
-  const locations = [...new Set(data?.map((d) => d.location) || [])];
-  return locations;
-}
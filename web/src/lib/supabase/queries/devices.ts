@@ -1,5 +1,6 @@
 import { supabase } from '../client';
-import type { Device } from '../types';
+import type { Device, DeviceCalibrationHistory } from '../types';
+import { deviceKeyHint, generateDeviceApiKey, hashDeviceApiKey } from '../../deviceKeys';
 
 export async function getDevices(activeOnly = true): Promise<Device[]> {
   if (!supabase) return [];
@@ -39,7 +40,19 @@ export async function createDevice(device: {
 
 export async function updateDevice(
   id: string,
-  updates: Partial<Pick<Device, 'display_name' | 'color' | 'is_active' | 'monitor_enabled' | 'sort_order'>>
+  updates: Partial<Pick<
+    Device,
+    | 'display_name'
+    | 'color'
+    | 'is_active'
+    | 'monitor_enabled'
+    | 'sort_order'
+    | 'temp_offset_c'
+    | 'temp_gain'
+    | 'humidity_offset'
+    | 'humidity_gain'
+    | 'alerts_snoozed_until'
+  >>
 ): Promise<Device | null> {
   if (!supabase) return null;
   const { data, error } = await supabase
@@ -67,3 +80,56 @@ export async function deactivateDevice(id: string): Promise<boolean> {
   }
   return true;
 }
+
+/**
+ * Issues a new ingest key for the device, replacing any existing one.
+ * Returns the plaintext key; it is not stored and cannot be shown again.
+ */
+export async function issueDeviceApiKey(id: string): Promise<string | null> {
+  if (!supabase) return null;
+  const key = generateDeviceApiKey();
+  const { error } = await supabase
+    .from('devices')
+    .update({
+      api_key_hash: await hashDeviceApiKey(key),
+      api_key_prefix: deviceKeyHint(key),
+      api_key_created_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+  if (error) {
+    console.error('Error issuing device API key:', error);
+    throw error;
+  }
+  return key;
+}
+
+export async function revokeDeviceApiKey(id: string): Promise<boolean> {
+  if (!supabase) return false;
+  const { error } = await supabase
+    .from('devices')
+    .update({ api_key_hash: null, api_key_prefix: null, api_key_created_at: null })
+    .eq('id', id);
+  if (error) {
+    console.error('Error revoking device API key:', error);
+    return false;
+  }
+  return true;
+}
+
+export async function getCalibrationHistory(
+  deviceId: string,
+  limit = 20
+): Promise<DeviceCalibrationHistory[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('device_calibration_history')
+    .select('*')
+    .eq('device_id', deviceId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error('Error fetching calibration history:', error);
+    return [];
+  }
+  return data || [];
+}
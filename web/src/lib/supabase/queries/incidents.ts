@@ -0,0 +1,57 @@
+import { supabase } from '../client';
+import type { Incident, NotificationAttempt } from '../types';
+
+/**
+ * Incidents overlapping [start, end]: opened before the end and either still
+ * open or closed after the start. Newest first.
+ */
+export async function getIncidents(params: {
+  start: string;
+  end: string;
+  deviceId?: string;
+}): Promise<Incident[]> {
+  if (!supabase) return [];
+  let query = supabase
+    .from('incidents')
+    .select('*')
+    .lt('opened_at', params.end)
+    .or(`closed_at.is.null,closed_at.gt.${params.start}`)
+    .order('opened_at', { ascending: false });
+
+  if (params.deviceId) {
+    query = query.eq('device_id', params.deviceId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching incidents:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/** Notifications sent for the given incidents, oldest first. */
+export async function getIncidentNotifications(incidentIds: number[]): Promise<NotificationAttempt[]> {
+  if (!supabase || incidentIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('notification_attempts')
+    .select('*')
+    .in('incident_id', incidentIds)
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching incident notifications:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/** Silences the rest of an open incident. Returns null if it was already closed or acknowledged. */
+export async function acknowledgeIncident(id: number): Promise<Incident | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase.rpc('acknowledge_incident', { p_incident_id: id });
+  if (error) {
+    console.error('Error acknowledging incident:', error);
+    throw error;
+  }
+  return (data as Incident[] | null)?.[0] ?? null;
+}
@@ -1,4 +1,4 @@
-export { celsiusToFahrenheit, celsiusDeltaToFahrenheit } from './conversions';
+export { celsiusToFahrenheit, celsiusDeltaToFahrenheit, readingTime } from './conversions';
 export {
   getLatestReading,
   getReadings,
@@ -13,17 +13,70 @@ export {
   getDeployments,
   getDeployment,
   createDeployment,
+  startDeployments,
   updateDeployment,
   endDeployment,
-  deleteDeployment,
+  archiveDeployment,
+  restoreDeployment,
+  purgeDeployment,
   getActiveDeployment,
   getDeploymentStats,
   getDeploymentReadings,
-  getDistinctLocations,
+  getOrphanedReadingSpans,
 } from './deployments';
+export {
+  getDeploymentTemplates,
+  createDeploymentTemplate,
+  updateDeploymentTemplate,
+  deleteDeploymentTemplate,
+} from './deploymentTemplates';
+export type { DeploymentTemplateInput } from './deploymentTemplates';
+export {
+  getLocations,
+  getLocation,
+  getLocationDeployments,
+  createLocation,
+  updateLocation,
+  deleteLocation,
+} from './locations';
+export type { LocationInput } from './locations';
 export {
   getDevices,
   createDevice,
   updateDevice,
   deactivateDevice,
+  getCalibrationHistory,
+  issueDeviceApiKey,
+  revokeDeviceApiKey,
 } from './devices';
+export {
+  getMetrics,
+  getMetricChartSamples,
+  getMetricStats,
+} from './metrics';
+export {
+  getAlertRules,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  getAlertRuleStates,
+} from './alertRules';
+export type { AlertRuleInput } from './alertRules';
+export {
+  getNotificationChannels,
+  createNotificationChannel,
+  updateNotificationChannel,
+  deleteNotificationChannel,
+  getNotificationAttempts,
+} from './notifications';
+export type { NotificationChannelInput } from './notifications';
+export { getIncidents, getIncidentNotifications, acknowledgeIncident } from './incidents';
+export {
+  getMaintenanceWindows,
+  createMaintenanceWindow,
+  endMaintenanceWindow,
+  deleteMaintenanceWindow,
+} from './maintenance';
+export type { MaintenanceWindowInput } from './maintenance';
+export { getAuditLog } from './audit';
+export type { AuditLogFilters } from './audit';
@@ -0,0 +1,106 @@
+import { supabase } from '../client';
+import type { Deployment, Location, LocationWithCount } from '../types';
+import { locationFromFields, toLocationFields } from '../../weatherLocation';
+
+export type LocationInput = Omit<Location, 'id' | 'created_at' | 'updated_at'>;
+
+function normalizeLocation(location: LocationInput): LocationInput {
+  return {
+    name: location.name.trim(),
+    description: location.description?.trim() || null,
+    location_type: location.location_type,
+    ...toLocationFields(locationFromFields(location)),
+  };
+}
+
+/** Every location with how many (unarchived) deployments have been placed there, by name. */
+export async function getLocations(): Promise<LocationWithCount[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('locations')
+    .select('*, deployments(count)')
+    .is('deployments.archived_at', null)
+    .order('name', { ascending: true });
+  if (error) {
+    console.error('Error fetching locations:', error);
+    return [];
+  }
+  return (data || []).map(({ deployments, ...location }: Location & { deployments?: Array<{ count: number }> }) => ({
+    ...location,
+    deployment_count: deployments?.[0]?.count ?? 0,
+  }));
+}
+
+export async function getLocation(id: number): Promise<Location | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('locations')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) {
+    console.error('Error fetching location:', error);
+    return null;
+  }
+  return data;
+}
+
+/** Every unarchived deployment placed at a location, most recent first. */
+export async function getLocationDeployments(locationId: number): Promise<Deployment[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('deployments')
+    .select('*')
+    .eq('location_id', locationId)
+    .is('archived_at', null)
+    .order('started_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching location deployments:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function createLocation(location: LocationInput): Promise<Location | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('locations')
+    .insert(normalizeLocation(location))
+    .select()
+    .single();
+  if (error) {
+    console.error('Error creating location:', error);
+    throw error;
+  }
+  return data;
+}
+
+/** Renaming a location also renames it on its deployments (database trigger). */
+export async function updateLocation(id: number, location: LocationInput): Promise<Location | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('locations')
+    .update(normalizeLocation(location))
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) {
+    console.error('Error updating location:', error);
+    throw error;
+  }
+  return data;
+}
+
+/** Fails for a location that still has deployments. */
+export async function deleteLocation(id: number): Promise<boolean> {
+  if (!supabase) return false;
+  const { error } = await supabase
+    .from('locations')
+    .delete()
+    .eq('id', id);
+  if (error) {
+    console.error('Error deleting location:', error);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,64 @@
+import { supabase } from '../client';
+import type { MaintenanceWindow } from '../types';
+
+export type MaintenanceWindowInput = Omit<MaintenanceWindow, 'id' | 'created_at'>;
+
+/** Windows that have not ended yet, soonest first. */
+export async function getMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('maintenance_windows')
+    .select('*')
+    .gt('ends_at', new Date().toISOString())
+    .order('starts_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching maintenance windows:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function createMaintenanceWindow(
+  window: MaintenanceWindowInput
+): Promise<MaintenanceWindow | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('maintenance_windows')
+    .insert(window)
+    .select()
+    .single();
+  if (error) {
+    console.error('Error creating maintenance window:', error);
+    throw error;
+  }
+  return data;
+}
+
+/** Ends an active window now, keeping it on record. */
+export async function endMaintenanceWindow(id: number): Promise<MaintenanceWindow | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('maintenance_windows')
+    .update({ ends_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) {
+    console.error('Error ending maintenance window:', error);
+    throw error;
+  }
+  return data;
+}
+
+export async function deleteMaintenanceWindow(id: number): Promise<boolean> {
+  if (!supabase) return false;
+  const { error } = await supabase
+    .from('maintenance_windows')
+    .delete()
+    .eq('id', id);
+  if (error) {
+    console.error('Error deleting maintenance window:', error);
+    return false;
+  }
+  return true;
+}
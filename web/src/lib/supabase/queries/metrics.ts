@@ -0,0 +1,61 @@
+import { supabase } from '../client';
+import type { MetricDefinition, MetricSample, MetricStats } from '../types';
+
+export async function getMetrics(): Promise<MetricDefinition[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('metrics')
+    .select('key, display_name, unit, min_value, max_value, display_precision, sort_order, max_delta')
+    .order('sort_order', { ascending: true });
+  if (error) {
+    console.error('Error fetching metrics:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function getMetricChartSamples(params: {
+  start: string;
+  end: string;
+  bucketSeconds: number;
+  metric: string;
+  device_id?: string;
+}): Promise<MetricSample[]> {
+  if (!supabase) return [];
+
+  const bucketMinutes = Math.max(1, Math.round(params.bucketSeconds / 60));
+
+  const { data, error } = await supabase.rpc('get_metric_chart_samples', {
+    p_start: params.start,
+    p_end: params.end,
+    p_bucket_minutes: bucketMinutes,
+    p_metric: params.metric,
+    p_device_id: params.device_id || null,
+  });
+
+  if (error) {
+    console.error('Error fetching metric chart samples:', error.message || error.code || JSON.stringify(error));
+    return [];
+  }
+  return data || [];
+}
+
+export async function getMetricStats(params: {
+  start: string;
+  end: string;
+  device_id?: string;
+}): Promise<MetricStats[]> {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase.rpc('get_metric_stats', {
+    p_start: params.start,
+    p_end: params.end,
+    p_device_id: params.device_id || null,
+  });
+
+  if (error) {
+    console.error('Error fetching metric stats:', error.message || error.code || JSON.stringify(error));
+    return [];
+  }
+  return data || [];
+}
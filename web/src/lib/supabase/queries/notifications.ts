@@ -0,0 +1,79 @@
+import { supabase } from '../client';
+import type { NotificationAttempt, NotificationChannelConfig } from '../types';
+
+export type NotificationChannelInput = Omit<NotificationChannelConfig, 'id' | 'created_at'>;
+
+export async function getNotificationChannels(): Promise<NotificationChannelConfig[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('notification_channels')
+    .select('*')
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching notification channels:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function createNotificationChannel(
+  channel: NotificationChannelInput
+): Promise<NotificationChannelConfig | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('notification_channels')
+    .insert(channel)
+    .select()
+    .single();
+  if (error) {
+    console.error('Error creating notification channel:', error);
+    throw error;
+  }
+  return data;
+}
+
+export async function updateNotificationChannel(
+  id: number,
+  updates: Partial<NotificationChannelInput>
+): Promise<NotificationChannelConfig | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('notification_channels')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) {
+    console.error('Error updating notification channel:', error);
+    throw error;
+  }
+  return data;
+}
+
+export async function deleteNotificationChannel(id: number): Promise<boolean> {
+  if (!supabase) return false;
+  const { error } = await supabase
+    .from('notification_channels')
+    .delete()
+    .eq('id', id);
+  if (error) {
+    console.error('Error deleting notification channel:', error);
+    return false;
+  }
+  return true;
+}
+
+/** Most recent delivery attempts across all channels, newest first. */
+export async function getNotificationAttempts(limit = 50): Promise<NotificationAttempt[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('notification_attempts')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error('Error fetching notification attempts:', error);
+    return [];
+  }
+  return data || [];
+}
@@ -1,5 +1,12 @@
 import { supabase } from '../client';
 import type { Reading, ChartSample, DeviceStats } from '../types';
+import {
+  applyCalibrationToReading,
+  applyCalibrationToSample,
+  applyCalibrationToStats,
+  type CalibrationMap,
+} from '../../calibration';
+import { toWeatherDetails } from '../../weatherDetails';
 
 export interface DashboardLiveData {
   sensor: Record<string, Reading | null>;
@@ -10,7 +17,8 @@ export interface DashboardLiveData {
 export async function getDashboardLive(
   deviceIds: string[],
   sparklineStart: string,
-  sparklineBucketMinutes = 15
+  sparklineBucketMinutes = 15,
+  calibrations?: CalibrationMap | null
 ): Promise<DashboardLiveData> {
   const empty: DashboardLiveData = { sensor: {}, weather: {}, sparklines: {} };
   if (!supabase || deviceIds.length === 0) return empty;
@@ -35,14 +43,15 @@ export async function getDashboardLive(
 
   for (const row of data || []) {
     if (row.row_type === 'sensor') {
-      result.sensor[row.device_id] = {
+      result.sensor[row.device_id] = applyCalibrationToReading({
         id: row.id,
         device_id: row.device_id,
         temperature: row.temperature,
         humidity: row.humidity,
         created_at: row.created_at,
+        measured_at: row.measured_at,
         source: row.source as 'sensor',
-      };
+      }, calibrations);
     } else if (row.row_type === 'weather') {
       const sensorId = row.device_id.replace(/^weather_/, '');
       result.weather[sensorId] = {
@@ -51,17 +60,19 @@ export async function getDashboardLive(
         temperature: row.temperature,
         humidity: row.humidity,
         created_at: row.created_at,
+        measured_at: row.measured_at,
         source: row.source as 'weather',
+        ...toWeatherDetails(row),
       };
     } else if (row.row_type === 'sparkline') {
       if (!result.sparklines[row.device_id]) result.sparklines[row.device_id] = [];
-      result.sparklines[row.device_id].push({
+      result.sparklines[row.device_id].push(applyCalibrationToSample({
         bucket_ts: row.bucket_ts,
         device_id: row.device_id,
         temperature_avg: row.temperature_avg,
         humidity_avg: row.humidity_avg,
         reading_count: row.reading_count,
-      });
+      }, calibrations));
     }
   }
 
@@ -77,7 +88,7 @@ export async function getLatestReading(
     .from('readings')
     .select('*')
     .eq('device_id', deviceId)
-    .order('created_at', { ascending: false })
+    .order('measured_at', { ascending: false })
     .limit(1)
     .maybeSingle();
 
@@ -100,8 +111,8 @@ export async function getReadings(
     .from('readings')
     .select('*')
     .eq('device_id', deviceId)
-    .gte('created_at', since)
-    .order('created_at', { ascending: true });
+    .gte('measured_at', since)
+    .order('measured_at', { ascending: true });
 
   if (maxRows) {
     query = query.limit(maxRows);
@@ -118,7 +129,8 @@ export async function getReadings(
 
 export async function getAllReadings(
   hoursAgo: number,
-  maxRows?: number
+  maxRows?: number,
+  calibrations?: CalibrationMap | null
 ): Promise<Reading[]> {
   if (!supabase) return [];
 
@@ -126,8 +138,8 @@ export async function getAllReadings(
   let query = supabase
     .from('readings')
     .select('*')
-    .gte('created_at', since)
-    .order('created_at', { ascending: true });
+    .gte('measured_at', since)
+    .order('measured_at', { ascending: true });
 
   if (maxRows) {
     query = query.limit(maxRows);
@@ -139,7 +151,7 @@ export async function getAllReadings(
     console.error('Error fetching all readings:', error);
     return [];
   }
-  return data || [];
+  return (data || []).map((r: Reading) => applyCalibrationToReading(r, calibrations));
 }
 
 export async function getAllReadingsRange(params: {
@@ -147,15 +159,16 @@ export async function getAllReadingsRange(params: {
   end: string;
   device_id?: string;
   maxRows?: number;
+  calibrations?: CalibrationMap | null;
 }): Promise<Reading[]> {
   if (!supabase) return [];
 
   let query = supabase
     .from('readings')
     .select('*')
-    .gte('created_at', params.start)
-    .lte('created_at', params.end)
-    .order('created_at', { ascending: true });
+    .gte('measured_at', params.start)
+    .lte('measured_at', params.end)
+    .order('measured_at', { ascending: true });
 
   if (params.device_id) {
     query = query.eq('device_id', params.device_id);
@@ -171,7 +184,7 @@ export async function getAllReadingsRange(params: {
     console.error('Error fetching readings range:', error);
     return [];
   }
-  return data || [];
+  return (data || []).map((r: Reading) => applyCalibrationToReading(r, params.calibrations));
 }
 
 export async function getChartSamples(params: {
@@ -180,6 +193,7 @@ export async function getChartSamples(params: {
   bucketSeconds: number;
   device_id?: string;
   maxRows?: number;
+  calibrations?: CalibrationMap | null;
 }): Promise<ChartSample[]> {
   if (!supabase) return [];
 
@@ -202,13 +216,14 @@ export async function getChartSamples(params: {
     console.error('Error fetching chart samples:', error.message || error.code || JSON.stringify(error));
     return [];
   }
-  return data || [];
+  return (data || []).map((s: ChartSample) => applyCalibrationToSample(s, params.calibrations));
 }
 
 export async function getDeviceStats(params: {
   start: string;
   end: string;
   device_id?: string;
+  calibrations?: CalibrationMap | null;
 }): Promise<DeviceStats[]> {
   if (!supabase) return [];
 
@@ -222,5 +237,5 @@ export async function getDeviceStats(params: {
     console.error('Error fetching device stats:', error.message || error.code || JSON.stringify(error));
     return [];
   }
-  return data || [];
+  return (data || []).map((s: DeviceStats) => applyCalibrationToStats(s, params.calibrations));
 }
@@ -3,11 +3,26 @@ export interface Reading {
   device_id: string;
   temperature: number; // Celsius
   humidity: number;
-  created_at: string;
+  created_at: string; // when the row arrived
+  measured_at?: string; // when the value was measured; see readingTime()
+  sample_count?: number | null; // raw samples averaged into this reading
   source?: 'sensor' | 'weather';
   deployment_id?: number | null;
-  zip_code?: string | null;
+  zip_code?: string | null; // postal code of the weather location
+  country_code?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   observed_at?: string | null;
+  weather_provider?: string | null; // which provider produced a weather row
+  // Observation context on weather rows; see lib/weatherDetails.ts
+  dew_point?: number | null; // Celsius
+  pressure_hpa?: number | null;
+  wind_speed_kph?: number | null;
+  wind_direction_deg?: number | null;
+  cloud_cover?: number | null; // percent
+  precipitation_mm?: number | null;
+  weather_condition?: string | null;
+  metrics?: Record<string, number> | null; // all values keyed by metric key
 }
 
 export interface ChartSample {
@@ -35,18 +50,87 @@ export interface Deployment {
   id: number;
   device_id: string;
   name: string;
+  /** Name of the referenced location, kept in step with it by the database. */
   location: string;
+  location_id: number | null;
   notes: string | null;
+  // Weather location: a postal code (US when `country_code` is null) or
+  // coordinates; read it with locationFromFields().
   zip_code: string | null;
+  country_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
   started_at: string;
   ended_at: string | null;
   created_at: string;
+  /** Set when the deployment was deleted; its readings are kept until a purge. */
+  archived_at: string | null;
 }
 
 export interface DeploymentWithCount extends Deployment {
   reading_count: number;
 }
 
+export type LocationType = 'indoor' | 'outdoor' | 'room';
+
+export interface Location {
+  id: number;
+  name: string;
+  description: string | null;
+  location_type: LocationType;
+  // Default weather location for deployments started here.
+  zip_code: string | null;
+  country_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LocationWithCount extends Location {
+  deployment_count: number;
+}
+
+/** Saved deployment metadata, applied when starting new deployments. */
+export interface DeploymentTemplate {
+  id: number;
+  name: string;
+  deployment_name: string;
+  location: string;
+  notes: string | null;
+  zip_code: string | null;
+  country_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One device's outcome from start_deployments. */
+export interface DeploymentStartResult {
+  device_id: string;
+  deployment_id: number | null;
+  /** The active deployment that was ended to make room, if any. */
+  ended_deployment_id: number | null;
+  /** Why the device was skipped; nothing changed for it when set. */
+  conflict: string | null;
+}
+
+/**
+ * A run of sensor readings on one device that no deployment covers, with the
+ * nearest deployments on either side (from get_orphaned_reading_spans).
+ */
+export interface OrphanedReadingSpan {
+  device_id: string;
+  started_at: string;
+  ended_at: string;
+  reading_count: number;
+  previous_deployment_id: number | null;
+  previous_deployment_name: string | null;
+  next_deployment_id: number | null;
+  next_deployment_name: string | null;
+}
+
 export interface Device {
   id: string;
   display_name: string;
@@ -54,10 +138,28 @@ export interface Device {
   is_active: boolean;
   monitor_enabled: boolean;
   sort_order: number;
+  temp_offset_c: number;
+  temp_gain: number;
+  humidity_offset: number;
+  humidity_gain: number;
+  api_key_prefix?: string | null;
+  api_key_created_at?: string | null;
+  alerts_snoozed_until?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface DeviceCalibrationHistory {
+  id: number;
+  device_id: string;
+  temp_offset_c: number;
+  temp_gain: number;
+  humidity_offset: number;
+  humidity_gain: number;
+  changed_by: string | null;
+  created_at: string;
+}
+
 export interface DeploymentStats {
   deployment_id: number;
   deployment_name?: string;
@@ -74,3 +176,179 @@ export interface DeploymentStats {
   reading_count: number | null;
 }
 
+
+export interface MetricDefinition {
+  key: string;
+  display_name: string;
+  unit: string; // storage unit; temperature is stored in °C
+  min_value: number | null;
+  max_value: number | null;
+  display_precision: number;
+  sort_order: number;
+  /** Largest plausible change between consecutive readings; null skips the spike check. */
+  max_delta?: number | null;
+}
+
+export interface MetricSample {
+  bucket_ts: string;
+  device_id: string;
+  metric: string;
+  value_avg: number;
+  reading_count: number;
+}
+
+export interface MetricStats {
+  device_id: string;
+  metric: string;
+  value_avg: number | null;
+  value_min: number | null;
+  value_max: number | null;
+  value_stddev: number | null;
+  reading_count: number | null;
+}
+
+export type AlertRuleType = 'threshold' | 'weather_deviation';
+export type AlertOperator = 'above' | 'below';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  rule_type: AlertRuleType;
+  metric: string;
+  operator: AlertOperator;
+  threshold: number; // metric storage unit; a delta for weather_deviation
+  duration_minutes: number;
+  device_id: string | null;
+  deployment_id: number | null;
+  severity: AlertSeverity;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertRuleState {
+  rule_id: number;
+  device_id: string;
+  status: 'ok' | 'firing';
+  breach_started_at: string | null;
+  last_value: number | null;
+  last_alert_type: string | null;
+  last_alert_sent_at: string | null;
+  last_recovery_sent_at: string | null;
+  updated_at: string;
+}
+
+export interface DeviceDriftState {
+  device_id: string;
+  status: 'ok' | 'drift';
+  metric: string | null;
+  percent_error: number | null;
+  breach_started_at: string | null;
+  last_alert_type: string | null;
+  last_alert_sent_at: string | null;
+  last_recovery_sent_at: string | null;
+  updated_at: string;
+}
+
+export type NotificationChannelType = 'webhook' | 'slack' | 'discord' | 'ntfy';
+
+export interface NotificationChannelConfig {
+  id: number;
+  name: string;
+  channel_type: NotificationChannelType;
+  url: string;
+  secret: string | null; // webhook signing secret or ntfy token
+  device_id: string | null;
+  rule_id: number | null;
+  enabled: boolean;
+  created_at: string;
+}
+
+export interface NotificationAttempt {
+  id: number;
+  channel_id: number | null;
+  incident_id: number | null;
+  channel_type: string;
+  device_id: string;
+  rule_id: number | null;
+  alert_kind: 'problem' | 'recovery';
+  subject: string;
+  ok: boolean;
+  status_code: number | null;
+  error: string | null;
+  created_at: string;
+}
+
+export type IncidentStatus = 'missing' | 'stale' | 'anomaly' | 'flatline' | 'spike' | 'drift' | 'firing';
+
+export interface Incident {
+  id: number;
+  device_id: string;
+  rule_id: number | null;
+  status: IncidentStatus;
+  severity: string | null;
+  reason: string;
+  opened_at: string;
+  detected_at: string;
+  closed_at: string | null;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  created_at: string;
+}
+
+export interface MaintenanceWindow {
+  id: number;
+  /** Null covers every monitored device. */
+  device_id: string | null;
+  deployment_id: number | null;
+  reason: string | null;
+  starts_at: string;
+  ends_at: string;
+  created_at: string;
+}
+
+/** Access level from user_roles; users without a row are viewers. */
+export type AppRole = 'viewer' | 'operator' | 'admin';
+
+/** A pending, used, expired or revoked invitation, without its token hash. */
+export interface UserInvitation {
+  id: number;
+  email: string;
+  role: AppRole;
+  invited_by: string | null;
+  created_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_user_id: string | null;
+  revoked_at: string | null;
+}
+
+/** An auth user as listed on /admin/users (from the Auth admin API plus user_roles). */
+export interface ManagedUser {
+  id: string;
+  email: string | null;
+  role: AppRole;
+  created_at: string;
+  last_sign_in_at: string | null;
+  disabled: boolean;
+}
+
+export type AuditEntityType = 'device' | 'deployment' | 'app_setting' | 'user';
+
+export interface AuditEntry {
+  id: number;
+  occurred_at: string;
+  /** Null for changes made by service-role code (ingest, cron, server routes). */
+  actor_id: string | null;
+  actor_email: string | null;
+  /** `<entity_type>.<verb>`, e.g. `device.deactivate` or `deployment.purge`. */
+  action: string;
+  entity_type: AuditEntityType;
+  /** Row id, the setting key for app_setting entries, or the auth user id for user entries. */
+  entity_id: string | null;
+  /** Row snapshot before the change; null for creates. */
+  before: Record<string, unknown> | null;
+  /** Row snapshot after the change; null for deletes and purges. */
+  after: Record<string, unknown> | null;
+}
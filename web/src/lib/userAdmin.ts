@@ -0,0 +1,193 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import type { AppRole, ManagedUser, UserInvitation } from './supabase/types';
+
+// User management for /admin/users. Everything goes through the /api/admin
+// and /api/invitations routes, which use the service role; the browser client
+// never touches auth users, roles or invitations directly. The token helpers
+// use Web Crypto so the routes and their tests share them.
+
+export const INVITATION_TTL_DAYS = 7;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const INVITATION_TOKEN_PREFIX = 'inv_';
+const INVITATION_TOKEN_BYTES = 32;
+/** Long enough to read as "disabled until further notice". */
+export const DISABLED_BAN_DURATION = '876000h';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function generateInvitationToken(): string {
+  const bytes = new Uint8Array(INVITATION_TOKEN_BYTES);
+  crypto.getRandomValues(bytes);
+  return `${INVITATION_TOKEN_PREFIX}${toHex(bytes)}`;
+}
+
+export async function hashInvitationToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * The /invite link for a token. Uses the configured dashboard URL so links are
+ * not built from a Host header a proxy or preview deployment may rewrite; the
+ * request origin is only a fallback when none is set.
+ */
+export function invitationUrl(token: string, siteUrl: string | undefined, requestUrl: string): string {
+  let origin = new URL(requestUrl).origin;
+  if (siteUrl) {
+    try {
+      origin = new URL(siteUrl).origin;
+    } catch {
+      console.error('ALERT_DASHBOARD_URL is not a valid URL; using the request origin');
+    }
+  }
+  return `${origin}/invite/${token}`;
+}
+
+export function invitationExpiry(nowMs: number, days = INVITATION_TTL_DAYS): string {
+  return new Date(nowMs + days * 24 * 3_600_000).toISOString();
+}
+
+/** Revoked and accepted win over expiry, so history reads the way it happened. */
+export function invitationStatus(
+  invitation: Pick<UserInvitation, 'accepted_at' | 'revoked_at' | 'expires_at'>,
+  nowMs: number
+): InvitationStatus {
+  if (invitation.revoked_at) return 'revoked';
+  if (invitation.accepted_at) return 'accepted';
+  return Date.parse(invitation.expires_at) <= nowMs ? 'expired' : 'pending';
+}
+
+const INVITATION_STATUS_ERRORS: Record<Exclude<InvitationStatus, 'pending'>, string> = {
+  accepted: 'This invitation has already been used',
+  expired: 'This invitation has expired; ask an admin for a new one',
+  revoked: 'This invitation was revoked',
+};
+
+/** Why an invitation link cannot be used, or null while it is pending. */
+export function invitationError(status: InvitationStatus): string | null {
+  return status === 'pending' ? null : INVITATION_STATUS_ERRORS[status];
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+export function toManagedUser(
+  user: Pick<User, 'id' | 'email' | 'created_at' | 'last_sign_in_at' | 'banned_until'>,
+  role: AppRole,
+  nowMs: number
+): ManagedUser {
+  return {
+    id: user.id,
+    email: user.email ?? null,
+    role,
+    created_at: user.created_at,
+    last_sign_in_at: user.last_sign_in_at ?? null,
+    disabled: Boolean(user.banned_until && Date.parse(user.banned_until) > nowMs),
+  };
+}
+
+const LIST_USERS_PAGE_SIZE = 1000;
+
+/** Every auth user, following the admin API's pages. Service-role client only. */
+export async function listAuthUsers(supabase: SupabaseClient): Promise<User[]> {
+  const users: User[] = [];
+  for (let page = 1; ; page += 1) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage: LIST_USERS_PAGE_SIZE });
+    if (error) throw new Error(`Failed to list users: ${error.message}`);
+    users.push(...data.users);
+    if (data.users.length < LIST_USERS_PAGE_SIZE) return users;
+  }
+}
+
+/** Writes a user-management entry to audit_log; failures are logged, not thrown. */
+export async function recordUserAudit(
+  supabase: SupabaseClient,
+  entry: {
+    actor: { id: string; email?: string | null };
+    action: string;
+    userId: string | null;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+  }
+): Promise<void> {
+  const { error } = await supabase.from('audit_log').insert({
+    actor_id: entry.actor.id,
+    actor_email: entry.actor.email ?? null,
+    action: entry.action,
+    entity_type: 'user',
+    entity_id: entry.userId,
+    before: entry.before ?? null,
+    after: entry.after ?? null,
+  });
+  if (error) console.error('Failed to write audit entry:', error.message);
+}
+
+// ---------------------------------------------------------------------------
+// Browser helpers for the routes. Each throws with the route's error message.
+// ---------------------------------------------------------------------------
+
+export type UserDirectory = { users: ManagedUser[]; invitations: UserInvitation[] };
+
+export type InviteResult = {
+  invitation: UserInvitation;
+  /** Shown once; only its hash is stored. */
+  invite_url: string;
+  emailed: boolean;
+  email_error?: string;
+};
+
+async function callRoute<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body = (await res.json().catch(() => null)) as ({ ok?: boolean; error?: string } & T) | null;
+  if (!res.ok || !body?.ok) {
+    throw new Error(body?.error || `Request failed (HTTP ${res.status})`);
+  }
+  return body;
+}
+
+export function getUserDirectory(): Promise<UserDirectory> {
+  return callRoute<UserDirectory>('/api/admin/users');
+}
+
+export function inviteUser(email: string, role: AppRole): Promise<InviteResult> {
+  return callRoute<InviteResult>('/api/admin/users', {
+    method: 'POST',
+    body: JSON.stringify({ email, role }),
+  });
+}
+
+export async function updateManagedUser(
+  userId: string,
+  changes: { role?: AppRole; disabled?: boolean }
+): Promise<ManagedUser> {
+  const { user } = await callRoute<{ user: ManagedUser }>(`/api/admin/users/${encodeURIComponent(userId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return user;
+}
+
+export async function revokeInvitation(invitationId: number): Promise<void> {
+  await callRoute(`/api/admin/invitations/${invitationId}`, { method: 'DELETE' });
+}
+
+export function lookupInvitation(token: string): Promise<{ email: string; role: AppRole; expires_at: string }> {
+  return callRoute('/api/invitations/lookup', { method: 'POST', body: JSON.stringify({ token }) });
+}
+
+export function acceptInvitation(token: string, password: string): Promise<{ email: string }> {
+  return callRoute('/api/invitations/accept', { method: 'POST', body: JSON.stringify({ token, password }) });
+}
@@ -0,0 +1,145 @@
+import type { WeatherDetails } from './weatherDetails';
+import { toLocationFields, type WeatherLocation, type WeatherLocationFields } from './weatherLocation';
+import type { WeatherObservation } from './weatherProviders';
+
+// Historical weather for a deployment's window. The window is walked in
+// chunks, one request each, so a long deployment never runs into a serverless
+// timeout. Rows are stamped on the observation hour, which keeps them inside
+// the per-hour unique index on weather readings.
+
+export const BACKFILL_CHUNK_DAYS = 7;
+const HOUR_MS = 3_600_000;
+
+export type BackfillWindow = { startMs: number; endMs: number };
+
+/** `started_at` to `ended_at` (or now for an active deployment); null when empty. */
+export function backfillWindow(
+  deployment: { started_at: string; ended_at: string | null },
+  nowMs = Date.now()
+): BackfillWindow | null {
+  const startMs = Date.parse(deployment.started_at);
+  const endMs = Math.min(deployment.ended_at ? Date.parse(deployment.ended_at) : nowMs, nowMs);
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || endMs <= startMs) return null;
+  return { startMs, endMs };
+}
+
+/** The chunk starting at `cursorMs` (default: the window start). */
+export function backfillChunk(
+  window: BackfillWindow,
+  cursorMs?: number | null
+): BackfillWindow & { done: boolean } {
+  const startMs = Math.max(window.startMs, cursorMs ?? window.startMs);
+  const endMs = Math.min(window.endMs, startMs + BACKFILL_CHUNK_DAYS * 86_400_000);
+  return { startMs, endMs, done: endMs >= window.endMs };
+}
+
+/** ISO start of the UTC hour containing `ms`, the bucket the unique index uses. */
+export function hourKey(ms: number): string {
+  return new Date(Math.floor(ms / HOUR_MS) * HOUR_MS).toISOString();
+}
+
+export type BackfillTarget = { deviceId: string; deploymentId: number; location: WeatherLocation };
+
+export type BackfillRow = WeatherLocationFields & WeatherDetails & {
+  device_id: string;
+  temperature: number;
+  humidity: number;
+  source: 'weather';
+  weather_provider: string;
+  deployment_id: number;
+  observed_at: string;
+  created_at: string;
+};
+
+/**
+ * One row per hour not already stored. `created_at` is set to the observation
+ * time rather than the insert time, so the row sits in the hour it describes.
+ */
+export function planBackfillRows(
+  observations: WeatherObservation[],
+  existingCreatedAt: string[],
+  target: BackfillTarget
+): BackfillRow[] {
+  const taken = new Set(existingCreatedAt.map((t) => hourKey(Date.parse(t))));
+  const rows: BackfillRow[] = [];
+  const sorted = [...observations].sort((a, b) => Date.parse(a.observedAt) - Date.parse(b.observedAt));
+  for (const obs of sorted) {
+    const key = hourKey(Date.parse(obs.observedAt));
+    if (taken.has(key)) continue;
+    taken.add(key);
+    rows.push({
+      device_id: target.deviceId,
+      temperature: obs.temperature,
+      humidity: obs.humidity,
+      source: 'weather',
+      weather_provider: obs.provider,
+      deployment_id: target.deploymentId,
+      ...toLocationFields(target.location),
+      observed_at: obs.observedAt,
+      created_at: obs.observedAt,
+      ...obs.details,
+    });
+  }
+  return rows;
+}
+
+/** One chunk's result from POST /api/weather/backfill. */
+export type BackfillChunkResponse = {
+  ok: boolean;
+  error?: string;
+  window_start: string;
+  window_end: string;
+  chunk_start: string;
+  chunk_end: string;
+  next_cursor: string | null;
+  done: boolean;
+  provider: string | null;
+  inserted_count: number;
+  skipped_existing_count: number;
+  errors?: string[];
+};
+
+export type BackfillProgress = {
+  /** 0–1 share of the window covered so far. */
+  fraction: number;
+  insertedCount: number;
+  skippedCount: number;
+  errors: string[];
+  done: boolean;
+};
+
+/**
+ * Drives the backfill route chunk by chunk from the browser, reporting running
+ * totals after each chunk. Throws when a chunk fails outright; per-row insert
+ * errors are collected and the walk continues.
+ */
+export async function runWeatherBackfill(
+  deploymentId: number,
+  onProgress: (progress: BackfillProgress) => void
+): Promise<BackfillProgress> {
+  const progress: BackfillProgress = { fraction: 0, insertedCount: 0, skippedCount: 0, errors: [], done: false };
+  let cursor: string | null = null;
+
+  while (!progress.done) {
+    const res = await fetch('/api/weather/backfill', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ deployment_id: deploymentId, cursor }),
+    });
+    const body = (await res.json().catch(() => null)) as BackfillChunkResponse | null;
+    if (!res.ok || !body?.ok) {
+      throw new Error(body?.error || `Backfill failed (HTTP ${res.status})`);
+    }
+
+    const windowStart = Date.parse(body.window_start);
+    const span = Date.parse(body.window_end) - windowStart;
+    progress.fraction = span > 0 ? Math.min(1, (Date.parse(body.chunk_end) - windowStart) / span) : 1;
+    progress.insertedCount += body.inserted_count;
+    progress.skippedCount += body.skipped_existing_count;
+    progress.errors.push(...(body.errors ?? []));
+    progress.done = body.done;
+    cursor = body.next_cursor;
+    onProgress({ ...progress, errors: [...progress.errors] });
+  }
+  return progress;
+}
@@ -1,4 +1,4 @@
-import { toSensorDeviceId, toWeatherDeviceId } from './weatherZip';
+import { toSensorDeviceId, toWeatherDeviceId } from './weatherLocation';
 
 export function getScopedCompareDeviceIds(params: {
   deviceFilter?: string;
@@ -0,0 +1,114 @@
+import { celsiusToFahrenheit } from './supabase/queries/conversions';
+
+// Observation context stored alongside a weather row's temperature and
+// humidity. Keys match the `readings` columns, so a details object can be
+// spread straight into an insert. Every field is optional on the provider
+// side and stays null when it was not reported.
+
+export type WeatherDetails = {
+  dew_point: number | null; // Celsius
+  pressure_hpa: number | null;
+  wind_speed_kph: number | null;
+  wind_direction_deg: number | null;
+  cloud_cover: number | null; // percent
+  precipitation_mm: number | null;
+  weather_condition: string | null;
+};
+
+export type NumericWeatherDetail = Exclude<keyof WeatherDetails, 'weather_condition'>;
+
+/**
+ * Details used as covariates in the correlation analysis. Wind direction is
+ * left out: it is circular, so a linear correlation against degrees means little.
+ */
+export const WEATHER_COVARIATES: Array<{ key: NumericWeatherDetail; label: string }> = [
+  { key: 'dew_point', label: 'Dew point' },
+  { key: 'pressure_hpa', label: 'Pressure' },
+  { key: 'wind_speed_kph', label: 'Wind speed' },
+  { key: 'cloud_cover', label: 'Cloud cover' },
+  { key: 'precipitation_mm', label: 'Precipitation' },
+];
+
+function finiteOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/** Builds a details object from loosely typed provider or RPC values. */
+export function toWeatherDetails(values: Partial<Record<keyof WeatherDetails, unknown>>): WeatherDetails {
+  const condition = typeof values.weather_condition === 'string' ? values.weather_condition.trim() : '';
+  return {
+    dew_point: finiteOrNull(values.dew_point),
+    pressure_hpa: finiteOrNull(values.pressure_hpa),
+    wind_speed_kph: finiteOrNull(values.wind_speed_kph),
+    wind_direction_deg: finiteOrNull(values.wind_direction_deg),
+    cloud_cover: finiteOrNull(values.cloud_cover),
+    precipitation_mm: finiteOrNull(values.precipitation_mm),
+    weather_condition: condition || null,
+  };
+}
+
+// WMO weather interpretation codes, as returned in Open-Meteo's `weather_code`.
+const WMO_CONDITIONS: Record<number, string> = {
+  0: 'Clear sky',
+  1: 'Mainly clear',
+  2: 'Partly cloudy',
+  3: 'Overcast',
+  45: 'Fog',
+  48: 'Depositing rime fog',
+  51: 'Light drizzle',
+  53: 'Moderate drizzle',
+  55: 'Dense drizzle',
+  56: 'Light freezing drizzle',
+  57: 'Dense freezing drizzle',
+  61: 'Slight rain',
+  63: 'Moderate rain',
+  65: 'Heavy rain',
+  66: 'Light freezing rain',
+  67: 'Heavy freezing rain',
+  71: 'Slight snow',
+  73: 'Moderate snow',
+  75: 'Heavy snow',
+  77: 'Snow grains',
+  80: 'Slight rain showers',
+  81: 'Moderate rain showers',
+  82: 'Violent rain showers',
+  85: 'Slight snow showers',
+  86: 'Heavy snow showers',
+  95: 'Thunderstorm',
+  96: 'Thunderstorm with slight hail',
+  99: 'Thunderstorm with heavy hail',
+};
+
+export function wmoCondition(code: number | null | undefined): string | null {
+  return code == null ? null : WMO_CONDITIONS[code] ?? null;
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export function compassDirection(degrees: number): string {
+  const index = Math.round((((degrees % 360) + 360) % 360) / 45) % COMPASS_POINTS.length;
+  return COMPASS_POINTS[index];
+}
+
+/**
+ * Label/value pairs for display, in the dashboard's US units (°F, mph,
+ * inches). Fields that were not reported are left out.
+ */
+export function formatWeatherDetails(details: Partial<WeatherDetails>): Array<{ label: string; value: string }> {
+  const rows: Array<{ label: string; value: string }> = [];
+  if (details.weather_condition) rows.push({ label: 'Conditions', value: details.weather_condition });
+  if (details.dew_point != null) {
+    rows.push({ label: 'Dew point', value: `${celsiusToFahrenheit(details.dew_point).toFixed(1)}°F` });
+  }
+  if (details.wind_speed_kph != null) {
+    const mph = (details.wind_speed_kph / 1.609344).toFixed(1);
+    const direction = details.wind_direction_deg != null ? ` ${compassDirection(details.wind_direction_deg)}` : '';
+    rows.push({ label: 'Wind', value: `${mph} mph${direction}` });
+  }
+  if (details.pressure_hpa != null) rows.push({ label: 'Pressure', value: `${details.pressure_hpa.toFixed(0)} hPa` });
+  if (details.cloud_cover != null) rows.push({ label: 'Cloud cover', value: `${details.cloud_cover.toFixed(0)}%` });
+  if (details.precipitation_mm != null) {
+    rows.push({ label: 'Precipitation', value: `${(details.precipitation_mm / 25.4).toFixed(2)} in` });
+  }
+  return rows;
+}
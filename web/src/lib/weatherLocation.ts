@@ -0,0 +1,157 @@
+// Where a deployment's reference weather comes from: a US ZIP, a postal code
+// in another country, or plain coordinates for sites with no useful postal
+// code. Parsing, validation and the stored column layout all live here.
+
+const US_ZIP_CODE_PATTERN = /^\d{5}(?:-\d{4})?$/;
+// Formats vary by country, but real postal codes contain a digit; place names do not.
+const POSTAL_CODE_PATTERN = /^(?=.*\d)[A-Z0-9][A-Z0-9 -]{1,9}$/;
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+const COORDINATES_PATTERN = /^(-?\d{1,3}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)$/;
+const POSTAL_WITH_COUNTRY_PATTERN = /^(.+?)\s*,\s*([A-Za-z]{2})$/;
+// Two decimal places is about 1 km, well inside a weather model grid cell.
+const COORDINATE_KEY_DECIMALS = 2;
+
+export type WeatherLocation =
+  | { kind: 'us_zip'; zipCode: string }
+  | { kind: 'postal'; postalCode: string; countryCode: string }
+  | { kind: 'coordinates'; latitude: number; longitude: number };
+
+/** Columns a location is stored in, on `deployments` and on weather readings. */
+export type WeatherLocationFields = {
+  zip_code: string | null;
+  country_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+/**
+ * Returns a trimmed US zip code (ZIP or ZIP+4) when valid, otherwise null.
+ */
+export function normalizeUsZipCode(value: string | null | undefined): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  return US_ZIP_CODE_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+/** Upper-cased postal code with single spaces, or null. */
+export function normalizePostalCode(value: string | null | undefined): string | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().replace(/\s+/g, ' ').toUpperCase();
+  return POSTAL_CODE_PATTERN.test(normalized) ? normalized : null;
+}
+
+/** ISO 3166-1 alpha-2 country code, upper-cased, or null. */
+export function normalizeCountryCode(value: string | null | undefined): string | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toUpperCase();
+  return COUNTRY_CODE_PATTERN.test(normalized) ? normalized : null;
+}
+
+function toCoordinates(latitude: unknown, longitude: unknown): WeatherLocation | null {
+  const lat = typeof latitude === 'string' ? Number(latitude) : latitude;
+  const lon = typeof longitude === 'string' ? Number(longitude) : longitude;
+  if (typeof lat !== 'number' || typeof lon !== 'number') return null;
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { kind: 'coordinates', latitude: lat, longitude: lon };
+}
+
+function toPostal(postalCode: string | null | undefined, countryCode: string | null | undefined): WeatherLocation | null {
+  const country = countryCode == null || countryCode === '' ? 'US' : normalizeCountryCode(countryCode);
+  if (!country) return null;
+  if (country === 'US') {
+    const zipCode = normalizeUsZipCode(postalCode);
+    return zipCode ? { kind: 'us_zip', zipCode } : null;
+  }
+  const normalized = normalizePostalCode(postalCode);
+  return normalized ? { kind: 'postal', postalCode: normalized, countryCode: country } : null;
+}
+
+/**
+ * Parses what a user typed: `85142` or `85142-1234`, a postal code followed
+ * by its country code (`M5V 3L9, CA`), or `latitude, longitude`
+ * (`43.65, -79.38`).
+ */
+export function parseWeatherLocation(value: string | null | undefined): WeatherLocation | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const coordinates = COORDINATES_PATTERN.exec(trimmed);
+  if (coordinates) return toCoordinates(coordinates[1], coordinates[2]);
+
+  const postal = POSTAL_WITH_COUNTRY_PATTERN.exec(trimmed);
+  if (postal) return toPostal(postal[1], postal[2]);
+
+  return toPostal(trimmed, 'US');
+}
+
+/**
+ * Empty input is considered valid for optional fields.
+ */
+export function isValidOptionalWeatherLocation(value: string): boolean {
+  if (!value.trim()) return true;
+  return parseWeatherLocation(value) !== null;
+}
+
+/**
+ * Reads stored columns. Coordinates win when both they and a postal code are
+ * set; a postal code without a country is a US ZIP, as before countries existed.
+ */
+export function locationFromFields(fields: Partial<WeatherLocationFields>): WeatherLocation | null {
+  if (fields.latitude != null && fields.longitude != null) {
+    const coordinates = toCoordinates(fields.latitude, fields.longitude);
+    if (coordinates) return coordinates;
+  }
+  return fields.zip_code ? toPostal(fields.zip_code, fields.country_code) : null;
+}
+
+export function toLocationFields(location: WeatherLocation | null): WeatherLocationFields {
+  switch (location?.kind) {
+    case 'us_zip':
+      return { zip_code: location.zipCode, country_code: 'US', latitude: null, longitude: null };
+    case 'postal':
+      return { zip_code: location.postalCode, country_code: location.countryCode, latitude: null, longitude: null };
+    case 'coordinates':
+      return { zip_code: null, country_code: null, latitude: location.latitude, longitude: location.longitude };
+    default:
+      return { zip_code: null, country_code: null, latitude: null, longitude: null };
+  }
+}
+
+/** Display form; parses back to the same location. */
+export function formatWeatherLocation(location: WeatherLocation): string {
+  switch (location.kind) {
+    case 'us_zip':
+      return location.zipCode;
+    case 'postal':
+      return `${location.postalCode}, ${location.countryCode}`;
+    case 'coordinates':
+      return `${location.latitude}, ${location.longitude}`;
+  }
+}
+
+/**
+ * Grouping key: locations with the same key get the same weather, so it is
+ * fetched once. ZIP+4 codes share their 5-digit ZIP, and coordinates are
+ * rounded to about a kilometre.
+ */
+export function weatherLocationKey(location: WeatherLocation): string {
+  switch (location.kind) {
+    case 'us_zip':
+      return `US:${location.zipCode.slice(0, 5)}`;
+    case 'postal':
+      return `${location.countryCode}:${location.postalCode}`;
+    case 'coordinates':
+      return `${location.latitude.toFixed(COORDINATE_KEY_DECIMALS)},${location.longitude.toFixed(COORDINATE_KEY_DECIMALS)}`;
+  }
+}
+
+export function toWeatherDeviceId(deviceId: string): string {
+  return deviceId.startsWith('weather_') ? deviceId : `weather_${deviceId}`;
+}
+
+export function toSensorDeviceId(deviceId: string): string {
+  return deviceId.startsWith('weather_') ? deviceId.slice('weather_'.length) : deviceId;
+}
@@ -0,0 +1,340 @@
+import { toWeatherDetails, wmoCondition, type WeatherDetails } from './weatherDetails';
+import { formatWeatherLocation, type WeatherLocation } from './weatherLocation';
+
+// Outdoor reference weather for a deployment location. Each provider turns one
+// location into a current observation; failures are reported in the result,
+// never thrown, so the next provider in the configured order can be tried.
+
+export const WEATHER_PROVIDER_NAMES = ['weatherapi', 'open-meteo'] as const;
+export type WeatherProviderName = (typeof WEATHER_PROVIDER_NAMES)[number];
+
+// Open-Meteo needs no key, so it backs WeatherAPI up out of the box.
+export const DEFAULT_WEATHER_PROVIDERS: WeatherProviderName[] = ['weatherapi', 'open-meteo'];
+
+const FETCH_TIMEOUT_MS = 8000;
+// Besides US ZIPs, WeatherAPI's `q` only understands UK and Canadian postcodes.
+const WEATHER_API_POSTAL_COUNTRIES = ['GB', 'CA'];
+// Open-Meteo's reanalysis archive trails real time by about five days; more
+// recent hours come from the forecast endpoint, which keeps recent past days.
+const ARCHIVE_LAG_MS = 5 * 86_400_000;
+
+export interface WeatherObservation {
+  provider: WeatherProviderName;
+  temperature: number; // Celsius
+  humidity: number;
+  observedAt: string;
+  details: WeatherDetails;
+}
+
+export type WeatherResult =
+  | { ok: true; observation: WeatherObservation }
+  | { ok: false; provider: WeatherProviderName; error: string };
+
+export type WeatherHistoryResult =
+  | { ok: true; provider: WeatherProviderName; observations: WeatherObservation[] }
+  | { ok: false; provider: WeatherProviderName; error: string };
+
+export interface WeatherProvider {
+  readonly name: WeatherProviderName;
+  current(location: WeatherLocation): Promise<WeatherResult>;
+  /** Hourly observations in [startMs, endMs); left out by providers without an archive. */
+  history?(location: WeatherLocation, startMs: number, endMs: number): Promise<WeatherHistoryResult>;
+}
+
+type WeatherApiCurrent = {
+  current?: {
+    temp_c?: number;
+    humidity?: number;
+    last_updated_epoch?: number;
+    dewpoint_c?: number;
+    pressure_mb?: number;
+    wind_kph?: number;
+    wind_degree?: number;
+    cloud?: number;
+    precip_mm?: number;
+    condition?: { text?: string };
+  };
+};
+
+type OpenMeteoGeocoding = {
+  results?: Array<{ latitude: number; longitude: number }>;
+};
+
+// Requested alongside temperature and humidity from both Open-Meteo endpoints.
+const OPEN_METEO_VARIABLES = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'dew_point_2m',
+  'pressure_msl',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'cloud_cover',
+  'precipitation',
+  'weather_code',
+] as const;
+
+type OpenMeteoVariable = (typeof OPEN_METEO_VARIABLES)[number];
+
+type OpenMeteoForecast = {
+  current?: { time?: number } & Partial<Record<OpenMeteoVariable, number | null>>;
+};
+
+type OpenMeteoHourly = {
+  hourly?: { time?: number[] } & Partial<Record<OpenMeteoVariable, Array<number | null>>>;
+};
+
+async function getJson<T>(url: string, label: string): Promise<T> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!res.ok) {
+    const detail = (await res.text().catch(() => '')).slice(0, 200);
+    throw new Error(`${label} HTTP ${res.status}${detail ? `: ${detail}` : ''}`);
+  }
+  return (await res.json()) as T;
+}
+
+function toObservation(
+  provider: WeatherProviderName,
+  temperature: number | undefined,
+  humidity: number | undefined,
+  epochSeconds: number | undefined,
+  details: WeatherDetails
+): WeatherObservation {
+  if (!Number.isFinite(temperature) || !Number.isFinite(humidity)) {
+    throw new Error('Invalid weather payload');
+  }
+  return {
+    provider,
+    temperature: temperature as number,
+    humidity: humidity as number,
+    observedAt: Number.isFinite(epochSeconds)
+      ? new Date((epochSeconds as number) * 1000).toISOString()
+      : new Date().toISOString(),
+    details,
+  };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function makeProvider(
+  name: WeatherProviderName,
+  fetchCurrent: (location: WeatherLocation) => Promise<WeatherObservation>,
+  fetchHistory?: (location: WeatherLocation, startMs: number, endMs: number) => Promise<WeatherObservation[]>
+): WeatherProvider {
+  const provider: WeatherProvider = {
+    name,
+    current: async (location) => {
+      try {
+        return { ok: true, observation: await fetchCurrent(location) };
+      } catch (err) {
+        return { ok: false, provider: name, error: errorMessage(err) };
+      }
+    },
+  };
+  if (fetchHistory) {
+    provider.history = async (location, startMs, endMs) => {
+      try {
+        return { ok: true, provider: name, observations: await fetchHistory(location, startMs, endMs) };
+      } catch (err) {
+        return { ok: false, provider: name, error: errorMessage(err) };
+      }
+    };
+  }
+  return provider;
+}
+
+function weatherApiQuery(location: WeatherLocation): string {
+  switch (location.kind) {
+    case 'us_zip':
+      return location.zipCode;
+    case 'coordinates':
+      return `${location.latitude},${location.longitude}`;
+    case 'postal':
+      if (WEATHER_API_POSTAL_COUNTRIES.includes(location.countryCode)) return location.postalCode;
+      throw new Error(`WeatherAPI cannot look up postal codes in ${location.countryCode}`);
+  }
+}
+
+/** WeatherAPI.com current conditions; takes ZIPs, UK/Canadian postcodes and coordinates directly. */
+export function createWeatherApiProvider(apiKey: string): WeatherProvider {
+  return makeProvider('weatherapi', async (location) => {
+    const url = `https://api.weatherapi.com/v1/current.json?key=${apiKey}&q=${encodeURIComponent(weatherApiQuery(location))}`;
+    const weather = await getJson<WeatherApiCurrent>(url, 'WeatherAPI');
+    const current = weather.current;
+    return toObservation('weatherapi', current?.temp_c, current?.humidity, current?.last_updated_epoch, toWeatherDetails({
+      dew_point: current?.dewpoint_c,
+      pressure_hpa: current?.pressure_mb,
+      wind_speed_kph: current?.wind_kph,
+      wind_direction_deg: current?.wind_degree,
+      cloud_cover: current?.cloud,
+      precipitation_mm: current?.precip_mm,
+      weather_condition: current?.condition?.text,
+    }));
+  });
+}
+
+async function geocode(name: string, countryCode: string): Promise<{ latitude: number; longitude: number } | null> {
+  const geo = await getJson<OpenMeteoGeocoding>(
+    `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(name)}&count=1&countryCode=${countryCode}&format=json`,
+    'Open-Meteo geocoding'
+  );
+  return geo.results?.[0] ?? null;
+}
+
+async function resolveCoordinates(location: WeatherLocation): Promise<{ latitude: number; longitude: number }> {
+  if (location.kind === 'coordinates') return location;
+  if (location.kind === 'us_zip') {
+    // The geocoder indexes 5-digit ZIPs only.
+    const zip5 = location.zipCode.slice(0, 5);
+    const place = await geocode(zip5, 'US');
+    if (!place) throw new Error(`Open-Meteo could not geocode ${zip5}`);
+    return place;
+  }
+  // Several countries are indexed by the outward part only (Canadian FSA,
+  // UK outcode), so fall back to it when the full code is not found.
+  const outward = location.postalCode.split(' ')[0];
+  const place = (await geocode(location.postalCode, location.countryCode)) ??
+    (outward !== location.postalCode ? await geocode(outward, location.countryCode) : null);
+  if (!place) throw new Error(`Open-Meteo could not geocode ${formatWeatherLocation(location)}`);
+  return place;
+}
+
+const utcDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+function openMeteoDetails(values: Partial<Record<OpenMeteoVariable, number | null>>): WeatherDetails {
+  return toWeatherDetails({
+    dew_point: values.dew_point_2m,
+    pressure_hpa: values.pressure_msl,
+    wind_speed_kph: values.wind_speed_10m,
+    wind_direction_deg: values.wind_direction_10m,
+    cloud_cover: values.cloud_cover,
+    precipitation_mm: values.precipitation,
+    weather_condition: wmoCondition(values.weather_code),
+  });
+}
+
+/** Open-Meteo: postal codes are geocoded first, then conditions are read for that point. */
+export function createOpenMeteoProvider(): WeatherProvider {
+  return makeProvider(
+    'open-meteo',
+    async (location) => {
+      const place = await resolveCoordinates(location);
+      const forecast = await getJson<OpenMeteoForecast>(
+        `https://api.open-meteo.com/v1/forecast?latitude=${place.latitude}&longitude=${place.longitude}` +
+          `&current=${OPEN_METEO_VARIABLES.join(',')}&timeformat=unixtime`,
+        'Open-Meteo'
+      );
+      const current = forecast.current ?? {};
+      return toObservation(
+        'open-meteo',
+        current.temperature_2m ?? undefined,
+        current.relative_humidity_2m ?? undefined,
+        current.time,
+        openMeteoDetails(current)
+      );
+    },
+    async (location, startMs, endMs) => {
+      const place = await resolveCoordinates(location);
+      const endpoint = endMs < Date.now() - ARCHIVE_LAG_MS
+        ? 'https://archive-api.open-meteo.com/v1/archive'
+        : 'https://api.open-meteo.com/v1/forecast';
+      const data = await getJson<OpenMeteoHourly>(
+        `${endpoint}?latitude=${place.latitude}&longitude=${place.longitude}` +
+          `&start_date=${utcDate(startMs)}&end_date=${utcDate(endMs)}` +
+          `&hourly=${OPEN_METEO_VARIABLES.join(',')}&timeformat=unixtime`,
+        'Open-Meteo history'
+      );
+      const hourly = data.hourly ?? {};
+      const observations: WeatherObservation[] = [];
+      (hourly.time ?? []).forEach((time, i) => {
+        const at = (variable: OpenMeteoVariable) => hourly[variable]?.[i] ?? null;
+        const temperature = at('temperature_2m');
+        const humidity = at('relative_humidity_2m');
+        const ms = time * 1000;
+        // Hours not yet in the archive come back as nulls.
+        if (ms < startMs || ms >= endMs || temperature == null || humidity == null) return;
+        observations.push(toObservation('open-meteo', temperature, humidity, time, openMeteoDetails({
+          dew_point_2m: at('dew_point_2m'),
+          pressure_msl: at('pressure_msl'),
+          wind_speed_10m: at('wind_speed_10m'),
+          wind_direction_10m: at('wind_direction_10m'),
+          cloud_cover: at('cloud_cover'),
+          precipitation: at('precipitation'),
+          weather_code: at('weather_code'),
+        })));
+      });
+      return observations;
+    }
+  );
+}
+
+export function isWeatherProviderName(value: string): value is WeatherProviderName {
+  return (WEATHER_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Providers in `WEATHER_PROVIDERS` order (comma-separated, default
+ * `weatherapi,open-meteo`). Unknown names and providers missing their key are
+ * reported in `skipped` rather than failing every fetch.
+ */
+export function providersFromEnv(env: Record<string, string | undefined> = process.env): {
+  providers: WeatherProvider[];
+  skipped: string[];
+} {
+  const requested = env.WEATHER_PROVIDERS
+    ? env.WEATHER_PROVIDERS.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_WEATHER_PROVIDERS;
+
+  const providers: WeatherProvider[] = [];
+  const skipped: string[] = [];
+  for (const name of new Set(requested)) {
+    if (!isWeatherProviderName(name)) {
+      skipped.push(`${name}: unknown provider`);
+    } else if (name === 'weatherapi') {
+      if (env.WEATHER_API_KEY) providers.push(createWeatherApiProvider(env.WEATHER_API_KEY));
+      else skipped.push('weatherapi: WEATHER_API_KEY not configured');
+    } else {
+      providers.push(createOpenMeteoProvider());
+    }
+  }
+  return { providers, skipped };
+}
+
+/**
+ * Hourly history from the first provider with an archive that answers.
+ * WeatherAPI's history endpoint needs a paid plan, so it has none here.
+ */
+export async function fetchWeatherHistory(
+  providers: WeatherProvider[],
+  location: WeatherLocation,
+  startMs: number,
+  endMs: number
+): Promise<{ observations: WeatherObservation[] | null; errors: string[] }> {
+  const errors: string[] = [];
+  for (const provider of providers) {
+    if (!provider.history) continue;
+    const result = await provider.history(location, startMs, endMs);
+    if (result.ok) return { observations: result.observations, errors };
+    errors.push(`${result.provider}: ${result.error}`);
+  }
+  if (errors.length === 0) errors.push('No configured weather provider offers history');
+  return { observations: null, errors };
+}
+
+/**
+ * Tries each provider in order and returns the first observation, plus the
+ * errors from providers that failed before it.
+ */
+export async function fetchCurrentWeather(
+  providers: WeatherProvider[],
+  location: WeatherLocation
+): Promise<{ observation: WeatherObservation | null; errors: string[] }> {
+  const errors: string[] = [];
+  for (const provider of providers) {
+    const result = await provider.current(location);
+    if (result.ok) return { observation: result.observation, errors };
+    errors.push(`${result.provider}: ${result.error}`);
+  }
+  return { observation: null, errors };
+}